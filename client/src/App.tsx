@@ -13,6 +13,12 @@ import Profile from "@/pages/profile";
 import Pricing from "@/pages/pricing";
 import Footer from "@/components/Footer";
 import Settings from "@/pages/settings";
+import Workspaces from "@/pages/workspaces";
+import WorkspacePage from "@/pages/workspace";
+import Invitation from "@/pages/invitation";
+import SharedComponentPage from "@/pages/shared-component";
+import Gallery from "@/pages/gallery";
+import GalleryComponentPage from "@/pages/gallery-component";
 
 class ErrorBoundary extends Component<
   { children: ReactNode },
@@ -58,6 +64,11 @@ function Router() {
   // Only show Footer on landing page
   const showFooter = location === '/';
 
+  // Embedded previews render without the app's navigation
+  if (location.startsWith('/embed/')) {
+    return <Route path="/embed/:token" component={SharedComponentPage} />;
+  }
+
   return (
     <div className="min-h-screen flex flex-col bg-gray-900 dark">
       <Navbar />
@@ -69,6 +80,12 @@ function Router() {
           <Route path="/pricing" component={Pricing} />
           <Route path="/profile" component={Profile} />
           <Route path="/settings" component={Settings} />
+          <Route path="/workspaces" component={Workspaces} />
+          <Route path="/workspaces/:id" component={WorkspacePage} />
+          <Route path="/invitations/:token" component={Invitation} />
+          <Route path="/s/:token" component={SharedComponentPage} />
+          <Route path="/gallery" component={Gallery} />
+          <Route path="/gallery/:id" component={GalleryComponentPage} />
           <Route component={NotFound} />
         </Switch>
       </div>
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { auth } from "@/lib/firebase";
 import { useEffect, useState } from "react";
 import { CardHeader } from "@/components/ui/card"; // Added import for CardHeader
+import { WorkspaceSwitcher } from "@/components/workspace-switcher";
 
 export default function Navbar() {
   const [user, setUser] = useState(auth.currentUser);
@@ -33,14 +34,21 @@ export default function Navbar() {
           </a>
         </Link>
         <div className="flex items-center gap-4 pr-4">
+          <Link href="/gallery">
+            <Button variant="ghost" className="text-gray-300 hover:text-white hover:bg-gray-700">Gallery</Button>
+          </Link>
           <Link href="/pricing">
             <Button variant="ghost" className="text-gray-300 hover:text-white hover:bg-gray-700">Pricing</Button>
           </Link>
           {user ? (
             <>
+              <WorkspaceSwitcher />
               <Link href="/dashboard">
                 <Button variant="ghost" className="text-gray-300 hover:text-white hover:bg-gray-700">Dashboard</Button>
               </Link>
+              <Link href="/workspaces">
+                <Button variant="ghost" className="text-gray-300 hover:text-white hover:bg-gray-700">Workspaces</Button>
+              </Link>
               <Link href="/settings">
                 <Button variant="ghost" className="text-gray-300 hover:text-white hover:bg-gray-700">Settings</Button>
               </Link>
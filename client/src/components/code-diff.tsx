@@ -0,0 +1,54 @@
+import { useMemo } from "react"
+import { diffSideBySide, type DiffLineType } from "@/lib/diff"
+
+interface CodeDiffProps {
+  leftCode: string
+  rightCode: string
+  leftLabel: string
+  rightLabel: string
+}
+
+const leftLineStyles: Record<DiffLineType, string> = {
+  unchanged: "text-gray-300",
+  added: "bg-gray-800/60",
+  removed: "bg-red-900/40 text-red-200",
+  changed: "bg-red-900/30 text-red-200",
+}
+
+const rightLineStyles: Record<DiffLineType, string> = {
+  unchanged: "text-gray-300",
+  added: "bg-green-900/40 text-green-200",
+  removed: "bg-gray-800/60",
+  changed: "bg-green-900/30 text-green-200",
+}
+
+export function CodeDiff({ leftCode, rightCode, leftLabel, rightLabel }: CodeDiffProps) {
+  const rows = useMemo(() => diffSideBySide(leftCode, rightCode), [leftCode, rightCode])
+  const changedRows = rows.filter(row => row.type !== "unchanged").length
+
+  return (
+    <div className="bg-gray-900 rounded-lg overflow-hidden border border-gray-700">
+      <div className="grid grid-cols-2 border-b border-gray-700 text-xs font-medium text-gray-400">
+        <div className="px-3 py-2 border-r border-gray-700">{leftLabel}</div>
+        <div className="px-3 py-2 flex items-center justify-between">
+          <span>{rightLabel}</span>
+          <span className="text-gray-500">{changedRows} changed {changedRows === 1 ? "line" : "lines"}</span>
+        </div>
+      </div>
+      <div className="overflow-auto font-mono text-xs">
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-2">
+            <div className={`flex border-r border-gray-700 ${leftLineStyles[row.type]}`}>
+              <span className="w-10 shrink-0 text-right pr-2 text-gray-600 select-none">{row.left?.lineNumber ?? ""}</span>
+              <pre className="whitespace-pre-wrap break-all pr-2">{row.left?.text ?? ""}</pre>
+            </div>
+            <div className={`flex ${rightLineStyles[row.type]}`}>
+              <span className="w-10 shrink-0 text-right pr-2 text-gray-600 select-none">{row.right?.lineNumber ?? ""}</span>
+              <pre className="whitespace-pre-wrap break-all pr-2">{row.right?.text ?? ""}</pre>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,14 +1,25 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Link } from "wouter"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
-import type { GeneratedComponent } from "@/lib/types"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import type { ExportFormat, Framework, GeneratedComponent } from "@/lib/types"
 import { useComponentStore } from "@/lib/store"
-import { generateComponent } from "@/lib/api"
-import { CodeIcon, DownloadIcon, TagIcon, LayersIcon, Share2Icon, PlusIcon, EditIcon, ArrowLeftIcon, Palette, Trash2Icon } from 'lucide-react'
+import { generateComponent, loadComponentVersions, loadGalleryComponent, exportComponent } from "@/lib/api"
+import { auth } from "@/lib/firebase"
+import { CodeIcon, DownloadIcon, TagIcon, LayersIcon, Share2Icon, HistoryIcon, EditIcon, ArrowLeftIcon, Palette, Trash2Icon, RotateCcwIcon, ArrowRightLeft, Loader2, GitFork } from 'lucide-react'
+import { DEFAULT_VIEWPORT } from "@/lib/viewports"
+import { FRAMEWORK_OPTIONS, getFrameworkOption } from "@/lib/frameworks"
 import { toast } from "@/hooks/use-toast"
-import { ComponentPreview } from "./component-preview"
+import { useUsage } from "@/hooks/useUsage"
+import { DevicePreview } from "./device-preview"
+import { ThemePicker } from "./theme-picker"
+import { ViewportToolbar } from "./viewport-toolbar"
+import { CodeDiff } from "./code-diff"
+import { ShareDialog } from "./share-links"
 import { UISelectorHighlights } from "./ui-selector-highlights"
 
 interface ComponentEditorProps {
@@ -23,12 +34,46 @@ interface ComponentEditorProps {
 
 export function ComponentEditor({ component, onClose, onUISelectorToggle, isUISelectorActive = false, onElementSelect, onComponentCodeChange, currentCode }: ComponentEditorProps) {
   const [activeTab, setActiveTab] = useState('preview')
+  const [isShareOpen, setIsShareOpen] = useState(false)
   const [version, setVersion] = useState(component.version.toString())
+  const [compareVersion, setCompareVersion] = useState<string>("")
+  const [isRestoring, setIsRestoring] = useState(false)
   const [editPrompt, setEditPrompt] = useState("")
   const [isEditing, setIsEditing] = useState(false)
   const [componentCode, setComponentCode] = useState(component.code)
   const [selectedElement, setSelectedElement] = useState<any>(null)
-  const { updateComponent, removeComponent } = useComponentStore()
+  const [codeLanguage, setCodeLanguage] = useState<'jsx' | 'typescript'>('jsx')
+  const [isConverting, setIsConverting] = useState(false)
+  const [convertingTo, setConvertingTo] = useState<Framework | null>(null)
+  const { components, updateComponent, removeComponent, restoreVersion, convertToTypeScript, convertFramework, setSelectedComponent, viewports, setViewport, theme } = useComponentStore()
+  const { usage } = useUsage()
+  // Formats outside the plan stay visible so the upgrade is discoverable
+  const canExport = (format: ExportFormat) => !usage || usage.features.exportFormats.includes(format)
+  const viewport = viewports[component.id] ?? DEFAULT_VIEWPORT
+  const framework = getFrameworkOption(component.framework)
+  const isReact = framework.id === "react"
+  const sourceComponent = component.sourceComponentId ? components.find(c => c.id === component.sourceComponentId) : undefined
+
+  const { data: versions = [] } = useQuery({
+    queryKey: ['componentVersions', component.id, component.version],
+    queryFn: () => loadComponentVersions(component.id),
+    enabled: !!auth.currentUser,
+  })
+
+  // The original is only readable while it is still in the gallery
+  const { data: forkSource, isError: isForkSourceGone } = useQuery({
+    queryKey: ['gallery-component', component.forkedFrom],
+    queryFn: () => loadGalleryComponent(component.forkedFrom!),
+    enabled: !!component.forkedFrom,
+    retry: false,
+  })
+
+  const currentVersion = component.version.toString()
+  const selectedVersion = versions.find(v => v.version.toString() === version)
+  const baseVersion = versions.find(v => v.version.toString() === compareVersion)
+  const selectedCode = version === currentVersion ? component.code : selectedVersion?.code ?? component.code
+  // Only the latest version has a stored TypeScript conversion
+  const showTypeScript = isReact && codeLanguage === 'typescript' && version === currentVersion
 
   // Update local state when component prop changes
   useEffect(() => {
@@ -46,6 +91,21 @@ export function ComponentEditor({ component, onClose, onUISelectorToggle, isUISe
     onComponentCodeChange?.(component.code)
   }, [component.id, onUISelectorToggle, onComponentCodeChange])
 
+  // Follow the latest version after edits and restores
+  useEffect(() => {
+    setVersion(component.version.toString())
+    setCompareVersion("")
+  }, [component.id, component.version])
+
+  // Default the diff base to the version preceding the selected one
+  useEffect(() => {
+    if (compareVersion || versions.length < 2) return
+    const previous = versions.find(v => v.version < Number(version))
+    if (previous) {
+      setCompareVersion(previous.version.toString())
+    }
+  }, [versions, version, compareVersion])
+
   // Update local state when currentCode prop changes (from UI selector updates)
   useEffect(() => {
     if (currentCode && currentCode !== componentCode) {
@@ -73,14 +133,22 @@ export function ComponentEditor({ component, onClose, onUISelectorToggle, isUISe
         originalName: component.name,
         originalCreatedAt: component.createdAt,
         originalVersion: component.version,
+        framework: framework.id,
+        theme,
       })
 
       updateComponent(component.id, updatedComponentData)
       setComponentCode(updatedComponentData.code)
 
+      const validationErrors = updatedComponentData.validation?.errors ?? []
       toast({
-        title: "Success",
-        description: "Component updated successfully!",
+        title: validationErrors.length > 0 ? "Updated with errors" : "Success",
+        description: validationErrors.length > 0
+          ? `The updated code has ${validationErrors.length} validation error(s): ${validationErrors[0].message}`
+          : updatedComponentData.servedByFallback
+            ? `Component updated successfully! (served by fallback model ${updatedComponentData.model})`
+            : "Component updated successfully!",
+        variant: validationErrors.length > 0 ? "destructive" : "default",
       })
 
       setEditPrompt("")
@@ -107,6 +175,95 @@ export function ComponentEditor({ component, onClose, onUISelectorToggle, isUISe
     updateComponent(componentId, updatedComponent)
   }
 
+  const handleVersionChange = (value: string) => {
+    setVersion(value)
+    if (value !== currentVersion) {
+      setCompareVersion(currentVersion)
+      setActiveTab('history')
+    }
+  }
+
+  const handleRestoreVersion = async () => {
+    if (version === currentVersion) return
+
+    setIsRestoring(true)
+    try {
+      await restoreVersion(component.id, Number(version))
+
+      toast({
+        title: "Version Restored",
+        description: `Version ${version} has been restored as the latest version.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore version. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const handleShowTypeScript = async () => {
+    setCodeLanguage('typescript')
+    if (component.typescriptCode) return
+
+    setIsConverting(true)
+    try {
+      await convertToTypeScript(component.id)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to convert component to TypeScript.",
+        variant: "destructive",
+      })
+      setCodeLanguage('jsx')
+    } finally {
+      setIsConverting(false)
+    }
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      await exportComponent(component.id, format)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export component. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Saves a converted copy as a new component and opens it
+  const handleConvert = async (target: Framework) => {
+    const targetLabel = getFrameworkOption(target).label
+    setConvertingTo(target)
+    try {
+      const converted = await convertFramework(component.id, target)
+      if (!converted) return
+
+      setSelectedComponent(converted)
+      const validationErrors = converted.validation?.errors ?? []
+      toast({
+        title: validationErrors.length > 0 ? "Converted with errors" : "Success",
+        description: validationErrors.length > 0
+          ? `The ${targetLabel} version has ${validationErrors.length} validation error(s): ${validationErrors[0].message}`
+          : `Converted to ${targetLabel}. "${component.name}" is unchanged.`,
+        variant: validationErrors.length > 0 ? "destructive" : "default",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to convert component to ${targetLabel}.`,
+        variant: "destructive",
+      })
+    } finally {
+      setConvertingTo(null)
+    }
+  }
+
   const handleDeleteComponent = () => {
     if (confirm(`Are you sure you want to delete "${component.name}"? This action cannot be undone.`)) {
       removeComponent(component.id)
@@ -131,14 +288,57 @@ export function ComponentEditor({ component, onClose, onUISelectorToggle, isUISe
               <ArrowLeftIcon className="h-5 w-5" />
             </button>
             <h2 className="text-xl font-semibold text-white">{component.name}</h2>
+            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-700 text-gray-300">{framework.label}</span>
           </div>
           <div className="flex items-center gap-2">
-            <button className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md" title="Share Component">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md disabled:opacity-50"
+                  title="Convert to another framework"
+                  disabled={convertingTo !== null}
+                >
+                  {convertingTo ? <Loader2 className="h-5 w-5 animate-spin" /> : <ArrowRightLeft className="h-5 w-5" />}
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="bg-gray-800 border-gray-700 text-gray-200">
+                {FRAMEWORK_OPTIONS.filter(option => option.id !== framework.id).map(option => (
+                  <DropdownMenuItem key={option.id} onClick={() => handleConvert(option.id)} className="focus:bg-gray-700 focus:text-white">
+                    Convert to {option.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <button onClick={() => setIsShareOpen(true)} className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md" title="Share Component">
               <Share2Icon className="h-5 w-5" />
             </button>
-            <button className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md" title="Download Component">
-              <DownloadIcon className="h-5 w-5" />
-            </button>
+            {isShareOpen && <ShareDialog component={component} open onOpenChange={setIsShareOpen} />}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md" title="Download Component">
+                  <DownloadIcon className="h-5 w-5" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="bg-gray-800 border-gray-700 text-gray-200">
+                {isReact ? (
+                  <>
+                    <DropdownMenuItem onClick={() => handleExport('tsx')} className="focus:bg-gray-700 focus:text-white">
+                      React component (.tsx)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('vite')} disabled={!canExport('vite')} className="focus:bg-gray-700 focus:text-white">
+                      Vite + Tailwind project (.zip){canExport('vite') ? "" : " (Pro)"}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('npm')} disabled={!canExport('npm')} className="focus:bg-gray-700 focus:text-white">
+                      npm package (.zip){canExport('npm') ? "" : " (Pro)"}
+                    </DropdownMenuItem>
+                  </>
+                ) : (
+                  <DropdownMenuItem onClick={() => handleExport('tsx')} className="focus:bg-gray-700 focus:text-white">
+                    {framework.label} source (.{framework.extension})
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
             <button 
               onClick={handleDeleteComponent}
               className="p-2 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-md" 
@@ -154,11 +354,43 @@ export function ComponentEditor({ component, onClose, onUISelectorToggle, isUISe
             <select 
               className="bg-transparent border-none focus:outline-none text-indigo-400 font-medium" 
               value={version} 
-              onChange={e => setVersion(e.target.value)}
+              onChange={e => handleVersionChange(e.target.value)}
             >
-              <option value={component.version.toString()}>Version {component.version}</option>
+              {versions.length === 0 ? (
+                <option value={currentVersion}>Version {component.version}</option>
+              ) : (
+                versions.map(v => (
+                  <option key={v.version} value={v.version.toString()}>
+                    Version {v.version}{v.version === component.version ? " (current)" : ""}
+                  </option>
+                ))
+              )}
             </select>
           </div>
+          {component.sourceComponentId && (
+            <div className="flex items-center ml-4">
+              <ArrowRightLeft className="h-4 w-4 mr-1" />
+              {sourceComponent ? (
+                <button onClick={() => setSelectedComponent(sourceComponent)} className="text-indigo-400 hover:text-indigo-300">
+                  Converted from {sourceComponent.name}
+                </button>
+              ) : (
+                <span>Converted from a deleted component</span>
+              )}
+            </div>
+          )}
+          {component.forkedFrom && (
+            <div className="flex items-center ml-4">
+              <GitFork className="h-4 w-4 mr-1" />
+              {isForkSourceGone ? (
+                <span>Forked from a component that is no longer shared</span>
+              ) : (
+                <Link href={`/gallery/${component.forkedFrom}`}>
+                  <a className="text-indigo-400 hover:text-indigo-300">Forked from {forkSource?.name ?? "a gallery component"}</a>
+                </Link>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -184,10 +416,16 @@ export function ComponentEditor({ component, onClose, onUISelectorToggle, isUISe
             >
               Edit
             </button>
+            <button 
+              className={`px-4 py-2 text-sm font-medium ${activeTab === 'history' ? 'text-indigo-400 border-b-2 border-indigo-500' : 'text-gray-400 hover:text-gray-300'}`} 
+              onClick={() => setActiveTab('history')}
+            >
+              History
+            </button>
           </div>
           
-          {/* UI Selector Toggle - only show on preview tab */}
-          {activeTab === 'preview' && (
+          {/* UI Selector Toggle - only show on preview tab. Style edits are written as React props. */}
+          {activeTab === 'preview' && isReact && (
             <div className="px-4">
               <button
                 onClick={() => onUISelectorToggle?.(!isUISelectorActive)}
@@ -208,9 +446,15 @@ export function ComponentEditor({ component, onClose, onUISelectorToggle, isUISe
       
       <div className="flex-1 p-6 overflow-auto bg-gray-800">
         {activeTab === 'preview' && (
-          <div className="border border-gray-600 rounded-lg overflow-hidden relative">
-            <div className="component-preview-area">
-              <ComponentPreview code={componentCode} />
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <ViewportToolbar
+                viewport={viewport}
+                onChange={next => setViewport(component.id, next)}
+              />
+              <ThemePicker id="editor-theme" />
+            </div>
+            <DevicePreview code={componentCode} framework={framework.id} viewport={viewport} inspect={isUISelectorActive && isReact}>
               <UISelectorHighlights 
                 isActive={isUISelectorActive}
                 onElementSelect={(element) => {
@@ -218,13 +462,93 @@ export function ComponentEditor({ component, onClose, onUISelectorToggle, isUISe
                   onElementSelect?.(element);
                 }}
               />
-            </div>
+            </DevicePreview>
           </div>
         )}
         
         {activeTab === 'code' && (
-          <div className="bg-gray-900 text-gray-300 p-4 rounded-lg font-mono text-sm overflow-auto">
-            <pre>{component.code}</pre>
+          <div className="space-y-3">
+            {isReact && (
+              <div className="flex items-center gap-3">
+                <div className="inline-flex items-center gap-1 bg-gray-900 border border-gray-700 rounded-lg p-1">
+                  <button
+                    onClick={() => setCodeLanguage('jsx')}
+                    className={`px-3 py-1 text-xs font-medium rounded-md ${!showTypeScript ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-300'}`}
+                  >
+                    JSX
+                  </button>
+                  <button
+                    onClick={handleShowTypeScript}
+                    disabled={version !== currentVersion || isConverting}
+                    className={`px-3 py-1 text-xs font-medium rounded-md disabled:opacity-50 disabled:cursor-not-allowed ${showTypeScript ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-300'}`}
+                    title={version !== currentVersion ? "TypeScript is only available for the latest version" : "Typed .tsx with an inferred Props interface"}
+                  >
+                    TypeScript
+                  </button>
+                </div>
+                {isConverting && <span className="text-xs text-gray-400">Converting...</span>}
+              </div>
+            )}
+            <div className="bg-gray-900 text-gray-300 p-4 rounded-lg font-mono text-sm overflow-auto">
+              <pre>{showTypeScript ? component.typescriptCode ?? "" : selectedCode}</pre>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'history' && (
+          <div className="space-y-4">
+            {versions.length < 2 ? (
+              <div className="text-center py-12 border-2 border-dashed border-gray-600 rounded-lg">
+                <HistoryIcon className="h-10 w-10 text-gray-500 mx-auto mb-3" />
+                <h3 className="text-lg font-medium text-white mb-1">No previous versions</h3>
+                <p className="text-gray-400 text-sm">Edits to this component will show up here</p>
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+                  <span>Compare</span>
+                  <select
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    value={compareVersion}
+                    onChange={e => setCompareVersion(e.target.value)}
+                  >
+                    {versions.map(v => (
+                      <option key={v.version} value={v.version.toString()}>Version {v.version}</option>
+                    ))}
+                  </select>
+                  <span>with</span>
+                  <select
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    value={version}
+                    onChange={e => setVersion(e.target.value)}
+                  >
+                    {versions.map(v => (
+                      <option key={v.version} value={v.version.toString()}>Version {v.version}</option>
+                    ))}
+                  </select>
+                  <Button
+                    onClick={handleRestoreVersion}
+                    disabled={isRestoring || version === currentVersion}
+                    className="ml-auto bg-indigo-600 hover:bg-indigo-700"
+                    size="sm"
+                  >
+                    <RotateCcwIcon className="h-3.5 w-3.5 mr-1" />
+                    {isRestoring ? "Restoring..." : `Restore Version ${version}`}
+                  </Button>
+                </div>
+                {selectedVersion && (
+                  <div className="text-xs text-gray-400">
+                    Version {selectedVersion.version} saved {new Date(selectedVersion.createdAt).toLocaleString()} · "{selectedVersion.prompt}"
+                  </div>
+                )}
+                <CodeDiff
+                  leftCode={baseVersion?.code ?? ""}
+                  rightCode={selectedCode}
+                  leftLabel={baseVersion ? `Version ${baseVersion.version}` : "Select a version"}
+                  rightLabel={`Version ${version}`}
+                />
+              </>
+            )}
           </div>
         )}
         
@@ -278,9 +602,12 @@ export function ComponentEditor({ component, onClose, onUISelectorToggle, isUISe
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-gray-300">Current Version: v{component.version}</span>
-                  <button className="flex items-center gap-1 bg-gray-600 hover:bg-gray-500 px-3 py-1 rounded-md text-sm text-gray-200">
-                    <PlusIcon className="h-3.5 w-3.5" />
-                    New Version
+                  <button 
+                    onClick={() => setActiveTab('history')}
+                    className="flex items-center gap-1 bg-gray-600 hover:bg-gray-500 px-3 py-1 rounded-md text-sm text-gray-200"
+                  >
+                    <HistoryIcon className="h-3.5 w-3.5" />
+                    View History
                   </button>
                 </div>
                 <div className="text-sm text-gray-400">
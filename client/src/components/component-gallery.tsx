@@ -1,8 +1,11 @@
 import { useState, useEffect } from "react"
 import { useComponentStore } from "@/lib/store"
-import { LibraryIcon, FilterIcon, DownloadIcon, TagIcon, Trash2Icon, Loader2Icon } from "lucide-react"
+import { LibraryIcon, FilterIcon, DownloadIcon, TagIcon, Trash2Icon, Loader2Icon, CheckIcon } from "lucide-react"
 import { toast } from "@/hooks/use-toast"
 import { auth } from "@/lib/firebase"
+import { exportComponents } from "@/lib/api"
+import { getFrameworkOption } from "@/lib/frameworks"
+import { useWorkspaces } from "@/hooks/useWorkspaces"
 
 interface ComponentGalleryProps {
   isSelectionLocked?: boolean;
@@ -15,12 +18,18 @@ export function ComponentGallery({ isSelectionLocked = false }: ComponentGallery
     removeComponent, 
     selectedComponent,
     loadUserComponents,
+    workspaceId,
     isLoading,
     error,
     clearError
   } = useComponentStore()
   const [filter, setFilter] = useState('')
   const [user, setUser] = useState(auth.currentUser)
+  const [exportSelection, setExportSelection] = useState<string[]>([])
+  const [isExporting, setIsExporting] = useState(false)
+  const { workspaces } = useWorkspaces()
+  const workspace = workspaces.find(option => option.id === workspaceId)
+  const isReadOnly = workspace?.role === "viewer"
 
   // Listen for auth state changes
   useEffect(() => {
@@ -67,12 +76,51 @@ export function ComponentGallery({ isSelectionLocked = false }: ComponentGallery
     }
   }
 
+  const toggleExportSelection = (e: React.MouseEvent, componentId: string) => {
+    e.stopPropagation() // Prevent card click when toggling selection
+    setExportSelection(selection =>
+      selection.includes(componentId)
+        ? selection.filter(id => id !== componentId)
+        : [...selection, componentId]
+    )
+  }
+
+  // Exports the checked components, or the whole library when none are checked
+  const handleExport = async () => {
+    if (!user) return
+
+    setIsExporting(true)
+    try {
+      const selection = exportSelection.filter(id => components.some(component => component.id === id))
+      await exportComponents(selection.length > 0 ? selection : undefined, workspaceId)
+      toast({
+        title: "Export Ready",
+        description: selection.length > 0
+          ? `Exported ${selection.length} component${selection.length === 1 ? '' : 's'}.`
+          : "Exported your whole component library.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export components. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
     return (
     <div className="flex-1 p-4">
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center gap-2">
           <LibraryIcon className="h-5 w-5 text-indigo-400" />
-          <h2 className="text-xl font-semibold text-white">Component Library</h2>
+          <h2 className="text-xl font-semibold text-white">{workspace ? workspace.name : "Component Library"}</h2>
+          {isReadOnly && (
+            <span className="text-xs bg-gray-700 text-gray-300 px-2 py-1 rounded-full">
+              View only
+            </span>
+          )}
           {isSelectionLocked && (
             <span className="text-xs bg-yellow-600 text-yellow-100 px-2 py-1 rounded-full">
               Viewing locked component
@@ -95,8 +143,16 @@ export function ComponentGallery({ isSelectionLocked = false }: ComponentGallery
           <button className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md">
             <FilterIcon className="h-5 w-5" />
           </button>
-          <button className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md">
-            <DownloadIcon className="h-5 w-5" />
+          <button
+            onClick={handleExport}
+            disabled={!user || components.length === 0 || isExporting}
+            className="flex items-center gap-1 p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            title={exportSelection.length > 0 ? `Export ${exportSelection.length} selected` : "Export all components"}
+          >
+            {isExporting ? <Loader2Icon className="h-5 w-5 animate-spin" /> : <DownloadIcon className="h-5 w-5" />}
+            {exportSelection.length > 0 && (
+              <span className="text-xs font-medium">{exportSelection.length}</span>
+            )}
           </button>
         </div>
       </div>
@@ -170,8 +226,21 @@ export function ComponentGallery({ isSelectionLocked = false }: ComponentGallery
                 }
               }}
             >
+              {/* Export Selection */}
+              <button
+                onClick={(e) => toggleExportSelection(e, component.id)}
+                className={`absolute top-2 left-2 z-10 h-5 w-5 flex items-center justify-center rounded border transition-opacity ${
+                  exportSelection.includes(component.id)
+                    ? 'bg-indigo-600 border-indigo-500 text-white opacity-100'
+                    : 'bg-gray-800/80 border-gray-500 text-transparent opacity-0 group-hover:opacity-100'
+                }`}
+                title={exportSelection.includes(component.id) ? "Remove from export" : "Select for export"}
+              >
+                <CheckIcon className="h-3 w-3" />
+              </button>
+
               {/* Delete Button */}
-              {!isSelectionLocked && (
+              {!isSelectionLocked && !isReadOnly && (
                 <button
                   onClick={(e) => handleDeleteComponent(e, component.id, component.name)}
                   className="absolute top-2 right-2 z-10 p-1.5 bg-red-600 hover:bg-red-700 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
@@ -202,7 +271,7 @@ export function ComponentGallery({ isSelectionLocked = false }: ComponentGallery
                 <div className="flex items-center justify-between mt-2">
                   <div className="flex items-center text-sm text-gray-400">
                     <TagIcon className="h-3.5 w-3.5 mr-1" />
-                    <span className="truncate">AI Generated</span>
+                    <span className="truncate">{getFrameworkOption(component.framework).label}</span>
                   </div>
                   <div className="text-xs bg-gray-600 px-2 py-0.5 rounded text-gray-300">
                     v{component.version}
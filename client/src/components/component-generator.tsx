@@ -1,10 +1,17 @@
 import { useState, useRef, useCallback, useEffect } from "react"
-import { Sparkles, Upload, ImageIcon, ScanIcon, X, Bot, User, Loader2 } from "lucide-react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { Sparkles, Upload, ImageIcon, ScanIcon, X, Bot, User, Loader2, Square, History, Plus, Trash2, LayoutGrid, Check, Code2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { useComponentStore } from "@/lib/store"
-import { generateComponent } from "@/lib/api"
+import { loadAIModels, streamComponent, generateComponentVariants, loadSessions, createSession, deleteSession, loadSessionMessages, addSessionMessage } from "@/lib/api"
+import { auth } from "@/lib/firebase"
+import type { Framework, GeneratedComponent, GenerationSession, SessionMessage } from "@/lib/types"
+import { FRAMEWORK_OPTIONS } from "@/lib/frameworks"
+import { useUsage } from "@/hooks/useUsage"
 import { toast } from "@/hooks/use-toast"
+import { ComponentPreview } from "./component-preview"
+import { ThemePicker } from "./theme-picker"
 
 interface ChatMessage {
   id: string
@@ -14,6 +21,42 @@ interface ChatMessage {
   type?: 'thinking' | 'result'
 }
 
+interface StreamingState {
+  status: string
+  name?: string
+  description?: string
+  code: string
+  codeComplete: boolean
+}
+
+const emptyStreamingState: StreamingState = {
+  status: "Starting generation...",
+  code: "",
+  codeComplete: false,
+}
+
+function toChatMessage(message: SessionMessage): ChatMessage {
+  return {
+    id: `session-${message.id}`,
+    role: message.role === 'user' ? 'user' : 'ai',
+    content: message.role === 'assistant' && message.code
+      ? `✨ Generated "${message.componentName}"\n\n${message.content}`
+      : message.content,
+    timestamp: message.createdAt,
+    type: message.role === 'assistant' ? 'result' : undefined,
+  };
+}
+
+// Candidates from a variants request waiting for the user to pick one
+interface VariantCandidates {
+  components: GeneratedComponent[]
+  prompt: string
+  sessionId: number | null
+  sessionComponent?: GeneratedComponent
+}
+
+const MAX_VARIANTS = 4
+
 interface ComponentGeneratorProps {
   onComponentGenerated?: (component: any) => void;
 }
@@ -24,18 +67,53 @@ export function ComponentGenerator({ onComponentGenerated }: ComponentGeneratorP
   const [uploadedImage, setUploadedImage] = useState<string | null>(null)
   const [imageFile, setImageFile] = useState<File | null>(null)
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [streaming, setStreaming] = useState<StreamingState | null>(null)
+  const [selectedModel, setSelectedModel] = useState("")
+  const [sessionId, setSessionId] = useState<number | null>(null)
+  // Component produced by the session so far; follow-up prompts edit it
+  const [sessionComponentId, setSessionComponentId] = useState<string | null>(null)
+  const [showSessions, setShowSessions] = useState(false)
+  const [variantCount, setVariantCount] = useState(1)
+  const [variantCandidates, setVariantCandidates] = useState<VariantCandidates | null>(null)
+  const [selectedFramework, setSelectedFramework] = useState<Framework>("react")
 
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const chatContainerRef = useRef<HTMLDivElement>(null)
-  const { addComponent } = useComponentStore()
+  const { components, addComponent, updateComponent, theme } = useComponentStore()
+  const queryClient = useQueryClient()
+  const userId = auth.currentUser?.uid
+  const { usage, refreshUsage } = useUsage()
+  const maxVariants = usage?.features.variants ?? 1
+
+  const { data: sessions = [] } = useQuery({
+    queryKey: ['generationSessions', userId],
+    queryFn: () => loadSessions(),
+    enabled: !!userId,
+  })
+
+  const { data: modelData } = useQuery({
+    queryKey: ['aiModels'],
+    queryFn: loadAIModels,
+  })
+  const models = modelData?.models ?? []
+  const activeModelId = selectedModel || modelData?.defaultModel || ""
+  // Follow-up prompts keep the framework of the component being refined
+  const sessionFramework = sessionComponentId ? (components.find(c => c.id === sessionComponentId)?.framework ?? "react") : undefined
+  const activeFramework = sessionFramework ?? selectedFramework
 
   // Auto-scroll to bottom when new messages are added
   useEffect(() => {
     if (chatContainerRef.current && chatMessages.length > 0) {
       chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
     }
-  }, [chatMessages]);
+  }, [chatMessages, streaming]);
+
+  // Cancel any in-flight generation when the generator unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   const handleImageUpload = useCallback((file: File) => {
     const reader = new FileReader();
@@ -89,9 +167,8 @@ export function ComponentGenerator({ onComponentGenerated }: ComponentGeneratorP
     setChatMessages(prev => [...prev, message]);
   };
 
-  const simulateAIThinking = async () => {
-    // Skip fake thinking messages - just wait a moment for the actual API call
-    await new Promise(resolve => setTimeout(resolve, 100));
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -117,61 +194,229 @@ export function ComponentGenerator({ onComponentGenerated }: ComponentGeneratorP
     }
     addChatMessage('user', userMessage);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setStreaming(emptyStreamingState);
+
+    const generationPrompt = prompt || "Generate a component based on the provided screenshot";
+    const activeSessionId = await ensureSession(userMessage);
+    const sessionComponent = sessionComponentId ? components.find(c => c.id === sessionComponentId) : undefined;
+
+    const request = {
+      prompt: generationPrompt,
+      screenshot: imageFile,
+      model: activeModelId || undefined,
+      framework: activeFramework,
+      theme,
+      sessionId: activeSessionId ?? undefined,
+      // Follow-up prompts in a session refine the component it already produced
+      ...(sessionComponent && {
+        targetComponent: sessionComponent.id,
+        originalComponentCode: sessionComponent.code,
+        originalName: sessionComponent.name,
+        originalCreatedAt: sessionComponent.createdAt,
+        originalVersion: sessionComponent.version,
+      }),
+    };
+
     try {
-      // Show AI thinking process
-      await simulateAIThinking();
+      if (variantCount > 1) {
+        setStreaming({ ...emptyStreamingState, status: `Generating ${variantCount} variants...` });
+        const { variants, failures } = await generateComponentVariants({ ...request, variants: variantCount }, abortController.signal);
 
-      // Generate the actual component
-      const component = await generateComponent({
-        prompt: prompt || "Generate a component based on the provided screenshot",
-        screenshot: imageFile,
-      });
+        setVariantCandidates({ components: variants, prompt: generationPrompt, sessionId: activeSessionId, sessionComponent });
+        addChatMessage('ai', `🎨 Generated ${variants.length} variants${failures.length > 0 ? ` (${failures.length} failed)` : ''}. Pick the one you want to keep below — the others will be discarded.`, 'result');
+        clearForm();
+        return;
+      }
 
-      addComponent(component);
-      
-      // Notify parent that a new component was generated
-      onComponentGenerated?.(component);
+      // Stream the component so the code shows up as it is written
+      const component = await streamComponent(request, {
+        onStatus: ({ stage, message }) => setStreaming(prev => prev && (
+          // A retry or fallback starts over, so drop the partial output
+          stage === 'retrying'
+            ? { ...emptyStreamingState, status: message }
+            : { ...prev, status: message }
+        )),
+        onName: (name) => setStreaming(prev => prev && { ...prev, name }),
+        onDescription: (description) => setStreaming(prev => prev && { ...prev, description }),
+        onCodeChunk: (chunk, done) => setStreaming(prev => prev && {
+          ...prev,
+          status: done ? "Rendering preview..." : "Writing code...",
+          code: prev.code + chunk,
+          codeComplete: done,
+        }),
+      }, abortController.signal);
+
+      await finishGeneration(component, sessionComponent);
+      clearForm();
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        addChatMessage('ai', 'Generation cancelled.', 'result');
+        recordFailedTurn(activeSessionId, generationPrompt, 'Generation cancelled.');
+        return;
+      }
+
+      console.error('Generation failed:', error);
+      const errorMessage = `❌ Sorry, I encountered an error while generating your component: ${error instanceof Error ? error.message : "Unknown error"}. Please try again.`;
+      addChatMessage('ai', errorMessage, 'result');
+      recordFailedTurn(activeSessionId, generationPrompt, errorMessage);
       
-      // Add final AI response
-      addChatMessage('ai', `✨ Successfully generated "${component.name}"! 
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate component. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setStreaming(null);
+      setIsGenerating(false);
+      refreshUsage();
+    }
+  };
+
+  // Saves a generated (or picked) component and reports it in the chat
+  const finishGeneration = async (component: GeneratedComponent, sessionComponent?: GeneratedComponent) => {
+    if (sessionComponent) {
+      await updateComponent(component.id, component);
+    } else {
+      await addComponent(component);
+    }
+    setSessionComponentId(component.id);
+    queryClient.invalidateQueries({ queryKey: ['generationSessions', userId] });
+    
+    // Notify parent that a new component was generated
+    onComponentGenerated?.(component);
+    
+    // Add final AI response
+    addChatMessage('ai', `✨ Successfully ${sessionComponent ? 'updated' : 'generated'} "${component.name}"! 
 
 **Component Details:**
 - **Name:** ${component.name}
 - **Description:** ${component.description}
 - **Lines of Code:** ~${component.code.split('\n').length} lines
-- **Created:** ${new Date().toLocaleTimeString()}
+- **Created:** ${new Date().toLocaleTimeString()}${component.servedByFallback ? `
+- **Served by fallback:** ${component.model} (after ${(component.attempts?.length ?? 1) - 1} failed attempts)` : ''}${component.validation?.fixed ? `
+- **Auto-fixed:** compile errors in the first draft were corrected` : ''}${component.validation?.errors.length ? `
+
+⚠️ **Validation errors:**
+${component.validation.errors.map(issue => `- ${issue.line ? `Line ${issue.line}: ` : ''}${issue.message}`).join('\n')}` : ''}${component.validation?.warnings.length ? `
+
+**Warnings:**
+${component.validation.warnings.map(issue => `- ${issue.message}`).join('\n')}` : ''}
 
 The component has been added to your library. You can now view it in the Library tab or continue generating more components!`, 'result');
 
-      // Clear form after successful generation
-      setPrompt("");
-      setUploadedImage(null);
-      setImageFile(null);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+    toast({
+      title: "Success",
+      description: "Component generated successfully!",
+      variant: "default",
+    });
+  };
+
+  const clearForm = () => {
+    setPrompt("");
+    setUploadedImage(null);
+    setImageFile(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const pickVariant = async (component: GeneratedComponent) => {
+    if (!variantCandidates) return;
+    const { prompt: variantPrompt, sessionId: variantSessionId, sessionComponent } = variantCandidates;
+    setVariantCandidates(null);
+
+    await finishGeneration(component, sessionComponent);
+
+    // Variant requests aren't recorded by the server, only the pick is
+    if (variantSessionId !== null && userId) {
+      addSessionMessage(variantSessionId, { role: 'user', content: variantPrompt })
+        .then(() => addSessionMessage(variantSessionId, {
+          role: 'assistant',
+          content: component.description,
+          code: component.code,
+          componentId: component.id,
+          componentName: component.name,
+          model: component.model,
+        }))
+        .then(() => queryClient.invalidateQueries({ queryKey: ['generationSessions', userId] }))
+        .catch(() => {});
+    }
+  };
+
+  const discardVariants = () => {
+    if (!variantCandidates) return;
+    recordFailedTurn(variantCandidates.sessionId, variantCandidates.prompt, 'Discarded all variants.');
+    setVariantCandidates(null);
+    addChatMessage('ai', 'Discarded all variants.', 'result');
+  };
+
+  // Sessions are created lazily on the first prompt; generation still works
+  // without one (e.g. signed out or if the sessions API is unavailable)
+  const ensureSession = async (title: string): Promise<number | null> => {
+    if (sessionId !== null || !userId) {
+      return sessionId;
+    }
+    try {
+      const session = await createSession(title.slice(0, 200));
+      setSessionId(session.id);
+      return session.id;
+    } catch (error) {
+      console.error('Failed to create generation session:', error);
+      return null;
+    }
+  };
+
+  // Successful turns are recorded by the server; failed ones are kept so the
+  // chat reads the same when the session is reopened
+  const recordFailedTurn = (activeSessionId: number | null, userPrompt: string, note: string) => {
+    if (activeSessionId === null || !userId) return;
+    addSessionMessage(activeSessionId, { role: 'user', content: userPrompt })
+      .then(() => addSessionMessage(activeSessionId, { role: 'assistant', content: note }))
+      .then(() => queryClient.invalidateQueries({ queryKey: ['generationSessions', userId] }))
+      .catch(() => {});
+  };
 
+  const openSession = async (session: GenerationSession) => {
+    if (!userId || isGenerating) return;
+    try {
+      const { messages } = await loadSessionMessages(session.id);
+      setChatMessages(messages.map(toChatMessage));
+      setSessionId(session.id);
+      setSessionComponentId(session.componentId ?? null);
+      setShowSessions(false);
+    } catch (error) {
       toast({
-        title: "Success",
-        description: "Component generated successfully!",
-        variant: "default",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load session",
+        variant: "destructive",
       });
+    }
+  };
+
+  const removeSession = async (session: GenerationSession) => {
+    if (!userId || !confirm(`Delete the session "${session.title}"? Its components stay in your library.`)) return;
+    try {
+      await deleteSession(session.id);
+      if (session.id === sessionId) {
+        startNewGeneration();
+      }
+      queryClient.invalidateQueries({ queryKey: ['generationSessions', userId] });
     } catch (error) {
-      console.error('Generation failed:', error);
-      addChatMessage('ai', `❌ Sorry, I encountered an error while generating your component: ${error instanceof Error ? error.message : "Unknown error"}. Please try again.`, 'result');
-      
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to generate component. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to delete session",
         variant: "destructive",
       });
-    } finally {
-      setIsGenerating(false);
     }
   };
 
   const startNewGeneration = () => {
     setChatMessages([]);
+    setSessionId(null);
+    setSessionComponentId(null);
     setPrompt("");
     setUploadedImage(null);
     setImageFile(null);
@@ -181,166 +426,350 @@ The component has been added to your library. You can now view it in the Library
   };
 
   return (
-    <div className="flex flex-col h-full">
-      {/* Chat Messages Area */}
-      <div 
-        ref={chatContainerRef}
-        className="flex-1 overflow-y-auto p-4 space-y-4 max-h-[calc(100vh-240px)]"
-      >
-        {chatMessages.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full text-center">
-            <div className="max-w-md">
-              <Sparkles className="h-12 w-12 text-indigo-400 mx-auto mb-4" />
-              <h3 className="text-xl font-medium text-white mb-2">Generate Components with AI</h3>
-              <p className="text-gray-400 mb-6">
-                Describe your component or upload a screenshot to get started. I'll create beautiful React code for you.
-              </p>
-              <div className="space-y-2 text-sm text-gray-500 text-left">
-                <div className="flex items-center gap-2">
-                  <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full"></div>
-                  <span>Paste screenshots directly with Ctrl+V or Cmd+V</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full"></div>
-                  <span>Upload images to recreate exact designs</span>
+    <div className="flex h-full">
+      {/* Past sessions */}
+      {showSessions && (
+        <aside className="w-56 shrink-0 border-r border-gray-700 flex flex-col">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+            <span className="text-sm font-medium text-gray-300">Sessions</span>
+            <button
+              type="button"
+              onClick={() => setShowSessions(false)}
+              className="p-1 text-gray-400 hover:text-gray-200 rounded"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-2 space-y-1">
+            {sessions.length === 0 ? (
+              <p className="text-xs text-gray-500 p-2">No sessions yet. Your conversations will appear here.</p>
+            ) : (
+              sessions.map(session => (
+                <div
+                  key={session.id}
+                  className={`group flex items-start gap-1 rounded-md px-2 py-2 cursor-pointer ${
+                    session.id === sessionId ? 'bg-indigo-600/20 text-indigo-300' : 'text-gray-300 hover:bg-gray-700'
+                  }`}
+                  onClick={() => openSession(session)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm truncate">{session.title}</div>
+                    <div className="text-xs text-gray-500">{session.updatedAt.toLocaleDateString()}</div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={(e) => { e.stopPropagation(); removeSession(session); }}
+                    className="p-1 text-gray-500 hover:text-red-400 rounded opacity-0 group-hover:opacity-100"
+                    title="Delete session"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
                 </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full"></div>
-                  <span>Combine text descriptions with screenshots for best results</span>
+              ))
+            )}
+          </div>
+        </aside>
+      )}
+
+      <div className="flex flex-col h-full flex-1 min-w-0">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+          <button
+            type="button"
+            onClick={() => setShowSessions(!showSessions)}
+            className="flex items-center gap-2 text-sm text-gray-400 hover:text-indigo-400 disabled:opacity-50"
+            disabled={!userId}
+          >
+            <History className="h-4 w-4" />
+            Sessions
+          </button>
+          {chatMessages.length > 0 && (
+            <button
+              type="button"
+              onClick={startNewGeneration}
+              className="flex items-center gap-1 text-sm text-gray-400 hover:text-indigo-400 disabled:opacity-50"
+              disabled={isGenerating}
+            >
+              <Plus className="h-4 w-4" />
+              New session
+            </button>
+          )}
+        </div>
+
+        {/* Chat Messages Area */}
+        <div 
+          ref={chatContainerRef}
+          className="flex-1 overflow-y-auto p-4 space-y-4 max-h-[calc(100vh-240px)]"
+        >
+          {chatMessages.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-center">
+              <div className="max-w-md">
+                <Sparkles className="h-12 w-12 text-indigo-400 mx-auto mb-4" />
+                <h3 className="text-xl font-medium text-white mb-2">Generate Components with AI</h3>
+                <p className="text-gray-400 mb-6">
+                  Describe your component or upload a screenshot to get started. I'll create beautiful React code for you.
+                </p>
+                <div className="space-y-2 text-sm text-gray-500 text-left">
+                  <div className="flex items-center gap-2">
+                    <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full"></div>
+                    <span>Paste screenshots directly with Ctrl+V or Cmd+V</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full"></div>
+                    <span>Upload images to recreate exact designs</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-1.5 h-1.5 bg-indigo-400 rounded-full"></div>
+                    <span>Combine text descriptions with screenshots for best results</span>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-        ) : (
-          <>
-            {chatMessages.map((message) => (
-              <div key={message.id} className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                {message.role === 'ai' && (
-                  <div className="flex-shrink-0">
-                    <div className="w-8 h-8 bg-indigo-600 rounded-full flex items-center justify-center">
-                      <Bot className="w-4 h-4 text-white" />
+          ) : (
+            <>
+              {chatMessages.map((message) => (
+                <div key={message.id} className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  {message.role === 'ai' && (
+                    <div className="flex-shrink-0">
+                      <div className="w-8 h-8 bg-indigo-600 rounded-full flex items-center justify-center">
+                        <Bot className="w-4 h-4 text-white" />
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
                 
-                <div className={`max-w-[80%] rounded-lg px-4 py-3 ${
-                  message.role === 'user' 
-                    ? 'bg-indigo-600 text-white' 
-                    : message.type === 'thinking'
-                      ? 'bg-gray-700 text-gray-300 italic'
-                      : 'bg-gray-700 text-gray-100'
-                }`}>
-                  <div className="text-sm whitespace-pre-wrap">{message.content}</div>
-                  <div className="text-xs opacity-75 mt-1">
-                    {message.timestamp.toLocaleTimeString()}
+                  <div className={`max-w-[80%] rounded-lg px-4 py-3 ${
+                    message.role === 'user' 
+                      ? 'bg-indigo-600 text-white' 
+                      : message.type === 'thinking'
+                        ? 'bg-gray-700 text-gray-300 italic'
+                        : 'bg-gray-700 text-gray-100'
+                  }`}>
+                    <div className="text-sm whitespace-pre-wrap">{message.content}</div>
+                    <div className="text-xs opacity-75 mt-1">
+                      {message.timestamp.toLocaleTimeString()}
+                    </div>
                   </div>
+
+                  {message.role === 'user' && (
+                    <div className="flex-shrink-0">
+                      <div className="w-8 h-8 bg-indigo-600 rounded-full flex items-center justify-center">
+                        <User className="w-4 h-4 text-white" />
+                      </div>
+                    </div>
+                  )}
                 </div>
+              ))}
 
-                {message.role === 'user' && (
+              {/* Live output while the component streams in */}
+              {isGenerating && streaming && (
+                <div className="flex gap-3 justify-start">
                   <div className="flex-shrink-0">
                     <div className="w-8 h-8 bg-indigo-600 rounded-full flex items-center justify-center">
-                      <User className="w-4 h-4 text-white" />
+                      <Bot className="w-4 h-4 text-white" />
                     </div>
                   </div>
-                )}
-              </div>
-            ))}
-
-            {/* Loading indicator when AI is thinking */}
-            {isGenerating && (
-              <div className="flex gap-3 justify-start">
-                <div className="flex-shrink-0">
-                  <div className="w-8 h-8 bg-indigo-600 rounded-full flex items-center justify-center">
-                    <Bot className="w-4 h-4 text-white" />
+                  <div className="max-w-[80%] w-full bg-gray-700 rounded-lg px-4 py-3 space-y-3">
+                    <div className="flex items-center gap-2 text-gray-300">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      <span className="text-sm italic">{streaming.status}</span>
+                    </div>
+                    {streaming.name && (
+                      <div className="text-sm text-gray-100">
+                        <span className="font-medium">{streaming.name}</span>
+                        {streaming.description && <span className="text-gray-400"> — {streaming.description}</span>}
+                      </div>
+                    )}
+                    {streaming.code && (
+                      <pre className="bg-gray-900 text-gray-300 p-3 rounded-md font-mono text-xs max-h-64 overflow-auto whitespace-pre-wrap">
+                        {streaming.code}
+                      </pre>
+                    )}
+                    {streaming.codeComplete && (
+                      <ComponentPreview code={streaming.code} framework={activeFramework} />
+                    )}
                   </div>
                 </div>
-                <div className="bg-gray-700 rounded-lg px-4 py-3">
-                  <div className="flex items-center gap-2 text-gray-300">
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    <span className="text-sm italic">AI is thinking...</span>
+              )}
+
+              {/* Variants waiting for the user to pick one */}
+              {variantCandidates && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-sm text-gray-300">
+                      <LayoutGrid className="h-4 w-4 text-indigo-400" />
+                      Pick a variant
+                    </div>
+                    <button
+                      type="button"
+                      onClick={discardVariants}
+                      className="text-sm text-gray-400 hover:text-red-400"
+                    >
+                      Discard all
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-3">
+                    {variantCandidates.components.map(candidate => (
+                      <div key={candidate.id} className="bg-gray-700 border border-gray-600 rounded-lg p-3 space-y-3">
+                        <div>
+                          <div className="text-sm font-medium text-gray-100">{candidate.name}</div>
+                          <div className="text-xs text-gray-400">
+                            Variant {(candidate.variant?.index ?? 0) + 1} · {candidate.model} · temperature {candidate.variant?.temperature}
+                          </div>
+                        </div>
+                        <ComponentPreview code={candidate.code} framework={candidate.framework} />
+                        <Button
+                          type="button"
+                          onClick={() => pickVariant(candidate)}
+                          className="w-full bg-indigo-600 hover:bg-indigo-700 text-white"
+                        >
+                          <Check className="h-4 w-4 mr-2" />
+                          Use this variant
+                        </Button>
+                      </div>
+                    ))}
                   </div>
                 </div>
-              </div>
-            )}
-          </>
-        )}
-      </div>
-
-      {/* Input Area */}
-      <div className="border-t border-gray-700 p-4">
-        <form onSubmit={handleSubmit} className="space-y-3">
-          {/* Image indicator */}
-          {uploadedImage && (
-            <div className="flex items-center justify-between p-3 bg-gray-700 border border-gray-600 rounded-lg">
-              <div className="flex items-center gap-2 text-gray-300">
-                <ImageIcon className="h-4 w-4" />
-                <span className="text-sm font-medium">Screenshot ready for analysis</span>
-                <span className="text-xs text-gray-500">(Automatically compressed)</span>
-              </div>
-              <button
-                type="button"
-                onClick={removeImage}
-                className="p-1 text-gray-400 hover:text-gray-200 rounded"
-                disabled={isGenerating}
-              >
-                <X className="h-4 w-4" />
-              </button>
-            </div>
+              )}
+            </>
           )}
+        </div>
 
-          <div className="flex gap-2 items-end">
-            <div className="relative flex-1">
-              <Textarea
-                ref={textareaRef}
-                placeholder={chatMessages.length === 0 ? "Describe your component (e.g., 'A modern pricing card with 3 tiers') or paste a screenshot..." : "Ask for modifications or generate another component..."}
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-                onPaste={handlePaste}
-                rows={3}
-                className="resize-none pr-12 bg-gray-700 border-gray-600 text-white placeholder-gray-400 focus:border-indigo-500 focus:ring-indigo-500"
-                disabled={isGenerating}
-              />
-              
-              <div className="absolute bottom-3 right-3 flex items-center gap-2">
+        {/* Input Area */}
+        <div className="border-t border-gray-700 p-4">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            {/* Image indicator */}
+            {uploadedImage && (
+              <div className="flex items-center justify-between p-3 bg-gray-700 border border-gray-600 rounded-lg">
+                <div className="flex items-center gap-2 text-gray-300">
+                  <ImageIcon className="h-4 w-4" />
+                  <span className="text-sm font-medium">Screenshot ready for analysis</span>
+                  <span className="text-xs text-gray-500">(Automatically compressed)</span>
+                </div>
                 <button
                   type="button"
-                  onClick={() => fileInputRef.current?.click()}
-                  className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-600 rounded-md transition-colors"
-                  title="Upload image"
+                  onClick={removeImage}
+                  className="p-1 text-gray-400 hover:text-gray-200 rounded"
                   disabled={isGenerating}
                 >
-                  <ImageIcon className="h-4 w-4" />
+                  <X className="h-4 w-4" />
                 </button>
               </div>
-            </div>
+            )}
+
+            <div className="flex gap-2 items-end">
+              <div className="relative flex-1">
+                <Textarea
+                  ref={textareaRef}
+                  placeholder={chatMessages.length === 0 ? "Describe your component (e.g., 'A modern pricing card with 3 tiers') or paste a screenshot..." : "Ask for modifications or generate another component..."}
+                  value={prompt}
+                  onChange={(e) => setPrompt(e.target.value)}
+                  onPaste={handlePaste}
+                  rows={3}
+                  className="resize-none pr-12 bg-gray-700 border-gray-600 text-white placeholder-gray-400 focus:border-indigo-500 focus:ring-indigo-500"
+                  disabled={isGenerating}
+                />
+              
+                <div className="absolute bottom-3 right-3 flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-600 rounded-md transition-colors"
+                    title="Upload image"
+                    disabled={isGenerating}
+                  >
+                    <ImageIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
 
-            <Button 
-              type="submit"
-              disabled={isGenerating || (!prompt.trim() && !imageFile)}
-              className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 h-[76px]"
-            >
               {isGenerating ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Generating...
-                </>
+                <Button 
+                  type="button"
+                  onClick={cancelGeneration}
+                  className="bg-gray-600 hover:bg-gray-500 text-white px-6 h-[76px]"
+                >
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop
+                </Button>
               ) : (
-                <>
+                <Button 
+                  type="submit"
+                  disabled={(!prompt.trim() && !imageFile) || !!variantCandidates}
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 h-[76px]"
+                >
                   <Sparkles className="h-4 w-4 mr-2" />
                   {chatMessages.length === 0 ? 'Generate Component' : 'Send'}
-                </>
+                </Button>
               )}
-            </Button>
-          </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center gap-2 text-sm text-gray-400">
+                <Code2 className="h-4 w-4" />
+                <label htmlFor="generator-framework">Framework</label>
+                <select
+                  id="generator-framework"
+                  className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  value={activeFramework}
+                  onChange={(e) => setSelectedFramework(e.target.value as Framework)}
+                  disabled={isGenerating || !!sessionFramework}
+                  title={sessionFramework ? "Follow-up prompts keep the framework of the session's component" : undefined}
+                >
+                  {FRAMEWORK_OPTIONS.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <ThemePicker id="generator-theme" disabled={isGenerating} />
+
+              {models.length > 1 && (
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  <Bot className="h-4 w-4" />
+                  <label htmlFor="generator-model">Model</label>
+                  <select
+                    id="generator-model"
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    value={activeModelId}
+                    onChange={(e) => setSelectedModel(e.target.value)}
+                    disabled={isGenerating}
+                  >
+                    {models.map(model => (
+                      <option key={model.id} value={model.id} disabled={!!imageFile && !model.supportsImages}>
+                        {model.label}{!model.supportsImages ? " (text only)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2 text-sm text-gray-400">
+                <LayoutGrid className="h-4 w-4" />
+                <label htmlFor="generator-variants">Variants</label>
+                <select
+                  id="generator-variants"
+                  className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  value={variantCount}
+                  onChange={(e) => setVariantCount(Number(e.target.value))}
+                  disabled={isGenerating}
+                >
+                  {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                    <option key={count} value={count} disabled={count > maxVariants}>
+                      {count}{count > maxVariants ? " (Pro)" : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
 
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="image/*"
-            onChange={handleFileChange}
-            className="hidden"
-          />
-        </form>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </form>
+        </div>
       </div>
     </div>
   );
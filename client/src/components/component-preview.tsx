@@ -1,86 +1,123 @@
 "use client"
 
-import { useMemo } from "react"
-import { LiveProvider, LivePreview, LiveError } from "react-live"
-import * as React from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { AlertCircle } from "lucide-react"
 import { ElementTracker } from "./element-tracker"
+import { compilePreviewCode, buildPreviewDocument } from "@/lib/preview-runtime"
+import { isPreviewFrameMessage, postToPreview } from "@/lib/preview-protocol"
+import { useComponentStore } from "@/lib/store"
+import { getThemeVariables } from "@/lib/themes"
+import type { Framework, ThemeConfig } from "@/lib/types"
 
 interface ComponentPreviewProps {
   code: string
+  framework?: Framework
+  // When set, the iframe reports hovered/selected elements instead of
+  // letting clicks through to the component
+  inspect?: boolean
+  // Renders at a fixed device size instead of the panel width and content height
+  viewport?: { width: number; height: number }
+  // Renders with this theme instead of the selected one (shared previews)
+  theme?: ThemeConfig
 }
 
-export function ComponentPreview({ code }: ComponentPreviewProps) {
+export function ComponentPreview({ code, framework = "react", inspect = false, viewport, theme: themeOverride }: ComponentPreviewProps) {
   const { trackedCode } = ElementTracker({ code });
+  const frameRef = useRef<HTMLIFrameElement>(null)
+  const [isReady, setIsReady] = useState(false)
+  const [height, setHeight] = useState(128)
+  const [runtimeError, setRuntimeError] = useState<string | null>(null)
+  const selectedTheme = useComponentStore(state => state.theme)
+  const theme = themeOverride ?? selectedTheme
 
-  const scope = useMemo(
-    () => ({
-      React,
-      useState: React.useState,
-      useEffect: React.useEffect,
-      useCallback: React.useCallback,
-      useMemo: React.useMemo,
-      useRef: React.useRef,
-    }),
-    [],
-  )
+  const previewDocument = useMemo(() => buildPreviewDocument(framework), [framework])
 
-  // Transform the code to make it renderable
-  const transformedCode = useMemo(() => {
-    let processedCode = trackedCode.trim()
+  // Compile in the app so syntax errors show up without a round trip
+  const compiled = useMemo(() => {
+    try {
+      return { code: compilePreviewCode(trackedCode, framework), error: null }
+    } catch (error) {
+      return { code: null, error: error instanceof Error ? error.message : String(error) }
+    }
+  }, [trackedCode, framework])
 
-    // Remove any CDATA wrapper if it somehow got through
-    processedCode = processedCode.replace(/^<!\[CDATA\[/, '').replace(/\]\]>$/, '')
+  // A new document means a new frame that has to report ready again
+  useEffect(() => {
+    setIsReady(false)
+  }, [previewDocument])
 
-    // Remove any import statements that might have been accidentally included
-    processedCode = processedCode.replace(/^import\s+.*$/gm, '')
-    
-    // Remove any export statements
-    processedCode = processedCode.replace(/^export\s+.*$/gm, '')
-    
-    // Clean up extra whitespace
-    processedCode = processedCode.replace(/^\s*\n/gm, '').trim()
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== frameRef.current?.contentWindow || !isPreviewFrameMessage(event.data)) return
 
-    // If the code doesn't have a render statement, try to extract the component and add one
-    if (!processedCode.includes("render(")) {
-      const functionMatch = processedCode.match(/function\s+(\w+)/)
-      if (functionMatch) {
-        const componentName = functionMatch[1]
-        processedCode += `\n\nrender(<${componentName} />)`
-      } else {
-        // If no function found, wrap the entire code in a render call
-        if (processedCode.includes("<")) {
-          processedCode = `render(${processedCode})`
-        } else {
-          return `render(<div className="p-4 text-red-600">Invalid component code - no JSX found</div>)`
-        }
+      const message = event.data
+      switch (message.type) {
+        case "ready":
+          setIsReady(true)
+          break
+        case "rendered":
+          setRuntimeError(null)
+          break
+        case "error":
+          setRuntimeError(message.message)
+          break
+        case "resize":
+          setHeight(Math.max(128, message.height))
+          break
       }
     }
 
-    return processedCode
-  }, [trackedCode])
+    window.addEventListener("message", handleMessage)
+    return () => window.removeEventListener("message", handleMessage)
+  }, [])
+
+  // Sent before the first render so the component never flashes unthemed
+  useEffect(() => {
+    if (!isReady) return
+    postToPreview(frameRef.current, { type: "theme", variables: getThemeVariables(theme) })
+  }, [isReady, theme])
+
+  useEffect(() => {
+    if (!isReady || !compiled.code) return
+    setRuntimeError(null)
+    postToPreview(frameRef.current, { type: "render", code: compiled.code, inspect })
+    // inspect is sent separately below so toggling it does not remount the component
+  }, [isReady, compiled.code])
 
-  // Generate a unique key based on the code to force re-render when switching components
-  const previewKey = useMemo(() => {
-    return transformedCode.length + transformedCode.slice(0, 100);
-  }, [transformedCode]);
+  useEffect(() => {
+    if (!isReady) return
+    postToPreview(frameRef.current, { type: "inspect", enabled: inspect })
+  }, [isReady, inspect])
+
+  const error = compiled.error ?? runtimeError
 
   return (
-    <div className="border border-gray-600 rounded-lg overflow-hidden bg-gray-800">
-      <LiveProvider key={previewKey} code={transformedCode} scope={scope} noInline={true}>
-        <div className="p-4 min-h-32 bg-gray-700">
-          <LivePreview />
-        </div>
-        <LiveError className="bg-red-900/50 border-t border-red-600 p-3 text-red-300 text-sm flex items-start gap-2">
+    <div
+      className={viewport ? "flex flex-col overflow-hidden bg-gray-800" : "border border-gray-600 rounded-lg overflow-hidden bg-gray-800"}
+      style={viewport ? { width: viewport.width, height: viewport.height } : undefined}
+    >
+      <iframe
+        ref={frameRef}
+        title="Component preview"
+        sandbox="allow-scripts"
+        srcDoc={previewDocument}
+        className={viewport ? "block w-full flex-1 min-h-0 bg-gray-700" : "block w-full bg-gray-700"}
+        style={viewport ? undefined : { height }}
+      />
+      {error && (
+        <div className="shrink-0 max-h-40 overflow-auto bg-red-900/50 border-t border-red-600 p-3 text-red-300 text-sm flex items-start gap-2">
           <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
           <div className="flex-1">
             <div className="font-medium mb-1">Preview Error</div>
             <div className="text-xs opacity-90">
-              Component failed to render. Common issues: missing imports (React hooks are available globally), syntax errors, or invalid JSX.
+              {framework === "react"
+                ? "Component failed to render. Common issues: missing imports (React hooks are available globally), syntax errors, or invalid JSX."
+                : "Component failed to render. Common issues: syntax errors, imports from other packages, or invalid markup."}
             </div>
+            <pre className="mt-2 text-xs whitespace-pre-wrap font-mono opacity-75">{error}</pre>
           </div>
-        </LiveError>
-      </LiveProvider>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,73 @@
+import { useState, useEffect, useRef, type ReactNode } from "react"
+import type { Framework, ViewportSettings } from "@/lib/types"
+import { VIEWPORT_PRESETS, clampViewportSize, getViewportSize } from "@/lib/viewports"
+import { ComponentPreview } from "./component-preview"
+
+interface DevicePreviewProps {
+  code: string
+  framework?: Framework
+  viewport: ViewportSettings
+  inspect?: boolean
+  // Overlays (e.g. UI selector highlights) positioned over the preview area
+  children?: ReactNode
+}
+
+const DEVICE_GAP = 24
+
+export function DevicePreview({ code, framework, viewport, inspect = false, children }: DevicePreviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [availableWidth, setAvailableWidth] = useState(0)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(([entry]) => setAvailableWidth(entry.contentRect.width))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const devices = viewport.allBreakpoints
+    ? VIEWPORT_PRESETS.map(preset => ({
+        label: preset.label,
+        ...getViewportSize({ width: preset.width, height: preset.height, rotated: viewport.rotated }),
+      }))
+    : [{
+        label: VIEWPORT_PRESETS.find(preset => preset.id === viewport.preset)?.label ?? "Custom",
+        ...getViewportSize({
+          width: clampViewportSize(viewport.width),
+          height: clampViewportSize(viewport.height),
+          rotated: viewport.rotated,
+        }),
+      }]
+
+  // "fit" only ever shrinks: small devices render at their real size
+  const totalWidth = devices.reduce((sum, device) => sum + device.width, 0) + DEVICE_GAP * (devices.length - 1)
+  const zoom = viewport.zoom === "fit"
+    ? Math.min(1, availableWidth > 0 ? availableWidth / totalWidth : 1)
+    : viewport.zoom
+
+  return (
+    <div ref={containerRef} className="w-full overflow-auto">
+      <div className="component-preview-area relative flex items-start w-max mx-auto" style={{ gap: DEVICE_GAP }}>
+        {/* Index keys keep the iframe alive when switching presets */}
+        {devices.map((device, index) => (
+          <div key={index} className="flex flex-col items-center gap-2">
+            <div className="text-xs text-gray-400">
+              {device.label} · {device.width}×{device.height} · {Math.round(zoom * 100)}%
+            </div>
+            <div
+              className="rounded-xl ring-1 ring-gray-600 overflow-hidden shadow-lg bg-gray-800"
+              style={{ width: device.width * zoom, height: device.height * zoom }}
+            >
+              <div style={{ width: device.width, height: device.height, transform: `scale(${zoom})`, transformOrigin: "top left" }}>
+                <ComponentPreview code={code} framework={framework} inspect={inspect} viewport={{ width: device.width, height: device.height }} />
+              </div>
+            </div>
+          </div>
+        ))}
+        {children}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query"
+import { Loader2 } from "lucide-react"
+import { Card } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useAuth } from "@/hooks/use-auth"
+import { loadGenerationHistory } from "@/lib/api"
+import type { AIGenerationRecord } from "@/lib/types"
+
+const OPERATION_LABELS: Record<AIGenerationRecord["operation"], string> = {
+  generate: "Generate",
+  stream: "Generate",
+  variant: "Variant",
+  convert: "Convert",
+}
+
+function formatCost(costUsd: number) {
+  return costUsd < 0.01 && costUsd > 0 ? "<$0.01" : `$${costUsd.toFixed(2)}`
+}
+
+// The user's recent generations with the tokens they used, shown in Settings
+export function GenerationHistory() {
+  const { user } = useAuth()
+  const userId = user?.uid
+
+  const { data: generations = [], isLoading, error } = useQuery({
+    queryKey: ["generationHistory", userId],
+    queryFn: loadGenerationHistory,
+    enabled: !!userId,
+    // Every generation adds a row, so don't show a cached list
+    refetchOnMount: "always",
+  })
+
+  const totalTokens = generations.reduce((sum, generation) => sum + generation.promptTokens + generation.completionTokens, 0)
+
+  return (
+    <Card className="p-6 bg-gray-800 border-gray-700">
+      <h2 className="text-2xl font-semibold mb-1 text-white">Generation History</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Your last {generations.length || ""} generations. Tokens include retries and automatic fixes.
+        {generations.length > 0 && ` ${totalTokens.toLocaleString()} tokens in total.`}
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-400">Failed to load your generation history.</p>
+      ) : generations.length === 0 ? (
+        <p className="text-sm text-gray-400">You haven't generated any components yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="border-gray-700 hover:bg-transparent">
+              <TableHead className="text-gray-400">When</TableHead>
+              <TableHead className="text-gray-400">Type</TableHead>
+              <TableHead className="text-gray-400">Model</TableHead>
+              <TableHead className="text-gray-400 text-right">Tokens (in / out)</TableHead>
+              <TableHead className="text-gray-400 text-right">Time</TableHead>
+              <TableHead className="text-gray-400 text-right">Cost</TableHead>
+              <TableHead className="text-gray-400">Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {generations.map(generation => (
+              <TableRow key={generation.id} className="border-gray-700 text-gray-300 hover:bg-gray-700/50">
+                <TableCell className="whitespace-nowrap">{generation.createdAt.toLocaleString()}</TableCell>
+                <TableCell>
+                  {OPERATION_LABELS[generation.operation]}
+                  {generation.hadImage && <span className="text-gray-500"> · screenshot</span>}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{generation.model}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {generation.promptTokens.toLocaleString()} / {generation.completionTokens.toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right">{(generation.latencyMs / 1000).toFixed(1)}s</TableCell>
+                <TableCell className="text-right">{formatCost(generation.costUsd)}</TableCell>
+                <TableCell>
+                  {generation.status === "success" ? (
+                    <span className="text-green-400">Success</span>
+                  ) : (
+                    <span className="text-red-400">Failed ({generation.errorClass?.replace("_", " ") ?? "unknown"})</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  )
+}
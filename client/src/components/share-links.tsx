@@ -0,0 +1,266 @@
+import { useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { Code2, Globe, Link2, Loader2, Lock, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { useShares } from "@/hooks/useShares"
+import { createComponentShare, revokeComponentShare } from "@/lib/api"
+import { useComponentStore } from "@/lib/store"
+import type { ComponentShare, ComponentVisibility, GeneratedComponent } from "@/lib/types"
+
+const EXPIRY_OPTIONS = [
+  { days: 0, label: "Never" },
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+]
+
+const VISIBILITY_OPTIONS: { id: ComponentVisibility; label: string }[] = [
+  { id: "private", label: "Private" },
+  { id: "unlisted", label: "Unlisted (anyone with the gallery link)" },
+  { id: "public", label: "Public (listed in the gallery)" },
+]
+
+function getEmbedCode(share: ComponentShare) {
+  return `<iframe src="${share.embedUrl}" title="${share.name.replace(/"/g, "&quot;")}" width="100%" height="400" style="border:0" loading="lazy"></iframe>`
+}
+
+function describeExpiry(share: ComponentShare) {
+  if (!share.expiresAt) return "Never expires"
+  const expiresAt = new Date(share.expiresAt)
+  return expiresAt <= new Date() ? "Expired" : `Expires ${expiresAt.toLocaleDateString()}`
+}
+
+function useShareActions() {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const { userId } = useShares()
+
+  const copy = async (text: string, title: string) => {
+    await navigator.clipboard.writeText(text)
+    toast({ title, description: text })
+  }
+
+  const revoke = async (share: ComponentShare) => {
+    try {
+      await revokeComponentShare(share.id)
+      await queryClient.invalidateQueries({ queryKey: ['shares', userId] })
+      toast({ title: "Success", description: "The share link no longer works" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke share link",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return { copy, revoke }
+}
+
+// Share links with buttons to copy the link or the embed code, and to revoke them
+function ShareLinkList({ shares, showNames = false }: { shares: ComponentShare[]; showNames?: boolean }) {
+  const { copy, revoke } = useShareActions()
+
+  return (
+    <ul className="divide-y divide-gray-700">
+      {shares.map(share => (
+        <li key={share.id} className="flex items-center gap-3 py-3">
+          <div className="flex-1 min-w-0">
+            {showNames && <p className="text-gray-200 truncate">{share.name}</p>}
+            <p className="text-sm text-indigo-300 truncate">{share.url}</p>
+            <p className="text-xs text-gray-400 flex items-center gap-1">
+              {share.hasPassword && <><Lock className="h-3 w-3" /> Password · </>}
+              {describeExpiry(share)}
+            </p>
+          </div>
+          <Button size="sm" variant="ghost" title="Copy link" onClick={() => copy(share.url, "Share link copied")} className="text-gray-400 hover:text-white hover:bg-gray-700">
+            <Link2 className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" title="Copy embed code" onClick={() => copy(getEmbedCode(share), "Embed code copied")} className="text-gray-400 hover:text-white hover:bg-gray-700">
+            <Code2 className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" title="Revoke" onClick={() => revoke(share)} className="text-gray-400 hover:text-red-400 hover:bg-gray-700">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+// Publishes a component to the community gallery, where others can fork it
+function GallerySettings({ component }: { component: GeneratedComponent }) {
+  const { toast } = useToast()
+  const setVisibility = useComponentStore(state => state.setVisibility)
+  const [visibility, setVisibilityOption] = useState<ComponentVisibility>(component.visibility ?? "private")
+  const [tags, setTags] = useState((component.tags ?? []).join(", "))
+  const [isSaving, setIsSaving] = useState(false)
+  const galleryUrl = `${window.location.origin}/gallery/${component.id}`
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    try {
+      await setVisibility(component.id, visibility, tags.split(",").map(tag => tag.trim()).filter(Boolean))
+      toast({ title: "Gallery settings saved" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update component visibility",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3 border-t border-gray-700 pt-4">
+      <div className="flex items-center gap-2">
+        <Globe className="h-4 w-4 text-indigo-400" />
+        <h3 className="text-sm font-medium text-white">Community gallery</h3>
+      </div>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="gallery-visibility" className="text-gray-300">Visibility</Label>
+          <select
+            id="gallery-visibility"
+            className="block bg-gray-700 border border-gray-600 rounded-md px-2 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            value={visibility}
+            onChange={(e) => setVisibilityOption(e.target.value as ComponentVisibility)}
+          >
+            {VISIBILITY_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="gallery-tags" className="text-gray-300">Tags (comma separated)</Label>
+          <Input
+            id="gallery-tags"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="form, dashboard"
+            disabled={visibility === "private"}
+          />
+        </div>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+        </Button>
+      </div>
+      {component.visibility && component.visibility !== "private" && (
+        <p className="text-xs text-gray-400 break-all">
+          Anyone can view, fork and copy the prompt at <a href={galleryUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:text-indigo-300">{galleryUrl}</a>
+        </p>
+      )}
+    </form>
+  )
+}
+
+interface ShareDialogProps {
+  component: GeneratedComponent
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Creates public links to a component's preview, rendered with the selected theme
+export function ShareDialog({ component, open, onOpenChange }: ShareDialogProps) {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const { userId, shares } = useShares(component.id)
+  const theme = useComponentStore(state => state.theme)
+  const { copy } = useShareActions()
+  const [expiresInDays, setExpiresInDays] = useState(0)
+  const [password, setPassword] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    try {
+      const share = await createComponentShare(component.id, {
+        expiresInDays: expiresInDays || undefined,
+        password: password || undefined,
+        theme,
+      })
+      await queryClient.invalidateQueries({ queryKey: ['shares', userId] })
+      setPassword("")
+      await copy(share.url, "Share link copied")
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create share link",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">Share "{component.name}"</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-400">
+          Anyone with the link can view the preview and code without an account. Links show the latest version with the "{theme.name}" theme.
+        </p>
+        <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="share-expiry" className="text-gray-300">Expires</Label>
+            <select
+              id="share-expiry"
+              className="block bg-gray-700 border border-gray-600 rounded-md px-2 py-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="share-password" className="text-gray-300">Password (optional)</Label>
+            <Input
+              id="share-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              minLength={4}
+              autoComplete="new-password"
+            />
+          </div>
+          <Button type="submit" disabled={isCreating}>
+            {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : "Create Link"}
+          </Button>
+        </form>
+        {shares.length > 0 && <ShareLinkList shares={shares} />}
+        <GallerySettings component={component} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// The share links of every component the user can edit, listed on the Settings page
+export function ShareLinksManager() {
+  const { shares, isLoading } = useShares()
+
+  return (
+    <Card className="p-6 bg-gray-800 border-gray-700">
+      <h2 className="text-2xl font-semibold mb-4 text-white">Share Links</h2>
+      {isLoading ? (
+        <Loader2 className="h-6 w-6 animate-spin text-indigo-400" />
+      ) : shares.length === 0 ? (
+        <p className="text-sm text-gray-400">Share a component from its editor to get a public link to its preview.</p>
+      ) : (
+        <ShareLinkList shares={shares} showNames />
+      )}
+    </Card>
+  )
+}
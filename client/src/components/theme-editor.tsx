@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { themeConfigSchema } from "@shared/themes"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { ThemeConfig, ThemeInput } from "@/lib/types"
+
+const COLOR_FIELDS: { key: keyof ThemeConfig["colors"]; label: string }[] = [
+  { key: "primary", label: "Primary" },
+  { key: "secondary", label: "Secondary" },
+  { key: "accent", label: "Accent" },
+  { key: "background", label: "Background" },
+  { key: "text", label: "Text" },
+]
+
+const FONT_WEIGHTS = ["300", "400", "500", "600", "700"]
+
+// Only 6-digit hex values can be shown in a native color input
+const isHexColor = (value: string) => /^#[0-9a-fA-F]{6}$/.test(value)
+
+interface ThemeEditorProps {
+  open: boolean
+  title: string
+  initialTheme: ThemeInput
+  // Shown above the form, e.g. tokens an import could not map
+  notices?: string[]
+  isSaving?: boolean
+  onSave: (theme: ThemeInput) => void
+  onOpenChange: (open: boolean) => void
+}
+
+export function ThemeEditor({ open, title, initialTheme, notices = [], isSaving = false, onSave, onOpenChange }: ThemeEditorProps) {
+  const [theme, setTheme] = useState<ThemeInput>(initialTheme)
+  const [scaleText, setScaleText] = useState(initialTheme.spacing.scale.join(", "))
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setTheme(initialTheme)
+    setScaleText(initialTheme.spacing.scale.join(", "))
+    setError(null)
+  }, [open, initialTheme])
+
+  const setColor = (key: keyof ThemeConfig["colors"], value: string) =>
+    setTheme(current => ({ ...current, colors: { ...current.colors, [key]: value } }))
+
+  const setTypography = (key: keyof ThemeConfig["typography"], value: string) =>
+    setTheme(current => ({ ...current, typography: { ...current.typography, [key]: value } }))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const scale = scaleText.split(/[\s,]+/).filter(Boolean).map(Number)
+    const result = themeConfigSchema.omit({ id: true }).safeParse({ ...theme, spacing: { ...theme.spacing, scale } })
+    if (!result.success) {
+      const issue = result.error.issues[0]
+      setError(`${issue.path.join(".")}: ${issue.message}`)
+      return
+    }
+
+    setError(null)
+    onSave(result.data)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white">{title}</DialogTitle>
+        </DialogHeader>
+
+        {notices.length > 0 && (
+          <ul className="rounded-md border border-yellow-700 bg-yellow-900/30 p-3 text-xs text-yellow-200 space-y-1">
+            {notices.map(notice => <li key={notice}>{notice}</li>)}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="theme-name" className="text-gray-300">Name</Label>
+            <Input
+              id="theme-name"
+              value={theme.name}
+              onChange={(e) => setTheme(current => ({ ...current, name: e.target.value }))}
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">Colors</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {COLOR_FIELDS.map(({ key, label }) => (
+                <div key={key} className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    aria-label={`${label} color picker`}
+                    className="h-9 w-10 shrink-0 cursor-pointer rounded border border-gray-600 bg-gray-700"
+                    value={isHexColor(theme.colors[key]) ? theme.colors[key] : "#000000"}
+                    onChange={(e) => setColor(key, e.target.value)}
+                  />
+                  <Label htmlFor={`theme-color-${key}`} className="w-24 text-gray-300">{label}</Label>
+                  <Input
+                    id={`theme-color-${key}`}
+                    value={theme.colors[key]}
+                    onChange={(e) => setColor(key, e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">Typography</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-2 sm:col-span-3">
+                <Label htmlFor="theme-font-family" className="text-gray-300">Font family</Label>
+                <Input
+                  id="theme-font-family"
+                  value={theme.typography.fontFamily}
+                  onChange={(e) => setTypography("fontFamily", e.target.value)}
+                  placeholder="Inter, system-ui, sans-serif"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="theme-font-size" className="text-gray-300">Base size</Label>
+                <Input
+                  id="theme-font-size"
+                  value={theme.typography.fontSize}
+                  onChange={(e) => setTypography("fontSize", e.target.value)}
+                  placeholder="14px"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="theme-font-weight" className="text-gray-300">Base weight</Label>
+                <select
+                  id="theme-font-weight"
+                  className="w-full h-10 bg-gray-700 border border-gray-600 rounded-md px-2 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  value={theme.typography.fontWeight}
+                  onChange={(e) => setTypography("fontWeight", e.target.value)}
+                >
+                  {!FONT_WEIGHTS.includes(theme.typography.fontWeight) && (
+                    <option value={theme.typography.fontWeight}>{theme.typography.fontWeight}</option>
+                  )}
+                  {FONT_WEIGHTS.map(weight => <option key={weight} value={weight}>{weight}</option>)}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">Spacing</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="theme-spacing-base" className="text-gray-300">Base unit</Label>
+                <Input
+                  id="theme-spacing-base"
+                  value={theme.spacing.base}
+                  onChange={(e) => setTheme(current => ({ ...current, spacing: { ...current.spacing, base: e.target.value } }))}
+                  placeholder="8px"
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="theme-spacing-scale" className="text-gray-300">Scale (px, comma separated)</Label>
+                <Input
+                  id="theme-spacing-scale"
+                  value={scaleText}
+                  onChange={(e) => setScaleText(e.target.value)}
+                  placeholder="0, 4, 8, 12, 16"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Rendered with the edited values so changes are visible before saving */}
+          <div
+            className="rounded-lg border border-gray-600 p-4"
+            style={{
+              backgroundColor: theme.colors.background,
+              color: theme.colors.text,
+              fontFamily: theme.typography.fontFamily,
+              fontSize: theme.typography.fontSize,
+              fontWeight: Number(theme.typography.fontWeight) || undefined,
+            }}
+          >
+            <p className="font-semibold mb-1">{theme.name || "Theme preview"}</p>
+            <p className="opacity-80 mb-3">The quick brown fox jumps over the lazy dog.</p>
+            <div className="flex flex-wrap" style={{ gap: theme.spacing.base }}>
+              <span className="rounded-md px-3 py-1 text-white" style={{ backgroundColor: theme.colors.primary }}>Primary</span>
+              <span className="rounded-md px-3 py-1 text-white" style={{ backgroundColor: theme.colors.secondary }}>Secondary</span>
+              <span className="rounded-md px-3 py-1 text-white" style={{ backgroundColor: theme.colors.accent }}>Accent</span>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="border-gray-600 text-gray-300 hover:bg-gray-700 hover:text-white"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Theme
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,271 @@
+import { useEffect, useRef, useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { Check, Copy, Link2, Link2Off, Pencil, Plus, Trash2, Upload } from "lucide-react"
+import { DEFAULT_THEME, toThemeConfig } from "@shared/themes"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { useThemes } from "@/hooks/useThemes"
+import { copySharedTheme, createTheme, deleteTheme, duplicateTheme, importThemeFile, loadSharedTheme, shareTheme, unshareTheme, updateTheme } from "@/lib/api"
+import { useComponentStore } from "@/lib/store"
+import { predefinedThemes } from "@/lib/themes"
+import type { CustomTheme, ThemeConfig, ThemeInput } from "@/lib/types"
+import { ThemeEditor } from "./theme-editor"
+
+// Query parameter of share links; Settings offers to copy the theme it names
+const SHARE_PARAM = "theme"
+
+interface EditorState {
+  title: string
+  initialTheme: ThemeInput
+  themeId?: number // Set when editing a saved theme
+  notices?: string[]
+}
+
+const withoutId = ({ id: _, ...theme }: ThemeConfig): ThemeInput => theme
+
+function ThemeSwatches({ theme }: { theme: ThemeInput }) {
+  return (
+    <div className="flex shrink-0" aria-hidden="true">
+      {[theme.colors.primary, theme.colors.secondary, theme.colors.accent, theme.colors.background, theme.colors.text].map((color, index) => (
+        <span key={index} className="h-5 w-5 rounded-full border border-gray-600 -ml-1.5 first:ml-0" style={{ backgroundColor: color }} />
+      ))}
+    </div>
+  )
+}
+
+export function ThemeManager() {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const { userId, customThemes } = useThemes()
+  const { theme: activeTheme, setTheme } = useComponentStore()
+  const [editor, setEditor] = useState<EditorState | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [sharedTheme, setSharedTheme] = useState<{ token: string; theme: ThemeInput } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refreshThemes = () => queryClient.invalidateQueries({ queryKey: ['themes', userId] })
+
+  const showError = (error: unknown, fallback: string) => toast({
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback,
+    variant: "destructive",
+  })
+
+  // Opened from a share link: /settings?theme=<token>
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get(SHARE_PARAM)
+    if (!token) return
+    loadSharedTheme(token)
+      .then(theme => setSharedTheme({ token, theme }))
+      .catch(error => showError(error, "Failed to load the shared theme"))
+  }, [])
+
+  if (!userId) return null
+
+  // Keeps the selected theme in sync when its saved version changes
+  const syncActiveTheme = (saved: CustomTheme) => {
+    const config = toThemeConfig(saved)
+    if (config.id === activeTheme.id) setTheme(config)
+  }
+
+  const handleSave = async (theme: ThemeInput) => {
+    if (!editor) return
+    setIsSaving(true)
+    try {
+      if (editor.themeId !== undefined) {
+        syncActiveTheme(await updateTheme(editor.themeId, theme))
+      } else {
+        await createTheme(theme)
+      }
+      await refreshThemes()
+      setEditor(null)
+      toast({ title: "Success", description: `Theme "${theme.name}" saved` })
+    } catch (error) {
+      showError(error, "Failed to save theme")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDuplicate = async (theme: CustomTheme) => {
+    try {
+      await duplicateTheme(theme.id)
+      await refreshThemes()
+    } catch (error) {
+      showError(error, "Failed to duplicate theme")
+    }
+  }
+
+  const handleDelete = async (theme: CustomTheme) => {
+    if (!window.confirm(`Delete the theme "${theme.name}"?`)) return
+    try {
+      await deleteTheme(theme.id)
+      if (toThemeConfig(theme).id === activeTheme.id) setTheme(DEFAULT_THEME)
+      await refreshThemes()
+    } catch (error) {
+      showError(error, "Failed to delete theme")
+    }
+  }
+
+  const handleShare = async (theme: CustomTheme) => {
+    try {
+      const shared = await shareTheme(theme.id)
+      const link = `${window.location.origin}/settings?${SHARE_PARAM}=${encodeURIComponent(shared.shareToken!)}`
+      await navigator.clipboard.writeText(link).catch(() => undefined)
+      await refreshThemes()
+      toast({ title: "Share link copied", description: link })
+    } catch (error) {
+      showError(error, "Failed to share theme")
+    }
+  }
+
+  const handleUnshare = async (theme: CustomTheme) => {
+    try {
+      await unshareTheme(theme.id)
+      await refreshThemes()
+      toast({ title: "Success", description: "The share link no longer works" })
+    } catch (error) {
+      showError(error, "Failed to stop sharing theme")
+    }
+  }
+
+  const handleCopyShared = async () => {
+    if (!sharedTheme) return
+    try {
+      await copySharedTheme(sharedTheme.token)
+      await refreshThemes()
+      setSharedTheme(null)
+      toast({ title: "Success", description: `"${sharedTheme.theme.name}" was added to your themes` })
+    } catch (error) {
+      showError(error, "Failed to copy the shared theme")
+    }
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      const result = await importThemeFile(await file.text(), { name: file.name.replace(/\.[^.]+$/, "") })
+      setEditor({
+        title: result.format === "tokens" ? "Import design tokens" : "Import Tailwind config",
+        initialTheme: result.theme,
+        notices: result.warnings,
+      })
+    } catch (error) {
+      showError(error, "Failed to import theme")
+    }
+  }
+
+  return (
+    <Card className="p-6 bg-gray-800 border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-semibold text-white">Themes</h2>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            className="border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+            title="Import a Tailwind config or a W3C design tokens JSON file"
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <Button onClick={() => setEditor({ title: "New theme", initialTheme: { ...withoutId(activeTheme), name: "My theme" } })}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Theme
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".js,.cjs,.mjs,.ts,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      <p className="text-sm text-gray-400 mb-4">
+        The selected theme styles new generations and every preview.
+      </p>
+
+      {sharedTheme && (
+        <div className="flex flex-wrap items-center gap-3 rounded-md border border-indigo-600 bg-indigo-900/30 p-3 mb-4">
+          <ThemeSwatches theme={sharedTheme.theme} />
+          <span className="flex-1 text-sm text-gray-200">Someone shared the theme "{sharedTheme.theme.name}" with you.</span>
+          <Button size="sm" onClick={handleCopyShared}>Add to my themes</Button>
+          <Button size="sm" variant="ghost" onClick={() => setSharedTheme(null)} className="text-gray-400 hover:text-white hover:bg-gray-700">
+            Dismiss
+          </Button>
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-700">
+        {predefinedThemes.map(theme => (
+          <li key={theme.id} className="flex items-center gap-3 py-3">
+            <ThemeSwatches theme={theme} />
+            <span className="flex-1 text-gray-200">{theme.name} <span className="text-xs text-gray-500">Built-in</span></span>
+            <Button size="sm" variant="ghost" onClick={() => setTheme(theme)} disabled={theme.id === activeTheme.id} className="text-gray-300 hover:text-white hover:bg-gray-700">
+              {theme.id === activeTheme.id ? <Check className="h-4 w-4" /> : "Use"}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Customize a copy"
+              onClick={() => setEditor({ title: "New theme", initialTheme: { ...withoutId(theme), name: `${theme.name} (copy)` } })}
+              className="text-gray-400 hover:text-white hover:bg-gray-700"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+        {customThemes.map(theme => {
+          const isActive = toThemeConfig(theme).id === activeTheme.id
+          return (
+            <li key={theme.id} className="flex items-center gap-3 py-3">
+              <ThemeSwatches theme={theme} />
+              <span className="flex-1 text-gray-200">
+                {theme.name}
+                {theme.shareToken && <span className="ml-2 text-xs text-indigo-300">Shared</span>}
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => setTheme(toThemeConfig(theme))} disabled={isActive} className="text-gray-300 hover:text-white hover:bg-gray-700">
+                {isActive ? <Check className="h-4 w-4" /> : "Use"}
+              </Button>
+              <Button size="sm" variant="ghost" title="Edit" onClick={() => setEditor({ title: "Edit theme", initialTheme: theme, themeId: theme.id })} className="text-gray-400 hover:text-white hover:bg-gray-700">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" title="Duplicate" onClick={() => handleDuplicate(theme)} className="text-gray-400 hover:text-white hover:bg-gray-700">
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" title="Copy share link" onClick={() => handleShare(theme)} className="text-gray-400 hover:text-white hover:bg-gray-700">
+                <Link2 className="h-4 w-4" />
+              </Button>
+              {theme.shareToken && (
+                <Button size="sm" variant="ghost" title="Stop sharing" onClick={() => handleUnshare(theme)} className="text-indigo-300 hover:text-white hover:bg-gray-700">
+                  <Link2Off className="h-4 w-4" />
+                </Button>
+              )}
+              <Button size="sm" variant="ghost" title="Delete" onClick={() => handleDelete(theme)} className="text-gray-400 hover:text-red-400 hover:bg-gray-700">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          )
+        })}
+      </ul>
+
+      {editor && (
+        <ThemeEditor
+          open
+          title={editor.title}
+          initialTheme={editor.initialTheme}
+          notices={editor.notices}
+          isSaving={isSaving}
+          onSave={handleSave}
+          onOpenChange={(open) => !open && setEditor(null)}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,57 @@
+import { Palette } from "lucide-react"
+import { useComponentStore } from "@/lib/store"
+import { useThemes } from "@/hooks/useThemes"
+
+interface ThemePickerProps {
+  id: string
+  disabled?: boolean
+}
+
+// Selects the theme used for new generations and every preview. Previews
+// re-skin immediately because components reference the theme's CSS variables.
+export function ThemePicker({ id, disabled = false }: ThemePickerProps) {
+  const { theme, setTheme } = useComponentStore()
+  const { themes, customThemes } = useThemes()
+  const predefinedCount = themes.length - customThemes.length
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-400">
+      <Palette className="h-4 w-4" />
+      <label htmlFor={id}>Theme</label>
+      <select
+        id={id}
+        className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        value={theme.id}
+        onChange={(e) => {
+          const selected = themes.find(option => option.id === e.target.value)
+          if (selected) setTheme(selected)
+        }}
+        disabled={disabled}
+      >
+        {/* The persisted theme stays selectable while custom themes load or after it was deleted */}
+        {!themes.some(option => option.id === theme.id) && (
+          <option value={theme.id}>{theme.name}</option>
+        )}
+        {themes.slice(0, predefinedCount).map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+        {customThemes.length > 0 && (
+          <optgroup label="Your themes">
+            {themes.slice(predefinedCount).map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      <div className="flex" aria-hidden="true">
+        {[theme.colors.primary, theme.colors.secondary, theme.colors.accent, theme.colors.background].map((color, index) => (
+          <span
+            key={index}
+            className="h-4 w-4 rounded-full border border-gray-600 -ml-1 first:ml-0"
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
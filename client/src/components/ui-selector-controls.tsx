@@ -1,14 +1,9 @@
 import React, { useState, useEffect } from 'react'
 import { X, Palette, Type, Move, Layers, Eye } from 'lucide-react'
+import type { PreviewElementInfo } from '@/lib/preview-protocol'
 
-interface SelectedElement {
-  element: HTMLElement;
-  rect: DOMRect;
-  tagName: string;
-  className: string;
-  id: string;
-  dataPath?: string;
-}
+// Selected inside the sandboxed preview iframe; computed styles come along in the message
+type SelectedElement = PreviewElementInfo;
 
 interface CSSProperties {
   backgroundColor: string;
@@ -78,7 +73,7 @@ export function UISelectorControls({
       return;
     }
 
-    const computedStyle = window.getComputedStyle(selectedElement.element);
+    const computedStyle = selectedElement.styles;
     
     setCssProperties({
       backgroundColor: rgbToHex(computedStyle.backgroundColor) || '',
@@ -138,7 +133,7 @@ export function UISelectorControls({
 
   const revertChanges = () => {
     if (selectedElement) {
-      const computedStyle = window.getComputedStyle(selectedElement.element);
+      const computedStyle = selectedElement.styles;
       setCssProperties({
         backgroundColor: rgbToHex(computedStyle.backgroundColor) || '',
         color: rgbToHex(computedStyle.color) || '',
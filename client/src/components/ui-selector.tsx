@@ -1,14 +1,9 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { X, Eye, EyeOff, Palette, Move, Type, Layers } from 'lucide-react';
+import type { PreviewElementInfo } from '@/lib/preview-protocol';
+import { usePreviewInspector } from '@/hooks/use-preview-inspector';
 
-interface SelectedElement {
-  element: HTMLElement;
-  rect: DOMRect;
-  tagName: string;
-  className: string;
-  id: string;
-  dataPath?: string;
-}
+type SelectedElement = PreviewElementInfo;
 
 interface CSSProperties {
   backgroundColor: string;
@@ -34,8 +29,8 @@ interface UISelectorProps {
 }
 
 export function UISelector({ isActive, onClose, componentId, componentCode, onCodeUpdate }: UISelectorProps) {
-  const [selectedElement, setSelectedElement] = useState<SelectedElement | null>(null);
-  const [hoveredElement, setHoveredElement] = useState<HTMLElement | null>(null);
+  // Elements live in the sandboxed preview iframe and are reported by message
+  const { hoveredElement, selectedElement, setSelectedElement } = usePreviewInspector(isActive);
   const [cssProperties, setCssProperties] = useState<CSSProperties>({
     backgroundColor: '',
     color: '',
@@ -53,7 +48,6 @@ export function UISelector({ isActive, onClose, componentId, componentCode, onCo
   const [originalCode, setOriginalCode] = useState<string>('');
   const [currentWorkingCode, setCurrentWorkingCode] = useState<string>('');
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState<boolean>(false);
-  const overlayRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (!isActive) {
@@ -63,9 +57,6 @@ export function UISelector({ isActive, onClose, componentId, componentCode, onCo
         onCodeUpdate(componentId, currentWorkingCode);
         setHasUnsavedChanges(false);
       }
-      
-      setSelectedElement(null);
-      setHoveredElement(null);
       return;
     }
 
@@ -76,79 +67,28 @@ export function UISelector({ isActive, onClose, componentId, componentCode, onCo
       setHasUnsavedChanges(false);
       console.log('Original code stored for component:', componentId, componentCode.substring(0, 200) + '...');
     }
+  }, [isActive, componentCode, originalCode, componentId, onCodeUpdate, hasUnsavedChanges, currentWorkingCode]);
 
-    const handleMouseMove = (e: MouseEvent) => {
-      if (selectedElement) return;
-      
-      const target = e.target as HTMLElement;
-      if (target === overlayRef.current || target.closest('.ui-selector-overlay')) {
-        return;
-      }
-
-      // Only target elements within the component preview
-      const componentPreview = document.querySelector('.component-preview-area');
-      if (!componentPreview || !componentPreview.contains(target)) {
-        setHoveredElement(null);
-        return;
-      }
-      
-      setHoveredElement(target);
-    };
-
-    const handleClick = (e: MouseEvent) => {
-      const target = e.target as HTMLElement;
-      if (target === overlayRef.current || target.closest('.ui-selector-overlay')) {
-        return;
-      }
-
-      // Only target elements within the component preview
-      const componentPreview = document.querySelector('.component-preview-area');
-      if (!componentPreview || !componentPreview.contains(target)) {
-        return;
-      }
-
-      e.preventDefault();
-      e.stopPropagation();
+  // Extract current CSS properties when an element is selected in the preview
+  useEffect(() => {
+    if (!selectedElement) return;
 
-      const rect = target.getBoundingClientRect();
-      const computedStyle = window.getComputedStyle(target);
-      
-      setSelectedElement({
-        element: target,
-        rect,
-        tagName: target.tagName.toLowerCase(),
-        className: target.className,
-        id: target.id,
-        dataPath: target.getAttribute('data-element-path') || undefined
-      });
-
-      // Extract current CSS properties
-      setCssProperties({
-        backgroundColor: rgbToHex(computedStyle.backgroundColor) || '',
-        color: rgbToHex(computedStyle.color) || '',
-        fontSize: computedStyle.fontSize,
-        fontWeight: computedStyle.fontWeight,
-        padding: computedStyle.padding,
-        margin: computedStyle.margin,
-        borderRadius: computedStyle.borderRadius,
-        border: computedStyle.border,
-        opacity: computedStyle.opacity,
-        transform: computedStyle.transform,
-        width: computedStyle.width,
-        height: computedStyle.height
-      });
-
-      setHoveredElement(null);
-    };
-
-    document.addEventListener('mousemove', handleMouseMove);
-    document.addEventListener('click', handleClick, true);
-
-    return () => {
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('click', handleClick, true);
-    };
-  }, [isActive, selectedElement, componentCode, originalCode, componentId, onCodeUpdate, hasUnsavedChanges, currentWorkingCode]);
+    const computedStyle = selectedElement.styles;
+    setCssProperties({
+      backgroundColor: rgbToHex(computedStyle.backgroundColor) || '',
+      color: rgbToHex(computedStyle.color) || '',
+      fontSize: computedStyle.fontSize,
+      fontWeight: computedStyle.fontWeight,
+      padding: computedStyle.padding,
+      margin: computedStyle.margin,
+      borderRadius: computedStyle.borderRadius,
+      border: computedStyle.border,
+      opacity: computedStyle.opacity,
+      transform: computedStyle.transform,
+      width: computedStyle.width,
+      height: computedStyle.height
+    });
+  }, [selectedElement]);
 
   // Update working code when component code changes from external source
   useEffect(() => {
@@ -177,12 +117,8 @@ export function UISelector({ isActive, onClose, componentId, componentCode, onCo
     if (!selectedElement) return;
 
     setCssProperties(prev => ({ ...prev, [property]: value }));
-    
-    // Apply the change immediately to the DOM
-    const element = selectedElement.element;
-    (element.style as any)[property] = value;
 
-    // Update the working code and mark as having unsaved changes
+    // The preview re-renders from the updated code, so update the working code and mark as having unsaved changes
     updateComponentCode();
     setHasUnsavedChanges(true);
   };
@@ -316,56 +252,35 @@ export function UISelector({ isActive, onClose, componentId, componentCode, onCo
 
   if (!isActive) return null;
 
-  // Get the preview container bounds for relative positioning
-  const getRelativePosition = (elementRect: DOMRect) => {
-    const previewContainer = document.querySelector('.component-preview-area');
-    if (!previewContainer) {
-      return { left: elementRect.left, top: elementRect.top };
-    }
-    
-    const containerRect = previewContainer.getBoundingClientRect();
-    return {
-      left: elementRect.left - containerRect.left,
-      top: elementRect.top - containerRect.top
-    };
-  };
-
   return (
     <>
       {/* Highlights - positioned relative to component preview */}
       <div className="ui-selector-overlay absolute inset-0 z-50 pointer-events-none">
         {/* Hover Highlight */}
-        {hoveredElement && !selectedElement && (() => {
-          const rect = hoveredElement.getBoundingClientRect();
-          const pos = getRelativePosition(rect);
-          return (
-            <div
-              className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
-              style={{
-                left: pos.left,
-                top: pos.top,
-                width: rect.width,
-                height: rect.height,
-              }}
-            />
-          );
-        })()}
+        {hoveredElement && !selectedElement && (
+          <div
+            className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+            style={{
+              left: hoveredElement.rect.left,
+              top: hoveredElement.rect.top,
+              width: hoveredElement.rect.width,
+              height: hoveredElement.rect.height,
+            }}
+          />
+        )}
 
         {/* Selection Highlight */}
-        {selectedElement && (() => {
-          const pos = getRelativePosition(selectedElement.rect);
-          return (
-            <div
-              className="absolute border-2 border-indigo-500 bg-indigo-500/10 pointer-events-none"
-              style={{
-                left: pos.left,
-                top: pos.top,
-                width: selectedElement.rect.width,
-                height: selectedElement.rect.height,
-              }}
-            />
-          );
-        })()}
+        {selectedElement && (
+          <div
+            className="absolute border-2 border-indigo-500 bg-indigo-500/10 pointer-events-none"
+            style={{
+              left: selectedElement.rect.left,
+              top: selectedElement.rect.top,
+              width: selectedElement.rect.width,
+              height: selectedElement.rect.height,
+            }}
+          />
+        )}
       </div>
 
       {/* Controls Panel */}
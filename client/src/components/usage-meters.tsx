@@ -0,0 +1,50 @@
+import { Link } from "wouter"
+import { Progress } from "@/components/ui/progress"
+import { useUsage } from "@/hooks/useUsage"
+import { PLAN_NAMES } from "@/lib/stripe"
+import type { UsageMeter } from "@/lib/types"
+
+function Meter({ label, meter }: { label: string; meter: UsageMeter }) {
+  const percent = meter.limit ? Math.min(100, (meter.used / meter.limit) * 100) : 0
+  const isFull = meter.limit !== null && meter.used >= meter.limit
+
+  return (
+    <div className="min-w-0 flex-1">
+      <div className="flex justify-between gap-2 text-xs mb-1">
+        <span className="text-gray-400 truncate">{label}</span>
+        <span className={isFull ? "text-red-400" : "text-gray-300"}>
+          {meter.limit === null ? `${meter.used} / unlimited` : `${meter.used} / ${meter.limit}`}
+        </span>
+      </div>
+      <Progress
+        value={percent}
+        className="h-1.5 bg-gray-700"
+        aria-label={`${label}: ${meter.used} of ${meter.limit ?? "unlimited"}`}
+      />
+    </div>
+  )
+}
+
+// How much of the plan's allowance is used, shown above the generator
+export function UsageMeters() {
+  const { usage } = useUsage()
+  if (!usage) return null
+
+  const resetTime = usage.resetsAt.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-700">
+      <div className="flex gap-4">
+        <Meter label="Components" meter={usage.usage.components} />
+        <Meter label="Generations today" meter={usage.usage.generations} />
+        <Meter label="Screenshots today" meter={usage.usage.imageUploads} />
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        {PLAN_NAMES[usage.plan]} plan · Daily limits reset at {resetTime}
+        {usage.plan === "free" && (
+          <> · <Link href="/pricing" className="text-indigo-400 hover:text-indigo-300">Upgrade for more</Link></>
+        )}
+      </p>
+    </div>
+  )
+}
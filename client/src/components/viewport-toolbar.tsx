@@ -0,0 +1,110 @@
+import { Smartphone, Tablet, Laptop, Ruler, RotateCw, Columns3, ZoomIn } from 'lucide-react'
+import type { ViewportPreset, ViewportSettings } from "@/lib/types"
+import { VIEWPORT_PRESETS, ZOOM_LEVELS, clampViewportSize } from "@/lib/viewports"
+
+interface ViewportToolbarProps {
+  viewport: ViewportSettings
+  onChange: (viewport: ViewportSettings) => void
+}
+
+const presetIcons: Record<ViewportPreset, typeof Smartphone> = {
+  mobile: Smartphone,
+  tablet: Tablet,
+  laptop: Laptop,
+  custom: Ruler,
+}
+
+const buttonClass = (active: boolean) =>
+  `flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+    active ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-300 hover:bg-gray-700'
+  }`
+
+export function ViewportToolbar({ viewport, onChange }: ViewportToolbarProps) {
+  const update = (updates: Partial<ViewportSettings>) => onChange({ ...viewport, ...updates })
+
+  const selectPreset = (preset: ViewportPreset) => {
+    const config = VIEWPORT_PRESETS.find(p => p.id === preset)
+    // Custom keeps the current size as a starting point
+    update(config ? { preset, width: config.width, height: config.height } : { preset })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-gray-300">
+      <div className="flex items-center gap-1 bg-gray-900 border border-gray-700 rounded-lg p-1">
+        {[...VIEWPORT_PRESETS.map(p => ({ id: p.id, label: `${p.label} ${p.width}` })), { id: 'custom' as const, label: 'Custom' }].map(option => {
+          const Icon = presetIcons[option.id]
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => selectPreset(option.id)}
+              disabled={viewport.allBreakpoints && option.id === 'custom'}
+              className={buttonClass(!viewport.allBreakpoints && viewport.preset === option.id)}
+              title={option.label}
+            >
+              <Icon className="h-3.5 w-3.5" />
+              <span className="hidden lg:inline">{option.label}</span>
+            </button>
+          )
+        })}
+      </div>
+
+      {viewport.preset === 'custom' && !viewport.allBreakpoints && (
+        <div className="flex items-center gap-1 text-xs">
+          <input
+            type="number"
+            aria-label="Viewport width"
+            value={viewport.width}
+            onChange={e => update({ width: Number(e.target.value) })}
+            onBlur={e => update({ width: clampViewportSize(Number(e.target.value)) })}
+            className="w-20 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <span className="text-gray-500">×</span>
+          <input
+            type="number"
+            aria-label="Viewport height"
+            value={viewport.height}
+            onChange={e => update({ height: Number(e.target.value) })}
+            onBlur={e => update({ height: clampViewportSize(Number(e.target.value)) })}
+            className="w-20 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => update({ rotated: !viewport.rotated })}
+        className={buttonClass(viewport.rotated)}
+        title="Rotate"
+      >
+        <RotateCw className="h-3.5 w-3.5" />
+        <span className="hidden lg:inline">Rotate</span>
+      </button>
+
+      <button
+        type="button"
+        onClick={() => update({ allBreakpoints: !viewport.allBreakpoints })}
+        className={buttonClass(viewport.allBreakpoints)}
+        title="Show all breakpoints side by side"
+      >
+        <Columns3 className="h-3.5 w-3.5" />
+        <span className="hidden lg:inline">All breakpoints</span>
+      </button>
+
+      <div className="flex items-center gap-1.5 ml-auto text-xs">
+        <ZoomIn className="h-3.5 w-3.5 text-gray-400" />
+        <select
+          aria-label="Zoom"
+          value={viewport.zoom.toString()}
+          onChange={e => update({ zoom: e.target.value === 'fit' ? 'fit' : Number(e.target.value) })}
+          className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="fit">Fit</option>
+          {ZOOM_LEVELS.map(level => (
+            <option key={level} value={level.toString()}>{Math.round(level * 100)}%</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { useEffect } from "react"
+import { Users } from "lucide-react"
+import { useComponentStore } from "@/lib/store"
+import { useWorkspaces } from "@/hooks/useWorkspaces"
+
+// Selects the library the dashboard works in: the personal one or a shared
+// workspace library. New components are saved to the selected library.
+export function WorkspaceSwitcher() {
+  const { workspaceId, setWorkspace } = useComponentStore()
+  const { workspaces, isFetched } = useWorkspaces()
+
+  // Fall back to the personal library after leaving or losing access to the workspace
+  useEffect(() => {
+    if (isFetched && workspaceId !== null && !workspaces.some(workspace => workspace.id === workspaceId)) {
+      setWorkspace(null)
+    }
+  }, [isFetched, workspaceId, workspaces, setWorkspace])
+
+  if (workspaces.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-400">
+      <Users className="h-4 w-4" />
+      <label htmlFor="workspace-switcher" className="sr-only">Library</label>
+      <select
+        id="workspace-switcher"
+        className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        value={workspaceId ?? ""}
+        onChange={(e) => setWorkspace(e.target.value ? Number(e.target.value) : null)}
+      >
+        <option value="">Personal library</option>
+        {workspaces.map(workspace => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}{workspace.role === "viewer" ? " (view only)" : ""}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
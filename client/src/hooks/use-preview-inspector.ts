@@ -0,0 +1,58 @@
+import { useState, useEffect } from "react"
+import { isPreviewFrameMessage, type PreviewElementInfo } from "@/lib/preview-protocol"
+
+const PREVIEW_AREA_SELECTOR = ".component-preview-area"
+
+// Follows element-hover/element-select messages from the preview iframes
+// inside `.component-preview-area`. Rects are translated from the iframe
+// viewport into coordinates relative to the preview area, including any zoom
+// applied to the device frame, so overlays can position highlights without
+// knowing about the iframe.
+export function usePreviewInspector(isActive: boolean) {
+  const [hoveredElement, setHoveredElement] = useState<PreviewElementInfo | null>(null)
+  const [selectedElement, setSelectedElement] = useState<PreviewElementInfo | null>(null)
+
+  useEffect(() => {
+    if (!isActive) {
+      setHoveredElement(null)
+      setSelectedElement(null)
+      return
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (!isPreviewFrameMessage(event.data)) return
+      if (event.data.type !== "element-hover" && event.data.type !== "element-select") return
+
+      const previewArea = document.querySelector(PREVIEW_AREA_SELECTOR)
+      const frame = Array.from(previewArea?.querySelectorAll("iframe") ?? [])
+        .find(candidate => candidate.contentWindow === event.source)
+      if (!previewArea || !frame) return
+
+      const areaRect = previewArea.getBoundingClientRect()
+      const frameRect = frame.getBoundingClientRect()
+      // offsetWidth ignores CSS transforms, the bounding rect does not
+      const scale = frame.offsetWidth ? frameRect.width / frame.offsetWidth : 1
+      const toAreaCoordinates = (element: PreviewElementInfo): PreviewElementInfo => ({
+        ...element,
+        rect: {
+          left: frameRect.left + (frame.clientLeft + element.rect.left) * scale - areaRect.left,
+          top: frameRect.top + (frame.clientTop + element.rect.top) * scale - areaRect.top,
+          width: element.rect.width * scale,
+          height: element.rect.height * scale,
+        },
+      })
+
+      if (event.data.type === "element-hover") {
+        setHoveredElement(event.data.element ? toAreaCoordinates(event.data.element) : null)
+      } else {
+        setSelectedElement(toAreaCoordinates(event.data.element))
+        setHoveredElement(null)
+      }
+    }
+
+    window.addEventListener("message", handleMessage)
+    return () => window.removeEventListener("message", handleMessage)
+  }, [isActive])
+
+  return { hoveredElement, selectedElement, setSelectedElement }
+}
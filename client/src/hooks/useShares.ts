@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import { loadComponentShares } from "@/lib/api";
+
+// The share links of the components the user can edit, or only those of one
+export function useShares(componentId?: string) {
+  const { user: firebaseUser } = useAuth();
+  const userId = firebaseUser?.uid;
+
+  const { data: shares = [], isLoading } = useQuery({
+    queryKey: componentId ? ['shares', userId, componentId] : ['shares', userId],
+    queryFn: () => loadComponentShares(componentId),
+    enabled: !!userId,
+  });
+
+  return { userId, shares, isLoading };
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { toThemeConfig } from "@shared/themes";
+import { useAuth } from "./use-auth";
+import { loadThemes } from "@/lib/api";
+import { predefinedThemes } from "@/lib/themes";
+import type { ThemeConfig } from "@/lib/types";
+
+// The user's saved themes plus the predefined ones, as selectable ThemeConfigs
+export function useThemes() {
+  const { user: firebaseUser } = useAuth();
+  const userId = firebaseUser?.uid;
+
+  const { data: customThemes = [], isLoading } = useQuery({
+    queryKey: ['themes', userId],
+    queryFn: () => loadThemes(),
+    enabled: !!userId,
+  });
+
+  const themes: ThemeConfig[] = [...predefinedThemes, ...customThemes.map(toThemeConfig)];
+
+  return { userId, customThemes, themes, isLoading };
+}
@@ -0,0 +1,21 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import { loadUsage } from "@/lib/api";
+
+// The signed-in user's plan limits and current usage. Call refreshUsage after
+// anything that counts against them (generating, saving or deleting components).
+export function useUsage() {
+  const { user: firebaseUser } = useAuth();
+  const userId = firebaseUser?.uid;
+  const queryClient = useQueryClient();
+
+  const { data: usage, isLoading } = useQuery({
+    queryKey: ['usage', userId],
+    queryFn: loadUsage,
+    enabled: !!userId,
+  });
+
+  const refreshUsage = () => queryClient.invalidateQueries({ queryKey: ['usage', userId] });
+
+  return { usage, isLoading, refreshUsage };
+}
@@ -1,6 +1,7 @@
 
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "./use-auth";
+import { authorizedFetch } from "@/lib/queryClient";
 import type { User } from "@shared/schema";
 
 export function useUser() {
@@ -8,7 +9,7 @@ export function useUser() {
   
   const { data: user } = useQuery<User>({
     queryKey: ['user', firebaseUser?.uid],
-    queryFn: () => fetch(`/api/users/${firebaseUser?.uid}`).then(res => res.json()),
+    queryFn: () => authorizedFetch(`/api/users/${firebaseUser?.uid}`).then(res => res.json()),
     enabled: !!firebaseUser?.uid,
   });
 
@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import { loadWorkspaces } from "@/lib/api";
+import type { WorkspaceRole } from "@/lib/types";
+
+export const WORKSPACE_ROLE_NAMES: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+// The workspaces the signed-in user is a member of, with their role in each
+export function useWorkspaces() {
+  const { user: firebaseUser } = useAuth();
+  const userId = firebaseUser?.uid;
+
+  const { data: workspaces = [], isLoading, isFetched } = useQuery({
+    queryKey: ['workspaces', userId],
+    queryFn: () => loadWorkspaces(),
+    enabled: !!userId,
+  });
+
+  return { userId, workspaces, isLoading, isFetched };
+}
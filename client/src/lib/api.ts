@@ -1,4 +1,5 @@
-import type { GeneratedComponent, GenerationRequest } from "./types"
+import { authorizedFetch } from "./queryClient"
+import type { AIGenerationRecord, AIModel, ComponentShare, ComponentShareOptions, ComponentVersion, ComponentVisibility, CustomTheme, ExportFormat, Framework, GalleryComponentDetail, GalleryPage, GallerySort, GeneratedComponent, GenerationRequest, GenerationSession, InvitationPreview, Plan, SessionMessage, SharedComponent, ThemeImportFormat, ThemeImportResult, ThemeInput, UsageSummary, VariantFailure, Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from "./types"
 
 const API_BASE_URL = process.env.NODE_ENV === 'production' ? '' : 'http://localhost:5000';
 
@@ -58,9 +59,7 @@ function fileToBase64(file: File): Promise<string> {
   });
 }
 
-export async function generateComponent(request: GenerationRequest): Promise<GeneratedComponent> {
-  console.log("=== generateComponent START (Server API) ===")
-  
+async function buildGenerationBody(request: GenerationRequest) {
   if (!request || typeof request.prompt !== "string") {
     console.error("Invalid request object:", request)
     throw new Error("Invalid request: prompt (string) is required.")
@@ -81,25 +80,42 @@ export async function generateComponent(request: GenerationRequest): Promise<Gen
     }
   }
 
+  return {
+    prompt: request.prompt,
+    image: imageBase64,
+    targetComponent: request.targetComponent,
+    originalComponentCode: request.originalComponentCode,
+    originalName: request.originalName,
+    originalCreatedAt: request.originalCreatedAt?.toISOString(),
+    originalVersion: request.originalVersion,
+    model: request.model,
+    framework: request.framework,
+    theme: request.theme,
+    sessionId: request.sessionId,
+    variants: request.variants,
+    variantModels: request.variantModels,
+  };
+}
+
+export async function generateComponent(request: GenerationRequest): Promise<GeneratedComponent> {
+  console.log("=== generateComponent START (Server API) ===")
+
+  const body = await buildGenerationBody(request);
+
   try {
-    const response = await fetch(`${API_BASE_URL}/api/ai/generate-component`, {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/ai/generate-component`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        prompt: request.prompt,
-        image: imageBase64,
-        targetComponent: request.targetComponent,
-        originalComponentCode: request.originalComponentCode,
-        originalName: request.originalName,
-        originalCreatedAt: request.originalCreatedAt?.toISOString(),
-        originalVersion: request.originalVersion,
-      }),
+      body: JSON.stringify(body),
     });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
+      if (errorData.diagnostics) {
+        console.error("AI response parse diagnostics:", errorData.diagnostics);
+      }
       throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
     }
 
@@ -121,9 +137,154 @@ export async function generateComponent(request: GenerationRequest): Promise<Gen
   }
 }
 
-export async function checkAIHealth(): Promise<{ status: string; providers: { openai: boolean; anthropic: boolean } }> {
+// Generates `request.variants` candidates in parallel. Variants that failed are
+// reported in `failures`; the request only fails when none succeeded.
+export async function generateComponentVariants(
+  request: GenerationRequest & { variants: number },
+  signal?: AbortSignal,
+): Promise<{ variants: GeneratedComponent[]; failures: VariantFailure[] }> {
+  const body = await buildGenerationBody(request);
+
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/ai/generate-component`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return {
+      variants: result.variants.map((component: any) => ({
+        ...component,
+        createdAt: new Date(component.createdAt),
+        updatedAt: new Date(component.updatedAt),
+      })),
+      failures: result.failures ?? [],
+    };
+  } catch (error) {
+    console.error("Component variants generation error:", error);
+    throw error;
+  }
+}
+
+export interface ComponentStreamHandlers {
+  onStatus?: (status: { stage: string; message: string }) => void
+  onToken?: (text: string) => void
+  onName?: (name: string) => void
+  onDescription?: (description: string) => void
+  onCodeChunk?: (chunk: string, done: boolean) => void
+}
+
+// Streams a generation over Server-Sent Events. EventSource only supports GET,
+// so the response body is read and split into events by hand.
+export async function streamComponent(
+  request: GenerationRequest,
+  handlers: ComponentStreamHandlers,
+  signal?: AbortSignal,
+): Promise<GeneratedComponent> {
+  const body = await buildGenerationBody(request);
+
+  const response = await authorizedFetch(`${API_BASE_URL}/api/ai/generate-component/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      let data = "";
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      switch (event) {
+        case "status":
+          handlers.onStatus?.(payload);
+          break;
+        case "token":
+          handlers.onToken?.(payload.text);
+          break;
+        case "parsed-name":
+          handlers.onName?.(payload.name);
+          break;
+        case "parsed-description":
+          handlers.onDescription?.(payload.description);
+          break;
+        case "code-chunk":
+          handlers.onCodeChunk?.(payload.chunk, payload.done);
+          break;
+        case "error":
+          if (payload.diagnostics) {
+            console.error("AI response parse diagnostics:", payload.diagnostics);
+          }
+          throw new Error(payload.details || payload.error || "Failed to generate component. Please try again.");
+        case "done":
+          reader.cancel().catch(() => {});
+          return {
+            ...payload,
+            createdAt: new Date(payload.createdAt),
+            updatedAt: new Date(payload.updatedAt),
+          };
+      }
+    }
+  }
+
+  throw new Error("The generation stream ended unexpectedly. Please try again.");
+}
+
+export async function loadAIModels(): Promise<{ models: AIModel[]; defaultModel: string | null }> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/ai/models`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to load AI models: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Error loading AI models:", error);
+    throw error;
+  }
+}
+
+export async function checkAIHealth(): Promise<{ status: string; providers: Record<string, boolean>; activeProvider: string; defaultModel: string | null }> {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/ai/health`);
+    const response = await authorizedFetch(`${API_BASE_URL}/api/ai/health`);
     
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -138,9 +299,9 @@ export async function checkAIHealth(): Promise<{ status: string; providers: { op
 
 // ===== COMPONENT API FUNCTIONS =====
 
-export async function saveComponent(component: GeneratedComponent, userId: string): Promise<GeneratedComponent> {
+export async function saveComponent(component: GeneratedComponent): Promise<GeneratedComponent> {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/components`, {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/components`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -153,7 +314,8 @@ export async function saveComponent(component: GeneratedComponent, userId: strin
         prompt: component.prompt,
         screenshot: component.screenshot,
         version: component.version,
-        userId: userId,
+        framework: component.framework,
+        workspaceId: component.workspaceId,
       }),
     });
 
@@ -175,9 +337,11 @@ export async function saveComponent(component: GeneratedComponent, userId: strin
   }
 }
 
-export async function loadComponents(userId: string): Promise<GeneratedComponent[]> {
+// Loads a workspace's library, or the personal library without a workspace ID
+export async function loadComponents(workspaceId?: number | null): Promise<GeneratedComponent[]> {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/components?userId=${encodeURIComponent(userId)}`);
+    const query = workspaceId ? `?workspaceId=${workspaceId}` : '';
+    const response = await authorizedFetch(`${API_BASE_URL}/api/components${query}`);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -200,9 +364,9 @@ export async function loadComponents(userId: string): Promise<GeneratedComponent
   }
 }
 
-export async function updateComponent(componentId: string, updates: Partial<GeneratedComponent>, userId: string): Promise<GeneratedComponent> {
+export async function updateComponent(componentId: string, updates: Partial<GeneratedComponent>): Promise<GeneratedComponent> {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/components/${componentId}?userId=${encodeURIComponent(userId)}`, {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/components/${componentId}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
@@ -228,9 +392,9 @@ export async function updateComponent(componentId: string, updates: Partial<Gene
   }
 }
 
-export async function deleteComponent(componentId: string, userId: string): Promise<void> {
+export async function deleteComponent(componentId: string): Promise<void> {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/components/${componentId}?userId=${encodeURIComponent(userId)}`, {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/components/${componentId}`, {
       method: 'DELETE',
     });
 
@@ -244,9 +408,9 @@ export async function deleteComponent(componentId: string, userId: string): Prom
   }
 }
 
-export async function getComponentCount(userId: string): Promise<number> {
+export async function getComponentCount(): Promise<number> {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/components/stats/count?userId=${encodeURIComponent(userId)}`);
+    const response = await authorizedFetch(`${API_BASE_URL}/api/components/stats/count`);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -259,4 +423,708 @@ export async function getComponentCount(userId: string): Promise<number> {
     console.error("Error getting component count:", error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+// ===== COMPONENT VERSION API FUNCTIONS =====
+
+export async function loadComponentVersions(componentId: string): Promise<ComponentVersion[]> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/components/${componentId}/versions`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to load component versions: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    return result.versions.map((version: any) => ({
+      ...version,
+      createdAt: new Date(version.createdAt),
+    }));
+  } catch (error) {
+    console.error("Error loading component versions:", error);
+    throw error;
+  }
+}
+
+export async function restoreComponentVersion(componentId: string, version: number): Promise<GeneratedComponent> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/components/${componentId}/versions/${version}/restore`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to restore component version: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    // Convert date strings back to Date objects
+    result.component.createdAt = new Date(result.component.createdAt);
+    result.component.updatedAt = new Date(result.component.updatedAt);
+
+    return result.component;
+  } catch (error) {
+    console.error("Error restoring component version:", error);
+    throw error;
+  }
+}
+
+export async function convertComponentToTypeScript(componentId: string): Promise<GeneratedComponent> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/components/${componentId}/typescript`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to convert component to TypeScript: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    // Convert date strings back to Date objects
+    result.component.createdAt = new Date(result.component.createdAt);
+    result.component.updatedAt = new Date(result.component.updatedAt);
+
+    return result.component;
+  } catch (error) {
+    console.error("Error converting component to TypeScript:", error);
+    throw error;
+  }
+}
+
+// Converts a saved component to another framework with the AI. The server
+// saves the result as a new component linked through sourceComponentId.
+export async function convertComponentFramework(componentId: string, framework: Framework, model?: string): Promise<GeneratedComponent> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/ai/convert-component`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ componentId, framework, model }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to convert component: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    // Convert date strings back to Date objects
+    result.component.createdAt = new Date(result.component.createdAt);
+    result.component.updatedAt = new Date(result.component.updatedAt);
+
+    return { ...result.component, validation: result.validation };
+  } catch (error) {
+    console.error("Error converting component:", error);
+    throw error;
+  }
+}
+
+// ===== EXPORT API FUNCTIONS =====
+
+// Saves a binary response through a temporary link, using the file name the server chose
+async function downloadResponse(response: Response, fallbackFilename: string): Promise<void> {
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] ?? fallbackFilename;
+  const url = URL.createObjectURL(await response.blob());
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export async function exportComponent(componentId: string, format: ExportFormat): Promise<void> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/components/${componentId}/export?format=${format}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || errorData.message || `Failed to export component: ${response.statusText}`);
+    }
+
+    await downloadResponse(response, `component.${format === 'tsx' ? 'tsx' : 'zip'}`);
+  } catch (error) {
+    console.error("Error exporting component:", error);
+    throw error;
+  }
+}
+
+// Exports the given components, or the whole library when no IDs are passed
+export async function exportComponents(componentIds?: string[], workspaceId?: number | null): Promise<void> {
+  try {
+    const params = new URLSearchParams();
+    if (componentIds && componentIds.length > 0) {
+      params.set('ids', componentIds.join(','));
+    }
+    if (workspaceId) {
+      params.set('workspaceId', String(workspaceId));
+    }
+
+    const response = await authorizedFetch(`${API_BASE_URL}/api/components/export?${params}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || errorData.message || `Failed to export components: ${response.statusText}`);
+    }
+
+    await downloadResponse(response, 'component-library.zip');
+  } catch (error) {
+    console.error("Error exporting components:", error);
+    throw error;
+  }
+}
+
+// ===== SHARE LINK API FUNCTIONS =====
+
+export async function createComponentShare(componentId: string, options: ComponentShareOptions = {}): Promise<ComponentShare> {
+  try {
+    const result = await jsonRequest(`/api/components/${encodeURIComponent(componentId)}/share`, 'create share link', { method: 'POST', body: options });
+    return result.share;
+  } catch (error) {
+    console.error("Error creating share link:", error);
+    throw error;
+  }
+}
+
+// The user's share links, or only those of one component
+export async function loadComponentShares(componentId?: string): Promise<ComponentShare[]> {
+  try {
+    const query = componentId ? `?componentId=${encodeURIComponent(componentId)}` : '';
+    const result = await jsonRequest(`/api/shares${query}`, 'load share links');
+    return result.shares;
+  } catch (error) {
+    console.error("Error loading share links:", error);
+    throw error;
+  }
+}
+
+export async function revokeComponentShare(shareId: number): Promise<void> {
+  try {
+    await jsonRequest(`/api/shares/${shareId}`, 'revoke share link', { method: 'DELETE' });
+  } catch (error) {
+    console.error("Error revoking share link:", error);
+    throw error;
+  }
+}
+
+// Loads a shared component without an account. Password protected links
+// answer passwordRequired until the right password is passed.
+export async function loadSharedComponent(token: string, password?: string): Promise<SharedComponent | { passwordRequired: true; error: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/shared/components/${encodeURIComponent(token)}`, {
+      headers: password ? { 'X-Share-Password': password } : undefined,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (errorData.passwordRequired) {
+        return { passwordRequired: true, error: errorData.error };
+      }
+      throw new Error(errorData.error || errorData.message || `Failed to load shared component: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return { component: result.component, theme: result.theme, expiresAt: result.expiresAt };
+  } catch (error) {
+    console.error("Error loading shared component:", error);
+    throw error;
+  }
+}
+
+// ===== GALLERY API FUNCTIONS =====
+
+export async function loadGallery(options: { sort?: GallerySort; tags?: string[]; page?: number } = {}): Promise<GalleryPage> {
+  try {
+    const params = new URLSearchParams();
+    if (options.sort) params.set('sort', options.sort);
+    if (options.tags && options.tags.length > 0) params.set('tags', options.tags.join(','));
+    if (options.page) params.set('page', String(options.page));
+
+    const result = await jsonRequest(`/api/gallery?${params}`, 'load gallery');
+    return { components: result.components, page: result.page, pageSize: result.pageSize, total: result.total };
+  } catch (error) {
+    console.error("Error loading gallery:", error);
+    throw error;
+  }
+}
+
+export async function loadGalleryTags(): Promise<{ tag: string; count: number }[]> {
+  try {
+    const result = await jsonRequest('/api/gallery/tags', 'load tags');
+    return result.tags;
+  } catch (error) {
+    console.error("Error loading gallery tags:", error);
+    throw error;
+  }
+}
+
+export async function loadGalleryComponent(componentId: string): Promise<GalleryComponentDetail> {
+  try {
+    const result = await jsonRequest(`/api/gallery/${encodeURIComponent(componentId)}`, 'load component');
+    return result.component;
+  } catch (error) {
+    console.error("Error loading gallery component:", error);
+    throw error;
+  }
+}
+
+export async function updateComponentVisibility(componentId: string, visibility: ComponentVisibility, tags?: string[]): Promise<GeneratedComponent> {
+  try {
+    const result = await jsonRequest(`/api/components/${encodeURIComponent(componentId)}/visibility`, 'update visibility', { method: 'PATCH', body: { visibility, tags } });
+    return {
+      ...result.component,
+      createdAt: new Date(result.component.createdAt),
+      updatedAt: new Date(result.component.updatedAt),
+    };
+  } catch (error) {
+    console.error("Error updating component visibility:", error);
+    throw error;
+  }
+}
+
+// Copies a gallery component into the personal library, or a workspace's
+export async function forkComponent(componentId: string, workspaceId?: number | null): Promise<GeneratedComponent> {
+  try {
+    const result = await jsonRequest(`/api/components/${encodeURIComponent(componentId)}/fork`, 'fork component', { method: 'POST', body: { workspaceId: workspaceId ?? null } });
+    return {
+      ...result.component,
+      createdAt: new Date(result.component.createdAt),
+      updatedAt: new Date(result.component.updatedAt),
+    };
+  } catch (error) {
+    console.error("Error forking component:", error);
+    throw error;
+  }
+}
+
+// ===== GENERATION SESSION API FUNCTIONS =====
+
+function toSession(session: any): GenerationSession {
+  return {
+    ...session,
+    createdAt: new Date(session.createdAt),
+    updatedAt: new Date(session.updatedAt),
+  };
+}
+
+export async function loadSessions(): Promise<GenerationSession[]> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/sessions`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to load sessions: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.sessions.map(toSession);
+  } catch (error) {
+    console.error("Error loading sessions:", error);
+    throw error;
+  }
+}
+
+export async function createSession(title: string): Promise<GenerationSession> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/sessions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ title }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to create session: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return toSession(result.session);
+  } catch (error) {
+    console.error("Error creating session:", error);
+    throw error;
+  }
+}
+
+export async function deleteSession(sessionId: number): Promise<void> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to delete session: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error("Error deleting session:", error);
+    throw error;
+  }
+}
+
+export async function loadSessionMessages(sessionId: number): Promise<{ session: GenerationSession; messages: SessionMessage[] }> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/sessions/${sessionId}/messages`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to load session messages: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return {
+      session: toSession(result.session),
+      messages: result.messages.map((message: any) => ({
+        ...message,
+        createdAt: new Date(message.createdAt),
+      })),
+    };
+  } catch (error) {
+    console.error("Error loading session messages:", error);
+    throw error;
+  }
+}
+
+export async function addSessionMessage(
+  sessionId: number,
+  message: { role: SessionMessage['role']; content: string; code?: string; componentId?: string; componentName?: string; model?: string },
+): Promise<SessionMessage> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/sessions/${sessionId}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(message),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to save session message: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return {
+      ...result.sessionMessage,
+      createdAt: new Date(result.sessionMessage.createdAt),
+    };
+  } catch (error) {
+    console.error("Error saving session message:", error);
+    throw error;
+  }
+}
+
+// ===== USAGE API FUNCTIONS =====
+
+export async function loadUsage(): Promise<UsageSummary> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/me/usage`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to load usage: ${response.statusText}`);
+    }
+
+    const { message: _, ...usage } = await response.json();
+    return {
+      ...usage,
+      resetsAt: new Date(usage.resetsAt),
+    };
+  } catch (error) {
+    console.error("Error loading usage:", error);
+    throw error;
+  }
+}
+
+export async function loadGenerationHistory(): Promise<AIGenerationRecord[]> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/me/generations`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to load generation history: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.generations.map((generation: any) => ({
+      ...generation,
+      createdAt: new Date(generation.createdAt),
+    }));
+  } catch (error) {
+    console.error("Error loading generation history:", error);
+    throw error;
+  }
+}
+
+// ===== PLAN API FUNCTIONS =====
+
+export async function loadPlans(): Promise<Plan[]> {
+  try {
+    const response = await authorizedFetch(`${API_BASE_URL}/api/plans`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to load plans: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.plans;
+  } catch (error) {
+    console.error("Error loading plans:", error);
+    throw error;
+  }
+}
+
+// ===== THEME API FUNCTIONS =====
+
+function toCustomTheme(theme: any): CustomTheme {
+  return {
+    id: theme.id,
+    name: theme.name,
+    colors: theme.colors,
+    typography: theme.typography,
+    spacing: theme.spacing,
+    shareToken: theme.shareToken ?? null,
+    createdAt: new Date(theme.createdAt),
+    updatedAt: new Date(theme.updatedAt),
+  };
+}
+
+// Sends a JSON request to the API and returns the parsed body,
+// throwing with the server's error message on failure
+async function jsonRequest(path: string, action: string, init?: { method: string; body?: unknown }): Promise<any> {
+  const response = await authorizedFetch(`${API_BASE_URL}${path}`, {
+    method: init?.method ?? 'GET',
+    headers: init?.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: init?.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || errorData.message || `Failed to ${action}: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export async function loadThemes(): Promise<CustomTheme[]> {
+  try {
+    const result = await jsonRequest(`/api/themes`, 'load themes');
+    return result.themes.map(toCustomTheme);
+  } catch (error) {
+    console.error("Error loading themes:", error);
+    throw error;
+  }
+}
+
+export async function createTheme(theme: ThemeInput): Promise<CustomTheme> {
+  try {
+    const result = await jsonRequest('/api/themes', 'create theme', { method: 'POST', body: theme });
+    return toCustomTheme(result.theme);
+  } catch (error) {
+    console.error("Error creating theme:", error);
+    throw error;
+  }
+}
+
+export async function updateTheme(themeId: number, updates: Partial<ThemeInput>): Promise<CustomTheme> {
+  try {
+    const result = await jsonRequest(`/api/themes/${themeId}`, 'update theme', { method: 'PUT', body: updates });
+    return toCustomTheme(result.theme);
+  } catch (error) {
+    console.error("Error updating theme:", error);
+    throw error;
+  }
+}
+
+export async function deleteTheme(themeId: number): Promise<void> {
+  try {
+    await jsonRequest(`/api/themes/${themeId}`, 'delete theme', { method: 'DELETE' });
+  } catch (error) {
+    console.error("Error deleting theme:", error);
+    throw error;
+  }
+}
+
+export async function duplicateTheme(themeId: number): Promise<CustomTheme> {
+  try {
+    const result = await jsonRequest(`/api/themes/${themeId}/duplicate`, 'duplicate theme', { method: 'POST' });
+    return toCustomTheme(result.theme);
+  } catch (error) {
+    console.error("Error duplicating theme:", error);
+    throw error;
+  }
+}
+
+export async function shareTheme(themeId: number): Promise<CustomTheme> {
+  try {
+    const result = await jsonRequest(`/api/themes/${themeId}/share`, 'share theme', { method: 'POST' });
+    return toCustomTheme(result.theme);
+  } catch (error) {
+    console.error("Error sharing theme:", error);
+    throw error;
+  }
+}
+
+export async function unshareTheme(themeId: number): Promise<CustomTheme> {
+  try {
+    const result = await jsonRequest(`/api/themes/${themeId}/share`, 'stop sharing theme', { method: 'DELETE' });
+    return toCustomTheme(result.theme);
+  } catch (error) {
+    console.error("Error unsharing theme:", error);
+    throw error;
+  }
+}
+
+export async function loadSharedTheme(shareToken: string): Promise<ThemeInput> {
+  try {
+    const result = await jsonRequest(`/api/themes/shared/${encodeURIComponent(shareToken)}`, 'load shared theme');
+    const { name, colors, typography, spacing } = result.theme;
+    return { name, colors, typography, spacing };
+  } catch (error) {
+    console.error("Error loading shared theme:", error);
+    throw error;
+  }
+}
+
+export async function copySharedTheme(shareToken: string): Promise<CustomTheme> {
+  try {
+    const result = await jsonRequest(`/api/themes/shared/${encodeURIComponent(shareToken)}/copy`, 'copy shared theme', { method: 'POST' });
+    return toCustomTheme(result.theme);
+  } catch (error) {
+    console.error("Error copying shared theme:", error);
+    throw error;
+  }
+}
+
+// Maps a Tailwind config or W3C design tokens file into a theme without saving it
+export async function importThemeFile(content: string, options: { format?: ThemeImportFormat; name?: string } = {}): Promise<ThemeImportResult> {
+  try {
+    const result = await jsonRequest('/api/themes/import', 'import theme', { method: 'POST', body: { content, ...options } });
+    return { theme: result.theme, format: result.format, warnings: result.warnings };
+  } catch (error) {
+    console.error("Error importing theme:", error);
+    throw error;
+  }
+}
+
+// ===== WORKSPACE API FUNCTIONS =====
+
+export async function loadWorkspaces(): Promise<Workspace[]> {
+  try {
+    const result = await jsonRequest('/api/workspaces', 'load workspaces');
+    return result.workspaces;
+  } catch (error) {
+    console.error("Error loading workspaces:", error);
+    throw error;
+  }
+}
+
+export async function createWorkspace(name: string): Promise<Workspace> {
+  try {
+    const result = await jsonRequest('/api/workspaces', 'create workspace', { method: 'POST', body: { name } });
+    return result.workspace;
+  } catch (error) {
+    console.error("Error creating workspace:", error);
+    throw error;
+  }
+}
+
+// Members see the member list; only owners get the pending invitations
+export async function loadWorkspace(workspaceId: number): Promise<{ workspace: Workspace; members: WorkspaceMember[]; invitations: WorkspaceInvitation[] }> {
+  try {
+    const result = await jsonRequest(`/api/workspaces/${workspaceId}`, 'load workspace');
+    return { workspace: result.workspace, members: result.members, invitations: result.invitations };
+  } catch (error) {
+    console.error("Error loading workspace:", error);
+    throw error;
+  }
+}
+
+export async function renameWorkspace(workspaceId: number, name: string): Promise<Workspace> {
+  try {
+    const result = await jsonRequest(`/api/workspaces/${workspaceId}`, 'rename workspace', { method: 'PATCH', body: { name } });
+    return result.workspace;
+  } catch (error) {
+    console.error("Error renaming workspace:", error);
+    throw error;
+  }
+}
+
+export async function deleteWorkspace(workspaceId: number): Promise<void> {
+  try {
+    await jsonRequest(`/api/workspaces/${workspaceId}`, 'delete workspace', { method: 'DELETE' });
+  } catch (error) {
+    console.error("Error deleting workspace:", error);
+    throw error;
+  }
+}
+
+export async function updateWorkspaceMemberRole(workspaceId: number, userId: string, role: Exclude<WorkspaceRole, 'owner'>): Promise<void> {
+  try {
+    await jsonRequest(`/api/workspaces/${workspaceId}/members/${encodeURIComponent(userId)}`, 'update member', { method: 'PATCH', body: { role } });
+  } catch (error) {
+    console.error("Error updating workspace member:", error);
+    throw error;
+  }
+}
+
+// Removes a member, or leaves the workspace when userId is the signed-in user
+export async function removeWorkspaceMember(workspaceId: number, userId: string): Promise<void> {
+  try {
+    await jsonRequest(`/api/workspaces/${workspaceId}/members/${encodeURIComponent(userId)}`, 'remove member', { method: 'DELETE' });
+  } catch (error) {
+    console.error("Error removing workspace member:", error);
+    throw error;
+  }
+}
+
+// emailSent is false when the invitation email couldn't be sent
+export async function inviteToWorkspace(workspaceId: number, email: string, role: Exclude<WorkspaceRole, 'owner'>): Promise<{ invitation: WorkspaceInvitation; emailSent: boolean }> {
+  try {
+    const result = await jsonRequest(`/api/workspaces/${workspaceId}/invitations`, 'invite member', { method: 'POST', body: { email, role } });
+    return { invitation: result.invitation, emailSent: result.emailSent };
+  } catch (error) {
+    console.error("Error inviting workspace member:", error);
+    throw error;
+  }
+}
+
+export async function revokeWorkspaceInvitation(workspaceId: number, invitationId: number): Promise<void> {
+  try {
+    await jsonRequest(`/api/workspaces/${workspaceId}/invitations/${invitationId}`, 'revoke invitation', { method: 'DELETE' });
+  } catch (error) {
+    console.error("Error revoking workspace invitation:", error);
+    throw error;
+  }
+}
+
+export async function loadInvitation(token: string): Promise<InvitationPreview> {
+  try {
+    const result = await jsonRequest(`/api/invitations/${encodeURIComponent(token)}`, 'load invitation');
+    return result.invitation;
+  } catch (error) {
+    console.error("Error loading invitation:", error);
+    throw error;
+  }
+}
+
+export async function acceptInvitation(token: string): Promise<void> {
+  try {
+    await jsonRequest(`/api/invitations/${encodeURIComponent(token)}/accept`, 'accept invitation', { method: 'POST' });
+  } catch (error) {
+    console.error("Error accepting invitation:", error);
+    throw error;
+  }
+}
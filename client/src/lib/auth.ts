@@ -6,6 +6,7 @@ import {
   signOut as firebaseSignOut
 } from 'firebase/auth';
 import { auth } from './firebase';
+import { authorizedFetch } from './queryClient';
 
 interface AuthContextType {
   user: User | null;
@@ -45,16 +46,13 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       const credential = GoogleAuthProvider.credentialFromResult(result);
       const user = result.user;
       
-      // Check if user exists and create if not
-      const response = await fetch('/api/users', {
+      // Check if user exists and create if not; the email comes from the ID token
+      const response = await authorizedFetch('/api/users', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          firebaseId: user.uid,
-          email: user.email,
-        }),
+        body: JSON.stringify({}),
       });
 
       if (!response.ok) {
@@ -0,0 +1,91 @@
+export type DiffLineType = "unchanged" | "added" | "removed" | "changed"
+
+export interface SideBySideRow {
+  type: DiffLineType
+  left?: { lineNumber: number; text: string }
+  right?: { lineNumber: number; text: string }
+}
+
+type Operation =
+  | { type: "equal"; left: number; right: number }
+  | { type: "delete"; left: number }
+  | { type: "insert"; right: number }
+
+// Line-based longest common subsequence diff. Component files are small
+// (a few hundred lines at most), so the O(n*m) table is fine here.
+function diffOperations(leftLines: string[], rightLines: string[]): Operation[] {
+  const rows = leftLines.length
+  const cols = rightLines.length
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0))
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = leftLines[i] === rightLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const operations: Operation[] = []
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (leftLines[i] === rightLines[j]) {
+      operations.push({ type: "equal", left: i++, right: j++ })
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      operations.push({ type: "delete", left: i++ })
+    } else {
+      operations.push({ type: "insert", right: j++ })
+    }
+  }
+  while (i < rows) operations.push({ type: "delete", left: i++ })
+  while (j < cols) operations.push({ type: "insert", right: j++ })
+
+  return operations
+}
+
+export function diffSideBySide(leftCode: string, rightCode: string): SideBySideRow[] {
+  const leftLines = leftCode.split("\n")
+  const rightLines = rightCode.split("\n")
+  const operations = diffOperations(leftLines, rightLines)
+  const rows: SideBySideRow[] = []
+
+  let index = 0
+  while (index < operations.length) {
+    const operation = operations[index]
+
+    if (operation.type === "equal") {
+      rows.push({
+        type: "unchanged",
+        left: { lineNumber: operation.left + 1, text: leftLines[operation.left] },
+        right: { lineNumber: operation.right + 1, text: rightLines[operation.right] },
+      })
+      index++
+      continue
+    }
+
+    // Pair up a run of deletions with the following run of insertions so
+    // modified lines sit next to each other instead of on separate rows
+    const deleted: number[] = []
+    const inserted: number[] = []
+    while (index < operations.length && operations[index].type !== "equal") {
+      const current = operations[index]
+      if (current.type === "delete") deleted.push(current.left)
+      if (current.type === "insert") inserted.push(current.right)
+      index++
+    }
+
+    const runLength = Math.max(deleted.length, inserted.length)
+    for (let k = 0; k < runLength; k++) {
+      const left = deleted[k]
+      const right = inserted[k]
+      rows.push({
+        type: left !== undefined && right !== undefined ? "changed" : left !== undefined ? "removed" : "added",
+        left: left !== undefined ? { lineNumber: left + 1, text: leftLines[left] } : undefined,
+        right: right !== undefined ? { lineNumber: right + 1, text: rightLines[right] } : undefined,
+      })
+    }
+  }
+
+  return rows
+}
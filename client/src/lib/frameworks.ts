@@ -0,0 +1,18 @@
+import type { Framework } from "./types"
+
+export interface FrameworkOption {
+  id: Framework
+  label: string
+  extension: string // Extension of the source file, also used as the code language
+}
+
+export const FRAMEWORK_OPTIONS: FrameworkOption[] = [
+  { id: "react", label: "React", extension: "jsx" },
+  { id: "vue", label: "Vue", extension: "vue" },
+  { id: "svelte", label: "Svelte", extension: "svelte" },
+  { id: "html", label: "HTML", extension: "html" },
+]
+
+export function getFrameworkOption(framework: Framework | undefined): FrameworkOption {
+  return FRAMEWORK_OPTIONS.find(option => option.id === framework) ?? FRAMEWORK_OPTIONS[0]
+}
@@ -0,0 +1,67 @@
+// Messages exchanged between the app and the sandboxed preview iframe. The
+// iframe runs on an opaque origin, so both sides check `source` plus the
+// sending window instead of relying on event.origin.
+export const PREVIEW_MESSAGE_SOURCE = "component-preview"
+
+export interface PreviewRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface PreviewElementStyles {
+  backgroundColor: string
+  color: string
+  fontSize: string
+  fontWeight: string
+  padding: string
+  margin: string
+  borderRadius: string
+  border: string
+  opacity: string
+  transform: string
+  width: string
+  height: string
+}
+
+// A serializable snapshot of a DOM element inside the iframe. `rect` is
+// relative to the iframe viewport and `styles` are its computed styles.
+export interface PreviewElementInfo {
+  tagName: string
+  className: string
+  id: string
+  dataPath?: string
+  rect: PreviewRect
+  styles: PreviewElementStyles
+}
+
+// App -> iframe
+export type PreviewHostMessage =
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: "render"; code: string; inspect: boolean }
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: "inspect"; enabled: boolean }
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: "theme"; variables: Record<string, string> }
+
+// Iframe -> app
+export type PreviewFrameMessage =
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: "ready" }
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: "rendered" }
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: "error"; message: string }
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: "resize"; height: number }
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: "element-hover"; element: PreviewElementInfo | null }
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: "element-select"; element: PreviewElementInfo }
+
+type WithoutSource<T> = T extends unknown ? Omit<T, "source"> : never
+
+export function isPreviewFrameMessage(data: unknown): data is PreviewFrameMessage {
+  return typeof data === "object"
+    && data !== null
+    && (data as { source?: unknown }).source === PREVIEW_MESSAGE_SOURCE
+    && typeof (data as { type?: unknown }).type === "string"
+}
+
+// Sandboxed iframes have a "null" origin, so "*" is the only target origin
+// that reaches them. The code itself is never secret.
+export function postToPreview(frame: HTMLIFrameElement | null, message: WithoutSource<PreviewHostMessage>) {
+  frame?.contentWindow?.postMessage({ ...message, source: PREVIEW_MESSAGE_SOURCE }, "*")
+}
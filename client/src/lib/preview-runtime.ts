@@ -0,0 +1,308 @@
+import { transform } from "sucrase"
+import { THEME_TAILWIND_EXTENSION } from "@shared/themes"
+import { PREVIEW_MESSAGE_SOURCE } from "./preview-protocol"
+import type { Framework } from "./types"
+
+const REACT_VERSION = "18.3.1"
+const REACT_URL = `https://unpkg.com/react@${REACT_VERSION}/umd/react.production.min.js`
+const REACT_DOM_URL = `https://unpkg.com/react-dom@${REACT_VERSION}/umd/react-dom.production.min.js`
+const VUE_URL = "https://unpkg.com/vue@3.4.38/dist/vue.global.prod.js"
+const VUE_SFC_LOADER_URL = "https://unpkg.com/vue3-sfc-loader@0.9.5/dist/vue3-sfc-loader.js"
+// Svelte is loaded as ES modules so compiled components can import its runtime
+const SVELTE_URL = "https://esm.sh/svelte@4.2.19"
+const TAILWIND_URL = "https://cdn.tailwindcss.com"
+
+// Turns stored component code into what the iframe runs. React code has its
+// imports/exports stripped, gets a render() call if needed and is compiled
+// here, throwing with sucrase's message when it does not compile. Vue and
+// Svelte are compiled inside the iframe; HTML is used as-is.
+export function compilePreviewCode(code: string, framework: Framework = "react"): string {
+  // Remove any CDATA wrapper if it somehow got through
+  let processedCode = code.trim().replace(/^<!\[CDATA\[/, '').replace(/\]\]>$/, '')
+
+  if (framework !== "react") {
+    return processedCode
+  }
+
+  // Remove any import statements that might have been accidentally included
+  processedCode = processedCode.replace(/^import\s+.*$/gm, '')
+
+  // Remove any export statements
+  processedCode = processedCode.replace(/^export\s+.*$/gm, '')
+
+  // Clean up extra whitespace
+  processedCode = processedCode.replace(/^\s*\n/gm, '').trim()
+
+  // If the code doesn't have a render statement, try to extract the component and add one
+  if (!processedCode.includes("render(")) {
+    const functionMatch = processedCode.match(/function\s+(\w+)/)
+    if (functionMatch) {
+      processedCode += `\n\nrender(<${functionMatch[1]} />)`
+    } else if (processedCode.includes("<")) {
+      processedCode = `render(${processedCode})`
+    } else {
+      processedCode = `render(<div className="p-4 text-red-600">Invalid component code - no JSX found</div>)`
+    }
+  }
+
+  return transform(processedCode, {
+    transforms: ["jsx", "typescript"],
+    production: true,
+  }).code
+}
+
+// Each renderer defines renderCode(code) for one framework inside the frame
+// script below. Every render replaces the previous component completely.
+const RENDERERS: Record<Framework, string> = {
+  react: `
+  class ErrorBoundary extends React.Component {
+    constructor(props) {
+      super(props);
+      this.state = { failed: false };
+    }
+    static getDerivedStateFromError() {
+      return { failed: true };
+    }
+    componentDidCatch(error) {
+      reportError(error);
+    }
+    render() {
+      return this.state.failed ? null : this.props.children;
+    }
+  }
+
+  var root = null;
+
+  function renderCode(code) {
+    if (root) root.unmount();
+    root = ReactDOM.createRoot(container);
+    hovered = null;
+
+    var scope = {
+      React: React,
+      useState: React.useState,
+      useEffect: React.useEffect,
+      useCallback: React.useCallback,
+      useMemo: React.useMemo,
+      useRef: React.useRef,
+      render: function (element) {
+        root.render(React.createElement(ErrorBoundary, null, element));
+      }
+    };
+    var names = Object.keys(scope);
+
+    try {
+      new Function(names.join(","), code).apply(null, names.map(function (name) { return scope[name]; }));
+      post({ type: "rendered" });
+    } catch (error) {
+      reportError(error);
+    }
+  }`,
+
+  vue: `
+  var app = null;
+  var renderId = 0;
+
+  function renderCode(code) {
+    var id = ++renderId;
+    if (app) app.unmount();
+    app = null;
+    hovered = null;
+    document.querySelectorAll("style[data-component-style]").forEach(function (style) { style.remove(); });
+
+    window["vue3-sfc-loader"].loadModule("/component.vue", {
+      moduleCache: { vue: Vue },
+      getFile: function () { return code; },
+      addStyle: function (css) {
+        var style = document.createElement("style");
+        style.setAttribute("data-component-style", "");
+        style.textContent = css;
+        document.head.appendChild(style);
+      },
+      log: function (type, message) {
+        if (type === "error") reportError(message);
+      }
+    }).then(function (component) {
+      if (id !== renderId) return;
+      app = Vue.createApp(component);
+      app.config.errorHandler = reportError;
+      app.mount(container);
+      post({ type: "rendered" });
+    }).catch(reportError);
+  }`,
+
+  // The compiled module imports "svelte/internal" etc., which are rewritten
+  // to full URLs because the frame has no module resolution of its own
+  svelte: `
+  var instance = null;
+  var renderId = 0;
+
+  function renderCode(code) {
+    var id = ++renderId;
+    if (instance) instance.$destroy();
+    instance = null;
+    hovered = null;
+    container.innerHTML = "";
+
+    import(${JSON.stringify(`${SVELTE_URL}/compiler`)}).then(function (compiler) {
+      var result = compiler.compile(code, { css: "injected" });
+      var source = result.js.code.replace(/(["'])svelte((?:\\/[\\w-]+)*)\\1/g, function (match, quote, path) {
+        return JSON.stringify(${JSON.stringify(SVELTE_URL)} + path);
+      });
+      return import("data:text/javascript;charset=utf-8," + encodeURIComponent(source));
+    }).then(function (module) {
+      if (id !== renderId) return;
+      instance = new module.default({ target: container });
+      post({ type: "rendered" });
+    }).catch(reportError);
+  }`,
+
+  // Scripts inserted through innerHTML never run, so they are re-created.
+  // Their bodies are wrapped in a block so re-renders can redeclare variables.
+  html: `
+  function renderCode(code) {
+    hovered = null;
+    container.innerHTML = code;
+
+    try {
+      container.querySelectorAll("script").forEach(function (original) {
+        var script = document.createElement("script");
+        Array.prototype.forEach.call(original.attributes, function (attribute) {
+          script.setAttribute(attribute.name, attribute.value);
+        });
+        script.textContent = "{\\n" + original.textContent + "\\n}";
+        original.replaceWith(script);
+      });
+      post({ type: "rendered" });
+    } catch (error) {
+      reportError(error);
+    }
+  }`,
+}
+
+// Runs inside the iframe. Kept as plain ES2017 so it needs no compilation;
+// every message it sends is a PreviewFrameMessage.
+const FRAME_SCRIPT = (framework: Framework) => `
+(function () {
+  var SOURCE = ${JSON.stringify(PREVIEW_MESSAGE_SOURCE)};
+  var STYLE_KEYS = ["backgroundColor", "color", "fontSize", "fontWeight", "padding", "margin", "borderRadius", "border", "opacity", "transform", "width", "height"];
+  var container = document.getElementById("root");
+  var inspect = false;
+  var hovered = null;
+
+  function post(message) {
+    message.source = SOURCE;
+    window.parent.postMessage(message, "*");
+  }
+
+  function describe(element) {
+    var rect = element.getBoundingClientRect();
+    var computed = window.getComputedStyle(element);
+    var styles = {};
+    STYLE_KEYS.forEach(function (key) { styles[key] = computed[key] || ""; });
+    return {
+      tagName: element.tagName.toLowerCase(),
+      className: element.getAttribute("class") || "",
+      id: element.id || "",
+      dataPath: element.getAttribute("data-element-path") || undefined,
+      rect: { left: rect.left, top: rect.top, width: rect.width, height: rect.height },
+      styles: styles
+    };
+  }
+
+  function inspectable(target) {
+    return target instanceof Element && target !== container && container.contains(target);
+  }
+
+  function reportError(error) {
+    post({ type: "error", message: error && error.message ? error.message : String(error) });
+  }
+${RENDERERS[framework]}
+
+  window.addEventListener("message", function (event) {
+    var data = event.data;
+    if (event.source !== window.parent || !data || data.source !== SOURCE) return;
+
+    if (data.type === "render") {
+      inspect = !!data.inspect;
+      renderCode(data.code);
+    } else if (data.type === "inspect") {
+      inspect = !!data.enabled;
+      if (!inspect && hovered) {
+        hovered = null;
+        post({ type: "element-hover", element: null });
+      }
+    } else if (data.type === "theme") {
+      // Token classes read these variables, so this re-skins without a re-render
+      Object.keys(data.variables || {}).forEach(function (name) {
+        document.documentElement.style.setProperty(name, data.variables[name]);
+      });
+    }
+  });
+
+  document.addEventListener("mousemove", function (event) {
+    if (!inspect) return;
+    var target = inspectable(event.target) ? event.target : null;
+    if (target === hovered) return;
+    hovered = target;
+    post({ type: "element-hover", element: target ? describe(target) : null });
+  });
+
+  document.documentElement.addEventListener("mouseleave", function () {
+    if (!inspect || !hovered) return;
+    hovered = null;
+    post({ type: "element-hover", element: null });
+  });
+
+  document.addEventListener("click", function (event) {
+    if (!inspect || !inspectable(event.target)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    post({ type: "element-select", element: describe(event.target) });
+  }, true);
+
+  window.addEventListener("error", function (event) {
+    post({ type: "error", message: event.message });
+  });
+
+  new ResizeObserver(function () {
+    post({ type: "resize", height: Math.ceil(document.body.getBoundingClientRect().height) });
+  }).observe(document.body);
+
+  post({ type: "ready" });
+})();
+`
+
+const FRAMEWORK_SCRIPTS: Record<Framework, string[]> = {
+  react: [REACT_URL, REACT_DOM_URL],
+  vue: [VUE_URL, VUE_SFC_LOADER_URL],
+  svelte: [],
+  html: [],
+}
+
+// The iframe document. It loads its own framework runtime and Tailwind so
+// generated components never share globals, styles or storage with the app.
+// Tailwind is extended with the theme token classes; their values arrive
+// later in a "theme" message.
+export function buildPreviewDocument(framework: Framework = "react"): string {
+  const scripts = FRAMEWORK_SCRIPTS[framework].map(url => `<script crossorigin src="${url}"></script>`)
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <script src="${TAILWIND_URL}"></script>
+    <script>tailwind.config = { theme: { extend: ${JSON.stringify(THEME_TAILWIND_EXTENSION)} } };</script>
+    ${scripts.join("\n    ")}
+    <style>
+      html, body { margin: 0; background: #374151; }
+      body { padding: 1rem; font-family: var(--font-family); font-size: var(--font-size-base); font-weight: var(--font-weight-base); }
+    </style>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script>${FRAME_SCRIPT(framework)}</script>
+  </body>
+</html>`
+}
@@ -2,22 +2,31 @@
 
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
-import type { GeneratedComponent, ThemeConfig } from "./types"
+import type { ComponentVisibility, Framework, GeneratedComponent, ThemeConfig, ViewportSettings } from "./types"
 import { predefinedThemes } from "./themes"
-import { saveComponent, loadComponents, updateComponent as apiUpdateComponent, deleteComponent } from "./api"
+import { saveComponent, loadComponents, updateComponent as apiUpdateComponent, deleteComponent, restoreComponentVersion, convertComponentToTypeScript, convertComponentFramework, updateComponentVisibility, forkComponent as apiForkComponent } from "./api"
 import { auth } from "./firebase"
 
 interface ComponentStore {
   components: GeneratedComponent[]
   theme: ThemeConfig
   selectedComponent: GeneratedComponent | null
+  viewports: Record<string, ViewportSettings> // Preview viewport per component ID
+  workspaceId: number | null // Library being worked in, null for the personal library
   isLoading: boolean
   error: string | null
   addComponent: (component: GeneratedComponent) => Promise<void>
   updateComponent: (id: string, updates: Partial<GeneratedComponent>) => Promise<void>
   removeComponent: (id: string) => Promise<void>
+  restoreVersion: (id: string, version: number) => Promise<void>
+  convertToTypeScript: (id: string) => Promise<void>
+  convertFramework: (id: string, framework: Framework) => Promise<GeneratedComponent | undefined>
+  setVisibility: (id: string, visibility: ComponentVisibility, tags?: string[]) => Promise<void>
+  forkComponent: (id: string) => Promise<GeneratedComponent | undefined>
   setTheme: (theme: ThemeConfig) => void
   setSelectedComponent: (component: GeneratedComponent | null) => void
+  setViewport: (componentId: string, viewport: ViewportSettings) => void
+  setWorkspace: (workspaceId: number | null) => Promise<void>
   loadUserComponents: () => Promise<void>
   clearError: () => void
 }
@@ -28,19 +37,20 @@ export const useComponentStore = create<ComponentStore>()(
       components: [],
       theme: predefinedThemes[0], // Default theme
       selectedComponent: null,
+      viewports: {},
+      workspaceId: null,
       isLoading: false,
       error: null,
 
       addComponent: async (component) => {
-        const user = auth.currentUser;
-        if (!user) {
+        if (!auth.currentUser) {
           set({ error: "User not authenticated" });
           return;
         }
 
         set({ isLoading: true, error: null });
         try {
-          const savedComponent = await saveComponent(component, user.uid);
+          const savedComponent = await saveComponent({ ...component, workspaceId: get().workspaceId });
           set((state) => ({
             components: [savedComponent, ...state.components],
             isLoading: false,
@@ -59,15 +69,14 @@ export const useComponentStore = create<ComponentStore>()(
       },
 
       updateComponent: async (id, updates) => {
-        const user = auth.currentUser;
-        if (!user) {
+        if (!auth.currentUser) {
           set({ error: "User not authenticated" });
           return;
         }
 
         set({ isLoading: true, error: null });
         try {
-          const updatedComponent = await apiUpdateComponent(id, updates, user.uid);
+          const updatedComponent = await apiUpdateComponent(id, updates);
           set((state) => ({
             components: state.components.map((comp) => 
               comp.id === id ? updatedComponent : comp
@@ -90,15 +99,14 @@ export const useComponentStore = create<ComponentStore>()(
       },
 
       removeComponent: async (id) => {
-        const user = auth.currentUser;
-        if (!user) {
+        if (!auth.currentUser) {
           set({ error: "User not authenticated" });
           return;
         }
 
         set({ isLoading: true, error: null });
         try {
-          await deleteComponent(id, user.uid);
+          await deleteComponent(id);
           set((state) => ({
             components: state.components.filter((comp) => comp.id !== id),
             selectedComponent: state.selectedComponent?.id === id ? null : state.selectedComponent,
@@ -118,16 +126,136 @@ export const useComponentStore = create<ComponentStore>()(
         }
       },
 
+      restoreVersion: async (id, version) => {
+        if (!auth.currentUser) {
+          set({ error: "User not authenticated" });
+          return;
+        }
+
+        set({ isLoading: true, error: null });
+        try {
+          const restoredComponent = await restoreComponentVersion(id, version);
+          set((state) => ({
+            components: state.components.map((comp) =>
+              comp.id === id ? restoredComponent : comp
+            ),
+            selectedComponent: state.selectedComponent?.id === id ? restoredComponent : state.selectedComponent,
+            isLoading: false,
+          }));
+        } catch (error) {
+          console.error("Error restoring component version:", error);
+          set({
+            error: error instanceof Error ? error.message : "Failed to restore component version",
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+
+      // Backfills the TypeScript version for components saved before it existed
+      convertToTypeScript: async (id) => {
+        if (!auth.currentUser) {
+          set({ error: "User not authenticated" });
+          return;
+        }
+
+        try {
+          const convertedComponent = await convertComponentToTypeScript(id);
+          set((state) => ({
+            components: state.components.map((comp) =>
+              comp.id === id ? convertedComponent : comp
+            ),
+            selectedComponent: state.selectedComponent?.id === id ? convertedComponent : state.selectedComponent,
+          }));
+        } catch (error) {
+          console.error("Error converting component to TypeScript:", error);
+          set({ error: error instanceof Error ? error.message : "Failed to convert component to TypeScript" });
+          throw error;
+        }
+      },
+
+      // The converted copy is a new component; the original stays untouched
+      convertFramework: async (id, framework) => {
+        if (!auth.currentUser) {
+          set({ error: "User not authenticated" });
+          return;
+        }
+
+        set({ isLoading: true, error: null });
+        try {
+          const convertedComponent = await convertComponentFramework(id, framework);
+          set((state) => ({
+            components: [convertedComponent, ...state.components],
+            isLoading: false,
+          }));
+          return convertedComponent;
+        } catch (error) {
+          console.error("Error converting component:", error);
+          set({
+            error: error instanceof Error ? error.message : "Failed to convert component",
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+
+      // Gallery settings don't create a new version
+      setVisibility: async (id, visibility, tags) => {
+        if (!auth.currentUser) {
+          set({ error: "User not authenticated" });
+          return;
+        }
+
+        try {
+          const updatedComponent = await updateComponentVisibility(id, visibility, tags);
+          set((state) => ({
+            components: state.components.map((comp) =>
+              comp.id === id ? updatedComponent : comp
+            ),
+            selectedComponent: state.selectedComponent?.id === id ? updatedComponent : state.selectedComponent,
+          }));
+        } catch (error) {
+          console.error("Error updating component visibility:", error);
+          set({ error: error instanceof Error ? error.message : "Failed to update component visibility" });
+          throw error;
+        }
+      },
+
+      // Forks a gallery component into the current library and selects it
+      forkComponent: async (id) => {
+        if (!auth.currentUser) {
+          set({ error: "User not authenticated" });
+          return;
+        }
+
+        set({ isLoading: true, error: null });
+        try {
+          const forkedComponent = await apiForkComponent(id, get().workspaceId);
+          set((state) => ({
+            components: [forkedComponent, ...state.components],
+            selectedComponent: forkedComponent,
+            isLoading: false,
+          }));
+          return forkedComponent;
+        } catch (error) {
+          console.error("Error forking component:", error);
+          set({
+            error: error instanceof Error ? error.message : "Failed to fork component",
+            isLoading: false,
+          });
+          throw error;
+        }
+      },
+
       loadUserComponents: async () => {
-        const user = auth.currentUser;
-        if (!user) {
+        if (!auth.currentUser) {
           set({ error: "User not authenticated" });
           return;
         }
 
         set({ isLoading: true, error: null });
         try {
-          const components = await loadComponents(user.uid);
+          const components = await loadComponents(get().workspaceId);
           set({ 
             components,
             isLoading: false,
@@ -145,14 +273,25 @@ export const useComponentStore = create<ComponentStore>()(
 
       setSelectedComponent: (component) => set({ selectedComponent: component }),
 
+      setViewport: (componentId, viewport) =>
+        set((state) => ({ viewports: { ...state.viewports, [componentId]: viewport } })),
+
+      // Switches libraries; components saved from now on go to the new one
+      setWorkspace: async (workspaceId) => {
+        set({ workspaceId, components: [], selectedComponent: null });
+        await get().loadUserComponents();
+      },
+
       clearError: () => set({ error: null }),
     }),
     {
       name: "component-generator-storage",
-      // Only persist theme and selectedComponent, not the components array
+      // Only persist theme, selectedComponent, viewports and workspaceId, not the components array
       partialize: (state) => ({ 
         theme: state.theme,
         selectedComponent: state.selectedComponent,
+        viewports: state.viewports,
+        workspaceId: state.workspaceId,
       }),
     },
   ),
@@ -1,12 +1,21 @@
-// Utility function to create a checkout session
+import { authorizedFetch } from './queryClient';
+import type { BillingInterval, PlanId } from './types';
+
+export const PLAN_NAMES: Record<PlanId, string> = {
+  free: 'Free',
+  pro: 'Pro',
+  team: 'Team',
+};
+
+// Utility function to create a checkout session. The server looks up the
+// price of the plan and interval in its plan catalog.
 export async function createCheckoutSession(params: {
-  firebaseId: string;
-  mode?: 'subscription' | 'payment';
-  priceId?: string;
+  plan: PlanId;
+  interval: BillingInterval;
   successUrl?: string;
   cancelUrl?: string;
 }) {
-  const response = await fetch('/api/create-checkout-session', {
+  const response = await authorizedFetch('/api/create-checkout-session', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -24,9 +33,8 @@ export async function createCheckoutSession(params: {
 
 // Utility function to redirect to checkout
 export async function redirectToCheckout(params: {
-  firebaseId: string;
-  mode?: 'subscription' | 'payment';
-  priceId?: string;
+  plan: PlanId;
+  interval: BillingInterval;
   successUrl?: string;
   cancelUrl?: string;
 }) {
@@ -37,4 +45,40 @@ export async function redirectToCheckout(params: {
     console.error('Error redirecting to checkout:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+// Team is billed to a workspace: checkout and the billing portal run against
+// the workspace's own Stripe customer. Only the owner can open either.
+export async function redirectToWorkspaceCheckout(workspaceId: number, params: {
+  plan: PlanId;
+  interval: BillingInterval;
+}) {
+  const response = await authorizedFetch(`/api/workspaces/${workspaceId}/checkout-session`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to create checkout session');
+  }
+
+  const { url } = await response.json();
+  window.location.href = url;
+}
+
+export async function redirectToWorkspacePortal(workspaceId: number) {
+  const response = await authorizedFetch(`/api/workspaces/${workspaceId}/portal-session`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to create portal session');
+  }
+
+  const { url } = await response.json();
+  window.location.href = url;
+}
@@ -1,34 +1,118 @@
+// react: JSX with a render() call, vue: single-file component,
+// svelte: Svelte 4 component, html: static markup with Tailwind classes
+export type Framework = "react" | "vue" | "svelte" | "html"
+
 export interface GeneratedComponent {
   id: string
   name: string
   description: string
   code: string
+  typescriptCode?: string | null // Typed .tsx version with an inferred Props interface (React only)
+  framework?: Framework // Missing on components saved before other frameworks existed
+  sourceComponentId?: string | null // Component this one was converted from
+  workspaceId?: number | null // Workspace library the component belongs to, null for the personal library
+  visibility?: ComponentVisibility
+  tags?: string[] // Gallery tags
+  forkedFrom?: string | null // Gallery component this one was forked from
+  forkCount?: number
   prompt: string
   screenshot?: string // URL string for the screenshot
   createdAt: Date
   updatedAt: Date
   version: number
+  // Only present on fresh generations
+  model?: string // Model that served the generation
+  provider?: string
+  servedByFallback?: boolean
+  attempts?: GenerationAttempt[]
+  validation?: ComponentValidation
+  variant?: { index: number; temperature: number } // Set on candidates from a variants request
 }
 
-export interface ThemeConfig {
-  id: string
+export interface ValidationIssue {
+  code: string
+  message: string
+  line?: number
+  column?: number
+}
+
+// Server-side compile checks of generated code
+export interface ComponentValidation {
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+  fixed: boolean // The model corrected errors found in its first answer
+}
+
+export interface GenerationAttempt {
+  provider: string
+  model: string
+  attempt: number
+  status: 'success' | 'error'
+  errorClass?: 'rate_limit' | 'server_error' | 'timeout' | 'parse_error' | 'client_error' | 'unknown'
+  error?: string
+  diagnostics?: ParseDiagnostics
+  durationMs: number
+}
+
+// Why the server could not parse a model response
+export interface ParseDiagnostics {
+  strategy: 'xml' | 'json' | 'markdown' | null
+  rootTag: string | null
+  missingFields: string[]
+  recovered: string[]
+  responseLength: number
+  excerpt: string
+  repairAttempts: number
+}
+
+export interface ComponentVersion {
+  id: number
+  componentId: string
+  version: number
   name: string
-  colors: {
-    primary: string
-    secondary: string
-    background: string
-    text: string
-    accent: string
-  }
-  typography: {
-    fontFamily: string
-    fontSize: string
-    fontWeight: string
-  }
-  spacing: {
-    base: string
-    scale: number[]
-  }
+  description: string
+  code: string
+  prompt: string
+  screenshot?: string | null
+  authorId: string
+  createdAt: Date
+}
+
+import type { ThemeConfig } from "@shared/themes"
+
+export type { ThemeConfig }
+
+// A theme saved on the server; shareToken is set while it is shared
+export interface CustomTheme extends Omit<ThemeConfig, "id"> {
+  id: number
+  shareToken: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type ThemeInput = Omit<ThemeConfig, "id">
+
+export type ThemeImportFormat = "tailwind" | "tokens"
+
+export interface ThemeImportResult {
+  theme: ThemeInput
+  format: ThemeImportFormat
+  warnings: string[] // Tokens that fell back to the default theme
+}
+
+// tsx: single file, vite: starter project zip, npm: package zip.
+// Non-React components only support tsx, which downloads their source file.
+export type ExportFormat = "tsx" | "vite" | "npm"
+
+export type ViewportPreset = "mobile" | "tablet" | "laptop" | "custom"
+
+export interface ViewportSettings {
+  preset: ViewportPreset
+  width: number // Portrait width in CSS pixels
+  height: number
+  rotated: boolean
+  zoom: number | "fit" // "fit" scales the device down to the panel width
+  allBreakpoints: boolean // Render every preset side by side
 }
 
 export interface GenerationRequest {
@@ -41,4 +125,229 @@ export interface GenerationRequest {
   originalName?: string
   originalCreatedAt?: Date
   originalVersion?: number
+
+  model?: string // Model id from GET /api/ai/models, server default when omitted
+  framework?: Framework // Output framework, react when omitted
+  theme?: ThemeConfig // Design tokens the component should be styled with
+
+  // Continue a generation session, sending its earlier turns as context
+  sessionId?: number
+
+  variants?: number // Generate this many candidates (1-4) to pick from
+  variantModels?: string[] // Model ids cycled across the variants
+}
+
+export interface VariantFailure {
+  index: number
+  error: string
+  details: string
+}
+
+export interface GenerationSession {
+  id: number
+  userId: string
+  title: string
+  componentId?: string | null // Latest component produced in the session
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SessionMessage {
+  id: number
+  sessionId: number
+  role: 'user' | 'assistant'
+  content: string
+  code?: string | null
+  componentId?: string | null
+  componentName?: string | null
+  model?: string | null
+  createdAt: Date
+}
+
+export interface AIModel {
+  id: string
+  label: string
+  provider: string
+  modelName: string
+  supportsImages: boolean
+  maxTokens: number
+  costPerInputToken: number
+  costPerOutputToken: number
+}
+
+export type PlanId = 'free' | 'pro' | 'team'
+
+export type BillingInterval = 'monthly' | 'annual'
+
+// GET /api/plans. Only prices configured on the server are listed; amounts
+// are in cents per interval.
+export interface Plan {
+  id: PlanId
+  name: string
+  description: string
+  features: string[]
+  highlighted: boolean
+  billedTo: 'user' | 'workspace' // Team is bought for a workspace
+  limits: {
+    components: number | null
+    items: number | null
+    generationsPerDay: number | null
+    imageUploadsPerDay: number | null
+    variants: number
+    exportFormats: ExportFormat[]
+  }
+  prices: Partial<Record<BillingInterval, { amount: number; currency: string }>>
+}
+
+// private: only the library's members; unlisted: anyone with the link can
+// view and fork it; public: also listed in the gallery
+export type ComponentVisibility = "private" | "unlisted" | "public"
+
+export type GallerySort = "new" | "popular"
+
+// A card in GET /api/gallery
+export interface GalleryComponent {
+  id: string
+  name: string
+  description: string
+  framework: Framework
+  screenshot: string | null
+  tags: string[]
+  forkCount: number
+  publishedAt: string | null
+  authorName: string | null // The author's first name
+}
+
+// GET /api/gallery/:id
+export interface GalleryComponentDetail extends GalleryComponent {
+  code: string
+  prompt: string
+  visibility: ComponentVisibility
+  forkedFrom: string | null
+}
+
+export interface GalleryPage {
+  components: GalleryComponent[]
+  page: number
+  pageSize: number
+  total: number
+}
+
+// A public link to a component's preview at url (/s/:token), embeddable
+// through embedUrl (/embed/:token)
+export interface ComponentShare {
+  id: number
+  componentId: string
+  name: string // The component's name
+  token: string
+  url: string
+  embedUrl: string
+  hasPassword: boolean
+  theme: ThemeConfig | null
+  expiresAt: Date | string | null // Never expires when null
+  createdAt: Date | string
+}
+
+export interface ComponentShareOptions {
+  expiresInDays?: number
+  password?: string
+  theme?: ThemeConfig
+}
+
+// GET /api/shared/components/:token
+export interface SharedComponent {
+  component: Pick<GeneratedComponent, "name" | "description" | "code" | "typescriptCode" | "framework" | "updatedAt">
+  theme: ThemeConfig | null
+  expiresAt: Date | string | null
+}
+
+// owner: billing, members and invitations; editor: edit the library;
+// viewer: read only
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+export interface Workspace {
+  id: number
+  name: string
+  ownerId: string
+  role: WorkspaceRole // The signed-in user's role
+  subscriptionType: PlanId
+  subscriptionStatus: string | null
+  currentPeriodEnd: Date | string | null
+  cancelAtPeriodEnd: boolean
+  trialEnd: Date | string | null
+  pastDueSince: Date | string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface WorkspaceMember {
+  workspaceId: number
+  userId: string
+  role: WorkspaceRole
+  email: string
+  firstName: string | null
+  lastName: string | null
+  createdAt: Date
+}
+
+// Pending invitations, listed for owners
+export interface WorkspaceInvitation {
+  id: number
+  workspaceId: number
+  email: string
+  role: Exclude<WorkspaceRole, 'owner'>
+  acceptUrl: string
+  createdAt: Date
+  expiresAt: Date
+}
+
+// GET /api/invitations/:token. error says why the signed-in user can't accept.
+export interface InvitationPreview {
+  workspaceId: number
+  workspaceName: string
+  email: string
+  role: Exclude<WorkspaceRole, 'owner'>
+  expiresAt: Date
+  error: string | null
+}
+
+export interface UsageMeter {
+  used: number
+  limit: number | null // null when the plan has no limit
+}
+
+// GET /api/me/usage. Daily meters reset at resetsAt (midnight UTC).
+export interface UsageSummary {
+  plan: PlanId
+  period: string
+  resetsAt: Date
+  usage: {
+    components: UsageMeter
+    items: UsageMeter
+    generations: UsageMeter
+    imageUploads: UsageMeter
+  }
+  features: {
+    variants: number // Most variants per generation request
+    exportFormats: ExportFormat[]
+  }
+}
+
+// One row of GET /api/me/generations, with the tokens and cost of every model
+// call the generation made
+export interface AIGenerationRecord {
+  id: number
+  operation: 'generate' | 'stream' | 'variant' | 'convert'
+  provider: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+  latencyMs: number
+  hadImage: boolean
+  status: 'success' | 'error'
+  errorClass: string | null
+  attempts: number
+  componentId: string | null
+  createdAt: Date
 }
@@ -0,0 +1,40 @@
+import type { ViewportPreset, ViewportSettings } from "./types"
+
+export interface ViewportPresetConfig {
+  id: Exclude<ViewportPreset, "custom">
+  label: string
+  width: number
+  height: number
+}
+
+export const VIEWPORT_PRESETS: ViewportPresetConfig[] = [
+  { id: "mobile", label: "Mobile", width: 375, height: 667 },
+  { id: "tablet", label: "Tablet", width: 768, height: 1024 },
+  { id: "laptop", label: "Laptop", width: 1280, height: 800 },
+]
+
+export const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1, 1.25]
+
+export const MIN_VIEWPORT_SIZE = 240
+export const MAX_VIEWPORT_SIZE = 2560
+
+export const DEFAULT_VIEWPORT: ViewportSettings = {
+  preset: "laptop",
+  width: 1280,
+  height: 800,
+  rotated: false,
+  zoom: "fit",
+  allBreakpoints: false,
+}
+
+// Rendered size of a viewport after rotation
+export function getViewportSize(viewport: Pick<ViewportSettings, "width" | "height" | "rotated">) {
+  return viewport.rotated
+    ? { width: viewport.height, height: viewport.width }
+    : { width: viewport.width, height: viewport.height }
+}
+
+export function clampViewportSize(value: number): number {
+  if (!Number.isFinite(value)) return MIN_VIEWPORT_SIZE
+  return Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, Math.round(value)))
+}
@@ -96,6 +96,7 @@ export default function LandingPage() {
               <ul className="list-disc list-inside ml-4 mt-2">
                 <li>STRIPE_SECRET_KEY (from API keys)</li>
                 <li>STRIPE_PRICE_ID_PRO (your price ID)</li>
+                <li>STRIPE_PRICE_ID_PRO_ANNUAL, STRIPE_PRICE_ID_TEAM, STRIPE_PRICE_ID_TEAM_ANNUAL (optional, for annual billing and the Team plan)</li>
                 <li>VITE_STRIPE_PUBLIC_KEY (publishable key from API keys)</li>
                 <li>STRIPE_WEBHOOK_SECRET (webhook signing secret)</li>
               </ul>
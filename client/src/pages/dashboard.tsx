@@ -2,11 +2,12 @@ import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { useUser } from "@/hooks/useUser";
+import { useUsage } from "@/hooks/useUsage";
 import { ComponentGenerator } from "@/components/component-generator";
 import { ComponentGallery } from "@/components/component-gallery";
 import { ComponentEditor } from "@/components/component-editor";
 import { UISelectorControls } from "@/components/ui-selector-controls";
+import { UsageMeters } from "@/components/usage-meters";
 import { useComponentStore } from "@/lib/store";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -17,7 +18,7 @@ import { Sparkles, Code, Palette, LibraryIcon, UploadIcon, InfoIcon } from "luci
 export default function Dashboard() {
   const [, setLocation] = useLocation();
   const { user: firebaseUser, loading } = useAuth();
-  const { user } = useUser();
+  const { usage, refreshUsage } = useUsage();
   const { toast } = useToast();
   const [showUpgradeDialog, setShowUpgradeDialog] = useState(false);
   const [activeTab, setActiveTab] = useState('upload');
@@ -63,6 +64,11 @@ export default function Dashboard() {
     }
   }, [toast]);
 
+  // Saving and deleting components changes the component meter
+  useEffect(() => {
+    refreshUsage();
+  }, [components.length]);
+
   if (loading) {
     return (
       <div className="container mx-auto py-8 flex items-center justify-center bg-gray-900 min-h-screen">
@@ -80,7 +86,8 @@ export default function Dashboard() {
   }
 
   const handleNewComponent = () => {
-    if (user?.subscriptionType === 'free' && components.length >= 3) {
+    const componentLimit = usage?.usage.components.limit ?? null;
+    if (componentLimit !== null && components.length >= componentLimit) {
       setShowUpgradeDialog(true);
     } else {
       // If already on upload tab, reset everything to start fresh
@@ -102,8 +109,6 @@ export default function Dashboard() {
     }
   };
 
-  const freeComponentsRemaining = user?.subscriptionType === 'free' ? Math.max(0, 3 - components.length) : null;
-
   const handleComponentGenerated = (component: any) => {
     setHasGeneratedNewComponent(true);
     setLockedComponent(component);
@@ -179,6 +184,8 @@ export default function Dashboard() {
           </div>
         </div>
 
+        <UsageMeters />
+
         {/* Chat Content */}
         <div className="flex-1 flex flex-col overflow-auto">
           {activeTab === 'upload' ? (
@@ -275,7 +282,7 @@ export default function Dashboard() {
             </DialogHeader>
             <div className="py-4">
             <p className="text-gray-300 mb-4">
-                You've reached the maximum of 3 components on the free plan. 
+                You've reached the maximum of {usage?.usage.components.limit} components on the free plan. 
                 Upgrade to Pro for unlimited components and advanced features!
               </p>
             <div className="bg-gradient-to-r from-indigo-900/50 to-purple-900/50 rounded-lg p-4 border border-gray-600">
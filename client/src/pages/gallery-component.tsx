@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Code2, Eye, GitFork, Loader2 } from "lucide-react";
+import { DEFAULT_THEME } from "@shared/themes";
+import { Button } from "@/components/ui/button";
+import { ComponentPreview } from "@/components/component-preview";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useUsage } from "@/hooks/useUsage";
+import { loadGalleryComponent } from "@/lib/api";
+import { getFrameworkOption } from "@/lib/frameworks";
+import { useComponentStore } from "@/lib/store";
+
+// A public or unlisted component at /gallery/:id, with its prompt and code
+export default function GalleryComponentPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user: firebaseUser } = useAuth();
+  const { refreshUsage } = useUsage();
+  const forkComponent = useComponentStore(state => state.forkComponent);
+  const [showCode, setShowCode] = useState(false);
+  const [isForking, setIsForking] = useState(false);
+
+  const { data: component, isLoading, error } = useQuery({
+    queryKey: ['gallery-component', id],
+    queryFn: () => loadGalleryComponent(id),
+    retry: false,
+  });
+
+  const handleFork = async () => {
+    if (!component) return;
+
+    setIsForking(true);
+    try {
+      await forkComponent(component.id);
+      refreshUsage();
+      toast({ title: "Component forked", description: `${component.name} was copied into your library.` });
+      setLocation("/dashboard");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fork component",
+        variant: "destructive",
+      });
+    } finally {
+      setIsForking(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-900">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-400" />
+      </div>
+    );
+  }
+
+  if (error || !component) {
+    return (
+      <div className="container mx-auto py-10 bg-gray-900 min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2 text-white">Component not found</h1>
+          <p className="text-gray-400 mb-4">It may have been made private or deleted.</p>
+          <Link href="/gallery">
+            <a className="text-indigo-400 hover:text-indigo-300">Browse the gallery</a>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const framework = getFrameworkOption(component.framework);
+
+  return (
+    <div className="container mx-auto py-10 bg-gray-900 min-h-screen">
+      <Link href="/gallery">
+        <a className="inline-flex items-center text-sm text-gray-400 hover:text-white mb-4">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Gallery
+        </a>
+      </Link>
+
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <div className="flex items-center gap-2">
+            <h1 className="text-3xl font-bold text-white">{component.name}</h1>
+            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-700 text-gray-300">{framework.label}</span>
+          </div>
+          <p className="text-gray-400 mt-1">{component.description}</p>
+          <p className="text-sm text-gray-500 mt-1">
+            {component.authorName ? `By ${component.authorName} · ` : ""}
+            {component.forkCount} {component.forkCount === 1 ? "fork" : "forks"}
+          </p>
+          {component.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {component.tags.map(tag => (
+                <span key={tag} className="px-1.5 py-0.5 text-xs rounded bg-gray-700 text-gray-300">#{tag}</span>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setShowCode(!showCode)}
+            className="text-gray-300 hover:text-white hover:bg-gray-700"
+          >
+            {showCode ? <Eye className="h-4 w-4 mr-1" /> : <Code2 className="h-4 w-4 mr-1" />}
+            {showCode ? "View preview" : "View code"}
+          </Button>
+          {firebaseUser ? (
+            <Button size="sm" onClick={handleFork} disabled={isForking} className="bg-indigo-600 hover:bg-indigo-700">
+              {isForking ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <GitFork className="h-4 w-4 mr-1" />}
+              Fork
+            </Button>
+          ) : (
+            <Link href="/login">
+              <Button size="sm" className="bg-indigo-600 hover:bg-indigo-700">Sign in to fork</Button>
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {showCode ? (
+        <div className="bg-gray-800 text-gray-300 p-4 rounded-lg font-mono text-sm overflow-auto border border-gray-700">
+          <pre>{component.code}</pre>
+        </div>
+      ) : (
+        <ComponentPreview code={component.code} framework={framework.id} theme={DEFAULT_THEME} />
+      )}
+
+      {component.prompt && (
+        <div className="mt-6">
+          <h2 className="text-sm font-medium text-gray-300 mb-2">Prompt</h2>
+          <p className="bg-gray-800 border border-gray-700 rounded-lg p-4 text-sm text-gray-300 whitespace-pre-wrap">{component.prompt}</p>
+        </div>
+      )}
+    </div>
+  );
+}
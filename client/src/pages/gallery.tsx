@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { GitFork, LibraryIcon, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { loadGallery, loadGalleryTags } from "@/lib/api";
+import { getFrameworkOption } from "@/lib/frameworks";
+import type { GallerySort } from "@/lib/types";
+
+const SORT_OPTIONS: { id: GallerySort; label: string }[] = [
+  { id: "new", label: "Newest" },
+  { id: "popular", label: "Most forked" },
+];
+
+// Public components from all users, at /gallery
+export default function Gallery() {
+  const [sort, setSort] = useState<GallerySort>("new");
+  const [tags, setTags] = useState<string[]>([]);
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['gallery', sort, tags, page],
+    queryFn: () => loadGallery({ sort, tags, page }),
+    placeholderData: (previous) => previous,
+  });
+
+  const { data: popularTags = [] } = useQuery({
+    queryKey: ['gallery-tags'],
+    queryFn: loadGalleryTags,
+  });
+
+  const toggleTag = (tag: string) => {
+    setTags(tags.includes(tag) ? tags.filter(selected => selected !== tag) : [...tags, tag]);
+    setPage(1);
+  };
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <div className="container mx-auto py-10 bg-gray-900 min-h-screen">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Community Gallery</h1>
+          <p className="text-gray-400 mt-1">Components shared by other users. Fork one to make it your own.</p>
+        </div>
+        <div className="flex gap-1">
+          {SORT_OPTIONS.map(option => (
+            <Button
+              key={option.id}
+              size="sm"
+              variant={sort === option.id ? "default" : "ghost"}
+              className={sort === option.id ? "bg-indigo-600 hover:bg-indigo-700" : "text-gray-300 hover:text-white hover:bg-gray-700"}
+              onClick={() => {
+                setSort(option.id);
+                setPage(1);
+              }}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {popularTags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {popularTags.map(({ tag, count }) => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={`px-2.5 py-1 text-xs font-medium rounded-full border ${
+                tags.includes(tag)
+                  ? "bg-indigo-600 border-indigo-500 text-white"
+                  : "bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-500"
+              }`}
+            >
+              #{tag} <span className="opacity-60">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-400" />
+        </div>
+      ) : error ? (
+        <p className="text-red-400 text-center py-20">{error instanceof Error ? error.message : "Failed to load the gallery"}</p>
+      ) : !data || data.components.length === 0 ? (
+        <p className="text-gray-400 text-center py-20">
+          {tags.length > 0 ? "No public components have all of these tags." : "No components have been published yet."}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {data.components.map(component => (
+              <Link key={component.id} href={`/gallery/${component.id}`}>
+                <a className="block border border-gray-700 rounded-lg overflow-hidden bg-gray-800 hover:border-indigo-500 transition-colors">
+                  <div className="h-36 bg-gray-100 overflow-hidden">
+                    {component.screenshot ? (
+                      <img src={component.screenshot} alt={component.name} className="w-full h-full object-cover" />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-indigo-900 to-purple-900">
+                        <LibraryIcon className="h-8 w-8 text-indigo-400" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="p-3">
+                    <h3 className="font-medium text-white truncate">{component.name}</h3>
+                    <p className="text-sm text-gray-400 truncate">{component.description}</p>
+                    <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
+                      <span className="truncate">
+                        {getFrameworkOption(component.framework).label}
+                        {component.authorName && ` · by ${component.authorName}`}
+                      </span>
+                      <span className="flex items-center gap-1 shrink-0" title="Forks">
+                        <GitFork className="h-3.5 w-3.5" />
+                        {component.forkCount}
+                      </span>
+                    </div>
+                    {component.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {component.tags.map(tag => (
+                          <span key={tag} className="px-1.5 py-0.5 text-xs rounded bg-gray-700 text-gray-300">#{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </a>
+              </Link>
+            ))}
+          </div>
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-8">
+              <Button
+                variant="outline"
+                className="border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                disabled={page <= 1}
+                onClick={() => setPage(page - 1)}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-gray-400">Page {page} of {pageCount}</span>
+              <Button
+                variant="outline"
+                className="border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+                disabled={page >= pageCount}
+                onClick={() => setPage(page + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useLocation, useParams } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { sendEmailVerification } from "firebase/auth";
+import { Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { WORKSPACE_ROLE_NAMES } from "@/hooks/useWorkspaces";
+import { acceptInvitation, loadInvitation } from "@/lib/api";
+
+// Landing page of the link in a workspace invitation
+export default function Invitation() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: firebaseUser, loading } = useAuth();
+  const userId = firebaseUser?.uid;
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  const { data: invitation, isLoading, error, refetch } = useQuery({
+    queryKey: ['invitation', token, userId],
+    queryFn: () => loadInvitation(token),
+    enabled: !!userId,
+    retry: false,
+  });
+
+  const handleAccept = async () => {
+    if (!invitation) return;
+
+    setIsAccepting(true);
+    try {
+      await acceptInvitation(token);
+      await queryClient.invalidateQueries({ queryKey: ['workspaces', userId] });
+      toast({ title: "Welcome!", description: `You joined ${invitation.workspaceName}.` });
+      setLocation(`/workspaces/${invitation.workspaceId}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to accept invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  // The server reads email_verified from the ID token, so a fresh token is
+  // needed after the user clicks the link in the verification email
+  const handleVerified = async () => {
+    if (!firebaseUser) return;
+    await firebaseUser.reload();
+    await firebaseUser.getIdToken(true);
+    await refetch();
+  };
+
+  const handleSendVerification = async () => {
+    if (!firebaseUser) return;
+    try {
+      await sendEmailVerification(firebaseUser);
+      toast({ title: "Verification email sent", description: `Check ${firebaseUser.email} for the link.` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send verification email",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-900">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-400" />
+      </div>
+    );
+  }
+
+  if (!firebaseUser) {
+    return (
+      <div className="container mx-auto py-10 bg-gray-900 min-h-screen">
+        <Card className="p-6 bg-gray-800 border-gray-700 max-w-lg mx-auto text-center">
+          <h1 className="text-2xl font-bold mb-2 text-white">You've been invited to a workspace</h1>
+          <p className="text-gray-400 mb-4">Sign in with the invited email address, then open the invitation link again.</p>
+          <Button onClick={() => setLocation('/login')}>Sign In</Button>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-10 bg-gray-900 min-h-screen">
+      <Card className="p-6 bg-gray-800 border-gray-700 max-w-lg mx-auto text-center">
+        {error || !invitation ? (
+          <>
+            <h1 className="text-2xl font-bold mb-2 text-white">Invitation not found</h1>
+            <p className="text-gray-400">The link may be mistyped, or the invitation was revoked.</p>
+          </>
+        ) : (
+          <>
+            <Users className="h-10 w-10 text-indigo-400 mx-auto mb-3" />
+            <h1 className="text-2xl font-bold mb-2 text-white">Join {invitation.workspaceName}</h1>
+            <p className="text-gray-400 mb-4">
+              You're invited as {WORKSPACE_ROLE_NAMES[invitation.role].toLowerCase()}.
+            </p>
+            {invitation.error ? (
+              <>
+                <p className="text-red-400">{invitation.error}</p>
+                {!firebaseUser.emailVerified && (
+                  <div className="flex justify-center gap-2 mt-4">
+                    <Button variant="outline" className="border-gray-600 text-white hover:bg-gray-700 hover:text-white" onClick={handleSendVerification}>
+                      Send Verification Email
+                    </Button>
+                    <Button onClick={handleVerified}>I've Verified It</Button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <Button onClick={handleAccept} disabled={isAccepting}>
+                {isAccepting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Accept Invitation'}
+              </Button>
+            )}
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
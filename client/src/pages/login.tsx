@@ -9,6 +9,7 @@ import { FaGithub } from "react-icons/fa";
 import { toast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import type { User } from "firebase/auth";
+import { authorizedFetch } from "@/lib/queryClient";
 
 export default function Login() {
   const [, setLocation] = useLocation();
@@ -58,15 +59,8 @@ export default function Login() {
 
         // Create Stripe customer for new user
         console.log("[Stripe] Creating customer for new user");
-        await fetch('/api/users/ensure-stripe', {
+        await authorizedFetch('/api/users/ensure-stripe', {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            firebaseId: userCredential.user.uid,
-            email: userCredential.user.email,
-          }),
         });
         console.log("[Stripe] Customer created successfully");
 
@@ -83,15 +77,8 @@ export default function Login() {
 
         console.log("[Stripe] Ensuring customer exists for signin");
         // Ensure Stripe customer exists
-        await fetch('/api/users/ensure-stripe', {
+        await authorizedFetch('/api/users/ensure-stripe', {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            firebaseId: userCredential.user.uid,
-            email: userCredential.user.email,
-          }),
         });
         console.log("[Stripe] Customer created successfully");
 
@@ -198,16 +185,8 @@ export default function Login() {
                     });
 
                     // Ensure user exists in database
-                    await fetch('/api/users/ensure-stripe', {
+                    await authorizedFetch('/api/users/ensure-stripe', {
                       method: 'POST',
-                      headers: {
-                        'Content-Type': 'application/json',
-                      },
-                      body: JSON.stringify({
-                        firebaseId: userCredential.user.uid,
-                        email: userCredential.user.email,
-                        displayName: userCredential.user.displayName
-                      }),
                     });
 
                     // Ensure Stripe customer exists
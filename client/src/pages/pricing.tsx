@@ -6,12 +6,37 @@ import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardContent, CardTitle, CardFooter } from "@/components/ui/card";
 import { Check, Loader2 } from "lucide-react";
 import { useState, useEffect } from "react";
+import { authorizedFetch } from "@/lib/queryClient";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { loadPlans } from "@/lib/api";
+import type { BillingInterval, Plan, PlanId } from "@/lib/types";
+import { summarizeSubscription } from "@shared/subscriptions";
+
+function formatAmount(cents: number) {
+  return `$${(cents / 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+function formatLimit(limit: number | null) {
+  return limit === null ? 'Unlimited' : limit.toLocaleString();
+}
+
+// The plan's limits as feature list entries
+function describeLimits({ limits }: Plan) {
+  return [
+    `${formatLimit(limits.components)} saved components`,
+    `${formatLimit(limits.generationsPerDay)} generations a day`,
+    `${formatLimit(limits.imageUploadsPerDay)} screenshot generations a day`,
+    `Up to ${limits.variants} variants per request`,
+  ];
+}
 
 function Pricing() {
   const { toast } = useToast();
   const { user } = useAuth();
   const [, setLocation] = useLocation();
-  const [isCreatingCheckout, setIsCreatingCheckout] = useState(false);
+  const [checkoutPlan, setCheckoutPlan] = useState<PlanId | null>(null);
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>('monthly');
 
   // Get URL params to handle success/cancel states
   useEffect(() => {
@@ -23,7 +48,7 @@ function Pricing() {
     if (success === 'true') {
       toast({
         title: "Payment Successful!",
-        description: "Your subscription has been activated. Welcome to Pro!",
+        description: "Your subscription has been activated. Welcome aboard!",
       });
       // Clean up URL
       window.history.replaceState({}, document.title, window.location.pathname);
@@ -42,31 +67,37 @@ function Pricing() {
     queryKey: ['user', user?.uid],
     queryFn: async () => {
       if (!user?.uid) return null;
-      const response = await fetch(`/api/users/${user.uid}`);
+      const response = await authorizedFetch(`/api/users/${user.uid}`);
       if (!response.ok) throw new Error('Failed to fetch user data');
       return response.json();
     },
     enabled: !!user?.uid
   });
 
-  const isPro = userData?.subscriptionType === 'pro';
+  const { data: plans, isLoading: plansLoading } = useQuery({
+    queryKey: ['plans'],
+    queryFn: loadPlans,
+  });
+
+  const currentPlan = summarizeSubscription(userData ?? undefined).plan;
+  const hasSubscription = currentPlan !== 'free';
 
-  const handleUpgrade = async () => {
+  const handleUpgrade = async (planId: PlanId) => {
     if (!user?.uid) {
       setLocation("/login");
       return;
     }
 
-    setIsCreatingCheckout(true);
+    setCheckoutPlan(planId);
     try {
-      console.log('[Pricing] Creating checkout session for user:', user.uid);
-      
-      const response = await fetch('/api/create-checkout-session', {
+      console.log('[Pricing] Creating checkout session for user:', user.uid, planId, billingInterval);
+
+      const response = await authorizedFetch('/api/create-checkout-session', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          firebaseId: user.uid,
-          mode: 'subscription',
+          plan: planId,
+          interval: billingInterval,
           // successUrl and cancelUrl will use defaults from the server
         })
       });
@@ -89,7 +120,7 @@ function Pricing() {
         variant: "destructive",
       });
     } finally {
-      setIsCreatingCheckout(false);
+      setCheckoutPlan(null);
     }
   };
 
@@ -97,12 +128,8 @@ function Pricing() {
     if (!user?.uid) return;
 
     try {
-      const response = await fetch('/api/create-portal-session', {
+      const response = await authorizedFetch('/api/create-portal-session', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          firebaseId: user.uid
-        })
       });
 
       if (!response.ok) {
@@ -137,128 +164,140 @@ function Pricing() {
 
   return (
     <div className="min-h-screen bg-gray-900 p-4">
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-6xl mx-auto">
         <div className="text-center mb-12">
           <h1 className="text-4xl font-bold text-white mb-4">
             Choose Your Plan
           </h1>
           <p className="text-xl text-gray-300">
-            Unlock powerful features with our Pro subscription
+            Unlock powerful features with a paid plan. Save with annual billing.
           </p>
         </div>
 
-        <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
-          {/* Free Plan */}
-          <Card className="relative bg-gray-800 border-gray-700">
-            <CardHeader>
-              <CardTitle className="text-2xl text-white">Free</CardTitle>
-              <div className="text-3xl font-bold text-white">$0<span className="text-lg font-normal">/month</span></div>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <ul className="space-y-3 text-gray-300">
-                <li className="flex items-center">
-                  <Check className="h-5 w-5 text-green-500 mr-3" />
-                  Basic features
-                </li>
-                <li className="flex items-center">
-                  <Check className="h-5 w-5 text-green-500 mr-3" />
-                  Limited usage
-                </li>
-                <li className="flex items-center">
-                  <Check className="h-5 w-5 text-green-500 mr-3" />
-                  Community support
-                </li>
-              </ul>
-            </CardContent>
-            <CardFooter>
-              <Button 
-                className="w-full border-gray-600 text-gray-400" 
-                variant="outline"
-                disabled
-              >
-                Current Plan
-              </Button>
-            </CardFooter>
-          </Card>
+        <div className="flex items-center justify-center gap-3 mb-10">
+          <Label htmlFor="billing-interval" className={billingInterval === 'monthly' ? 'text-white' : 'text-gray-400'}>
+            Monthly
+          </Label>
+          <Switch
+            id="billing-interval"
+            checked={billingInterval === 'annual'}
+            onCheckedChange={(annual) => setBillingInterval(annual ? 'annual' : 'monthly')}
+          />
+          <Label htmlFor="billing-interval" className={billingInterval === 'annual' ? 'text-white' : 'text-gray-400'}>
+            Annual
+          </Label>
+        </div>
+
+        {plansLoading || !plans ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className={`grid gap-8 mx-auto ${plans.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+            {plans.map((plan) => {
+              const price = plan.prices[billingInterval];
+              const isCurrent = plan.id === currentPlan;
 
-          {/* Pro Plan */}
-          <Card className="relative bg-gray-800 border-indigo-500">
-            <div className="absolute -top-4 left-1/2 transform -translate-x-1/2">
-              <span className="bg-indigo-600 text-white px-4 py-1 rounded-full text-sm font-medium">
-                Most Popular
-              </span>
-            </div>
-            <CardHeader>
-              <CardTitle className="text-2xl text-white">Pro</CardTitle>
-              <div className="text-3xl font-bold text-white">$29<span className="text-lg font-normal">/month</span></div>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <ul className="space-y-3 text-gray-300">
-                <li className="flex items-center">
-                  <Check className="h-5 w-5 text-green-500 mr-3" />
-                  All features included
-                </li>
-                <li className="flex items-center">
-                  <Check className="h-5 w-5 text-green-500 mr-3" />
-                  Unlimited usage
-                </li>
-                <li className="flex items-center">
-                  <Check className="h-5 w-5 text-green-500 mr-3" />
-                  Priority support
-                </li>
-                <li className="flex items-center">
-                  <Check className="h-5 w-5 text-green-500 mr-3" />
-                  Advanced analytics
-                </li>
-                <li className="flex items-center">
-                  <Check className="h-5 w-5 text-green-500 mr-3" />
-                  API access
-                </li>
-              </ul>
-            </CardContent>
-            <CardFooter className="flex flex-col gap-2">
-              {userLoading ? (
-                <Button className="w-full" disabled>
-                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  Loading...
-                </Button>
-              ) : isPro ? (
-                <>
-                  <p className="text-sm text-gray-400 mb-2">You're using this plan</p>
-                  <Button
-                    className="w-full bg-gray-700 text-gray-300"
-                    variant="secondary"
-                    disabled
-                  >
-                    Current Plan
-                  </Button>
-                  <Button
-                    className="w-full mt-2 border-gray-600 text-gray-300 hover:bg-gray-700 hover:text-white"
-                    variant="outline"
-                    onClick={handleManageSubscription}
-                  >
-                    Manage Subscription
-                  </Button>
-                </>
-              ) : (
-                <Button
-                  className="w-full bg-indigo-600 hover:bg-indigo-700"
-                  onClick={handleUpgrade}
-                  disabled={isCreatingCheckout}
-                >
-                  {isCreatingCheckout ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                      Redirecting to checkout...
-                    </>
-                  ) : (
-                    "Upgrade to Pro"
+              return (
+                <Card key={plan.id} className={`relative bg-gray-800 ${plan.highlighted ? 'border-indigo-500' : 'border-gray-700'}`}>
+                  {plan.highlighted && (
+                    <div className="absolute -top-4 left-1/2 transform -translate-x-1/2">
+                      <span className="bg-indigo-600 text-white px-4 py-1 rounded-full text-sm font-medium">
+                        Most Popular
+                      </span>
+                    </div>
                   )}
-                </Button>
-              )}
-            </CardFooter>
-          </Card>
-        </div>
+                  <CardHeader>
+                    <CardTitle className="text-2xl text-white">{plan.name}</CardTitle>
+                    <div className="text-3xl font-bold text-white">
+                      {plan.id === 'free' ? '$0' : price ? formatAmount(price.amount) : '—'}
+                      <span className="text-lg font-normal">/{billingInterval === 'annual' ? 'year' : 'month'}</span>
+                    </div>
+                    {price && billingInterval === 'annual' && plan.prices.monthly && (
+                      <p className="text-sm text-green-400">
+                        {formatAmount(plan.prices.monthly.amount * 12 - price.amount)} less than paying monthly
+                      </p>
+                    )}
+                    <p className="text-sm text-gray-400">{plan.description}</p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <ul className="space-y-3 text-gray-300">
+                      {[...describeLimits(plan), ...plan.features].map((feature) => (
+                        <li key={feature} className="flex items-center">
+                          <Check className="h-5 w-5 text-green-500 mr-3 shrink-0" />
+                          {feature}
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                  <CardFooter className="flex flex-col gap-2">
+                    {userLoading ? (
+                      <Button className="w-full" disabled>
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                        Loading...
+                      </Button>
+                    ) : isCurrent ? (
+                      <>
+                        <p className="text-sm text-gray-400 mb-2">You're using this plan</p>
+                        <Button
+                          className="w-full bg-gray-700 text-gray-300"
+                          variant="secondary"
+                          disabled
+                        >
+                          Current Plan
+                        </Button>
+                        {hasSubscription && (
+                          <Button
+                            className="w-full mt-2 border-gray-600 text-gray-300 hover:bg-gray-700 hover:text-white"
+                            variant="outline"
+                            onClick={handleManageSubscription}
+                          >
+                            Manage Subscription
+                          </Button>
+                        )}
+                      </>
+                    ) : plan.id === 'free' ? null : plan.billedTo === 'workspace' ? (
+                      // Workspace plans are bought from the workspace's page by its owner
+                      <Button
+                        className="w-full bg-indigo-600 hover:bg-indigo-700"
+                        onClick={() => setLocation(user?.uid ? '/workspaces' : '/login')}
+                        disabled={!price}
+                      >
+                        {price ? `Get ${plan.name} for a Workspace` : `Not available ${billingInterval === 'annual' ? 'annually' : 'monthly'}`}
+                      </Button>
+                    ) : hasSubscription ? (
+                      // Plan changes of an existing subscription are prorated by Stripe
+                      <Button
+                        className="w-full border-gray-600 text-gray-300 hover:bg-gray-700 hover:text-white"
+                        variant="outline"
+                        onClick={handleManageSubscription}
+                      >
+                        Switch to {plan.name}
+                      </Button>
+                    ) : (
+                      <Button
+                        className="w-full bg-indigo-600 hover:bg-indigo-700"
+                        onClick={() => handleUpgrade(plan.id)}
+                        disabled={!price || checkoutPlan !== null}
+                      >
+                        {checkoutPlan === plan.id ? (
+                          <>
+                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                            Redirecting to checkout...
+                          </>
+                        ) : price ? (
+                          `Upgrade to ${plan.name}`
+                        ) : (
+                          `Not available ${billingInterval === 'annual' ? 'annually' : 'monthly'}`
+                        )}
+                      </Button>
+                    )}
+                  </CardFooter>
+                </Card>
+              );
+            })}
+          </div>
+        )}
 
         <div className="text-center mt-12">
           <p className="text-gray-400">
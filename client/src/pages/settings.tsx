@@ -11,15 +11,46 @@ import { useState } from "react";
 import { updateUserPassword } from "@/lib/firebase";
 import { useUser } from "@/hooks/useUser";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, authorizedFetch } from "@/lib/queryClient";
 import { signOut } from "firebase/auth";
 import { auth } from "@/lib/firebase";
+import { ThemeManager } from "@/components/theme-manager";
+import { ShareLinksManager } from "@/components/share-links";
+import { GenerationHistory } from "@/components/generation-history";
+import { summarizeSubscription, type SubscriptionSummary } from "@shared/subscriptions";
+import { PLAN_NAMES } from "@/lib/stripe";
+
+function formatDate(date: Date | null) {
+  return date ? date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }) : 'the end of the period';
+}
+
+function describeSubscription({ state, plan, periodEnd, trialEnd, graceEnd }: SubscriptionSummary) {
+  const planName = PLAN_NAMES[plan];
+  switch (state) {
+    case 'trialing':
+      return `Your trial ends on ${formatDate(trialEnd)}. ${planName} features stay on after that unless you cancel.`;
+    case 'canceling':
+      return `Your subscription is canceled. You keep ${planName} until ${formatDate(periodEnd)}.`;
+    case 'past_due':
+      return `Your last payment failed. Update your card by ${formatDate(graceEnd)} to keep ${planName}.`;
+    case 'lapsed':
+      return 'Your payment could not be collected, so your account is back on the free plan. Update your card to restore your subscription.';
+    case 'active':
+      return periodEnd
+        ? `You have access to all ${planName} features. Your subscription renews on ${formatDate(periodEnd)}.`
+        : `You have access to all ${planName} features. Manage your subscription through the billing portal.`;
+    default:
+      return 'Upgrade to pro for unlimited items and premium features';
+  }
+}
 
 export default function Settings() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { user: firebaseUser, loading } = useAuth();
   const { user: userData } = useUser(); // Renamed to avoid conflict
+  const subscription = summarizeSubscription(userData);
+  const hasSubscription = subscription.state !== 'free';
   const queryClient = useQueryClient();
   const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
@@ -122,12 +153,8 @@ export default function Settings() {
     if (!firebaseUser?.uid) return;
 
     try {
-      const response = await fetch('/api/create-portal-session', {
+      const response = await authorizedFetch('/api/create-portal-session', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          firebaseId: firebaseUser.uid
-        })
       });
 
       if (!response.ok) {
@@ -239,6 +266,12 @@ export default function Settings() {
           </div>
         </Card>
 
+        <ThemeManager />
+
+        <ShareLinksManager />
+
+        <GenerationHistory />
+
         <Card className="mt-4 bg-gray-800 border-gray-700">
           <CardHeader>
             <CardTitle className="text-white">Your Plan</CardTitle>
@@ -247,15 +280,17 @@ export default function Settings() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-lg font-medium text-white">
-                  Current Plan: {userData?.subscriptionType === 'pro' ? 'Pro' : 'Free'}
+                  Current Plan: {PLAN_NAMES[subscription.plan]}
                 </p>
-                <p className="text-sm text-gray-400">
-                  {userData?.subscriptionType === 'pro' 
-                    ? 'You have access to all pro features. Manage your subscription through the billing portal.'
-                    : 'Upgrade to pro for unlimited items and premium features'}
+                <p className={`text-sm ${subscription.state === 'past_due' || subscription.state === 'lapsed' ? 'text-red-400' : 'text-gray-400'}`}>
+                  {describeSubscription(subscription)}
                 </p>
               </div>
-              {userData?.subscriptionType === 'pro' ? (
+              {subscription.state === 'past_due' || subscription.state === 'lapsed' ? (
+                <Button onClick={handleOpenBillingPortal}>
+                  Update Payment Method
+                </Button>
+              ) : hasSubscription ? (
                 <Button
                   variant="outline"
                   onClick={handleOpenBillingPortal}
@@ -274,7 +309,7 @@ export default function Settings() {
           </CardContent>
         </Card>
 
-        {userData?.subscriptionType === 'pro' && (
+        {hasSubscription && (
           <Card className="p-6 bg-gray-800 border-gray-700">
             <h2 className="text-2xl font-semibold mb-4 text-white">Billing</h2>
             <div className="space-y-4">
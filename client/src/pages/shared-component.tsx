@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Link, useParams, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Code2, ExternalLink, Eye, Loader2, Lock } from "lucide-react";
+import { DEFAULT_THEME } from "@shared/themes";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ComponentPreview } from "@/components/component-preview";
+import { loadSharedComponent } from "@/lib/api";
+import { getFrameworkOption } from "@/lib/frameworks";
+
+// Read-only view of a shared component at /s/:token, and its bare variant
+// for iframes at /embed/:token
+export default function SharedComponentPage() {
+  const { token } = useParams<{ token: string }>();
+  const [isEmbed] = useRoute("/embed/:token");
+  const [password, setPassword] = useState("");
+  const [submittedPassword, setSubmittedPassword] = useState<string>();
+  const [showCode, setShowCode] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['shared-component', token, submittedPassword],
+    queryFn: () => loadSharedComponent(token, submittedPassword),
+    retry: false,
+    placeholderData: (previous) => previous,
+  });
+
+  const containerClassName = isEmbed ? "min-h-screen bg-gray-900 p-2" : "container mx-auto py-10 bg-gray-900 min-h-screen";
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-900">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-400" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className={`${containerClassName} flex items-center justify-center`}>
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2 text-white">This link doesn't work</h1>
+          <p className="text-gray-400">{error instanceof Error ? error.message : "The share link was revoked or mistyped."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if ('passwordRequired' in data) {
+    return (
+      <div className={`${containerClassName} flex items-center justify-center`}>
+        <form
+          className="w-full max-w-sm text-center space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSubmittedPassword(password);
+          }}
+        >
+          <Lock className="h-8 w-8 text-indigo-400 mx-auto" />
+          <p className="text-gray-300">{submittedPassword ? data.error : "This component is password protected."}</p>
+          <Input type="password" placeholder="Password" value={password} onChange={(e) => setPassword(e.target.value)} autoFocus required />
+          <Button type="submit" className="w-full">View Component</Button>
+        </form>
+      </div>
+    );
+  }
+
+  const { component, theme } = data;
+  const framework = getFrameworkOption(component.framework);
+
+  const codeToggle = (
+    <Button
+      size="sm"
+      variant="ghost"
+      onClick={() => setShowCode(!showCode)}
+      className="text-gray-300 hover:text-white hover:bg-gray-700"
+    >
+      {showCode ? <Eye className="h-4 w-4 mr-1" /> : <Code2 className="h-4 w-4 mr-1" />}
+      {showCode ? "View preview" : "View code"}
+    </Button>
+  );
+
+  const content = showCode ? (
+    <div className="bg-gray-800 text-gray-300 p-4 rounded-lg font-mono text-sm overflow-auto border border-gray-700">
+      <pre>{component.code}</pre>
+    </div>
+  ) : (
+    <ComponentPreview code={component.code} framework={framework.id} theme={theme ?? DEFAULT_THEME} />
+  );
+
+  if (isEmbed) {
+    return (
+      <div className={containerClassName}>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-200 truncate">{component.name}</span>
+          <div className="flex items-center gap-1">
+            {codeToggle}
+            <a href={`/s/${token}`} target="_blank" rel="noopener noreferrer" className="p-2 text-gray-400 hover:text-white" title="Open in a new tab">
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          </div>
+        </div>
+        {content}
+      </div>
+    );
+  }
+
+  return (
+    <div className={containerClassName}>
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <div className="flex items-center gap-2">
+            <h1 className="text-3xl font-bold text-white">{component.name}</h1>
+            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-700 text-gray-300">{framework.label}</span>
+          </div>
+          <p className="text-gray-400 mt-1">{component.description}</p>
+        </div>
+        {codeToggle}
+      </div>
+      {content}
+      <p className="text-sm text-gray-500 mt-6">
+        Made with Component Generator.{" "}
+        <Link href="/login">
+          <a className="text-indigo-400 hover:text-indigo-300">Generate your own</a>
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+import { useEffect, useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { WORKSPACE_ROLE_NAMES } from "@/hooks/useWorkspaces";
+import {
+  deleteWorkspace,
+  inviteToWorkspace,
+  loadWorkspace,
+  removeWorkspaceMember,
+  renameWorkspace,
+  revokeWorkspaceInvitation,
+  updateWorkspaceMemberRole,
+} from "@/lib/api";
+import { PLAN_NAMES, redirectToWorkspaceCheckout, redirectToWorkspacePortal } from "@/lib/stripe";
+import { useComponentStore } from "@/lib/store";
+import type { BillingInterval, WorkspaceRole } from "@/lib/types";
+import { summarizeSubscription, type SubscriptionSummary } from "@shared/subscriptions";
+
+type MemberRole = Exclude<WorkspaceRole, 'owner'>;
+
+const selectClassName = "bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+function formatDate(date: Date | null) {
+  return date ? date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }) : 'the end of the period';
+}
+
+function describeWorkspaceSubscription({ state, plan, periodEnd, graceEnd }: SubscriptionSummary) {
+  switch (state) {
+    case 'free':
+      return 'Upgrade to Team to give every owner and editor Team limits.';
+    case 'canceling':
+      return `The subscription is canceled. The workspace keeps ${PLAN_NAMES[plan]} until ${formatDate(periodEnd)}.`;
+    case 'past_due':
+      return `The last payment failed. Update the card by ${formatDate(graceEnd)} to keep ${PLAN_NAMES[plan]}.`;
+    case 'lapsed':
+      return 'The payment could not be collected, so the workspace is back on the free plan.';
+    default:
+      return periodEnd
+        ? `Owners and editors get ${PLAN_NAMES[plan]} limits. The subscription renews on ${formatDate(periodEnd)}.`
+        : `Owners and editors get ${PLAN_NAMES[plan]} limits.`;
+  }
+}
+
+export default function WorkspacePage() {
+  const params = useParams<{ id: string }>();
+  const workspaceId = Number(params.id);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: firebaseUser, loading } = useAuth();
+  const userId = firebaseUser?.uid;
+  const { setWorkspace } = useComponentStore();
+  const [name, setName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<MemberRole>("editor");
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("monthly");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['workspace', workspaceId, userId],
+    queryFn: () => loadWorkspace(workspaceId),
+    enabled: !!userId && Number.isInteger(workspaceId),
+  });
+
+  useEffect(() => {
+    if (data) setName(data.workspace.name);
+  }, [data]);
+
+  const refresh = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['workspace', workspaceId, userId] }),
+    queryClient.invalidateQueries({ queryKey: ['workspaces', userId] }),
+  ]);
+
+  // Runs an action with a busy state, reporting failures in a toast
+  const run = async (action: () => Promise<unknown>, successMessage?: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      if (successMessage) {
+        toast({ title: "Success", description: successMessage });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Link copied", description: "Send it to the person you invited." });
+  };
+
+  if (loading || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-900">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-400" />
+      </div>
+    );
+  }
+
+  if (!firebaseUser) {
+    setLocation('/login');
+    return null;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="container mx-auto py-10 bg-gray-900 min-h-screen">
+        <h1 className="text-2xl font-bold mb-4 text-white">Workspace not found</h1>
+        <Button onClick={() => setLocation('/workspaces')}>Back to Workspaces</Button>
+      </div>
+    );
+  }
+
+  const { workspace, members, invitations } = data;
+  const isOwner = workspace.role === 'owner';
+  const subscription = summarizeSubscription(workspace);
+  const hasSubscription = subscription.state !== 'free';
+
+  return (
+    <div className="container mx-auto py-10 bg-gray-900 min-h-screen">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-4xl font-bold text-white">{workspace.name}</h1>
+          <p className="text-gray-400">You're {WORKSPACE_ROLE_NAMES[workspace.role].toLowerCase()} of this workspace.</p>
+        </div>
+        <Button
+          onClick={async () => {
+            await setWorkspace(workspace.id);
+            setLocation('/dashboard');
+          }}
+        >
+          Open Library
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        {isOwner && (
+          <Card className="p-6 bg-gray-800 border-gray-700">
+            <h2 className="text-2xl font-semibold mb-4 text-white">Name</h2>
+            <form
+              className="flex gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                run(async () => {
+                  await renameWorkspace(workspace.id, name);
+                  await refresh();
+                }, "Workspace renamed.");
+              }}
+            >
+              <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={100} required />
+              <Button type="submit" disabled={isBusy || !name.trim() || name === workspace.name}>Save</Button>
+            </form>
+          </Card>
+        )}
+
+        <Card className="p-6 bg-gray-800 border-gray-700">
+          <h2 className="text-2xl font-semibold mb-4 text-white">Plan</h2>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-lg font-medium text-white">Current Plan: {PLAN_NAMES[subscription.plan]}</p>
+              <p className={`text-sm ${subscription.state === 'past_due' || subscription.state === 'lapsed' ? 'text-red-400' : 'text-gray-400'}`}>
+                {describeWorkspaceSubscription(subscription)}
+              </p>
+            </div>
+            {isOwner && (hasSubscription ? (
+              <Button
+                variant="outline"
+                disabled={isBusy}
+                onClick={() => run(() => redirectToWorkspacePortal(workspace.id))}
+                className="border-gray-600 text-white hover:bg-gray-700 hover:text-white"
+              >
+                Manage Billing
+              </Button>
+            ) : (
+              <div className="flex items-center gap-2">
+                <select
+                  className={selectClassName}
+                  value={billingInterval}
+                  onChange={(e) => setBillingInterval(e.target.value as BillingInterval)}
+                  aria-label="Billing interval"
+                >
+                  <option value="monthly">Monthly</option>
+                  <option value="annual">Annual</option>
+                </select>
+                <Button
+                  disabled={isBusy}
+                  onClick={() => run(() => redirectToWorkspaceCheckout(workspace.id, { plan: 'team', interval: billingInterval }))}
+                >
+                  Upgrade to Team
+                </Button>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        <Card className="p-6 bg-gray-800 border-gray-700">
+          <h2 className="text-2xl font-semibold mb-4 text-white">Members</h2>
+          <ul className="divide-y divide-gray-700">
+            {members.map(member => (
+              <li key={member.userId} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="text-white">
+                    {[member.firstName, member.lastName].filter(Boolean).join(' ') || member.email}
+                    {member.userId === userId && <span className="text-gray-400"> (you)</span>}
+                  </p>
+                  <p className="text-sm text-gray-400">{member.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {isOwner && member.role !== 'owner' ? (
+                    <select
+                      className={selectClassName}
+                      value={member.role}
+                      disabled={isBusy}
+                      aria-label={`Role of ${member.email}`}
+                      onChange={(e) => run(async () => {
+                        await updateWorkspaceMemberRole(workspace.id, member.userId, e.target.value as MemberRole);
+                        await refresh();
+                      })}
+                    >
+                      <option value="editor">Editor</option>
+                      <option value="viewer">Viewer</option>
+                    </select>
+                  ) : (
+                    <span className="text-sm text-gray-300">{WORKSPACE_ROLE_NAMES[member.role]}</span>
+                  )}
+                  {member.role !== 'owner' && (isOwner || member.userId === userId) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isBusy}
+                      className="text-red-400 hover:text-red-300 hover:bg-gray-700"
+                      onClick={() => {
+                        const leaving = member.userId === userId;
+                        if (!confirm(leaving ? `Leave "${workspace.name}"?` : `Remove ${member.email} from "${workspace.name}"?`)) return;
+                        run(async () => {
+                          await removeWorkspaceMember(workspace.id, member.userId);
+                          if (leaving) {
+                            await queryClient.invalidateQueries({ queryKey: ['workspaces', userId] });
+                            setLocation('/workspaces');
+                          } else {
+                            await refresh();
+                          }
+                        });
+                      }}
+                    >
+                      {member.userId === userId ? 'Leave' : 'Remove'}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Card>
+
+        {isOwner && (
+          <Card className="p-6 bg-gray-800 border-gray-700">
+            <h2 className="text-2xl font-semibold mb-2 text-white">Invite Members</h2>
+            <p className="text-sm text-gray-400 mb-4">
+              Invitations are emailed links that expire after 7 days. Only the invited email address can accept them.
+            </p>
+            <form
+              className="flex gap-3 mb-6"
+              onSubmit={(e) => {
+                e.preventDefault();
+                run(async () => {
+                  const { invitation, emailSent } = await inviteToWorkspace(workspace.id, inviteEmail, inviteRole);
+                  setInviteEmail("");
+                  await refresh();
+                  if (emailSent) {
+                    toast({ title: "Invitation sent", description: `We emailed the invitation link to ${invitation.email}.` });
+                  } else {
+                    await copyLink(invitation.acceptUrl);
+                  }
+                });
+              }}
+            >
+              <Input
+                type="email"
+                placeholder="teammate@example.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                required
+              />
+              <select
+                className={selectClassName}
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as MemberRole)}
+                aria-label="Role"
+              >
+                <option value="editor">Editor</option>
+                <option value="viewer">Viewer</option>
+              </select>
+              <Button type="submit" disabled={isBusy}>Invite</Button>
+            </form>
+
+            {invitations.length > 0 && (
+              <>
+                <h3 className="text-lg font-semibold text-white mb-2">Pending Invitations</h3>
+                <ul className="divide-y divide-gray-700">
+                  {invitations.map(invitation => (
+                    <li key={invitation.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="text-white">{invitation.email}</p>
+                        <p className="text-sm text-gray-400">
+                          {WORKSPACE_ROLE_NAMES[invitation.role]} · expires {formatDate(new Date(invitation.expiresAt))}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="sm" className="text-gray-300 hover:text-white hover:bg-gray-700" onClick={() => copyLink(invitation.acceptUrl)}>
+                          <Copy className="h-4 w-4 mr-1" /> Copy Link
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={isBusy}
+                          className="text-red-400 hover:text-red-300 hover:bg-gray-700"
+                          onClick={() => run(async () => {
+                            await revokeWorkspaceInvitation(workspace.id, invitation.id);
+                            await refresh();
+                          })}
+                        >
+                          Revoke
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </Card>
+        )}
+
+        {isOwner && (
+          <Card className="p-6 bg-gray-800 border-gray-700">
+            <h2 className="text-2xl font-semibold mb-2 text-white">Delete Workspace</h2>
+            <p className="text-sm text-gray-400 mb-4">
+              Deletes the workspace and every component in its library. Cancel the Team subscription first.
+            </p>
+            <Button
+              variant="destructive"
+              disabled={isBusy}
+              onClick={() => {
+                if (!confirm(`Delete "${workspace.name}" and its components? This action cannot be undone.`)) return;
+                run(async () => {
+                  await deleteWorkspace(workspace.id);
+                  await queryClient.invalidateQueries({ queryKey: ['workspaces', userId] });
+                  setLocation('/workspaces');
+                }, "Workspace deleted.");
+              }}
+            >
+              <Trash2 className="h-4 w-4 mr-2" /> Delete Workspace
+            </Button>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspaces, WORKSPACE_ROLE_NAMES } from "@/hooks/useWorkspaces";
+import { createWorkspace } from "@/lib/api";
+import { PLAN_NAMES } from "@/lib/stripe";
+import { summarizeSubscription } from "@shared/subscriptions";
+
+export default function Workspaces() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: firebaseUser, loading } = useAuth();
+  const { userId, workspaces, isLoading } = useWorkspaces();
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const workspace = await createWorkspace(name);
+      await queryClient.invalidateQueries({ queryKey: ['workspaces', userId] });
+      setName("");
+      setLocation(`/workspaces/${workspace.id}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create workspace",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-900">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-400" />
+      </div>
+    );
+  }
+
+  if (!firebaseUser) {
+    setLocation('/login');
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto py-10 bg-gray-900 min-h-screen">
+      <h1 className="text-4xl font-bold mb-2 text-white">Workspaces</h1>
+      <p className="text-gray-400 mb-8">
+        Share a component library with your team. Owners and editors of a workspace on the Team plan get Team limits.
+      </p>
+
+      <div className="space-y-6">
+        <Card className="p-6 bg-gray-800 border-gray-700">
+          <h2 className="text-2xl font-semibold mb-4 text-white">Create a Workspace</h2>
+          <form onSubmit={handleCreate} className="flex gap-3">
+            <Input
+              placeholder="Workspace name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              required
+            />
+            <Button type="submit" disabled={isCreating || !name.trim()}>
+              {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create'}
+            </Button>
+          </form>
+        </Card>
+
+        <Card className="p-6 bg-gray-800 border-gray-700">
+          <h2 className="text-2xl font-semibold mb-4 text-white">Your Workspaces</h2>
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-indigo-400" />
+          ) : workspaces.length === 0 ? (
+            <p className="text-gray-400">You're not a member of any workspace yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {workspaces.map(workspace => (
+                <li key={workspace.id}>
+                  <Link href={`/workspaces/${workspace.id}`}>
+                    <a className="flex items-center justify-between py-3 hover:bg-gray-700/50 px-2 rounded">
+                      <span className="flex items-center gap-2 text-white">
+                        <Users className="h-4 w-4 text-indigo-400" />
+                        {workspace.name}
+                      </span>
+                      <span className="text-sm text-gray-400">
+                        {WORKSPACE_ROLE_NAMES[workspace.role]} · {PLAN_NAMES[summarizeSubscription(workspace).plan]}
+                      </span>
+                    </a>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { createHmac } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { createLocalJwtVerifier, getUserId, requireAuth, setTokenVerifier, signLocalJwt } from '../lib/auth';
+
+const SECRET = 'test-secret';
+
+function mockResponse() {
+  const res = { statusCode: 200, body: undefined as unknown } as Response & { body: unknown };
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  return res;
+}
+
+async function authenticate(authorization?: string) {
+  const req = { headers: authorization ? { authorization } : {} } as Request;
+  const res = mockResponse();
+  const next: NextFunction = jest.fn();
+  await requireAuth(req, res, next);
+  return { req, res, next };
+}
+
+describe('requireAuth', () => {
+  beforeAll(() => setTokenVerifier(createLocalJwtVerifier(SECRET)));
+  afterAll(() => setTokenVerifier(undefined));
+
+  test('attaches the token user to the request', async () => {
+    const token = signLocalJwt(SECRET, { uid: 'user-1', email: 'user@example.com', emailVerified: true });
+    const { req, next } = await authenticate(`Bearer ${token}`);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toEqual({ uid: 'user-1', email: 'user@example.com', emailVerified: true });
+    expect(getUserId(req)).toBe('user-1');
+  });
+
+  test('rejects requests without a bearer token', async () => {
+    const { res, next } = await authenticate();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+    expect(res.body).toEqual({ error: 'Authentication required' });
+  });
+
+  test('rejects tokens signed with another secret or already expired', async () => {
+    const forged = await authenticate(`Bearer ${signLocalJwt('other-secret', { uid: 'user-1' })}`);
+    const expired = await authenticate(`Bearer ${signLocalJwt(SECRET, { uid: 'user-1' }, -60)}`);
+    const garbage = await authenticate('Bearer not-a-token');
+
+    for (const { res, next } of [forged, expired, garbage]) {
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toEqual({ error: 'Invalid or expired token' });
+    }
+  });
+
+  test('rejects tokens that never expire', async () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({ sub: 'user-1' })).toString('base64url');
+    const signature = createHmac('sha256', SECRET).update(`${header}.${payload}`).digest('base64url');
+
+    const { res, next } = await authenticate(`Bearer ${header}.${payload}.${signature}`);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+});
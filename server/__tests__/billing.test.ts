@@ -0,0 +1,116 @@
+import { summarizeSubscription } from '@shared/subscriptions';
+import type Stripe from 'stripe';
+import { getPublicPlans, getSubscriptionPlanId } from '../lib/billing/catalog';
+import { reconcileSubscriptions, type ReconcileContext } from '../lib/billing/reconcile';
+import { createMockStripe, mockStripeSubscription } from './mock/stripe';
+
+describe('subscription states', () => {
+  const now = new Date('2026-04-10T00:00:00.000Z');
+
+  test('canceled subscriptions keep Pro until the period ends', () => {
+    const summary = summarizeSubscription({ subscriptionType: 'pro', subscriptionStatus: 'active', cancelAtPeriodEnd: true, currentPeriodEnd: '2026-04-30T00:00:00.000Z' }, now);
+
+    expect(summary).toMatchObject({ state: 'canceling', plan: 'pro' });
+    expect(summary.periodEnd?.toISOString()).toBe('2026-04-30T00:00:00.000Z');
+  });
+
+  test('past_due subscriptions keep Pro for the grace period only', () => {
+    const inGrace = summarizeSubscription({ subscriptionType: 'pro', subscriptionStatus: 'past_due', pastDueSince: '2026-04-05T00:00:00.000Z' }, now);
+    const lapsed = summarizeSubscription({ subscriptionType: 'pro', subscriptionStatus: 'past_due', pastDueSince: '2026-04-01T00:00:00.000Z' }, now);
+
+    expect(inGrace).toMatchObject({ state: 'past_due', plan: 'pro' });
+    expect(inGrace.graceEnd?.toISOString()).toBe('2026-04-12T00:00:00.000Z');
+    expect(lapsed).toMatchObject({ state: 'lapsed', plan: 'free' });
+  });
+});
+
+describe('plan catalog', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, STRIPE_PRICE_ID_PRO: 'price_pro', STRIPE_PRICE_ID_TEAM_ANNUAL: 'price_team_year' };
+    delete process.env.STRIPE_PRICE_ID_PRO_ANNUAL;
+    delete process.env.STRIPE_PRICE_ID_TEAM;
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  test('lists only prices that are configured, without their Stripe ids', () => {
+    const plans = getPublicPlans();
+
+    expect(plans.map((plan) => plan.id)).toEqual(['free', 'pro', 'team']);
+    expect(plans[1].prices).toEqual({ monthly: { amount: 2900, currency: 'usd' } });
+    expect(plans[2].prices).toEqual({ annual: { amount: 79000, currency: 'usd' } });
+    expect(JSON.stringify(plans)).not.toContain('price_');
+  });
+
+  test('finds the plan of a subscription from its price', () => {
+    const subscription = (priceId: string, metadata = {}) =>
+      ({ items: { data: [{ price: { id: priceId } }] }, metadata }) as unknown as Stripe.Subscription;
+
+    expect(getSubscriptionPlanId(subscription('price_team_year'))).toBe('team');
+    expect(getSubscriptionPlanId(subscription('price_pro'))).toBe('pro');
+    expect(getSubscriptionPlanId(subscription('price_retired', { plan: 'team' }))).toBe('team');
+    expect(getSubscriptionPlanId(subscription('price_retired'))).toBe('pro');
+  });
+});
+
+describe('reconcileSubscriptions', () => {
+  function createContext(users: object[], workspaces: object[] = []) {
+    const storage = {
+      getUsersWithStripeCustomer: jest.fn().mockResolvedValue(users),
+      updateUser: jest.fn().mockResolvedValue({}),
+      getWorkspacesWithStripeCustomer: jest.fn().mockResolvedValue(workspaces),
+      updateWorkspace: jest.fn().mockResolvedValue({}),
+    };
+    const stripe = createMockStripe();
+    return { storage, stripe, context: { storage, stripe } as unknown as ReconcileContext };
+  }
+
+  test('updates only the users whose fields drifted from Stripe', async () => {
+    const inSync = {
+      firebaseId: 'in-sync',
+      stripeCustomerId: 'cus_1',
+      subscriptionType: 'pro',
+      stripeSubscriptionId: mockStripeSubscription.id,
+      subscriptionStatus: 'active',
+      currentPeriodEnd: new Date(mockStripeSubscription.current_period_end * 1000),
+      cancelAtPeriodEnd: false,
+      trialEnd: null,
+      pastDueSince: null,
+    };
+    const { storage, context } = createContext([inSync, { ...inSync, firebaseId: 'drifted', subscriptionType: 'free', subscriptionStatus: null }]);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await reconcileSubscriptions(context);
+
+    expect(result).toEqual({ checked: 2, updated: ['drifted'], failed: [] });
+    expect(storage.updateUser).toHaveBeenCalledTimes(1);
+    expect(storage.updateUser).toHaveBeenCalledWith('drifted', { subscriptionType: 'pro', subscriptionStatus: 'active' });
+  });
+
+  test('dry runs report changes without writing them', async () => {
+    const { storage, stripe, context } = createContext([{ firebaseId: 'user-1', stripeCustomerId: 'cus_1', subscriptionType: 'pro' }]);
+    stripe.subscriptions.list.mockResolvedValue({ data: [], has_more: false });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await expect(reconcileSubscriptions(context, { dryRun: true })).resolves.toMatchObject({ updated: ['user-1'] });
+    expect(storage.updateUser).not.toHaveBeenCalled();
+  });
+
+  test('reconciles workspace subscriptions too', async () => {
+    const workspace = { id: 7, stripeCustomerId: 'cus_team', subscriptionType: 'team', stripeSubscriptionId: 'sub_old', subscriptionStatus: 'active', cancelAtPeriodEnd: false };
+    const { storage, stripe, context } = createContext([], [workspace]);
+    stripe.subscriptions.list.mockResolvedValue({ data: [], has_more: false });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await reconcileSubscriptions(context);
+
+    expect(result).toEqual({ checked: 1, updated: ['workspace-7'], failed: [] });
+    expect(stripe.subscriptions.list).toHaveBeenCalledWith(expect.objectContaining({ customer: 'cus_team' }));
+    expect(storage.updateWorkspace).toHaveBeenCalledWith(7, { subscriptionType: 'free', stripeSubscriptionId: null, subscriptionStatus: null });
+    expect(storage.updateUser).not.toHaveBeenCalled();
+  });
+});
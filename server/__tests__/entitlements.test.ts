@@ -0,0 +1,33 @@
+import { getPeriodEnd, getPlanId, getUsagePeriod, QuotaExceededError } from '../lib/entitlements/plans';
+
+describe('plan entitlements', () => {
+  test('daily usage periods run from midnight to midnight UTC', () => {
+    const now = new Date('2026-03-31T23:59:59.000Z');
+
+    expect(getUsagePeriod(now)).toBe('2026-03-31');
+    expect(getPeriodEnd(now).toISOString()).toBe('2026-04-01T00:00:00.000Z');
+  });
+
+  test('users without a pro subscription are on the free plan', () => {
+    expect(getPlanId(undefined)).toBe('free');
+    expect(getPlanId({ subscriptionType: 'free' })).toBe('free');
+    expect(getPlanId({ subscriptionType: 'pro' })).toBe('pro');
+    expect(getPlanId({ subscriptionType: 'team' })).toBe('team');
+  });
+
+  test('quota errors describe the limit and how to get more', () => {
+    const error = new QuotaExceededError('free', 'generations', 10, 10, new Date('2026-04-01T00:00:00.000Z'));
+
+    expect(error.status).toBe(402);
+    expect(error.toJSON()).toEqual({
+      error: "You've used all 10 generations included in the free plan today. Try again tomorrow or upgrade to Pro plan.",
+      code: 'quota_exceeded',
+      plan: 'free',
+      quota: 'generations',
+      limit: 10,
+      used: 10,
+      resetsAt: '2026-04-01T00:00:00.000Z',
+      upgradeUrl: '/pricing',
+    });
+  });
+});
@@ -0,0 +1,35 @@
+const colors = require('tailwindcss/colors');
+
+const brand = {
+  DEFAULT: '#6d28d9',
+  light: '#a78bfa',
+};
+
+/** @type {import('tailwindcss').Config} */
+module.exports = {
+  content: ['./src/**/*.{js,jsx}'],
+  theme: {
+    fontFamily: {
+      sans: ['"IBM Plex Sans"', 'system-ui', 'sans-serif'],
+    },
+    extend: {
+      colors: {
+        brand,
+        secondary: colors.pink,
+        accent: { 500: '#f97316', 600: '#ea580c' },
+        background: '#fafaf9',
+        foreground: 'hsl(var(--foreground))',
+      },
+      fontSize: {
+        base: ['15px', { lineHeight: '1.5' }],
+      },
+      spacing: {
+        1: '0.25rem',
+        2: '0.5rem',
+        4: '1rem',
+        18: '4.5rem',
+      },
+    },
+  },
+  plugins: [],
+};
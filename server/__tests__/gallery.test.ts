@@ -0,0 +1,34 @@
+import { parseGalleryQuery } from '../lib/gallery';
+import { createComponentSchema, updateComponentSchema, updateComponentVisibilitySchema } from '@shared/schema';
+
+describe('gallery queries', () => {
+  test('default to the newest components, first page', () => {
+    expect(parseGalleryQuery({})).toEqual({ sort: 'new', tags: [], page: 1, pageSize: 24 });
+  });
+
+  test('read sort, tags and pagination, ignoring invalid values', () => {
+    expect(parseGalleryQuery({ sort: 'popular', tags: 'Forms, buttons,,forms', page: '3', pageSize: '12' }))
+      .toEqual({ sort: 'popular', tags: ['forms', 'buttons'], page: 3, pageSize: 12 });
+    expect(parseGalleryQuery({ sort: 'random', page: '-1', pageSize: '1000' }))
+      .toEqual({ sort: 'new', tags: [], page: 1, pageSize: 48 });
+  });
+});
+
+describe('component visibility', () => {
+  test('tags are lowercased, deduplicated and limited', () => {
+    expect(updateComponentVisibilitySchema.parse({ visibility: 'public', tags: ['Forms', 'forms ', 'dark-mode'] }))
+      .toEqual({ visibility: 'public', tags: ['forms', 'dark-mode'] });
+    expect(updateComponentVisibilitySchema.safeParse({ visibility: 'public', tags: ['no spaces'] }).success).toBe(false);
+    expect(updateComponentVisibilitySchema.safeParse({ visibility: 'public', tags: ['a', 'b', 'c', 'd', 'e', 'f'] }).success).toBe(false);
+    expect(updateComponentVisibilitySchema.safeParse({ visibility: 'everyone' }).success).toBe(false);
+  });
+
+  test("clients can't set fork or conversion links", () => {
+    const component = { id: 'comp_1', name: 'Button', description: 'A button', code: '<button />', prompt: 'A button', userId: 'user-1' };
+    const links = { forkedFrom: 'comp_someone_else', sourceComponentId: 'comp_other' };
+
+    expect(createComponentSchema.parse({ ...component, ...links })).not.toHaveProperty('forkedFrom');
+    expect(createComponentSchema.parse({ ...component, ...links })).not.toHaveProperty('sourceComponentId');
+    expect(updateComponentSchema.parse(links)).toEqual({});
+  });
+});
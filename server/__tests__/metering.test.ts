@@ -0,0 +1,41 @@
+import { GenerationFailedError } from '../lib/ai/fallback';
+import { classifyGenerationError, GenerationMeter } from '../lib/ai/metering';
+import { aiModels } from '../lib/ai/providers';
+
+const gpt4o = aiModels.find((model) => model.id === 'openai:gpt-4o')!;
+const haiku = aiModels.find((model) => model.id === 'anthropic:claude-3-5-haiku')!;
+
+describe('GenerationMeter', () => {
+  test('adds up tokens and prices each call with its own model', () => {
+    const meter = new GenerationMeter();
+    meter.add(gpt4o, { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 });
+    meter.add(haiku, { promptTokens: 2000, completionTokens: 100, totalTokens: 2100 });
+
+    expect(meter.promptTokens).toBe(3000);
+    expect(meter.completionTokens).toBe(600);
+    expect(meter.costUsd).toBeCloseTo(1000 * 0.0000025 + 500 * 0.00001 + 2000 * 0.0000008 + 100 * 0.000004);
+  });
+
+  test('counts usage a provider does not report as zero', () => {
+    const meter = new GenerationMeter();
+    meter.add(gpt4o, { promptTokens: NaN, completionTokens: NaN, totalTokens: NaN });
+    meter.add(gpt4o, undefined);
+
+    expect(meter.promptTokens).toBe(0);
+    expect(meter.completionTokens).toBe(0);
+    expect(meter.costUsd).toBe(0);
+  });
+});
+
+describe('classifyGenerationError', () => {
+  test('uses the class of the last failed attempt', () => {
+    const error = new GenerationFailedError('All AI providers failed', [
+      { provider: 'openai', model: 'openai:gpt-4o', attempt: 1, status: 'error', errorClass: 'rate_limit', durationMs: 10 },
+      { provider: 'anthropic', model: 'anthropic:claude-3-5-sonnet', attempt: 1, status: 'error', errorClass: 'parse_error', durationMs: 10 },
+    ]);
+
+    expect(classifyGenerationError(error)).toBe('parse_error');
+    expect(classifyGenerationError(error, true)).toBe('cancelled');
+    expect(classifyGenerationError(new Error('boom'))).toBe('unknown');
+  });
+});
@@ -1,5 +1,5 @@
-
 import { jest } from '@jest/globals';
+import type Stripe from 'stripe';
 
 export const mockStripeCustomer = {
   id: 'test_stripe_customer_id',
@@ -9,9 +9,44 @@ export const mockStripeCustomer = {
   }
 };
 
+export const mockStripeSubscription = {
+  id: 'test_subscription_id',
+  status: 'active',
+  customer: mockStripeCustomer.id,
+  created: 1700000000,
+  current_period_end: 1702592000,
+  cancel_at_period_end: false,
+  trial_end: null,
+  metadata: {
+    firebaseId: 'test-firebase-id'
+  }
+};
+
+// An API method mock; tests replace its result with values of any shape
+const resolvesTo = (value: unknown) => jest.fn<(...args: any[]) => Promise<unknown>>().mockResolvedValue(value);
+
 export const createMockStripe = () => ({
   customers: {
-    create: jest.fn().mockResolvedValue(mockStripeCustomer),
-    update: jest.fn().mockResolvedValue(mockStripeCustomer)
+    create: resolvesTo(mockStripeCustomer),
+    update: resolvesTo(mockStripeCustomer)
+  },
+  subscriptions: {
+    retrieve: resolvesTo(mockStripeSubscription),
+    list: resolvesTo({ data: [mockStripeSubscription], has_more: false })
+  },
+  checkout: {
+    sessions: {
+      listLineItems: resolvesTo({ data: [] })
+    }
   }
 });
+
+// A webhook event as constructEvent returns it
+export const createMockStripeEvent = (type: string, object: Record<string, unknown>, id = 'evt_test') => ({
+  id,
+  object: 'event',
+  type,
+  created: 1700000000,
+  livemode: false,
+  data: { object }
+}) as unknown as Stripe.Event;
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import { ComponentParseError, parseComponentResponse } from '../lib/ai/parser';
+import { parseWithRepair } from '../lib/ai/repair';
+
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'ai-responses', `${name}.txt`), 'utf8');
+
+describe('parseComponentResponse', () => {
+  test('parses a well-formed response', () => {
+    const { component, diagnostics } = parseComponentResponse(fixture('well-formed'), false);
+
+    expect(component.name).toBe('Counter Button');
+    expect(component.description).toBe('A button that counts clicks');
+    expect(component.code).toMatch(/^function CounterButton\(\)/);
+    expect(component.code).toMatch(/render\(<CounterButton \/>\);$/);
+    expect(diagnostics.strategy).toBe('xml');
+    expect(diagnostics.recovered).toEqual([]);
+  });
+
+  test('collapses names that span several lines', () => {
+    const { component } = parseComponentResponse(fixture('multiline-name'), false);
+
+    expect(component.name).toBe('Pricing Table');
+  });
+
+  test('keeps angle brackets inside the description', () => {
+    const { component } = parseComponentResponse(fixture('description-with-angle-brackets'), false);
+
+    expect(component.description).toBe('An <input> with a <button> next to it, width < 600px');
+    expect(component.code).toContain('<button className="bg-indigo-600');
+  });
+
+  test('unwraps XML that is wrapped in a markdown fence', () => {
+    const { component, diagnostics } = parseComponentResponse(fixture('markdown-fenced-xml'), false);
+
+    expect(component.name).toBe('Alert Banner');
+    expect(component.code).toMatch(/render\(<AlertBanner \/>\);$/);
+    expect(diagnostics.recovered).toContain('removed markdown fence around XML');
+  });
+
+  test('strips code fences and keeps <code> elements inside the component', () => {
+    const { component, diagnostics } = parseComponentResponse(fixture('fenced-code-without-cdata'), false);
+
+    expect(component.code).toMatch(/^function ProfileCard/);
+    expect(component.code).toContain('<code className="text-xs">@ada</code>');
+    expect(component.code).not.toContain('```');
+    expect(diagnostics.recovered).toContain('removed markdown code fence around code');
+  });
+
+  test('recovers from missing closing tags', () => {
+    const { component, diagnostics } = parseComponentResponse(fixture('missing-closing-tags'), false);
+
+    expect(component.name).toBe('Toggle Switch');
+    expect(component.description).toBe('An accessible on/off switch');
+    expect(component.code).toMatch(/render\(<ToggleSwitch \/>\);$/);
+    expect(diagnostics.recovered).toEqual(expect.arrayContaining([
+      'missing </component> closing tag',
+      'missing </name> closing tag',
+      'missing </code> closing tag',
+      'unterminated CDATA section in <code>',
+    ]));
+  });
+
+  test('falls back to JSON output', () => {
+    const { component, diagnostics } = parseComponentResponse(fixture('json-response'), false);
+
+    expect(diagnostics.strategy).toBe('json');
+    expect(component.name).toBe('Badge');
+    expect(component.code).toContain('<span className="px-2 py-1 rounded bg-green-100">');
+  });
+
+  test('decodes escaped entities outside CDATA', () => {
+    const { component } = parseComponentResponse(fixture('escaped-entities'), true);
+
+    expect(component.description).toBe('Tabs & panels');
+    expect(component.code).toContain('return <div className="flex gap-2">{active > 0 && \'Second\'}</div>;');
+  });
+
+  test('accepts a <component> root for an edit request', () => {
+    const { component, diagnostics } = parseComponentResponse(fixture('well-formed'), true);
+
+    expect(component.name).toBe('Counter Button');
+    expect(diagnostics.recovered).toContain('used <component> root instead of <component_edit>');
+  });
+
+  test('extracts bare markdown code and derives the missing fields', () => {
+    const { component, diagnostics } = parseComponentResponse(fixture('markdown-only'), false);
+
+    expect(diagnostics.strategy).toBe('markdown');
+    expect(diagnostics.missingFields).toEqual(['name', 'description']);
+    expect(component.name).toBe('LoadingSpinner');
+    expect(component.description).toBe('Generated LoadingSpinner component');
+  });
+
+  test('keeps a Vue single-file component without CDATA intact', () => {
+    const { component, diagnostics } = parseComponentResponse(fixture('vue-without-cdata'), false, 'vue');
+
+    expect(component.name).toBe('Toggle Switch');
+    expect(component.code).toMatch(/^<script setup>/);
+    expect(component.code).toMatch(/<\/template>$/);
+    expect(component.code).toContain('<code class="text-xs">');
+    expect(diagnostics.strategy).toBe('xml');
+  });
+
+  test('extracts a Svelte component from a markdown fence', () => {
+    const { component, diagnostics } = parseComponentResponse(fixture('svelte-markdown-only'), false, 'svelte');
+
+    expect(component.code).toMatch(/^<script>/);
+    expect(component.code).toContain('on:click');
+    expect(component.name).toBe('Generated Component');
+    expect(diagnostics.strategy).toBe('markdown');
+  });
+
+  test.each(['truncated', 'prose-only'])('throws diagnostics for %s output', (name) => {
+    const text = fixture(name);
+
+    try {
+      parseComponentResponse(text, false);
+      throw new Error('Expected parse to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ComponentParseError);
+      const { diagnostics } = error as ComponentParseError;
+      expect(diagnostics.strategy).toBeNull();
+      expect(diagnostics.missingFields).toContain('code');
+      expect(diagnostics.responseLength).toBe(text.length);
+      expect(diagnostics.excerpt).toBe(text);
+    }
+  });
+});
+
+describe('parseWithRepair', () => {
+  test('does not ask for a repair when the output parses', async () => {
+    const repairFn = jest.fn();
+
+    const { repairs } = await parseWithRepair(fixture('well-formed'), false, repairFn, { maxRepairs: 2 });
+
+    expect(repairs).toBe(0);
+    expect(repairFn).not.toHaveBeenCalled();
+  });
+
+  test('sends the broken output and parse error back to the model', async () => {
+    const repairFn = jest.fn().mockResolvedValue(fixture('well-formed'));
+
+    const { component, repairs, diagnostics } = await parseWithRepair(fixture('truncated'), false, repairFn, { maxRepairs: 2 });
+
+    expect(component.name).toBe('Counter Button');
+    expect(repairs).toBe(1);
+    expect(diagnostics.repairAttempts).toBe(1);
+    expect(repairFn).toHaveBeenCalledWith(fixture('truncated'), expect.stringContaining('Could not find component code'));
+    expect(repairFn.mock.calls[0][1]).toContain('<component><name>...</name>');
+  });
+
+  test('gives up after the configured number of repairs', async () => {
+    const repairFn = jest.fn().mockResolvedValue(fixture('prose-only'));
+
+    await expect(parseWithRepair(fixture('truncated'), true, repairFn, { maxRepairs: 2 }))
+      .rejects.toMatchObject({ diagnostics: { repairAttempts: 2 } });
+    expect(repairFn).toHaveBeenCalledTimes(2);
+    expect(repairFn.mock.calls[1][1]).toContain('<component_edit>');
+  });
+});
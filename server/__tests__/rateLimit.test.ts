@@ -0,0 +1,102 @@
+import type { NextFunction, Request, Response } from 'express';
+import { createMemoryStore, rateLimit, type RateLimitRule, setRateLimitStore } from '../lib/rateLimit';
+
+const rule: RateLimitRule = { name: 'test', key: 'user', limit: 3, windowMs: 60_000 };
+
+function mockResponse() {
+  const res = { statusCode: 200, body: undefined as unknown, headers: {} as Record<string, unknown> } as Response & {
+    body: unknown;
+    headers: Record<string, unknown>;
+  };
+  res.setHeader = jest.fn((name: string, value: unknown) => {
+    res.headers[name] = value;
+    return res;
+  }) as unknown as Response['setHeader'];
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  return res;
+}
+
+async function request(limiter: ReturnType<typeof rateLimit>, { uid, ip = '203.0.113.1' }: { uid?: string; ip?: string } = {}) {
+  const req = { ip, user: uid ? { uid } : undefined } as Request;
+  const res = mockResponse();
+  const next: NextFunction = jest.fn();
+  await limiter(req, res, next);
+  return { res, next };
+}
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setRateLimitStore(createMemoryStore());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    setRateLimitStore(undefined);
+  });
+
+  test('allows a burst up to the limit, then answers 429 with Retry-After', async () => {
+    const limiter = rateLimit(rule);
+
+    for (let remaining = 2; remaining >= 0; remaining--) {
+      const { res, next } = await request(limiter, { uid: 'user-1' });
+      expect(next).toHaveBeenCalled();
+      expect(res.headers['RateLimit-Limit']).toBe(3);
+      expect(res.headers['RateLimit-Remaining']).toBe(remaining);
+    }
+
+    const { res, next } = await request(limiter, { uid: 'user-1' });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe(20);
+    expect(res.headers['RateLimit-Remaining']).toBe(0);
+    expect(res.headers['RateLimit-Reset']).toBe(60);
+    expect(res.body).toEqual(expect.objectContaining({ code: 'rate_limited', retryAfter: 20 }));
+  });
+
+  test('refills tokens as time passes', async () => {
+    const limiter = rateLimit(rule);
+    for (let i = 0; i < 3; i++) {
+      await request(limiter, { uid: 'user-1' });
+    }
+
+    jest.advanceTimersByTime(19_000);
+    expect((await request(limiter, { uid: 'user-1' })).res.statusCode).toBe(429);
+
+    jest.advanceTimersByTime(1_000);
+    expect((await request(limiter, { uid: 'user-1' })).next).toHaveBeenCalled();
+
+    // A long pause refills the bucket, but never past the limit
+    jest.advanceTimersByTime(10 * 60_000);
+    const { res } = await request(limiter, { uid: 'user-1' });
+    expect(res.headers['RateLimit-Remaining']).toBe(2);
+  });
+
+  test('keeps separate buckets per user and falls back to the IP', async () => {
+    const limiter = rateLimit({ ...rule, limit: 1 });
+
+    expect((await request(limiter, { uid: 'user-1' })).next).toHaveBeenCalled();
+    expect((await request(limiter, { uid: 'user-2' })).next).toHaveBeenCalled();
+    expect((await request(limiter)).next).toHaveBeenCalled();
+    expect((await request(limiter, { ip: '203.0.113.2' })).next).toHaveBeenCalled();
+
+    expect((await request(limiter, { uid: 'user-1' })).res.statusCode).toBe(429);
+    expect((await request(limiter)).res.statusCode).toBe(429);
+  });
+
+  test('lets requests through when the store fails', async () => {
+    setRateLimitStore({ take: () => Promise.reject(new Error('database unavailable')) });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { next } = await request(rateLimit(rule), { uid: 'user-1' });
+    expect(next).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -1,32 +1,54 @@
 
 import request from 'supertest';
-import { createServer } from '../routes';
+import { registerRoutes } from '../routes';
+import { registerAIRoutes } from '../routes/aiRoutes';
 import express from 'express';
 import { storage } from '../storage';
-import Stripe from 'stripe';
+import { createLocalJwtVerifier, setTokenVerifier, signLocalJwt } from '../lib/auth';
+import { hashSharePassword } from '../lib/shares';
+import { sendEmail } from '../mail';
 
+const AUTH_SECRET = 'test-secret';
+const bearer = (uid: string, email?: string, emailVerified = true) => `Bearer ${signLocalJwt(AUTH_SECRET, { uid, email, emailVerified })}`;
+
+// Storage is automocked; the database and mail clients need env vars to load
+jest.mock('../db', () => ({ db: {}, pool: {} }));
+jest.mock('../mail', () => ({ sendEmail: jest.fn().mockResolvedValue(true) }));
 jest.mock('../storage');
+// Routes create their Stripe client when they load, so tests change this mock instead
+const mockCreateCustomer = jest.fn().mockResolvedValue({
+  id: 'test_stripe_customer_id',
+  email: 'test@example.com',
+});
 jest.mock('stripe', () => {
   return jest.fn().mockImplementation(() => ({
     customers: {
-      create: jest.fn().mockResolvedValue({
-        id: 'test_stripe_customer_id',
-        email: 'test@example.com',
-      }),
+      create: (...args: unknown[]) => mockCreateCustomer(...args),
     },
   }));
 });
 
+// Model calls go through the real SDK unless a test makes them fail
+const mockGenerateText = jest.fn();
+jest.mock('ai', () => ({
+  ...jest.requireActual('ai'),
+  generateText: (...args: unknown[]) => mockGenerateText(...args),
+}));
+
 describe('API Routes', () => {
   let app: express.Express;
   let server: any;
 
   beforeAll(async () => {
+    setTokenVerifier(createLocalJwtVerifier(AUTH_SECRET));
     app = express();
-    server = await createServer(app);
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await registerAIRoutes(app);
   });
 
   afterAll(() => {
+    setTokenVerifier(undefined);
     server.close();
   });
 
@@ -49,10 +71,8 @@ describe('API Routes', () => {
 
       const response = await request(app)
         .post('/api/users/ensure-stripe')
-        .send({
-          firebaseId: mockFirebaseId,
-          email: mockEmail
-        });
+        .set('Authorization', bearer(mockFirebaseId, mockEmail))
+        .send({});
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('stripeCustomerId', 'test_stripe_customer_id');
@@ -78,22 +98,81 @@ describe('API Routes', () => {
 
       const response = await request(app)
         .post('/api/users/ensure-stripe')
-        .send({
-          firebaseId: mockFirebaseId,
-          email: mockEmail
-        });
+        .set('Authorization', bearer(mockFirebaseId, mockEmail))
+        .send({});
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('stripeCustomerId', 'existing_stripe_customer_id');
       expect(storage.createUser).not.toHaveBeenCalled();
     });
 
-    test('POST /api/users/ensure-stripe handles missing required fields', async () => {
+    test('POST /api/users/ensure-stripe requires an ID token', async () => {
       const response = await request(app)
         .post('/api/users/ensure-stripe')
-        .send({});
+        .send({ firebaseId: 'someone-else', email: 'someone@example.com' });
+
+      expect(response.status).toBe(401);
+      expect(storage.getUserByFirebaseId).not.toHaveBeenCalled();
+    });
+
+    test('POST /api/users/ensure-stripe takes the email from the ID token only', async () => {
+      const response = await request(app)
+        .post('/api/users/ensure-stripe')
+        .set('Authorization', bearer('no-email-id'))
+        .send({ email: 'someone@example.com' });
+
+      expect(response.status).toBe(400);
+      expect(mockCreateCustomer).not.toHaveBeenCalled();
+      expect(storage.createUser).not.toHaveBeenCalled();
+    });
+
+    test('POST /api/users ignores plan and Stripe fields sent by the client', async () => {
+      (storage.getUserByFirebaseId as jest.Mock).mockResolvedValueOnce(undefined);
+      (storage.getUserByEmail as jest.Mock).mockResolvedValueOnce(undefined);
+      (storage.createUser as jest.Mock).mockImplementationOnce(async (user) => ({ id: 1, ...user }));
+
+      const response = await request(app)
+        .post('/api/users')
+        .set('Authorization', bearer('new-firebase-id', 'new@example.com'))
+        .send({ firstName: 'New', subscriptionType: 'team', isPremium: true, stripeCustomerId: 'cus_someone_else' });
+
+      expect(response.status).toBe(200);
+      expect(storage.createUser).toHaveBeenCalledWith(expect.objectContaining({
+        firebaseId: 'new-firebase-id',
+        firstName: 'New',
+        subscriptionType: 'free',
+        isPremium: false,
+        stripeCustomerId: 'test_stripe_customer_id',
+      }));
+    });
+
+    test('POST /api/users takes the email from the ID token only', async () => {
+      const response = await request(app)
+        .post('/api/users')
+        .set('Authorization', bearer('no-email-id'))
+        .send({ firstName: 'New', email: 'existing@example.com' });
 
       expect(response.status).toBe(400);
+      expect(storage.getUserByEmail).not.toHaveBeenCalled();
+    });
+
+    test("POST /api/users doesn't return another account with the same email", async () => {
+      (storage.getUserByFirebaseId as jest.Mock).mockResolvedValueOnce(undefined);
+      (storage.getUserByEmail as jest.Mock).mockResolvedValueOnce({
+        id: 2,
+        firebaseId: 'other-firebase-id',
+        email: 'shared@example.com',
+        stripeCustomerId: 'cus_other',
+      });
+
+      const response = await request(app)
+        .post('/api/users')
+        .set('Authorization', bearer('new-firebase-id', 'shared@example.com'))
+        .send({ firstName: 'New' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).not.toHaveProperty('stripeCustomerId');
+      expect(storage.createUser).not.toHaveBeenCalled();
     });
 
     test('POST /api/users/ensure-stripe handles stripe errors', async () => {
@@ -102,21 +181,219 @@ describe('API Routes', () => {
       
       (storage.getUserByFirebaseId as jest.Mock).mockResolvedValueOnce(undefined);
       const mockStripeError = new Error('Stripe API Error');
-      (Stripe as unknown as jest.Mock).mockImplementation(() => ({
-        customers: {
-          create: jest.fn().mockRejectedValue(mockStripeError)
-        }
-      }));
+      mockCreateCustomer.mockRejectedValueOnce(mockStripeError);
 
       const response = await request(app)
         .post('/api/users/ensure-stripe')
-        .send({
-          firebaseId: mockFirebaseId,
-          email: mockEmail
-        });
+        .set('Authorization', bearer(mockFirebaseId, mockEmail))
+        .send({});
 
       expect(response.status).toBe(500);
       expect(response.body).toHaveProperty('error');
     });
   });
+
+  describe('Workspaces', () => {
+    const workspaceComponent = { id: 'comp_team', userId: 'owner-1', workspaceId: 7, name: 'Team Button', code: '<button />' };
+    const invitation = {
+      id: 1,
+      workspaceId: 7,
+      email: 'teammate@example.com',
+      role: 'editor',
+      token: 'invite-token',
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      acceptedAt: null,
+    };
+
+    test("GET /api/components answers 404 for a workspace the user isn't a member of", async () => {
+      (storage.getWorkspaceMember as jest.Mock).mockResolvedValueOnce(undefined);
+
+      const response = await request(app)
+        .get('/api/components?workspaceId=7')
+        .set('Authorization', bearer('outsider-1'));
+
+      expect(response.status).toBe(404);
+      expect(storage.getWorkspaceMember).toHaveBeenCalledWith(7, 'outsider-1');
+      expect(storage.getComponentsByWorkspaceId).not.toHaveBeenCalled();
+    });
+
+    test("PUT /api/components/:id doesn't let viewers edit workspace components", async () => {
+      (storage.getComponentById as jest.Mock).mockResolvedValueOnce(workspaceComponent);
+      (storage.getWorkspaceMember as jest.Mock).mockResolvedValueOnce({ workspaceId: 7, userId: 'viewer-1', role: 'viewer' });
+
+      const response = await request(app)
+        .put('/api/components/comp_team')
+        .set('Authorization', bearer('viewer-1'))
+        .send({ code: '<button>Changed</button>' });
+
+      expect(response.status).toBe(403);
+      expect(storage.updateComponent).not.toHaveBeenCalled();
+    });
+
+    test("POST /api/workspaces/:id/invitations doesn't build the emailed link from the Origin header", async () => {
+      (storage.getWorkspaceById as jest.Mock).mockResolvedValueOnce({ id: 7, name: 'Team', ownerId: 'owner-1' });
+      (storage.getWorkspaceMember as jest.Mock).mockResolvedValueOnce({ workspaceId: 7, userId: 'owner-1', role: 'owner' });
+      (storage.getWorkspaceMembers as jest.Mock).mockResolvedValueOnce([]);
+      (storage.createWorkspaceInvitation as jest.Mock).mockResolvedValueOnce(invitation);
+
+      const response = await request(app)
+        .post('/api/workspaces/7/invitations')
+        .set('Authorization', bearer('owner-1', 'owner@example.com'))
+        .set('Origin', 'https://attacker.example')
+        .send({ email: 'teammate@example.com', role: 'editor' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.invitation.acceptUrl).not.toContain('attacker.example');
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+        text: expect.not.stringContaining('attacker.example'),
+      }));
+    });
+
+    test('POST /api/invitations/:token/accept rejects users signed in with another address', async () => {
+      (storage.getWorkspaceInvitationByToken as jest.Mock).mockResolvedValueOnce(invitation);
+
+      const response = await request(app)
+        .post('/api/invitations/invite-token/accept')
+        .set('Authorization', bearer('intruder-1', 'intruder@example.com'));
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toMatch(/sent to teammate@example.com/);
+      expect(storage.acceptWorkspaceInvitation).not.toHaveBeenCalled();
+    });
+
+    test('POST /api/invitations/:token/accept rejects unverified addresses', async () => {
+      (storage.getWorkspaceInvitationByToken as jest.Mock).mockResolvedValueOnce(invitation);
+
+      const response = await request(app)
+        .post('/api/invitations/invite-token/accept')
+        .set('Authorization', bearer('teammate-1', 'teammate@example.com', false));
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toMatch(/Verify teammate@example.com/);
+      expect(storage.acceptWorkspaceInvitation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Share Links', () => {
+    const share = {
+      id: 1,
+      componentId: 'comp_1',
+      userId: 'owner-1',
+      token: 'share-token',
+      passwordHash: null,
+      theme: null,
+      expiresAt: null,
+      createdAt: new Date(),
+      component: { id: 'comp_1', name: 'Button', description: 'A button', code: '<button />', framework: 'react' },
+    };
+
+    test("GET /api/shares doesn't build share URLs from the Origin header", async () => {
+      const { component: _, ...shareRow } = share;
+      (storage.getManageableComponentShares as jest.Mock).mockResolvedValueOnce([{ ...shareRow, name: 'Button' }]);
+
+      const response = await request(app)
+        .get('/api/shares')
+        .set('Authorization', bearer('owner-1'))
+        .set('Origin', 'https://attacker.example');
+
+      expect(response.status).toBe(200);
+      expect(response.body.shares[0].url).not.toContain('attacker.example');
+      expect(response.body.shares[0].embedUrl).not.toContain('attacker.example');
+      expect(response.body.shares[0]).not.toHaveProperty('passwordHash');
+    });
+
+    test('GET /api/shared/components/:token asks for the password of protected links', async () => {
+      const protectedShare = { ...share, passwordHash: await hashSharePassword('secret') };
+      (storage.getComponentShareByToken as jest.Mock)
+        .mockResolvedValueOnce(protectedShare)
+        .mockResolvedValueOnce(protectedShare)
+        .mockResolvedValueOnce(protectedShare);
+
+      const withoutPassword = await request(app).get('/api/shared/components/share-token');
+      const wrongPassword = await request(app).get('/api/shared/components/share-token').set('X-Share-Password', 'guess');
+      const rightPassword = await request(app).get('/api/shared/components/share-token').set('X-Share-Password', 'secret');
+
+      expect(withoutPassword.status).toBe(401);
+      expect(withoutPassword.body).toMatchObject({ passwordRequired: true });
+      expect(wrongPassword.status).toBe(401);
+      expect(wrongPassword.body).toEqual({ error: 'Incorrect password', passwordRequired: true });
+      expect(rightPassword.status).toBe(200);
+      expect(rightPassword.body.component).toMatchObject({ name: 'Button', code: '<button />' });
+    });
+
+    test('GET /api/shared/components/:token answers 410 for expired links', async () => {
+      (storage.getComponentShareByToken as jest.Mock).mockResolvedValueOnce({ ...share, expiresAt: new Date(Date.now() - 1000) });
+
+      const response = await request(app).get('/api/shared/components/share-token');
+
+      expect(response.status).toBe(410);
+      expect(response.body).not.toHaveProperty('component');
+    });
+  });
+
+  describe('Gallery', () => {
+    test("POST /api/components/:id/fork answers 404 for components that aren't published", async () => {
+      // A free user with room for another component
+      (storage.getWorkspacesByUserId as jest.Mock).mockResolvedValueOnce([]);
+      (storage.getComponentCount as jest.Mock).mockResolvedValueOnce(0);
+      // getPublishedComponent only finds public and unlisted components
+      (storage.getPublishedComponent as jest.Mock).mockResolvedValueOnce(undefined);
+
+      const response = await request(app)
+        .post('/api/components/comp_private/fork')
+        .set('Authorization', bearer('forker-1'))
+        .send({});
+
+      expect(response.status).toBe(404);
+      expect(storage.getPublishedComponent).toHaveBeenCalledWith('comp_private');
+      expect(storage.forkComponent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Sessions', () => {
+    test('GET /api/sessions/:id/messages answers 400 for ids that are not numbers', async () => {
+      const response = await request(app)
+        .get('/api/sessions/abc/messages')
+        .set('Authorization', bearer('user-1'));
+
+      expect(response.status).toBe(400);
+      expect(storage.getSessionById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('AI Generation', () => {
+    const env = process.env;
+
+    beforeAll(() => {
+      // Only the offline mock provider, without retries or fallbacks
+      const { VERCEL_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY, AI_DEFAULT_MODEL, ...rest } = env;
+      process.env = { ...rest, AI_MOCK_PROVIDER: 'true', AI_MAX_RETRIES: '0' };
+    });
+
+    afterAll(() => {
+      process.env = env;
+    });
+
+    test("POST /api/ai/generate-component doesn't count failed variants", async () => {
+      const { generateText } = jest.requireActual('ai');
+      mockGenerateText
+        .mockImplementationOnce(generateText)
+        .mockRejectedValueOnce(new Error('Provider unavailable'));
+      (storage.getWorkspacesByUserId as jest.Mock).mockResolvedValueOnce([]);
+      (storage.getComponentCount as jest.Mock).mockResolvedValueOnce(0);
+      (storage.incrementUsage as jest.Mock).mockResolvedValueOnce(2);
+
+      const response = await request(app)
+        .post('/api/ai/generate-component')
+        .set('Authorization', bearer('generator-1'))
+        .send({ prompt: 'A pricing card', variants: 2 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.variants).toHaveLength(1);
+      expect(response.body.failures).toHaveLength(1);
+      expect(storage.incrementUsage).toHaveBeenCalledWith('generator-1', 'generations', expect.any(String), 2, expect.anything());
+      expect(storage.decrementUsage).toHaveBeenCalledTimes(1);
+      expect(storage.decrementUsage).toHaveBeenCalledWith('generator-1', 'generations', expect.any(String), 1);
+    });
+  });
 });
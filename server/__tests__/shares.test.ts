@@ -0,0 +1,31 @@
+import { createShareToken, getShareExpiry, hashSharePassword, isShareExpired, verifySharePassword } from '../lib/shares';
+
+describe('component share links', () => {
+  test('tokens are unguessable and unique', () => {
+    const token = createShareToken();
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(createShareToken()).not.toBe(token);
+  });
+
+  test('links expire after the given number of days, or never', () => {
+    const now = new Date('2026-03-01T12:00:00.000Z');
+    const expiresAt = getShareExpiry(7, now);
+
+    expect(expiresAt?.toISOString()).toBe('2026-03-08T12:00:00.000Z');
+    expect(isShareExpired({ expiresAt }, now)).toBe(false);
+    expect(isShareExpired({ expiresAt }, expiresAt!)).toBe(true);
+    expect(getShareExpiry(undefined, now)).toBeNull();
+    expect(isShareExpired({ expiresAt: null }, now)).toBe(false);
+  });
+
+  test('passwords are stored salted and verified against the hash', async () => {
+    const hash = await hashSharePassword('open sesame');
+
+    expect(hash).not.toContain('open sesame');
+    expect(await hashSharePassword('open sesame')).not.toBe(hash);
+    await expect(verifySharePassword('open sesame', hash)).resolves.toBe(true);
+    await expect(verifySharePassword('open says me', hash)).resolves.toBe(false);
+    await expect(verifySharePassword('open sesame', 'not-a-hash')).resolves.toBe(false);
+  });
+});
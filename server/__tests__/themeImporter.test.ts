@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_THEME } from '@shared/themes';
+import { importTheme, ThemeImportError } from '../lib/themes/importer';
+
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'themes', name), 'utf8');
+
+describe('importTheme', () => {
+  test('maps a Tailwind config without running it', () => {
+    const { theme, format, warnings } = importTheme(fixture('tailwind.config.js'), { name: 'Plex' });
+
+    expect(format).toBe('tailwind');
+    expect(theme.name).toBe('Plex');
+    expect(theme.colors.primary).toBe('#6d28d9');
+    expect(theme.colors.accent).toBe('#f97316');
+    expect(theme.colors.background).toBe('#fafaf9');
+    expect(theme.typography.fontFamily).toBe('"IBM Plex Sans", system-ui, sans-serif');
+    expect(theme.typography.fontSize).toBe('15px');
+    expect(theme.spacing.base).toBe('0.5rem');
+    expect(theme.spacing.scale).toEqual([4, 8, 16, 72]);
+    // require()'d palettes and CSS variable colors are reported, not guessed
+    expect(theme.colors.secondary).toBe(DEFAULT_THEME.colors.secondary);
+    expect(theme.colors.text).toBe(DEFAULT_THEME.colors.text);
+    expect(warnings).toContainEqual(expect.stringContaining('hsl(var(--foreground))'));
+  });
+
+  test('maps W3C design tokens and resolves aliases', () => {
+    const { theme, format, warnings } = importTheme(fixture('design-tokens.json'));
+
+    expect(format).toBe('tokens');
+    expect(theme.name).toBe('Imported theme');
+    expect(theme.colors).toEqual({
+      primary: '#0f766e',
+      secondary: '#9333ea',
+      accent: '#eab308',
+      background: '#f8fafc',
+      text: '#111827',
+    });
+    expect(theme.typography).toEqual({ fontFamily: 'Lato, sans-serif', fontSize: '1rem', fontWeight: '400' });
+    expect(theme.spacing).toEqual({ base: '8px', scale: [4, 8, 24] });
+    expect(warnings).toEqual([]);
+  });
+
+  test('accepts a Tailwind theme as JSON', () => {
+    const { theme, format } = importTheme(JSON.stringify({ colors: { primary: { 500: '#22c55e' } } }));
+
+    expect(format).toBe('tailwind');
+    expect(theme.colors.primary).toBe('#22c55e');
+  });
+
+  test('rejects files without usable tokens', () => {
+    expect(() => importTheme('module.exports = { content: [] }')).toThrow(ThemeImportError);
+    expect(() => importTheme('not a config')).toThrow('Could not find an exported Tailwind config object.');
+    expect(() => importTheme('[]', { format: 'tokens' })).toThrow('Design tokens must be a JSON object.');
+  });
+});
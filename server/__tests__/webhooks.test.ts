@@ -0,0 +1,185 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { processStripeEvent, retryStripeEvent, type EventProcessingContext } from '../lib/webhooks';
+import { StripeEventStorage } from '../storage/StripeEventStorage';
+import { createMockStripe, createMockStripeEvent, mockStripeSubscription } from './mock/stripe';
+
+// Captures the WHERE clause of updates instead of running them
+const mockWhere = jest.fn();
+jest.mock('../db', () => ({
+  db: {
+    update: () => ({
+      set: () => ({
+        where: (condition: unknown) => {
+          mockWhere(condition);
+          return { returning: async () => [] };
+        },
+      }),
+    }),
+  },
+}));
+
+function createContext() {
+  const storage = {
+    updateUser: jest.fn().mockResolvedValue({}),
+    getUserByFirebaseId: jest.fn(async (firebaseId: string) => ({ firebaseId, stripeSubscriptionId: null, subscriptionStatus: null, pastDueSince: null })),
+    getUserByStripeCustomerId: jest.fn().mockResolvedValue(undefined),
+    getWorkspaceById: jest.fn(async (id: number) => ({ id, stripeSubscriptionId: null, subscriptionStatus: null, pastDueSince: null })),
+    getWorkspaceByStripeCustomerId: jest.fn().mockResolvedValue(undefined),
+    updateWorkspace: jest.fn().mockResolvedValue({}),
+    claimStripeEvent: jest.fn().mockResolvedValue({ id: 'evt_test' }),
+    claimRetryableStripeEvent: jest.fn(),
+    getStripeEventById: jest.fn().mockResolvedValue({ id: 'evt_test', status: 'processed' }),
+    completeStripeEvent: jest.fn().mockResolvedValue(undefined),
+    failStripeEvent: jest.fn().mockResolvedValue(undefined),
+  };
+  const stripe = createMockStripe();
+  return { storage, stripe, context: { storage, stripe } as unknown as EventProcessingContext };
+}
+
+describe('Stripe event handlers', () => {
+  test('upgrades the user when a subscription checkout is paid', async () => {
+    const { storage, context } = createContext();
+    const event = createMockStripeEvent('checkout.session.completed', {
+      id: 'cs_test',
+      mode: 'subscription',
+      subscription: 'sub_test',
+      payment_status: 'paid',
+      metadata: { firebaseId: 'user-1' },
+    });
+
+    await expect(processStripeEvent(event, context)).resolves.toBe('processed');
+    expect(storage.updateUser).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      subscriptionType: 'pro',
+      stripeSubscriptionId: mockStripeSubscription.id,
+      subscriptionStatus: 'active',
+      currentPeriodEnd: new Date(mockStripeSubscription.current_period_end * 1000),
+    }));
+    expect(storage.completeStripeEvent).toHaveBeenCalledWith('evt_test', 'processed');
+  });
+
+  test('looks up the subscription of a paid invoice', async () => {
+    const { storage, stripe, context } = createContext();
+    const event = createMockStripeEvent('invoice.payment_succeeded', { id: 'in_test', subscription: mockStripeSubscription.id });
+
+    await processStripeEvent(event, context);
+    expect(stripe.subscriptions.retrieve).toHaveBeenCalledWith(mockStripeSubscription.id);
+    expect(storage.updateUser).toHaveBeenCalledWith('test-firebase-id', expect.objectContaining({ subscriptionType: 'pro' }));
+  });
+
+  test('downgrades users whose subscription is deleted', async () => {
+    const { storage, stripe, context } = createContext();
+    stripe.subscriptions.retrieve.mockResolvedValue({ ...mockStripeSubscription, status: 'canceled' });
+    const event = createMockStripeEvent('customer.subscription.deleted', { id: mockStripeSubscription.id });
+
+    await processStripeEvent(event, context);
+    expect(stripe.subscriptions.retrieve).toHaveBeenCalledWith(mockStripeSubscription.id);
+    expect(storage.updateUser).toHaveBeenCalledWith('test-firebase-id', expect.objectContaining({
+      subscriptionType: 'free',
+      subscriptionStatus: 'canceled',
+    }));
+  });
+
+  test('keeps Pro through the grace period when a payment fails', async () => {
+    const { storage, stripe, context } = createContext();
+    stripe.subscriptions.retrieve.mockResolvedValue({ ...mockStripeSubscription, status: 'past_due' });
+    const event = createMockStripeEvent('invoice.payment_failed', { id: 'in_test', subscription: mockStripeSubscription.id });
+
+    await processStripeEvent(event, context);
+    expect(storage.updateUser).toHaveBeenCalledWith('test-firebase-id', expect.objectContaining({
+      subscriptionType: 'pro',
+      subscriptionStatus: 'past_due',
+      pastDueSince: expect.any(Date),
+    }));
+  });
+
+  test('stores workspace subscriptions on the workspace, not the owner', async () => {
+    const { storage, stripe, context } = createContext();
+    stripe.subscriptions.retrieve.mockResolvedValue({
+      ...mockStripeSubscription,
+      metadata: { firebaseId: 'owner-1', workspaceId: '7', plan: 'team' },
+    });
+    const event = createMockStripeEvent('checkout.session.completed', {
+      id: 'cs_test',
+      mode: 'subscription',
+      subscription: mockStripeSubscription.id,
+      payment_status: 'paid',
+      metadata: { firebaseId: 'owner-1', workspaceId: '7' },
+    });
+
+    await processStripeEvent(event, context);
+    expect(storage.updateWorkspace).toHaveBeenCalledWith(7, expect.objectContaining({ subscriptionType: 'team', subscriptionStatus: 'active' }));
+    expect(storage.updateUser).not.toHaveBeenCalled();
+  });
+
+  test("doesn't let an old subscription ending downgrade a newer one", async () => {
+    const { storage, stripe, context } = createContext();
+    storage.getUserByFirebaseId.mockResolvedValue({ firebaseId: 'test-firebase-id', stripeSubscriptionId: 'sub_new', subscriptionStatus: 'active', pastDueSince: null });
+    stripe.subscriptions.retrieve.mockResolvedValue({ ...mockStripeSubscription, id: 'sub_old', status: 'canceled' });
+
+    await processStripeEvent(createMockStripeEvent('customer.subscription.deleted', { id: 'sub_old' }), context);
+    expect(storage.updateUser).not.toHaveBeenCalled();
+  });
+});
+
+describe('processStripeEvent', () => {
+  test('acknowledges duplicate deliveries without handling them again', async () => {
+    const { storage, context } = createContext();
+    storage.claimStripeEvent.mockResolvedValue(undefined);
+    const event = createMockStripeEvent('customer.subscription.deleted', { id: 'sub_test', metadata: { firebaseId: 'user-1' } });
+
+    await expect(processStripeEvent(event, context)).resolves.toBe('duplicate');
+    expect(storage.updateUser).not.toHaveBeenCalled();
+    expect(storage.completeStripeEvent).not.toHaveBeenCalled();
+  });
+
+  test("doesn't acknowledge deliveries of an event that is still being handled", async () => {
+    const { storage, context } = createContext();
+    storage.claimStripeEvent.mockResolvedValue(undefined);
+    storage.getStripeEventById.mockResolvedValue({ id: 'evt_test', status: 'processing' });
+    const event = createMockStripeEvent('customer.subscription.deleted', { id: 'sub_test', metadata: { firebaseId: 'user-1' } });
+
+    await expect(processStripeEvent(event, context)).resolves.toBe('in_progress');
+    expect(storage.updateUser).not.toHaveBeenCalled();
+  });
+
+  test('records event types without a handler as ignored', async () => {
+    const { storage, context } = createContext();
+
+    await expect(processStripeEvent(createMockStripeEvent('customer.created', { id: 'cus_test' }), context)).resolves.toBe('ignored');
+    expect(storage.completeStripeEvent).toHaveBeenCalledWith('evt_test', 'ignored');
+  });
+
+  test('records failures and retries them from the stored payload', async () => {
+    const { storage, context } = createContext();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const event = createMockStripeEvent('customer.subscription.deleted', { id: 'sub_test', metadata: { firebaseId: 'user-1' } });
+    storage.updateUser.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await expect(processStripeEvent(event, context)).rejects.toThrow('database unavailable');
+    expect(storage.failStripeEvent).toHaveBeenCalledWith('evt_test', 'database unavailable');
+    expect(storage.completeStripeEvent).not.toHaveBeenCalled();
+
+    storage.claimRetryableStripeEvent.mockResolvedValue({ id: 'evt_test', payload: event });
+    await expect(retryStripeEvent('evt_test', context)).resolves.toBe('processed');
+    expect(storage.updateUser).toHaveBeenCalledTimes(2);
+    expect(storage.completeStripeEvent).toHaveBeenCalledWith('evt_test', 'processed');
+
+    storage.claimRetryableStripeEvent.mockResolvedValue(undefined);
+    await expect(retryStripeEvent('evt_test', context)).resolves.toBeUndefined();
+    consoleError.mockRestore();
+  });
+});
+
+describe('StripeEventStorage', () => {
+  test('retrying one event leaves other stuck events alone', async () => {
+    await new StripeEventStorage().claimRetryableStripeEvent('evt_1');
+
+    const { sql, params } = new PgDialect().sqlToQuery(mockWhere.mock.calls[0][0] as SQL);
+    // The id must apply to both the failed and the stuck processing case
+    expect(sql).toBe(
+      '("stripe_events"."id" = $1 and ("stripe_events"."status" = $2 or ("stripe_events"."status" = $3 and "stripe_events"."updated_at" < now() - interval \'5 minutes\')))',
+    );
+    expect(params).toEqual(['evt_1', 'failed', 'processing']);
+  });
+});
@@ -0,0 +1,37 @@
+import { getInvitationError, getInvitationExpiry } from '../lib/workspaces/invitations';
+import { getHighestPlan } from '../lib/entitlements/plans';
+
+describe('workspace invitations', () => {
+  const now = new Date('2026-03-01T12:00:00.000Z');
+  const invitation = { email: 'teammate@example.com', expiresAt: getInvitationExpiry(now), acceptedAt: null };
+  const invitee = { email: 'teammate@example.com', emailVerified: true };
+
+  test('invitations expire after a week', () => {
+    expect(invitation.expiresAt.toISOString()).toBe('2026-03-08T12:00:00.000Z');
+    expect(getInvitationError(invitation, invitee, now)).toBeUndefined();
+    expect(getInvitationError(invitation, invitee, invitation.expiresAt)).toMatch(/expired/);
+  });
+
+  test('only the invited address can accept', () => {
+    expect(getInvitationError(invitation, { ...invitee, email: ' Teammate@Example.com' }, now)).toBeUndefined();
+    expect(getInvitationError(invitation, { ...invitee, email: 'someone@example.com' }, now)).toMatch(/sent to teammate@example.com/);
+    expect(getInvitationError(invitation, undefined, now)).toMatch(/sent to teammate@example.com/);
+  });
+
+  test('the invited address must be verified', () => {
+    expect(getInvitationError(invitation, { ...invitee, emailVerified: false }, now)).toMatch(/Verify teammate@example.com/);
+    expect(getInvitationError(invitation, { email: invitee.email }, now)).toMatch(/Verify teammate@example.com/);
+  });
+
+  test('invitations can only be accepted once', () => {
+    expect(getInvitationError({ ...invitation, acceptedAt: now }, invitee, now)).toMatch(/already been accepted/);
+  });
+});
+
+describe('workspace plans', () => {
+  test('members get the highest of their own and their workspaces\' plans', () => {
+    expect(getHighestPlan([])).toBe('free');
+    expect(getHighestPlan(['free', 'team', 'pro'])).toBe('team');
+    expect(getHighestPlan(['pro', 'free'])).toBe('pro');
+  });
+});
@@ -0,0 +1,25 @@
+import 'dotenv/config';
+import Stripe from 'stripe';
+import { storage } from '../storage/index';
+import { reconcileSubscriptions } from '../lib/billing/reconcile';
+
+// Usage: npm run reconcile:subscriptions [-- --dry-run]
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+  apiVersion: "2025-01-27.acacia",
+});
+
+async function run() {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`Reconciling subscriptions with Stripe${dryRun ? ' (dry run)' : ''}...`);
+
+  try {
+    const result = await reconcileSubscriptions({ stripe, storage }, { dryRun });
+    console.log(`Checked ${result.checked} users and workspaces, ${dryRun ? 'would update' : 'updated'} ${result.updated.length}, failed ${result.failed.length}`);
+    process.exit(result.failed.length > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('Reconcile failed:', error);
+    process.exit(1);
+  }
+}
+
+run();
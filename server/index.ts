@@ -7,6 +7,12 @@ import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
 
+// Rate limits key anonymous requests by req.ip, which is only the client's
+// address when Express knows how many proxies sit in front of it
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', Number(process.env.TRUST_PROXY));
+}
+
 (async () => {
   // IMPORTANT: Add raw body parsing specifically for webhook endpoint BEFORE express.json()
   // This ensures Stripe webhooks receive raw body for signature verification
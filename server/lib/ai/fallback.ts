@@ -0,0 +1,156 @@
+import { APICallError, RetryError } from 'ai';
+import { type AIModelConfig, getAvailableModels } from './providers';
+import { ComponentParseError, type ParseDiagnostics } from './parser';
+
+export type AttemptErrorClass = 'rate_limit' | 'server_error' | 'timeout' | 'parse_error' | 'client_error' | 'unknown';
+
+export interface GenerationAttempt {
+  provider: string;
+  model: string;
+  attempt: number;
+  status: 'success' | 'error';
+  errorClass?: AttemptErrorClass;
+  error?: string;
+  // Present when the attempt failed because the output could not be parsed
+  diagnostics?: ParseDiagnostics;
+  durationMs: number;
+}
+
+export interface FallbackOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  timeoutMs: number;
+  // Cancels the whole chain, e.g. when the client disconnects
+  signal?: AbortSignal;
+  onRetry?: (next: { model: AIModelConfig; attempt: number; reason: AttemptErrorClass; delayMs: number }) => void;
+}
+
+export class GenerationFailedError extends Error {
+  constructor(message: string, public attempts: GenerationAttempt[]) {
+    super(message);
+    this.name = 'GenerationFailedError';
+  }
+
+  // Diagnostics of the most recent attempt that failed to parse, if any
+  get diagnostics(): ParseDiagnostics | undefined {
+    return [...this.attempts].reverse().find((attempt) => attempt.diagnostics)?.diagnostics;
+  }
+}
+
+export function getFallbackOptions(): Omit<FallbackOptions, 'signal' | 'onRetry'> {
+  return {
+    maxRetries: Number(process.env.AI_MAX_RETRIES ?? 2),
+    baseDelayMs: Number(process.env.AI_RETRY_BASE_DELAY_MS ?? 1000),
+    timeoutMs: Number(process.env.AI_REQUEST_TIMEOUT_MS ?? 90000),
+  };
+}
+
+export function classifyError(error: unknown): AttemptErrorClass {
+  if (RetryError.isInstance(error)) {
+    return classifyError(error.lastError);
+  }
+  if (error instanceof ComponentParseError) {
+    return 'parse_error';
+  }
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return 'timeout';
+  }
+  if (APICallError.isInstance(error)) {
+    if (error.statusCode === 429) return 'rate_limit';
+    if (error.statusCode === 408) return 'timeout';
+    if (error.statusCode === undefined || error.statusCode >= 500) return 'server_error';
+    return 'client_error';
+  }
+  return 'unknown';
+}
+
+function isRetryable(errorClass: AttemptErrorClass): boolean {
+  return errorClass !== 'client_error' && errorClass !== 'unknown';
+}
+
+// The requested model first, then the first usable model of every other
+// configured provider. The mock provider is never used as a fallback.
+export function getFallbackChain(primary: AIModelConfig, options: { requiresImages?: boolean } = {}): AIModelConfig[] {
+  const chain = [primary];
+  const seenProviders = new Set([primary.provider]);
+
+  for (const model of getAvailableModels()) {
+    if (seenProviders.has(model.provider) || model.provider === 'mock') continue;
+    if (options.requiresImages && !model.supportsImages) continue;
+    seenProviders.add(model.provider);
+    chain.push(model);
+  }
+
+  return chain;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// Runs `attemptFn` against each model in the chain, retrying retryable
+// failures with exponential backoff before failing over to the next model.
+export async function runWithFallback<T>(
+  chain: AIModelConfig[],
+  attemptFn: (model: AIModelConfig, signal: AbortSignal) => Promise<T>,
+  options: FallbackOptions,
+): Promise<{ result: T; model: AIModelConfig; attempts: GenerationAttempt[] }> {
+  const attempts: GenerationAttempt[] = [];
+
+  for (let modelIndex = 0; modelIndex < chain.length; modelIndex++) {
+    const model = chain[modelIndex];
+
+    for (let attempt = 1; attempt <= options.maxRetries + 1; attempt++) {
+      const started = Date.now();
+      const timeoutSignal = AbortSignal.timeout(options.timeoutMs);
+      const signal = options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal;
+
+      try {
+        const result = await attemptFn(model, signal);
+        attempts.push({ provider: model.provider, model: model.id, attempt, status: 'success', durationMs: Date.now() - started });
+        return { result, model, attempts };
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw error;
+        }
+
+        const errorClass = timeoutSignal.aborted ? 'timeout' : classifyError(error);
+        attempts.push({
+          provider: model.provider,
+          model: model.id,
+          attempt,
+          status: 'error',
+          errorClass,
+          error: error instanceof Error ? error.message : String(error),
+          diagnostics: error instanceof ComponentParseError ? error.diagnostics : undefined,
+          durationMs: Date.now() - started,
+        });
+        console.warn(`[AI] ${model.id} attempt ${attempt} failed (${errorClass}):`, error instanceof Error ? error.message : error);
+
+        if (!isRetryable(errorClass)) {
+          throw new GenerationFailedError(error instanceof Error ? error.message : 'Generation failed', attempts);
+        }
+
+        const hasRetryLeft = attempt <= options.maxRetries;
+        const nextModel = hasRetryLeft ? model : chain[modelIndex + 1];
+        if (!nextModel) {
+          break;
+        }
+
+        const delayMs = hasRetryLeft ? options.baseDelayMs * 2 ** (attempt - 1) : 0;
+        options.onRetry?.({ model: nextModel, attempt: hasRetryLeft ? attempt + 1 : 1, reason: errorClass, delayMs });
+        if (delayMs > 0) {
+          await sleep(delayMs, options.signal);
+        }
+      }
+    }
+  }
+
+  throw new GenerationFailedError('All AI providers failed to generate the component', attempts);
+}
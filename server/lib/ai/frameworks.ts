@@ -0,0 +1,157 @@
+import type { Framework } from '@shared/schema';
+import { getThemeVariables, THEME_COLOR_TOKENS, type ThemeConfig } from '@shared/themes';
+
+interface FrameworkDefinition {
+  label: string;
+  // What the model produces, used in the prompt text ("a Vue component")
+  noun: string;
+  intro: string;
+  // Framework-specific rules; the shared design rules are spliced in by position
+  // and the color rules are appended by generateSystemPrompt
+  rules: string[];
+}
+
+const DESIGN_RULE = 'Use a modern, clean design with good spacing, typography, and visual hierarchy.';
+const RESPONSIVE_RULE = 'Ensure the component is responsive and accessible where appropriate.';
+const FORMAT_RULE = "Structure your response using the XML format specified in the user's prompt.";
+const THEME_RULES = [
+  `**LIGHT THEME BY DEFAULT**: Generate components with light themes unless specifically requested otherwise. Use light backgrounds (white, gray-50, gray-100) and dark text (gray-900, gray-800, gray-700). For accent colors, use bright, vibrant colors that work well on light backgrounds.`,
+  `**Color Guidelines**:
+    - Primary backgrounds: bg-white, bg-gray-50, bg-gray-100
+    - Text colors: text-gray-900, text-gray-800, text-gray-700
+    - Accent colors: Use vibrant colors like blue-600, indigo-600, green-600, purple-600, etc.
+    - Borders: border-gray-200, border-gray-300
+    - Hover states: hover:bg-gray-100, hover:bg-gray-200`,
+  'Use appropriate spacing and styling to make the component visually appealing and functional with the light theme aesthetic.',
+];
+
+const FRAMEWORK_DEFINITIONS: Record<Framework, FrameworkDefinition> = {
+  react: {
+    label: 'React',
+    noun: 'React component',
+    intro: 'You are an expert React and Tailwind CSS developer. Your task is to generate or modify React functional components.',
+    rules: [
+      'The generated code must be a single React functional component.',
+      'React hooks (useState, useEffect, useCallback, useMemo, useRef) are available globally - you can use them directly without imports.',
+      'Do NOT include any import statements (React, useState, etc.) - they are provided in the runtime environment.',
+      'Style components using Tailwind CSS with inline styles where needed for custom styling.',
+      DESIGN_RULE,
+      'The component code should be self-contained and renderable without any external dependencies.',
+      'After the component function definition, you MUST include a `render()` call to display an example of the component. For example: `render(<MyComponent prop1="example" />);`. If the component takes no props, use `render(<MyComponent />);`.',
+      RESPONSIVE_RULE,
+      FORMAT_RULE,
+      'IMPORTANT: Event handlers like onClick, onChange, onSubmit should use arrow function syntax: `(e) => { ... }` or `() => { ... }`.',
+    ],
+  },
+  vue: {
+    label: 'Vue',
+    noun: 'Vue component',
+    intro: 'You are an expert Vue 3 and Tailwind CSS developer. Your task is to generate or modify Vue single-file components.',
+    rules: [
+      'The generated code must be a single Vue 3 single-file component (SFC) with a `<template>` block, an optional `<script setup>` block and an optional `<style scoped>` block.',
+      'Use the Composition API in `<script setup>` with plain JavaScript (no `lang="ts"`). Import what you need (ref, computed, reactive, watch, onMounted, etc.) from "vue" - do NOT import anything else.',
+      'Style the template with Tailwind CSS utility classes. Only use the `<style scoped>` block for styling Tailwind cannot express.',
+      DESIGN_RULE,
+      'The component must be self-contained and renderable without any external dependencies or network requests.',
+      'The component is mounted on its own, so every prop declared with `defineProps` MUST have a default value that shows a realistic example.',
+      RESPONSIVE_RULE,
+      FORMAT_RULE,
+      'Use Vue template syntax for events and bindings: `@click`, `@submit.prevent`, `v-model`, `:class`.',
+    ],
+  },
+  svelte: {
+    label: 'Svelte',
+    noun: 'Svelte component',
+    intro: 'You are an expert Svelte and Tailwind CSS developer. Your task is to generate or modify Svelte 4 components.',
+    rules: [
+      'The generated code must be a single Svelte 4 component: an optional `<script>` block, the markup, and an optional `<style>` block.',
+      'Write the script in plain JavaScript (no `lang="ts"`). Use Svelte reactivity (`let` variables and `$:` statements) and only import from "svelte" or its submodules (e.g. "svelte/transition", "svelte/store").',
+      'Style the markup with Tailwind CSS utility classes. Only use the `<style>` block for styling Tailwind cannot express.',
+      DESIGN_RULE,
+      'The component must be self-contained and renderable without any external dependencies or network requests.',
+      'The component is mounted on its own, so every prop (`export let`) MUST have a default value that shows a realistic example.',
+      RESPONSIVE_RULE,
+      FORMAT_RULE,
+      'Use Svelte directives for events and bindings: `on:click`, `on:submit|preventDefault`, `bind:value`, `class:name={condition}`.',
+    ],
+  },
+  html: {
+    label: 'HTML',
+    noun: 'HTML snippet',
+    intro: 'You are an expert HTML and Tailwind CSS developer. Your task is to generate or modify static HTML snippets styled with Tailwind CSS.',
+    rules: [
+      'The generated code must be the markup that goes inside `<body>` - do NOT include `<!DOCTYPE>`, `<html>`, `<head>` or `<body>` tags.',
+      'Style everything with Tailwind CSS utility classes. Only add a `<style>` element for styling Tailwind cannot express.',
+      'Interactivity, if any, goes in a single inline `<script>` at the end written in plain JavaScript - no frameworks, modules or external scripts.',
+      DESIGN_RULE,
+      'The snippet must be self-contained and renderable without any external dependencies or network requests.',
+      'Use semantic elements (header, nav, main, section, button, label) and realistic example content.',
+      RESPONSIVE_RULE,
+      FORMAT_RULE,
+    ],
+  },
+};
+
+// Replaces THEME_RULES when the user picked a theme. Components style
+// themselves through the token classes, which read CSS variables, so the
+// same code re-skins when the theme changes.
+function designTokenRules(theme: ThemeConfig): string[] {
+  const variables = getThemeVariables(theme);
+  const colors = Object.entries(THEME_COLOR_TOKENS)
+    .map(([key, token]) => `    - ${token}: ${key} color (currently ${variables[`--color-${token}`]})`);
+
+  return [
+    `**DESIGN TOKENS**: The page provides the "${theme.name}" theme as design tokens. Use them for every color, font and base spacing decision instead of hard-coded Tailwind palette colors (gray-900, indigo-600, etc.) or hex values.`,
+    `**Token colors** (use with any color utility: bg-, text-, border-, ring-, from-, to-):
+${colors.join('\n')}
+    - Do NOT use opacity modifiers on token colors (bg-primary/50); use the opacity-* utilities instead.
+    - For subtle surfaces and borders, combine token colors with white/black overlays or the opacity-* utilities.`,
+    `**Typography and spacing**: \`font-sans\` is the theme font (${theme.typography.fontFamily}), text inherits a base size of ${theme.typography.fontSize} and weight ${theme.typography.fontWeight}. \`p-base\`, \`gap-base\`, \`m-base\` etc. use the base spacing unit (${theme.spacing.base}); the regular Tailwind spacing scale is still available.`,
+    'In custom styles, reference the CSS variables (var(--color-primary), var(--color-foreground), var(--font-family), var(--spacing-base)) rather than literal values.',
+  ];
+}
+
+export function getFrameworkLabel(framework: Framework): string {
+  return FRAMEWORK_DEFINITIONS[framework].label;
+}
+
+export function generateSystemPrompt(framework: Framework = 'react', hasImage: boolean = false, theme?: ThemeConfig): string {
+  const definition = FRAMEWORK_DEFINITIONS[framework];
+  const allRules = [...definition.rules, ...(theme ? designTokenRules(theme) : THEME_RULES)];
+  const rules = allRules.map((rule, index) => `${index + 1}. ${rule}`);
+  const basePrompt = `${definition.intro}
+You MUST follow these rules:
+${rules.join('\n')}`;
+
+  if (hasImage) {
+    const next = allRules.length + 1;
+    return basePrompt + `
+
+**IMAGE ANALYSIS INSTRUCTIONS**:
+${next}. **ANALYZE THE PROVIDED IMAGE CAREFULLY**: Study the image to understand the layout, design patterns, colors, typography, spacing, and interactive elements.
+${next + 1}. **RECREATE EXACTLY**: Generate a ${definition.noun} that matches the image as closely as possible. Pay attention to:
+    - Layout and positioning of elements
+    - Colors, fonts, and sizing
+    - Spacing and margins/padding
+    - Interactive elements (buttons, inputs, etc.)
+    - Overall visual hierarchy and design
+${next + 2}. **PRESERVE DESIGN INTENT**: If the image shows a dark theme, recreate it as dark. If it shows specific colors, match them closely using Tailwind classes or custom styles.
+${next + 3}. **EXTRACT TEXT CONTENT**: Use any visible text from the image in your component (for labels, headings, placeholder text, etc.).
+${next + 4}. **INFER FUNCTIONALITY**: Based on the UI elements visible, implement appropriate interactive behavior (forms, buttons, navigation, etc.).`;
+  }
+
+  return basePrompt;
+}
+
+// Prompt for porting a saved component to another framework. The answer uses
+// the same XML format as a new component so the normal parser handles it.
+export function buildConversionPrompt(code: string, from: Framework, to: Framework): string {
+  return `
+<request type="convert_component">
+  <original_code framework="${from}"><![CDATA[${code}]]></original_code>
+  <conversion_instruction>Convert this ${FRAMEWORK_DEFINITIONS[from].noun} into an equivalent ${FRAMEWORK_DEFINITIONS[to].noun}. Keep the same markup structure, Tailwind classes, text content and behavior. Follow the ${FRAMEWORK_DEFINITIONS[to].label} rules from the system prompt.</conversion_instruction>
+  <thinking_process>...</thinking_process>
+  Your output MUST be in the following XML format:
+  <component><name>...</name><description>...</description><code><![CDATA[...]]></code></component>
+</request>`;
+}
@@ -0,0 +1,34 @@
+import type { CoreMessage } from 'ai';
+import type { GenerationMessage } from '@shared/schema';
+
+export function getMaxHistoryTurns(): number {
+  return Number(process.env.AI_SESSION_HISTORY_TURNS ?? 6);
+}
+
+function formatAssistantTurn(message: GenerationMessage): string {
+  return `<component><name>${message.componentName ?? 'Component'}</name><description>${message.content}</description><code><![CDATA[${message.code}]]></code></component>`;
+}
+
+// Replays a session as model conversation context. Only turns that produced
+// code are kept (failed or cancelled prompts have nothing to build on), and
+// only the most recent `maxTurns` of those.
+export function buildHistoryMessages(messages: GenerationMessage[], maxTurns = getMaxHistoryTurns()): CoreMessage[] {
+  const turns: CoreMessage[][] = [];
+  let pendingPrompt: string | null = null;
+
+  for (const message of messages) {
+    if (message.role === 'user') {
+      pendingPrompt = message.content;
+      continue;
+    }
+    if (pendingPrompt !== null && message.code) {
+      turns.push([
+        { role: 'user', content: pendingPrompt },
+        { role: 'assistant', content: formatAssistantTurn(message) },
+      ]);
+    }
+    pendingPrompt = null;
+  }
+
+  return maxTurns > 0 ? turns.slice(-maxTurns).flat() : [];
+}
@@ -0,0 +1,45 @@
+import type { LanguageModelUsage } from 'ai';
+import type { AIModelConfig } from './providers';
+import { type AttemptErrorClass, classifyError, GenerationFailedError } from './fallback';
+
+export type GenerationErrorClass = AttemptErrorClass | 'cancelled';
+
+// Adds up the tokens and cost of every model call one generation makes:
+// retries, fallbacks, repairs and compile fixes included
+export class GenerationMeter {
+  readonly startedAt = Date.now();
+  promptTokens = 0;
+  completionTokens = 0;
+  costUsd = 0;
+
+  add(model: AIModelConfig, usage: LanguageModelUsage | undefined) {
+    const promptTokens = toTokenCount(usage?.promptTokens);
+    const completionTokens = toTokenCount(usage?.completionTokens);
+    this.promptTokens += promptTokens;
+    this.completionTokens += completionTokens;
+    this.costUsd += promptTokens * model.costPerInputToken + completionTokens * model.costPerOutputToken;
+  }
+
+  get latencyMs(): number {
+    return Date.now() - this.startedAt;
+  }
+}
+
+// Providers that don't report usage give NaN, which counts as nothing
+function toTokenCount(value: number | undefined): number {
+  return value !== undefined && Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0;
+}
+
+// The reason recorded for a failed generation: the class of its last attempt
+export function classifyGenerationError(error: unknown, cancelled = false): GenerationErrorClass {
+  if (cancelled) {
+    return 'cancelled';
+  }
+  if (error instanceof GenerationFailedError) {
+    const lastAttempt = error.attempts[error.attempts.length - 1];
+    if (lastAttempt?.errorClass) {
+      return lastAttempt.errorClass;
+    }
+  }
+  return classifyError(error);
+}
@@ -0,0 +1,165 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai';
+import type { Framework } from '@shared/schema';
+
+// Offline stand-in for a real provider. It answers every request with a
+// canned, well-formed XML component so the generation flow (parsing,
+// streaming, saving) can be exercised without API keys or network access.
+
+function getPromptText(options: LanguageModelV1CallOptions): string {
+  return options.prompt
+    .filter((message) => message.role === 'user')
+    .flatMap((message) => message.content)
+    .map((part) => (typeof part === 'object' && part.type === 'text' ? part.text : ''))
+    .join('\n');
+}
+
+// The system prompt names the target framework ("You are an expert Vue 3 ...")
+function getFramework(options: LanguageModelV1CallOptions): Framework {
+  const system = options.prompt.find((message) => message.role === 'system');
+  const match = (system?.content ?? '').match(/You are an expert (React|Vue|Svelte|HTML)\b/);
+  return match ? match[1].toLowerCase() as Framework : 'react';
+}
+
+function extractInstruction(promptText: string): string {
+  const match = promptText.match(/<(?:description_prompt|edit_instruction|conversion_instruction)>([\s\S]*?)<\/(?:description_prompt|edit_instruction|conversion_instruction)>/);
+  return (match ? match[1] : promptText).trim().slice(0, 200) || 'Mock component';
+}
+
+function escapeJsx(text: string): string {
+  return text.replace(/[{}<>]/g, '');
+}
+
+function buildMockCode(framework: Framework, instruction: string): string {
+  const card = 'max-w-md mx-auto p-6 bg-white rounded-xl shadow-sm border border-gray-200';
+  const button = 'mt-4 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md';
+
+  if (framework === 'vue') {
+    return `<script setup>
+import { ref } from "vue";
+
+defineProps({ title: { type: String, default: "Mock Component" } });
+const count = ref(0);
+</script>
+
+<template>
+  <div class="${card}">
+    <h2 class="text-xl font-semibold text-gray-900">{{ title }}</h2>
+    <p class="mt-2 text-sm text-gray-700">${instruction}</p>
+    <button class="${button}" @click="count++">Clicked {{ count }} times</button>
+  </div>
+</template>`;
+  }
+
+  if (framework === 'svelte') {
+    return `<script>
+  export let title = "Mock Component";
+  let count = 0;
+</script>
+
+<div class="${card}">
+  <h2 class="text-xl font-semibold text-gray-900">{title}</h2>
+  <p class="mt-2 text-sm text-gray-700">${instruction}</p>
+  <button class="${button}" on:click={() => count += 1}>Clicked {count} times</button>
+</div>`;
+  }
+
+  if (framework === 'html') {
+    return `<div class="${card}">
+  <h2 class="text-xl font-semibold text-gray-900">Mock Component</h2>
+  <p class="mt-2 text-sm text-gray-700">${instruction}</p>
+  <button id="mock-button" class="${button}">Clicked 0 times</button>
+</div>
+<script>
+  let count = 0;
+  const button = document.getElementById("mock-button");
+  button.addEventListener("click", () => {
+    count += 1;
+    button.textContent = "Clicked " + count + " times";
+  });
+</script>`;
+  }
+
+  return `function MockComponent({ title = "Mock Component" }) {
+  const [count, setCount] = useState(0);
+
+  return (
+    <div className="${card}">
+      <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+      <p className="mt-2 text-sm text-gray-700">${instruction}</p>
+      <button
+        className="${button}"
+        onClick={() => { setCount(count + 1); }}
+      >
+        Clicked {count} times
+      </button>
+    </div>
+  );
+}
+
+render(<MockComponent title="Mock Component" />);`;
+}
+
+function buildMockResponse(promptText: string, framework: Framework): string {
+  const isEdit = promptText.includes('type="edit_component"');
+  const instruction = escapeJsx(extractInstruction(promptText));
+  const wrapper = isEdit ? 'component_edit' : 'component';
+  const code = buildMockCode(framework, instruction);
+
+  return `<thinking>Returning a canned response from the mock provider.</thinking>
+<${wrapper}><name>Mock Component</name><description>Canned component from the offline mock provider</description><code><![CDATA[${code}]]></code></${wrapper}>`;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function createMockModel(modelId: string): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: undefined,
+
+    async doGenerate(options) {
+      const promptText = getPromptText(options);
+      const text = buildMockResponse(promptText, getFramework(options));
+
+      return {
+        text,
+        finishReason: 'stop',
+        usage: { promptTokens: estimateTokens(promptText), completionTokens: estimateTokens(text) },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+
+    async doStream(options) {
+      const promptText = getPromptText(options);
+      const text = buildMockResponse(promptText, getFramework(options));
+      const chunks = text.match(/[\s\S]{1,24}/g) ?? [];
+
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        async start(controller) {
+          for (const chunk of chunks) {
+            if (options.abortSignal?.aborted) {
+              controller.close();
+              return;
+            }
+            controller.enqueue({ type: 'text-delta', textDelta: chunk });
+            await new Promise((resolve) => setTimeout(resolve, 15));
+          }
+          controller.enqueue({
+            type: 'finish',
+            finishReason: 'stop',
+            usage: { promptTokens: estimateTokens(promptText), completionTokens: estimateTokens(text) },
+          });
+          controller.close();
+        },
+      });
+
+      return {
+        stream,
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+}
@@ -0,0 +1,274 @@
+import type { Framework } from '@shared/schema';
+
+export interface ParsedComponent {
+  name: string;
+  description: string;
+  code: string;
+}
+
+export interface ParseDiagnostics {
+  // Which representation the component was recovered from
+  strategy: 'xml' | 'json' | 'markdown' | null;
+  rootTag: string | null;
+  missingFields: string[];
+  // Problems that were tolerated while parsing
+  recovered: string[];
+  responseLength: number;
+  excerpt: string;
+  // Number of times the model was asked to correct its output
+  repairAttempts: number;
+}
+
+export class ComponentParseError extends Error {
+  constructor(message: string, public diagnostics: ParseDiagnostics) {
+    super(message);
+    this.name = 'ComponentParseError';
+  }
+}
+
+const FIELD_TAGS = ['name', 'description', 'code'] as const;
+type FieldTag = typeof FIELD_TAGS[number];
+
+const CDATA_OPEN = '<![CDATA[';
+const CDATA_CLOSE = ']]>';
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function stripCodeFences(code: string, recovered: string[]): string {
+  const fenced = code.match(/^\s*```[\w-]*[^\n]*\n([\s\S]*?)\n?```\s*$/);
+  if (fenced) {
+    recovered.push('removed markdown code fence around code');
+    return fenced[1];
+  }
+  // A fence that was opened but never closed (or closed but never opened)
+  if (/^\s*```/.test(code) || /```\s*$/.test(code)) {
+    recovered.push('removed unbalanced markdown code fence');
+    return code.replace(/^\s*```[\w-]*[^\n]*\n?/, '').replace(/\n?```\s*$/, '');
+  }
+  return code;
+}
+
+function unwrapCdata(content: string, recovered: string[], field: string): { text: string; wasCdata: boolean } {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith(CDATA_OPEN)) {
+    return { text: content, wasCdata: false };
+  }
+  const body = trimmed.slice(CDATA_OPEN.length);
+  const closeIndex = body.lastIndexOf(CDATA_CLOSE);
+  if (closeIndex === -1) {
+    recovered.push(`unterminated CDATA section in <${field}>`);
+    return { text: body, wasCdata: true };
+  }
+  return { text: body.slice(0, closeIndex), wasCdata: true };
+}
+
+function findOpenTag(text: string, tag: string, from = 0): { start: number; end: number } | null {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>`, 'g');
+  pattern.lastIndex = from;
+  const match = pattern.exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+// Finds where an unclosed field ends: at the next sibling field or the root closing tag
+function findImplicitEnd(scope: string, from: number, field: FieldTag): number {
+  const candidates = FIELD_TAGS
+    .filter((tag) => tag !== field)
+    .map((tag) => findOpenTag(scope, tag, from)?.start ?? -1)
+    .concat([scope.indexOf('</component', from)])
+    .filter((index) => index !== -1);
+  return candidates.length > 0 ? Math.min(...candidates) : scope.length;
+}
+
+function extractField(scope: string, field: FieldTag, recovered: string[]): string | undefined {
+  const open = findOpenTag(scope, field);
+  if (!open) {
+    return undefined;
+  }
+
+  const rest = scope.slice(open.end);
+  let content: string;
+
+  if (field === 'code') {
+    // Code may itself contain <code> JSX elements, so prefer the CDATA boundary,
+    // then the last closing tag, before giving up on a closing tag entirely
+    const cdata = rest.trimStart().startsWith(CDATA_OPEN);
+    const cdataEnd = cdata ? rest.indexOf(CDATA_CLOSE) : -1;
+    const closeIndex = cdataEnd !== -1 ? rest.indexOf('</code>', cdataEnd) : rest.lastIndexOf('</code>');
+    if (closeIndex === -1) {
+      recovered.push('missing </code> closing tag');
+      const rootClose = rest.search(/<\/component(?:_edit)?>/);
+      content = rootClose === -1 ? rest : rest.slice(0, rootClose);
+    } else {
+      content = rest.slice(0, closeIndex);
+    }
+  } else {
+    const closeIndex = rest.indexOf(`</${field}>`);
+    const implicitEnd = findImplicitEnd(rest, 0, field);
+    if (closeIndex === -1 || closeIndex > implicitEnd) {
+      recovered.push(`missing </${field}> closing tag`);
+      content = rest.slice(0, implicitEnd);
+    } else {
+      content = rest.slice(0, closeIndex);
+    }
+  }
+
+  const { text, wasCdata } = unwrapCdata(content, recovered, field);
+  return wasCdata ? text : decodeEntities(text);
+}
+
+function findRoot(text: string, isEdit: boolean, recovered: string[]): { tag: string | null; scope: string } {
+  const expected = isEdit ? 'component_edit' : 'component';
+  const alternate = isEdit ? 'component' : 'component_edit';
+
+  for (const tag of [expected, alternate]) {
+    const open = findOpenTag(text, tag);
+    if (!open) continue;
+
+    if (tag !== expected) {
+      recovered.push(`used <${tag}> root instead of <${expected}>`);
+    }
+    const closeIndex = text.lastIndexOf(`</${tag}>`);
+    if (closeIndex === -1 || closeIndex < open.end) {
+      recovered.push(`missing </${tag}> closing tag`);
+      return { tag, scope: text.slice(open.end) };
+    }
+    return { tag, scope: text.slice(open.end, closeIndex) };
+  }
+
+  return { tag: null, scope: text };
+}
+
+function parseJson(text: string, recovered: string[]): Partial<ParsedComponent> | undefined {
+  const fenced = text.match(/```json\s*\n([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  if (!candidate || !candidate.trim().startsWith('{')) {
+    return undefined;
+  }
+
+  try {
+    const data = JSON.parse(candidate);
+    const source = data.component_edit ?? data.component ?? data;
+    if (typeof source !== 'object' || source === null || typeof source.code !== 'string') {
+      return undefined;
+    }
+    recovered.push('parsed JSON instead of XML');
+    return {
+      name: typeof source.name === 'string' ? source.name : undefined,
+      description: typeof source.description === 'string' ? source.description : undefined,
+      code: source.code,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+// Fence languages and a rough "this is component code" check per framework,
+// for responses that skipped the XML entirely
+const MARKDOWN_CODE: Record<Framework, { fence: RegExp; looksLikeCode: RegExp }> = {
+  react: { fence: /```(?:jsx|tsx|javascript|js|react)?\s*\n([\s\S]*?)```/g, looksLikeCode: /render\s*\(|function\s+[A-Z]|=>\s*[(<]/ },
+  vue: { fence: /```(?:vue|html)?\s*\n([\s\S]*?)```/g, looksLikeCode: /<template[\s>]/ },
+  svelte: { fence: /```(?:svelte|html)?\s*\n([\s\S]*?)```/g, looksLikeCode: /<[a-z][\w-]*[\s>]/ },
+  html: { fence: /```(?:html)?\s*\n([\s\S]*?)```/g, looksLikeCode: /<[a-z][\w-]*[\s>]/ },
+};
+
+function parseMarkdown(text: string, recovered: string[], framework: Framework): Partial<ParsedComponent> | undefined {
+  const { fence: pattern, looksLikeCode } = MARKDOWN_CODE[framework];
+  const fences = Array.from(text.matchAll(pattern));
+  const fence = fences.find((match) => looksLikeCode.test(match[1]));
+  if (!fence) {
+    return undefined;
+  }
+  recovered.push('extracted code from a markdown block without XML');
+  return { code: fence[1] };
+}
+
+function deriveName(code: string, framework: Framework): string | undefined {
+  if (framework !== 'react') {
+    // Vue options API components may still carry a name
+    return code.match(/\bname:\s*['"]([A-Z][\w ]*)['"]/)?.[1];
+  }
+  const match = code.match(/function\s+([A-Z]\w*)/) || code.match(/(?:const|let)\s+([A-Z]\w*)\s*=/);
+  return match?.[1];
+}
+
+export function parseComponentResponse(
+  text: string,
+  isEdit: boolean,
+  framework: Framework = 'react',
+): { component: ParsedComponent; diagnostics: ParseDiagnostics } {
+  const recovered: string[] = [];
+  const diagnostics: ParseDiagnostics = {
+    strategy: null,
+    rootTag: null,
+    missingFields: [],
+    recovered,
+    responseLength: text.length,
+    excerpt: text.length > 400 ? `${text.slice(0, 200)}\n...\n${text.slice(-200)}` : text,
+    repairAttempts: 0,
+  };
+
+  // Some models wrap the whole XML document in a markdown fence
+  const source = text.replace(/```(?:xml|html)\s*\n([\s\S]*?<\/component(?:_edit)?>[\s\S]*?)```/, (_match, inner) => {
+    recovered.push('removed markdown fence around XML');
+    return inner;
+  });
+
+  let fields: Partial<ParsedComponent> = {};
+  const root = findRoot(source, isEdit, recovered);
+  diagnostics.rootTag = root.tag;
+
+  const xmlCode = extractField(root.scope, 'code', recovered);
+  if (xmlCode !== undefined && xmlCode.trim()) {
+    diagnostics.strategy = 'xml';
+    if (!root.tag) {
+      recovered.push('missing <component> root element');
+    }
+    fields = {
+      name: extractField(root.scope, 'name', recovered),
+      description: extractField(root.scope, 'description', recovered),
+      code: xmlCode,
+    };
+  } else {
+    const json = parseJson(source, recovered);
+    const markdown = json ? undefined : parseMarkdown(source, recovered, framework);
+    if (json || markdown) {
+      diagnostics.strategy = json ? 'json' : 'markdown';
+      fields = json ?? markdown ?? {};
+    }
+  }
+
+  const code = fields.code ? stripCodeFences(fields.code, recovered).trim() : '';
+  for (const field of FIELD_TAGS) {
+    const value = field === 'code' ? code : fields[field]?.trim();
+    if (!value) diagnostics.missingFields.push(field);
+  }
+
+  if (!code) {
+    throw new ComponentParseError('Could not find component code in the AI response.', diagnostics);
+  }
+  if (!code.includes('<')) {
+    const markup = framework === 'react' ? 'JSX' : 'markup';
+    throw new ComponentParseError(`Component code does not contain any ${markup}.`, diagnostics);
+  }
+
+  let name = fields.name?.replace(/\s+/g, ' ').trim();
+  if (!name) {
+    name = deriveName(code, framework) ?? 'Generated Component';
+    recovered.push('derived name from code');
+  }
+
+  let description = fields.description?.replace(/\s+/g, ' ').trim();
+  if (!description) {
+    description = `Generated ${name} component`;
+    recovered.push('generated placeholder description');
+  }
+
+  return { component: { name, description, code }, diagnostics };
+}
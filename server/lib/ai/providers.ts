@@ -0,0 +1,146 @@
+import type { LanguageModel } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { vercel } from '@ai-sdk/vercel';
+import { createMockModel } from './mockProvider';
+
+export type AIProviderId = 'vercel' | 'openai' | 'anthropic' | 'mock';
+
+export interface AIModelConfig {
+  id: string;
+  label: string;
+  provider: AIProviderId;
+  modelName: string;
+  supportsImages: boolean;
+  maxTokens: number;
+  // USD per token, used for cost reporting
+  costPerInputToken: number;
+  costPerOutputToken: number;
+}
+
+interface AIProviderConfig {
+  id: AIProviderId;
+  // Environment variable that must be set for the provider's models to be offered
+  envKey: string;
+  createModel: (modelName: string) => LanguageModel;
+}
+
+const providers: Record<AIProviderId, AIProviderConfig> = {
+  vercel: { id: 'vercel', envKey: 'VERCEL_API_KEY', createModel: (modelName) => vercel(modelName) },
+  openai: { id: 'openai', envKey: 'OPENAI_API_KEY', createModel: (modelName) => openai(modelName) },
+  anthropic: { id: 'anthropic', envKey: 'ANTHROPIC_API_KEY', createModel: (modelName) => anthropic(modelName) },
+  mock: { id: 'mock', envKey: 'AI_MOCK_PROVIDER', createModel: (modelName) => createMockModel(modelName) },
+};
+
+// Declared in priority order: the first available model is the default
+// unless AI_DEFAULT_MODEL names another one.
+export const aiModels: AIModelConfig[] = [
+  {
+    id: 'vercel:v0-1.0-md',
+    label: 'v0 1.0 (Vercel)',
+    provider: 'vercel',
+    modelName: 'v0-1.0-md',
+    supportsImages: true,
+    maxTokens: 4000,
+    costPerInputToken: 0.000003,
+    costPerOutputToken: 0.000015,
+  },
+  {
+    id: 'openai:gpt-4o',
+    label: 'GPT-4o',
+    provider: 'openai',
+    modelName: 'gpt-4o',
+    supportsImages: true,
+    maxTokens: 4000,
+    costPerInputToken: 0.0000025,
+    costPerOutputToken: 0.00001,
+  },
+  {
+    id: 'openai:gpt-4o-mini',
+    label: 'GPT-4o mini',
+    provider: 'openai',
+    modelName: 'gpt-4o-mini',
+    supportsImages: true,
+    maxTokens: 4000,
+    costPerInputToken: 0.00000015,
+    costPerOutputToken: 0.0000006,
+  },
+  {
+    id: 'anthropic:claude-3-5-sonnet',
+    label: 'Claude 3.5 Sonnet',
+    provider: 'anthropic',
+    modelName: 'claude-3-5-sonnet-20241022',
+    supportsImages: true,
+    maxTokens: 4000,
+    costPerInputToken: 0.000003,
+    costPerOutputToken: 0.000015,
+  },
+  {
+    id: 'anthropic:claude-3-5-haiku',
+    label: 'Claude 3.5 Haiku',
+    provider: 'anthropic',
+    modelName: 'claude-3-5-haiku-20241022',
+    supportsImages: false,
+    maxTokens: 4000,
+    costPerInputToken: 0.0000008,
+    costPerOutputToken: 0.000004,
+  },
+  {
+    id: 'mock:canned',
+    label: 'Mock (offline)',
+    provider: 'mock',
+    modelName: 'canned-xml',
+    supportsImages: true,
+    maxTokens: 4000,
+    costPerInputToken: 0,
+    costPerOutputToken: 0,
+  },
+];
+
+export class ModelSelectionError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelSelectionError';
+  }
+}
+
+export function isProviderConfigured(provider: AIProviderId): boolean {
+  return !!process.env[providers[provider].envKey];
+}
+
+export function getAvailableModels(): AIModelConfig[] {
+  return aiModels.filter((model) => isProviderConfigured(model.provider));
+}
+
+export function getDefaultModel(): AIModelConfig {
+  const available = getAvailableModels();
+  const preferred = process.env.AI_DEFAULT_MODEL && available.find((model) => model.id === process.env.AI_DEFAULT_MODEL);
+  const model = preferred || available[0];
+
+  if (!model) {
+    throw new Error('No AI provider API key found. Please set VERCEL_API_KEY, OPENAI_API_KEY or ANTHROPIC_API_KEY environment variable (or AI_MOCK_PROVIDER=true to use the offline mock provider).');
+  }
+  return model;
+}
+
+// Resolves the model requested by the client, falling back to the default when none is given
+export function resolveModel(modelId: string | undefined, options: { requiresImages?: boolean } = {}): AIModelConfig {
+  const model = modelId ? aiModels.find((candidate) => candidate.id === modelId) : getDefaultModel();
+
+  if (!model) {
+    throw new ModelSelectionError(`Unknown model "${modelId}".`);
+  }
+  if (!isProviderConfigured(model.provider)) {
+    throw new ModelSelectionError(`Model "${model.id}" is not available: ${providers[model.provider].envKey} is not set.`);
+  }
+  if (options.requiresImages && !model.supportsImages) {
+    throw new ModelSelectionError(`Model "${model.id}" does not support image input.`);
+  }
+  return model;
+}
+
+export function createLanguageModel(model: AIModelConfig): LanguageModel {
+  return providers[model.provider].createModel(model.modelName);
+}
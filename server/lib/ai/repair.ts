@@ -0,0 +1,63 @@
+import type { Framework } from '@shared/schema';
+import { ComponentParseError, type ParsedComponent, type ParseDiagnostics, parseComponentResponse } from './parser';
+
+export interface RepairOptions {
+  maxRepairs: number;
+  onRepair?: (info: { repair: number; error: ComponentParseError }) => void;
+}
+
+export function getRepairOptions(): RepairOptions {
+  return {
+    maxRepairs: Number(process.env.AI_PARSE_REPAIR_ATTEMPTS ?? 2),
+  };
+}
+
+export function buildRepairPrompt(error: ComponentParseError, isEdit: boolean): string {
+  const wrapper = isEdit ? 'component_edit' : 'component';
+  const problems = [
+    error.message,
+    ...error.diagnostics.missingFields.map((field) => `Missing or empty <${field}> element.`),
+  ];
+
+  return `Your previous response could not be parsed.
+<parse_errors>
+${problems.map((problem) => `- ${problem}`).join('\n')}
+</parse_errors>
+Respond again with ONLY the corrected XML and nothing else, in exactly this format:
+<${wrapper}><name>...</name><description>...</description><code><![CDATA[...]]></code></${wrapper}>`;
+}
+
+// Parses the model output and, when that fails, hands the broken output and
+// the parse error to `repairFn` for a corrected response, up to `maxRepairs` times.
+export async function parseWithRepair(
+  text: string,
+  isEdit: boolean,
+  repairFn: (brokenText: string, repairPrompt: string) => Promise<string>,
+  options: RepairOptions,
+  framework: Framework = 'react',
+): Promise<{ component: ParsedComponent; diagnostics: ParseDiagnostics; repairs: number; text: string }> {
+  let current = text;
+
+  for (let repair = 0; ; repair++) {
+    try {
+      const { component, diagnostics } = parseComponentResponse(current, isEdit, framework);
+      diagnostics.repairAttempts = repair;
+      if (diagnostics.recovered.length > 0) {
+        console.warn("Recovered from malformed AI response:", diagnostics.recovered.join('; '));
+      }
+      return { component, diagnostics, repairs: repair, text: current };
+    } catch (error) {
+      if (!(error instanceof ComponentParseError)) {
+        throw error;
+      }
+      error.diagnostics.repairAttempts = repair;
+      if (repair >= options.maxRepairs) {
+        throw error;
+      }
+
+      console.warn(`[AI] Parse failed (${error.message}), requesting repair ${repair + 1}/${options.maxRepairs}`);
+      options.onRepair?.({ repair: repair + 1, error });
+      current = await repairFn(current, buildRepairPrompt(error, isEdit));
+    }
+  }
+}
@@ -0,0 +1,105 @@
+export type StreamParserEvent =
+  | { type: 'parsed-name'; name: string }
+  | { type: 'parsed-description'; description: string }
+  | { type: 'code-chunk'; chunk: string; done: boolean };
+
+const CDATA_OPEN = '<![CDATA[';
+const CODE_CLOSE = '</code>';
+const CDATA_CODE_CLOSE = ']]></code>';
+
+// Incrementally picks the <name>, <description> and <code> sections out of a
+// streamed XML response so they can be forwarded to the client before the
+// completion finishes. The final component is still produced by the full
+// parser once the stream ends; these events are only for live feedback.
+export class ComponentStreamParser {
+  private buffer = '';
+  private nameEmitted = false;
+  private descriptionEmitted = false;
+  private codeStart = -1;
+  private codeEmittedLength = 0;
+  private codeDone = false;
+
+  get text(): string {
+    return this.buffer;
+  }
+
+  push(delta: string): StreamParserEvent[] {
+    this.buffer += delta;
+    const events: StreamParserEvent[] = [];
+
+    if (!this.nameEmitted) {
+      const name = this.extractTag('name');
+      if (name !== undefined) {
+        this.nameEmitted = true;
+        events.push({ type: 'parsed-name', name });
+      }
+    }
+
+    if (!this.descriptionEmitted) {
+      const description = this.extractTag('description');
+      if (description !== undefined) {
+        this.descriptionEmitted = true;
+        events.push({ type: 'parsed-description', description });
+      }
+    }
+
+    const codeEvent = this.extractCodeChunk();
+    if (codeEvent) {
+      events.push(codeEvent);
+    }
+
+    return events;
+  }
+
+  private extractTag(tag: string): string | undefined {
+    const match = this.buffer.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+    return match ? match[1].trim() : undefined;
+  }
+
+  private extractCodeChunk(): StreamParserEvent | undefined {
+    if (this.codeDone) {
+      return undefined;
+    }
+
+    if (this.codeStart === -1) {
+      const openIndex = this.buffer.indexOf('<code>');
+      if (openIndex === -1) {
+        return undefined;
+      }
+      this.codeStart = openIndex + '<code>'.length;
+    }
+
+    let body = this.buffer.slice(this.codeStart);
+
+    // Wait until we know whether the code is wrapped in CDATA
+    const trimmedStart = body.trimStart();
+    if (trimmedStart.length < CDATA_OPEN.length && CDATA_OPEN.startsWith(trimmedStart)) {
+      return undefined;
+    }
+    if (trimmedStart.startsWith(CDATA_OPEN)) {
+      body = trimmedStart.slice(CDATA_OPEN.length);
+    }
+
+    const closeIndex = body.indexOf(CODE_CLOSE);
+    if (closeIndex !== -1) {
+      let code = body.slice(0, closeIndex);
+      if (code.endsWith(']]>')) {
+        code = code.slice(0, -3);
+      }
+      this.codeDone = true;
+      const chunk = code.slice(this.codeEmittedLength);
+      this.codeEmittedLength = code.length;
+      return { type: 'code-chunk', chunk, done: true };
+    }
+
+    // Hold back enough characters that a partially streamed closing tag is never emitted as code
+    const safeLength = Math.max(this.codeEmittedLength, body.length - CDATA_CODE_CLOSE.length);
+    if (safeLength <= this.codeEmittedLength) {
+      return undefined;
+    }
+
+    const chunk = body.slice(this.codeEmittedLength, safeLength);
+    this.codeEmittedLength = safeLength;
+    return { type: 'code-chunk', chunk, done: false };
+  }
+}
@@ -0,0 +1,297 @@
+import ts from 'typescript';
+import type { Framework } from '@shared/schema';
+import type { ParsedComponent } from './parser';
+
+export type ValidationIssueCode =
+  | 'syntax'
+  | 'structure'
+  | 'component_count'
+  | 'missing_render'
+  | 'multiple_render'
+  | 'import'
+  | 'export'
+  | 'require'
+  | 'disallowed_global';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ValidationResult {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  // True when the model corrected errors found in its first answer
+  fixed: boolean;
+}
+
+export interface ValidationOptions {
+  maxFixes: number;
+  onFix?: (info: { fix: number; errors: ValidationIssue[] }) => void;
+}
+
+// The preview only provides React and its hooks, so anything that reaches
+// the network or evaluates strings is rejected
+const DISALLOWED_GLOBALS = new Set([
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'EventSource',
+  'eval',
+  'Function',
+  'importScripts',
+]);
+
+// Modules Vue and Svelte components may import from; the preview resolves
+// nothing else. React code and HTML scripts may not import at all.
+const ALLOWED_IMPORTS: Partial<Record<Framework, { pattern: RegExp; label: string }>> = {
+  vue: { pattern: /^vue$/, label: '"vue"' },
+  svelte: { pattern: /^svelte(\/[\w-]+)*$/, label: '"svelte" and its submodules' },
+};
+
+const SCRIPT_BLOCK = /<script(\s[^>]*)?>([\s\S]*?)<\/script>/gi;
+const STYLE_BLOCK = /<style(\s[^>]*)?>[\s\S]*?<\/style>/gi;
+
+export function getValidationOptions(): ValidationOptions {
+  return {
+    maxFixes: Number(process.env.AI_VALIDATION_FIX_ATTEMPTS ?? 1),
+  };
+}
+
+// `lineOffset` maps positions inside an extracted <script> block back to the full file
+function position(sourceFile: ts.SourceFile, node: ts.Node, lineOffset = 0): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return { line: line + 1 + lineOffset, column: character + 1 };
+}
+
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+function isFunctionLike(node: ts.Expression | undefined): boolean {
+  if (!node) return false;
+  if (ts.isParenthesizedExpression(node)) return isFunctionLike(node.expression);
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) return true;
+  // React.memo(...) / forwardRef(...) wrappers
+  return ts.isCallExpression(node) && node.arguments.some((argument) => isFunctionLike(argument));
+}
+
+export function getTopLevelComponents(sourceFile: ts.SourceFile): string[] {
+  const names: string[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name && isComponentName(statement.name.text)) {
+      names.push(statement.name.text);
+    } else if (ts.isClassDeclaration(statement) && statement.name && isComponentName(statement.name.text)) {
+      names.push(statement.name.text);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && isComponentName(declaration.name.text) && isFunctionLike(declaration.initializer)) {
+          names.push(declaration.name.text);
+        }
+      }
+    }
+  }
+
+  return names;
+}
+
+export function isRenderCall(statement: ts.Statement): boolean {
+  return ts.isExpressionStatement(statement)
+    && ts.isCallExpression(statement.expression)
+    && ts.isIdentifier(statement.expression.expression)
+    && statement.expression.expression.text === 'render';
+}
+
+// `foo.fetch` and `{ fetch: 1 }` name properties, not the global
+function isPropertyName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (ts.isPropertyAccessExpression(parent) && parent.name === node)
+    || (ts.isPropertyAssignment(parent) && parent.name === node)
+    || (ts.isMethodDeclaration(parent) && parent.name === node)
+    || (ts.isJsxAttribute(parent) && parent.name === node);
+}
+
+function isGlobalObject(node: ts.Expression): boolean {
+  return ts.isIdentifier(node) && ['window', 'globalThis', 'self'].includes(node.text);
+}
+
+function getSyntaxErrors(code: string, fileName: string, lineOffset = 0): ValidationIssue[] {
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.React, target: ts.ScriptTarget.ES2020, allowJs: true },
+  });
+
+  return diagnostics
+    .filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map((diagnostic) => {
+      const location = diagnostic.file && diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        : undefined;
+      return {
+        code: 'syntax' as const,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        line: location ? location.line + 1 + lineOffset : undefined,
+        column: location ? location.character + 1 : undefined,
+      };
+    });
+}
+
+function describeImportError(framework: Framework): string {
+  const allowed = ALLOWED_IMPORTS[framework];
+  if (allowed) {
+    return `Only imports from ${allowed.label} are allowed; the component must be self-contained.`;
+  }
+  return framework === 'react'
+    ? 'Import statements are not allowed; React and its hooks are provided globally.'
+    : 'Import statements are not allowed; the snippet must be self-contained.';
+}
+
+// Imports, require() and globals that reach the network or evaluate strings
+function checkScript(sourceFile: ts.SourceFile, framework: Framework, errors: ValidationIssue[], warnings: ValidationIssue[], lineOffset = 0) {
+  const at = (node: ts.Node) => position(sourceFile, node, lineOffset);
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node)) {
+      const specifier = ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier) ? node.moduleSpecifier.text : '';
+      if (!ALLOWED_IMPORTS[framework]?.pattern.test(specifier)) {
+        errors.push({ code: 'import', message: describeImportError(framework), ...at(node) });
+      }
+    } else if (framework === 'react' && (ts.isExportAssignment(node) || ts.isExportDeclaration(node))) {
+      warnings.push({ code: 'export', message: 'Export statements are ignored by the preview.', ...at(node) });
+    } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      errors.push({ code: 'import', message: 'Dynamic import() is not allowed.', ...at(node) });
+    } else if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+      errors.push({ code: 'require', message: 'require() is not allowed; the component must be self-contained.', ...at(node) });
+    } else if (ts.isIdentifier(node) && DISALLOWED_GLOBALS.has(node.text) && !isPropertyName(node)) {
+      errors.push({ code: 'disallowed_global', message: `Use of "${node.text}" is not allowed in generated components.`, ...at(node) });
+    } else if (ts.isPropertyAccessExpression(node) && isGlobalObject(node.expression) && DISALLOWED_GLOBALS.has(node.name.text)) {
+      errors.push({ code: 'disallowed_global', message: `Use of "${node.name.text}" is not allowed in generated components.`, ...at(node) });
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+}
+
+export function validateComponentCode(code: string): Omit<ValidationResult, 'fixed'> {
+  // Syntax errors from the compiler's JSX transform
+  const errors: ValidationIssue[] = getSyntaxErrors(code, 'component.jsx');
+  const warnings: ValidationIssue[] = [];
+
+  const sourceFile = ts.createSourceFile('component.jsx', code, ts.ScriptTarget.ES2020, true, ts.ScriptKind.JSX);
+
+  const components = getTopLevelComponents(sourceFile);
+  if (components.length === 0) {
+    errors.push({ code: 'component_count', message: 'No top-level component found. Define a single function component with a capitalized name.' });
+  } else if (components.length > 1) {
+    errors.push({
+      code: 'component_count',
+      message: `Expected exactly one top-level component but found ${components.length} (${components.join(', ')}). Nest helper components inside the main component.`,
+    });
+  }
+
+  const renderCalls = sourceFile.statements.filter(isRenderCall);
+  if (renderCalls.length === 0) {
+    errors.push({ code: 'missing_render', message: 'Missing top-level render(...) call, e.g. render(<MyComponent />);' });
+  } else if (renderCalls.length > 1) {
+    warnings.push({ code: 'multiple_render', message: 'Only the last render(...) call is shown in the preview.', ...position(sourceFile, renderCalls[1]) });
+  }
+
+  checkScript(sourceFile, 'react', errors, warnings);
+
+  for (const statement of sourceFile.statements) {
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+    if (modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword)) {
+      warnings.push({ code: 'export', message: 'Export statements are ignored by the preview.', ...position(sourceFile, statement) });
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// Vue, Svelte and HTML components are checked block by block: the markup
+// structure each preview runtime expects, then every inline <script> with the
+// same rules as React code (imports limited to the framework itself).
+export function validateTemplateCode(code: string, framework: Exclude<Framework, 'react'>): Omit<ValidationResult, 'fixed'> {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const markup = code.replace(SCRIPT_BLOCK, '').replace(STYLE_BLOCK, '');
+
+  if (framework === 'vue' && !/<template[\s>]/.test(markup)) {
+    errors.push({ code: 'structure', message: 'Missing <template> block. Return a single Vue single-file component.' });
+  } else if (!/<[a-z][\w-]*[\s/>]/i.test(markup)) {
+    errors.push({ code: 'structure', message: 'No markup found outside the <script> and <style> blocks.' });
+  }
+  if (framework === 'html' && /<!DOCTYPE|<\/?(html|head|body)[\s>]/i.test(code)) {
+    warnings.push({ code: 'structure', message: 'Document tags (<html>, <head>, <body>) are dropped by the preview; return only the body markup.' });
+  }
+
+  for (const match of Array.from(code.matchAll(SCRIPT_BLOCK))) {
+    const attributes = match[1] ?? '';
+    const contentStart = (match.index ?? 0) + match[0].indexOf('>') + 1;
+    const lineOffset = code.slice(0, contentStart).split('\n').length - 1;
+
+    if (/\bsrc\s*=/.test(attributes)) {
+      errors.push({ code: 'import', message: 'External scripts are not allowed; the component must be self-contained.', line: lineOffset + 1 });
+      continue;
+    }
+    if (/\blang\s*=\s*["']ts["']/.test(attributes)) {
+      errors.push({ code: 'syntax', message: 'TypeScript (lang="ts") is not supported by the preview; use plain JavaScript.', line: lineOffset + 1 });
+      continue;
+    }
+
+    const script = match[2];
+    errors.push(...getSyntaxErrors(script, 'component.js', lineOffset));
+    const sourceFile = ts.createSourceFile('component.js', script, ts.ScriptTarget.ES2020, true, ts.ScriptKind.JS);
+    checkScript(sourceFile, framework, errors, warnings, lineOffset);
+  }
+
+  return { errors, warnings };
+}
+
+export function validateFrameworkCode(code: string, framework: Framework): Omit<ValidationResult, 'fixed'> {
+  return framework === 'react' ? validateComponentCode(code) : validateTemplateCode(code, framework);
+}
+
+export function buildValidationFixPrompt(errors: ValidationIssue[], isEdit: boolean): string {
+  const wrapper = isEdit ? 'component_edit' : 'component';
+  const lines = errors.map((error) => `- ${error.line ? `Line ${error.line}: ` : ''}${error.message}`);
+
+  return `The component code you returned failed validation:
+<validation_errors>
+${lines.join('\n')}
+</validation_errors>
+Fix these problems and respond again with ONLY the corrected XML, in exactly this format:
+<${wrapper}><name>...</name><description>...</description><code><![CDATA[...]]></code></${wrapper}>`;
+}
+
+// Validates the parsed component and, while it has errors, asks the model
+// for a corrected version up to `maxFixes` times. A component that still has
+// errors afterwards is returned as-is with its remaining errors.
+export async function validateWithFix(
+  initial: { component: ParsedComponent; text: string },
+  isEdit: boolean,
+  fixFn: (previousText: string, fixPrompt: string) => Promise<{ component: ParsedComponent; text: string }>,
+  options: ValidationOptions,
+  framework: Framework = 'react',
+): Promise<{ component: ParsedComponent; validation: ValidationResult }> {
+  let current = initial;
+  let result = validateFrameworkCode(current.component.code, framework);
+  const hadErrors = result.errors.length > 0;
+
+  for (let fix = 1; fix <= options.maxFixes && result.errors.length > 0; fix++) {
+    console.warn(`[AI] Generated code failed validation (${result.errors.length} errors), requesting fix ${fix}/${options.maxFixes}`);
+    options.onFix?.({ fix, errors: result.errors });
+    current = await fixFn(current.text, buildValidationFixPrompt(result.errors, isEdit));
+    result = validateFrameworkCode(current.component.code, framework);
+  }
+
+  return {
+    component: current.component,
+    validation: { ...result, fixed: hadErrors && result.errors.length === 0 },
+  };
+}
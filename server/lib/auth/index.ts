@@ -0,0 +1,87 @@
+import type { NextFunction, Request, Response } from 'express';
+import { type AuthUser, createFirebaseVerifier, createLocalJwtVerifier, type TokenVerifier } from './verifiers';
+
+export { type AuthUser, type TokenVerifier, createFirebaseVerifier, createLocalJwtVerifier, InvalidTokenError, signLocalJwt } from './verifiers';
+
+declare global {
+  namespace Express {
+    interface User extends AuthUser {}
+
+    interface Request {
+      // Set by requireAuth from the verified ID token
+      user?: User | undefined;
+    }
+  }
+}
+
+let verifier: TokenVerifier | undefined;
+
+// AUTH_JWT_SECRET switches to locally signed tokens, e.g. for tests and
+// offline development. Production always verifies Firebase ID tokens.
+function createDefaultVerifier(): TokenVerifier {
+  const secret = process.env.AUTH_JWT_SECRET;
+  if (secret && process.env.NODE_ENV !== 'production') {
+    console.warn('[Auth] AUTH_JWT_SECRET is set: accepting locally signed tokens instead of Firebase ID tokens');
+    return createLocalJwtVerifier(secret);
+  }
+  return createFirebaseVerifier();
+}
+
+export function getTokenVerifier(): TokenVerifier {
+  verifier ??= createDefaultVerifier();
+  return verifier;
+}
+
+// Replaces the verifier used by requireAuth; pass undefined to restore the default
+export function setTokenVerifier(next: TokenVerifier | undefined) {
+  verifier = next;
+}
+
+function getBearerToken(req: Request): string | undefined {
+  const [scheme, token] = req.headers.authorization?.split(' ') ?? [];
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+}
+
+// Verifies the `Authorization: Bearer <idToken>` header and attaches the
+// token's user as req.user. Routes must use req.user, never client-supplied IDs.
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+
+  try {
+    req.user = await getTokenVerifier().verifyIdToken(token);
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    if (status === 401) {
+      return res.status(401).json({ error: "Invalid or expired token" });
+    }
+    console.error("Error verifying ID token:", error);
+    return res.status(500).json({ error: "Failed to verify authentication" });
+  }
+
+  next();
+}
+
+// The authenticated user's uid; only valid behind requireAuth
+export function getUserId(req: Request): string {
+  if (!req.user) {
+    throw new Error('getUserId() called on a route without requireAuth');
+  }
+  return req.user.uid;
+}
+
+// Firebase uids listed in ADMIN_USER_IDS (comma separated)
+export function isAdmin(userId: string): boolean {
+  const adminIds = (process.env.ADMIN_USER_IDS ?? '').split(',').map((id) => id.trim()).filter(Boolean);
+  return adminIds.includes(userId);
+}
+
+// Only lets admins through; use after requireAuth
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!isAdmin(getUserId(req))) {
+    return res.status(403).json({ error: "Forbidden" });
+  }
+  next();
+}
@@ -0,0 +1,117 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { App } from 'firebase-admin/app';
+
+export interface AuthUser {
+  uid: string;
+  email?: string;
+  emailVerified?: boolean; // Whether the identity provider confirmed the user owns the email
+}
+
+// Turns a bearer token into the user it was issued to, or throws if the
+// token is malformed, expired or not signed by the expected issuer
+export interface TokenVerifier {
+  verifyIdToken(token: string): Promise<AuthUser>;
+}
+
+export class InvalidTokenError extends Error {
+  status = 401;
+
+  constructor(message = 'Invalid or expired token') {
+    super(message);
+    this.name = 'InvalidTokenError';
+  }
+}
+
+// Verifies Firebase ID tokens. Only the project id is needed to check a
+// token's signature; a service account is used when one is configured.
+export function createFirebaseVerifier(): TokenVerifier {
+  let app: Promise<App> | undefined;
+
+  const getApp = () => {
+    app ??= import('firebase-admin/app').then(({ cert, getApps, initializeApp }) => {
+      const existing = getApps()[0];
+      if (existing) {
+        return existing;
+      }
+
+      const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+      return initializeApp({
+        projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID,
+        ...(serviceAccount && { credential: cert(JSON.parse(serviceAccount)) }),
+      });
+    });
+    return app;
+  };
+
+  return {
+    async verifyIdToken(token) {
+      const { getAuth } = await import('firebase-admin/auth');
+      const auth = getAuth(await getApp());
+
+      try {
+        const decoded = await auth.verifyIdToken(token);
+        return { uid: decoded.uid, email: decoded.email, emailVerified: decoded.email_verified === true };
+      } catch (error) {
+        console.warn('[Auth] Rejected Firebase ID token:', error instanceof Error ? error.message : error);
+        throw new InvalidTokenError();
+      }
+    },
+  };
+}
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+function hmac(secret: string, data: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+// HS256 token in the shape of a Firebase ID token (`sub` is the uid), so
+// tests and local development can authenticate without a Firebase project
+export function signLocalJwt(secret: string, user: AuthUser, expiresInSeconds = 3600): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ sub: user.uid, email: user.email, email_verified: user.emailVerified, iat: now, exp: now + expiresInSeconds }));
+  return `${header}.${payload}.${base64url(hmac(secret, `${header}.${payload}`))}`;
+}
+
+export function createLocalJwtVerifier(secret: string): TokenVerifier {
+  return {
+    async verifyIdToken(token) {
+      const [header, payload, signature, ...rest] = token.split('.');
+      if (!header || !payload || !signature || rest.length > 0) {
+        throw new InvalidTokenError();
+      }
+
+      const expected = hmac(secret, `${header}.${payload}`);
+      const actual = Buffer.from(signature, 'base64url');
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        throw new InvalidTokenError();
+      }
+
+      let claims: { sub?: unknown; email?: unknown; email_verified?: unknown; exp?: unknown };
+      try {
+        const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+        if (alg !== 'HS256') {
+          throw new InvalidTokenError();
+        }
+        claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      } catch {
+        throw new InvalidTokenError();
+      }
+
+      if (typeof claims.sub !== 'string' || claims.sub === '') {
+        throw new InvalidTokenError();
+      }
+      // Tokens without an expiry would stay valid forever
+      if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+        throw new InvalidTokenError();
+      }
+
+      return {
+        uid: claims.sub,
+        email: typeof claims.email === 'string' ? claims.email : undefined,
+        emailVerified: claims.email_verified === true,
+      };
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import type Stripe from 'stripe';
+import { PLAN_ENTITLEMENTS, type PlanEntitlements, type PlanId } from '../entitlements/plans';
+
+export const BILLING_INTERVALS = ['monthly', 'annual'] as const;
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+
+interface PlanPrice {
+  amount: number; // USD cents per interval; must match the Stripe price
+  priceIdEnv: string; // Environment variable holding the Stripe price id
+}
+
+// Who subscribes to a plan: a user for themselves, or a workspace owner for
+// the workspace (billed to the workspace's own Stripe customer)
+export type PlanBilledTo = 'user' | 'workspace';
+
+interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  description: string;
+  features: string[];
+  highlighted?: boolean;
+  billedTo: PlanBilledTo;
+  prices: Record<BillingInterval, PlanPrice> | null; // null for the free plan
+}
+
+// Every plan that can be shown on the pricing page or bought. Features are
+// the selling points besides the limits, which are served from
+// PLAN_ENTITLEMENTS so they can't drift from what is enforced.
+export const PLAN_CATALOG: PlanDefinition[] = [
+  {
+    id: 'free',
+    name: 'Free',
+    description: 'Try generating components on your own.',
+    features: ['Export as .tsx', 'Community support'],
+    billedTo: 'user',
+    prices: null,
+  },
+  {
+    id: 'pro',
+    name: 'Pro',
+    description: 'For individuals building with generated components every day.',
+    features: ['Vite project and npm package exports', 'Priority support'],
+    highlighted: true,
+    billedTo: 'user',
+    prices: {
+      monthly: { amount: 2900, priceIdEnv: 'STRIPE_PRICE_ID_PRO' },
+      annual: { amount: 29000, priceIdEnv: 'STRIPE_PRICE_ID_PRO_ANNUAL' },
+    },
+  },
+  {
+    id: 'team',
+    name: 'Team',
+    description: 'For teams that generate and ship components together.',
+    features: ['Everything in Pro', 'Shared workspace libraries', 'Team limits for every owner and editor', 'Priority support'],
+    billedTo: 'workspace',
+    prices: {
+      monthly: { amount: 7900, priceIdEnv: 'STRIPE_PRICE_ID_TEAM' },
+      annual: { amount: 79000, priceIdEnv: 'STRIPE_PRICE_ID_TEAM_ANNUAL' },
+    },
+  },
+];
+
+// A plan as served by GET /api/plans. Price ids stay on the server; prices
+// whose id isn't configured are left out, so they can't be offered.
+export interface PublicPlan {
+  id: PlanId;
+  name: string;
+  description: string;
+  features: string[];
+  highlighted: boolean;
+  billedTo: PlanBilledTo;
+  limits: PlanEntitlements;
+  prices: Partial<Record<BillingInterval, { amount: number; currency: 'usd' }>>;
+}
+
+export function isBillingInterval(value: unknown): value is BillingInterval {
+  return typeof value === 'string' && (BILLING_INTERVALS as readonly string[]).includes(value);
+}
+
+export function getPlan(id: unknown): PlanDefinition | undefined {
+  return PLAN_CATALOG.find((plan) => plan.id === id);
+}
+
+export function getPriceId(plan: PlanDefinition, interval: BillingInterval): string | undefined {
+  const price = plan.prices?.[interval];
+  return price ? process.env[price.priceIdEnv] || undefined : undefined;
+}
+
+export function getPublicPlans(): PublicPlan[] {
+  return PLAN_CATALOG.map((plan) => {
+    const prices: PublicPlan['prices'] = {};
+    BILLING_INTERVALS.forEach((interval) => {
+      const price = plan.prices?.[interval];
+      if (price && getPriceId(plan, interval)) {
+        prices[interval] = { amount: price.amount, currency: 'usd' };
+      }
+    });
+
+    return {
+      id: plan.id,
+      name: plan.name,
+      description: plan.description,
+      features: plan.features,
+      highlighted: plan.highlighted ?? false,
+      billedTo: plan.billedTo,
+      limits: PLAN_ENTITLEMENTS[plan.id],
+      prices,
+    };
+  });
+}
+
+// The paid plan a subscription is for, found from its price. Subscriptions
+// on a price that is no longer configured fall back to the plan recorded in
+// their metadata at checkout, and then to Pro (the only plan there used to be).
+export function getSubscriptionPlanId(subscription: Stripe.Subscription): Exclude<PlanId, 'free'> {
+  const priceIds = subscription.items?.data.map((item) => item.price.id) ?? [];
+  for (const plan of PLAN_CATALOG) {
+    if (plan.id !== 'free' && BILLING_INTERVALS.some((interval) => priceIds.includes(getPriceId(plan, interval) ?? ''))) {
+      return plan.id;
+    }
+  }
+
+  const metadataPlan = getPlan(subscription.metadata?.plan);
+  return metadataPlan && metadataPlan.id !== 'free' ? metadataPlan.id : 'pro';
+}
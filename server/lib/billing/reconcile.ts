@@ -0,0 +1,86 @@
+import type Stripe from 'stripe';
+import type { User, Workspace } from '@shared/schema';
+import type { IStorage } from '../../storage/index';
+import { getSubscriptionUpdate, isLiveSubscription, NO_SUBSCRIPTION, type SubscriptionUpdate } from './subscriptions';
+
+export interface ReconcileContext {
+  stripe: { subscriptions: Pick<Stripe.SubscriptionsResource, 'list'> };
+  storage: Pick<IStorage, 'getUsersWithStripeCustomer' | 'updateUser' | 'getWorkspacesWithStripeCustomer' | 'updateWorkspace'>;
+}
+
+export interface ReconcileResult {
+  checked: number;
+  updated: string[]; // Firebase ids of users and "workspace-<id>" of workspaces whose fields changed
+  failed: string[];
+}
+
+// A user or workspace with a Stripe customer
+interface BillingAccount {
+  label: string;
+  current: User | Workspace;
+  update: (changes: Partial<SubscriptionUpdate>) => Promise<unknown>;
+}
+
+// The subscription that decides the plan: a live one if there is one,
+// otherwise the most recent
+function pickSubscription(subscriptions: Stripe.Subscription[]): Stripe.Subscription | undefined {
+  const byNewest = [...subscriptions].sort((a, b) => b.created - a.created);
+  return byNewest.find(isLiveSubscription) ?? byNewest[0];
+}
+
+function getChanges(current: User | Workspace, update: SubscriptionUpdate): Partial<SubscriptionUpdate> {
+  const changes: Partial<SubscriptionUpdate> = {};
+  for (const [field, value] of Object.entries(update) as [keyof SubscriptionUpdate, unknown][]) {
+    const currentValue: unknown = current[field];
+    const same = currentValue instanceof Date && value instanceof Date
+      ? currentValue.getTime() === value.getTime()
+      : (currentValue ?? null) === (value ?? null);
+    if (!same) {
+      Object.assign(changes, { [field]: value });
+    }
+  }
+  return changes;
+}
+
+// Re-syncs every user and workspace with a Stripe customer from their
+// subscriptions in Stripe, fixing drift from missed or failed webhooks.
+// Accounts whose customer has no subscription end up on the free plan.
+export async function reconcileSubscriptions({ stripe, storage }: ReconcileContext, { dryRun = false } = {}): Promise<ReconcileResult> {
+  const users = await storage.getUsersWithStripeCustomer();
+  const workspaces = await storage.getWorkspacesWithStripeCustomer();
+  const accounts: BillingAccount[] = [
+    ...users.map(user => ({
+      label: user.firebaseId,
+      current: user,
+      update: (changes: Partial<SubscriptionUpdate>) => storage.updateUser(user.firebaseId, changes),
+    })),
+    ...workspaces.map(workspace => ({
+      label: `workspace-${workspace.id}`,
+      current: workspace,
+      update: (changes: Partial<SubscriptionUpdate>) => storage.updateWorkspace(workspace.id, changes),
+    })),
+  ];
+  const result: ReconcileResult = { checked: 0, updated: [], failed: [] };
+
+  for (const { label, current, update } of accounts) {
+    try {
+      const { data } = await stripe.subscriptions.list({ customer: current.stripeCustomerId!, status: 'all', limit: 20 });
+      const subscription = pickSubscription(data);
+      const changes = getChanges(current, subscription ? getSubscriptionUpdate(subscription, current) : NO_SUBSCRIPTION);
+      result.checked++;
+
+      if (Object.keys(changes).length > 0) {
+        console.log(`[Reconcile] ${dryRun ? 'Would update' : 'Updating'} ${label}:`, changes);
+        if (!dryRun) {
+          await update(changes);
+        }
+        result.updated.push(label);
+      }
+    } catch (error) {
+      console.error(`[Reconcile] Failed to reconcile ${label}:`, error);
+      result.failed.push(label);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,120 @@
+import type Stripe from 'stripe';
+import type { User, Workspace } from '@shared/schema';
+import { summarizeSubscription } from '@shared/subscriptions';
+import type { IStorage, UpdateUserData } from '../../storage/index';
+import { getSubscriptionPlanId } from './catalog';
+
+export interface SubscriptionSyncContext {
+  stripe: { subscriptions: Pick<Stripe.SubscriptionsResource, 'retrieve'> };
+  storage: Pick<
+    IStorage,
+    'getUserByFirebaseId' | 'getUserByStripeCustomerId' | 'updateUser' | 'getWorkspaceById' | 'getWorkspaceByStripeCustomerId' | 'updateWorkspace'
+  >;
+}
+
+// The fields a subscription is mirrored into, on a user or a workspace
+export type SubscriptionUpdate = Required<Pick<
+  UpdateUserData,
+  'subscriptionType' | 'stripeSubscriptionId' | 'subscriptionStatus' | 'currentPeriodEnd' | 'cancelAtPeriodEnd' | 'trialEnd' | 'pastDueSince'
+>>;
+
+// Statuses that (still) pay for a plan; past_due only during the grace period
+const LIVE_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+
+export function isLiveSubscription(subscription: Stripe.Subscription): boolean {
+  return LIVE_STATUSES.includes(subscription.status);
+}
+
+function fromUnixTime(seconds: number | null): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+function getCustomerId(subscription: Stripe.Subscription): string {
+  return typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+}
+
+// The user fields mirroring a subscription. The grace period of a past_due
+// subscription starts the first time it is seen past_due.
+export function getSubscriptionUpdate(
+  subscription: Stripe.Subscription,
+  user: Pick<User, 'subscriptionStatus' | 'pastDueSince'>,
+  now = new Date(),
+): SubscriptionUpdate {
+  const fields = {
+    stripeSubscriptionId: subscription.id,
+    subscriptionStatus: subscription.status,
+    currentPeriodEnd: fromUnixTime(subscription.current_period_end),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    trialEnd: fromUnixTime(subscription.trial_end),
+    pastDueSince: subscription.status === 'past_due'
+      ? (user.subscriptionStatus === 'past_due' && user.pastDueSince) || now
+      : null,
+  };
+  const { plan } = summarizeSubscription({ ...fields, subscriptionType: isLiveSubscription(subscription) ? getSubscriptionPlanId(subscription) : 'free' }, now);
+
+  return { ...fields, subscriptionType: plan };
+}
+
+// Fields of a user who has no subscription at all
+export const NO_SUBSCRIPTION: SubscriptionUpdate = {
+  subscriptionType: 'free',
+  stripeSubscriptionId: null,
+  subscriptionStatus: null,
+  currentPeriodEnd: null,
+  cancelAtPeriodEnd: false,
+  trialEnd: null,
+  pastDueSince: null,
+};
+
+// Who a subscription pays for: a workspace (the Team plan is billed to
+// workspaces) or a user
+interface BillingAccount {
+  current: Pick<User | Workspace, 'stripeSubscriptionId' | 'subscriptionStatus' | 'pastDueSince'>;
+  update: (data: SubscriptionUpdate) => Promise<unknown>;
+}
+
+async function findBillingAccount(
+  subscription: Stripe.Subscription,
+  { storage }: SubscriptionSyncContext,
+  firebaseId?: string,
+): Promise<BillingAccount | undefined> {
+  const forWorkspace = (workspace: Workspace | undefined) =>
+    workspace && { current: workspace, update: (data: SubscriptionUpdate) => storage.updateWorkspace(workspace.id, data) };
+  const forUser = (user: User | undefined) =>
+    user && { current: user, update: (data: SubscriptionUpdate) => storage.updateUser(user.firebaseId, data) };
+
+  // Workspace subscriptions also carry the id of the owner who checked out
+  const workspaceId = Number(subscription.metadata.workspaceId);
+  if (workspaceId) {
+    return forWorkspace(await storage.getWorkspaceById(workspaceId));
+  }
+  const ownerId = firebaseId ?? subscription.metadata.firebaseId;
+  if (ownerId) {
+    return forUser(await storage.getUserByFirebaseId(ownerId));
+  }
+
+  const customerId = getCustomerId(subscription);
+  return forUser(await storage.getUserByStripeCustomerId(customerId))
+    ?? forWorkspace(await storage.getWorkspaceByStripeCustomerId(customerId));
+}
+
+// Copies a subscription's current state from Stripe onto its user or
+// workspace. The subscription is fetched again rather than taken from the
+// event, so events delivered out of order can't leave a stale state behind.
+export async function syncSubscription(subscriptionId: string, context: SubscriptionSyncContext, firebaseId?: string) {
+  const subscription = await context.stripe.subscriptions.retrieve(subscriptionId);
+  const account = await findBillingAccount(subscription, context, firebaseId);
+  if (!account) {
+    console.warn('[Billing] No user or workspace for subscription:', subscription.id);
+    return;
+  }
+
+  // An old subscription ending must not downgrade an account that has a newer one
+  const { current } = account;
+  if (current.stripeSubscriptionId && current.stripeSubscriptionId !== subscription.id && !isLiveSubscription(subscription)) {
+    console.log(`[Billing] Ignoring ${subscription.status} subscription ${subscription.id}, account has ${current.stripeSubscriptionId}`);
+    return;
+  }
+
+  await account.update(getSubscriptionUpdate(subscription, current));
+}
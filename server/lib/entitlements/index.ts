@@ -0,0 +1,233 @@
+import type { NextFunction, Request, Response } from 'express';
+import type { UsageMetric } from '@shared/schema';
+import { storage } from '../../storage/index';
+import { getUserId } from '../auth';
+import { isExportFormat } from '../export';
+import { canEditComponents } from '../workspaces';
+import {
+  DAILY_LIMITS,
+  getHighestPlan,
+  getPeriodEnd,
+  getPlanId,
+  getUsagePeriod,
+  MAX_VARIANTS,
+  PLAN_ENTITLEMENTS,
+  type PlanEntitlements,
+  PlanFeatureError,
+  type PlanId,
+  QuotaExceededError,
+} from './plans';
+
+export { MAX_VARIANTS, PLAN_ENTITLEMENTS, type PlanEntitlements, PlanFeatureError, type PlanId, QuotaExceededError } from './plans';
+
+interface UserPlan {
+  plan: PlanId;
+  entitlements: PlanEntitlements;
+}
+
+// The user's own plan, or a larger one paid for by a workspace they own or edit
+export async function getUserPlan(userId: string): Promise<UserPlan> {
+  const [user, workspaces] = await Promise.all([
+    storage.getUserByFirebaseId(userId),
+    storage.getWorkspacesByUserId(userId),
+  ]);
+  const plan = getHighestPlan([
+    getPlanId(user),
+    ...workspaces.filter(workspace => canEditComponents(workspace.role)).map(getPlanId),
+  ]);
+  return { plan, entitlements: PLAN_ENTITLEMENTS[plan] };
+}
+
+type EntitlementCheck = (req: Request, res: Response, userId: string, userPlan: UserPlan) => Promise<void>;
+
+// Runs a check behind requireAuth. Exhausted quotas answer 402 and features
+// missing from the plan 403, both with a JSON body the client can act on.
+function enforce(check: EntitlementCheck) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = getUserId(req);
+      await check(req, res, userId, await getUserPlan(userId));
+    } catch (error) {
+      if (error instanceof QuotaExceededError || error instanceof PlanFeatureError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      console.error("Error checking plan limits:", error);
+      return res.status(500).json({ error: "Failed to check plan limits" });
+    }
+
+    next();
+  };
+}
+
+// Adds the request's usage to today's counters, failing without counting
+// anything if one of them would go over the plan's limit
+async function reserveUsage(res: Response, userId: string, { plan, entitlements }: UserPlan, usage: [UsageMetric, number][]) {
+  const period = getUsagePeriod();
+  const reserved: [UsageMetric, number][] = [];
+  const release = async () => {
+    const released = reserved.splice(0);
+    await Promise.all(released.map(([metric, amount]) => storage.decrementUsage(userId, metric, period, amount)));
+  };
+  const releasePart = async (metric: UsageMetric, amount: number) => {
+    const entry = reserved.find(([reservedMetric]) => reservedMetric === metric);
+    const released = Math.min(amount, entry?.[1] ?? 0);
+    if (entry && released > 0) {
+      entry[1] -= released;
+      await storage.decrementUsage(userId, metric, period, released);
+    }
+  };
+
+  for (const [metric, amount] of usage) {
+    const limit = entitlements[DAILY_LIMITS[metric]];
+    const count = await storage.incrementUsage(userId, metric, period, amount, limit);
+    if (count === undefined) {
+      await release();
+      const counters = await storage.getUsageCounters(userId, period);
+      const used = counters.find(counter => counter.metric === metric)?.count ?? 0;
+      throw new QuotaExceededError(plan, metric, limit ?? 0, used, getPeriodEnd());
+    }
+    reserved.push([metric, amount]);
+  }
+
+  // Failed requests don't count against the quota
+  res.locals.releaseUsage = release;
+  res.locals.releasePartialUsage = releasePart;
+  res.on('finish', () => {
+    if (res.statusCode >= 400) {
+      release().catch(error => console.error("Failed to release usage:", error));
+    }
+  });
+}
+
+// Gives back the usage reserved for a request whose failure is reported
+// after a successful status, e.g. as an event on a stream
+export async function releaseReservedUsage(res: Response) {
+  await res.locals.releaseUsage?.();
+}
+
+// Gives back part of a request's usage, e.g. the generations of variants that
+// failed while others succeeded
+export async function releasePartialUsage(res: Response, metric: UsageMetric, amount: number) {
+  await res.locals.releasePartialUsage?.(metric, amount);
+}
+
+async function checkComponentQuota(userId: string, { plan, entitlements }: UserPlan) {
+  const limit = entitlements.components;
+  if (limit === null) {
+    return;
+  }
+
+  const used = await storage.getComponentCount(userId);
+  if (used >= limit) {
+    throw new QuotaExceededError(plan, 'components', limit, used);
+  }
+}
+
+// Workspace components count against the workspace's own plan
+async function checkWorkspaceComponentQuota(workspaceId: number) {
+  const workspace = await storage.getWorkspaceById(workspaceId);
+  if (!workspace) {
+    return; // The route answers 404
+  }
+
+  const plan = getPlanId(workspace);
+  const limit = PLAN_ENTITLEMENTS[plan].components;
+  if (limit === null) {
+    return;
+  }
+
+  const used = await storage.getWorkspaceComponentCount(workspaceId);
+  if (used >= limit) {
+    throw new QuotaExceededError(plan, 'components', limit, used);
+  }
+}
+
+export const enforceComponentQuota = enforce(async (req, _res, userId, userPlan) => {
+  const workspaceId = req.body?.workspaceId;
+  if (typeof workspaceId === 'number') {
+    await checkWorkspaceComponentQuota(workspaceId);
+  } else {
+    await checkComponentQuota(userId, userPlan);
+  }
+});
+
+export const enforceItemQuota = enforce(async (_req, _res, userId, { plan, entitlements }) => {
+  const limit = entitlements.items;
+  if (limit === null) {
+    return;
+  }
+
+  const { length: used } = await storage.getItemsByUserId(userId);
+  if (used >= limit) {
+    throw new QuotaExceededError(plan, 'items', limit, used);
+  }
+});
+
+// Counts one generation per requested variant, plus a screenshot upload when
+// the request has an image. Invalid variant counts are left to the route.
+// Generating a new component (rather than editing one) also needs room to save it.
+export const enforceGenerationQuota = enforce(async (req, res, userId, userPlan) => {
+  const { plan, entitlements } = userPlan;
+  if (!req.body?.targetComponent) {
+    await checkComponentQuota(userId, userPlan);
+  }
+
+  const requested = Number(req.body?.variants ?? 1);
+  const variants = Number.isInteger(requested) && requested >= 1 && requested <= MAX_VARIANTS ? requested : 1;
+
+  if (variants > entitlements.variants) {
+    throw new PlanFeatureError(
+      plan,
+      'variants',
+      entitlements.variants,
+      `Your plan allows up to ${entitlements.variants} variants per request. Please upgrade to Pro plan.`,
+    );
+  }
+
+  await reserveUsage(res, userId, userPlan, [
+    ['generations', variants],
+    ...(req.body?.image ? [['image_uploads', 1] as [UsageMetric, number]] : []),
+  ]);
+});
+
+export const enforceExportFormat = enforce(async (req, _res, _userId, { plan, entitlements }) => {
+  const format = req.query.format?.toString() ?? 'tsx';
+  // Unknown formats are rejected by the route
+  if (isExportFormat(format) && !entitlements.exportFormats.includes(format)) {
+    throw new PlanFeatureError(
+      plan,
+      'exportFormats',
+      entitlements.exportFormats,
+      `Exporting as ${format} is not included in your plan. Please upgrade to Pro plan.`,
+    );
+  }
+});
+
+// Current usage against the plan's limits, for GET /api/me/usage
+export async function getUsageSummary(userId: string) {
+  const { plan, entitlements } = await getUserPlan(userId);
+  const now = new Date();
+  const period = getUsagePeriod(now);
+  const [components, items, counters] = await Promise.all([
+    storage.getComponentCount(userId),
+    storage.getItemsByUserId(userId),
+    storage.getUsageCounters(userId, period),
+  ]);
+  const used = (metric: UsageMetric) => counters.find(counter => counter.metric === metric)?.count ?? 0;
+
+  return {
+    plan,
+    period,
+    resetsAt: getPeriodEnd(now).toISOString(),
+    usage: {
+      components: { used: components, limit: entitlements.components },
+      items: { used: items.length, limit: entitlements.items },
+      generations: { used: used('generations'), limit: entitlements.generationsPerDay },
+      imageUploads: { used: used('image_uploads'), limit: entitlements.imageUploadsPerDay },
+    },
+    features: {
+      variants: entitlements.variants,
+      exportFormats: entitlements.exportFormats,
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import type { SubscriptionType, UsageMetric } from '@shared/schema';
+import { type SubscriptionInfo, summarizeSubscription } from '@shared/subscriptions';
+import { EXPORT_FORMATS, type ExportFormat } from '../export';
+
+export type PlanId = SubscriptionType;
+
+// From the smallest plan to the largest
+const PLAN_ORDER: PlanId[] = ['free', 'pro', 'team'];
+
+export function getHighestPlan(plans: PlanId[]): PlanId {
+  return plans.reduce((highest, plan) => (PLAN_ORDER.indexOf(plan) > PLAN_ORDER.indexOf(highest) ? plan : highest), 'free');
+}
+
+// Upper bound of variants per request on any plan
+export const MAX_VARIANTS = 4;
+
+// What each plan may use. Limits of null are unlimited.
+export interface PlanEntitlements {
+  components: number | null; // Components stored at once
+  items: number | null;
+  generationsPerDay: number | null; // Every variant and conversion counts
+  imageUploadsPerDay: number | null; // Generations from a screenshot
+  variants: number; // Variants per generation request
+  exportFormats: readonly ExportFormat[];
+}
+
+export const PLAN_ENTITLEMENTS: Record<PlanId, PlanEntitlements> = {
+  free: {
+    components: 3,
+    items: 5,
+    generationsPerDay: 10,
+    imageUploadsPerDay: 3,
+    variants: 2,
+    exportFormats: ['tsx'],
+  },
+  pro: {
+    components: null,
+    items: null,
+    generationsPerDay: 200,
+    imageUploadsPerDay: 50,
+    variants: MAX_VARIANTS,
+    exportFormats: EXPORT_FORMATS,
+  },
+  team: {
+    components: null,
+    items: null,
+    generationsPerDay: 1000,
+    imageUploadsPerDay: 250,
+    variants: MAX_VARIANTS,
+    exportFormats: EXPORT_FORMATS,
+  },
+};
+
+// Daily limit of each metered usage counter
+export const DAILY_LIMITS: Record<UsageMetric, 'generationsPerDay' | 'imageUploadsPerDay'> = {
+  generations: 'generationsPerDay',
+  image_uploads: 'imageUploadsPerDay',
+};
+
+// A paid plan lasts through a past_due grace period even without a webhook ending it
+export function getPlanId(user: SubscriptionInfo | undefined): PlanId {
+  return summarizeSubscription(user).plan;
+}
+
+// Counters reset at midnight UTC
+export function getUsagePeriod(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export function getPeriodEnd(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+const UPGRADE_URL = '/pricing';
+
+export type QuotaName = 'components' | 'items' | UsageMetric;
+
+// The plan's allowance is used up; upgrading (or waiting for the reset) helps
+export class QuotaExceededError extends Error {
+  status = 402;
+
+  constructor(
+    readonly plan: PlanId,
+    readonly quota: QuotaName,
+    readonly limit: number,
+    readonly used: number,
+    readonly resetsAt?: Date,
+  ) {
+    super(describeQuota(quota, limit, plan));
+    this.name = 'QuotaExceededError';
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: 'quota_exceeded',
+      plan: this.plan,
+      quota: this.quota,
+      limit: this.limit,
+      used: this.used,
+      resetsAt: this.resetsAt?.toISOString(),
+      upgradeUrl: UPGRADE_URL,
+    };
+  }
+}
+
+// The request asks for something the plan does not include at all
+export class PlanFeatureError extends Error {
+  status = 403;
+
+  constructor(
+    readonly plan: PlanId,
+    readonly feature: 'variants' | 'exportFormats',
+    readonly allowed: number | readonly string[],
+    message: string,
+  ) {
+    super(message);
+    this.name = 'PlanFeatureError';
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: 'plan_upgrade_required',
+      plan: this.plan,
+      feature: this.feature,
+      allowed: this.allowed,
+      upgradeUrl: UPGRADE_URL,
+    };
+  }
+}
+
+const PLAN_NAMES: Record<PlanId, string> = { free: 'free', pro: 'Pro', team: 'Team' };
+
+// The next plan up, named in quota errors
+const UPGRADES: Record<PlanId, string | null> = { free: 'Pro', pro: 'Team', team: null };
+
+function describeQuota(quota: QuotaName, limit: number, plan: PlanId): string {
+  const planName = PLAN_NAMES[plan];
+  const upgrade = UPGRADES[plan] ? ` or upgrade to ${UPGRADES[plan]} plan` : '';
+  switch (quota) {
+    case 'components':
+      return `The ${planName} plan stores up to ${limit} components. Delete a component${upgrade}.`;
+    case 'items':
+      return `The ${planName} plan allows up to ${limit} items. Delete an item${upgrade}.`;
+    case 'generations':
+      return `You've used all ${limit} generations included in the ${planName} plan today. Try again tomorrow${upgrade}.`;
+    case 'image_uploads':
+      return `You've used all ${limit} screenshot generations included in the ${planName} plan today. Try again tomorrow${upgrade}.`;
+  }
+}
@@ -0,0 +1,315 @@
+import JSZip from 'jszip';
+import type { Component, Framework } from '@shared/schema';
+import { buildThemeCss, DEFAULT_THEME, THEME_TAILWIND_EXTENSION } from '@shared/themes';
+import { toKebabCase, toPascalCase, type ComponentModule } from './source';
+import { convertToTypeScript } from './typescript';
+
+export const EXPORT_FORMATS = ['tsx', 'vite', 'npm'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// File extension of the single source file a non-React component exports as
+const SOURCE_EXTENSIONS: Record<Exclude<Framework, 'react'>, string> = {
+  vue: 'vue',
+  svelte: 'svelte',
+  html: 'html',
+};
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+const TAILWIND_CONFIG = (content: string[]) => `/** @type {import('tailwindcss').Config} */
+export default {
+  content: ${JSON.stringify(content)},
+  theme: {
+    // Design token classes (bg-primary, text-foreground, ...) used by themed components
+    extend: ${JSON.stringify(THEME_TAILWIND_EXTENSION, null, 2).replace(/\n/g, '\n    ')},
+  },
+  plugins: [],
+};
+`;
+
+const POSTCSS_CONFIG = `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {},
+  },
+};
+`;
+
+function viteProjectFiles(component: Component, module: ComponentModule): Record<string, string> {
+  const name = toKebabCase(module.componentName);
+
+  return {
+    'package.json': json({
+      name,
+      private: true,
+      version: '0.0.0',
+      type: 'module',
+      scripts: {
+        dev: 'vite',
+        build: 'vite build',
+        preview: 'vite preview',
+      },
+      dependencies: {
+        react: '^18.3.1',
+        'react-dom': '^18.3.1',
+      },
+      devDependencies: {
+        '@types/react': '^18.3.11',
+        '@types/react-dom': '^18.3.1',
+        '@vitejs/plugin-react': '^4.3.2',
+        autoprefixer: '^10.4.20',
+        postcss: '^8.4.47',
+        tailwindcss: '^3.4.14',
+        typescript: '^5.6.3',
+        vite: '^5.4.9',
+      },
+    }),
+    'index.html': `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${component.name}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+    'vite.config.ts': `import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+    'tsconfig.json': json({
+      compilerOptions: {
+        target: 'ES2020',
+        lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+        module: 'ESNext',
+        moduleResolution: 'bundler',
+        jsx: 'react-jsx',
+        // Props are inferred, but generated state and handlers stay untyped
+        strict: false,
+        skipLibCheck: true,
+        noEmit: true,
+      },
+      include: ['src'],
+    }),
+    'tailwind.config.js': TAILWIND_CONFIG(['./index.html', './src/**/*.{ts,tsx}']),
+    'postcss.config.js': POSTCSS_CONFIG,
+    'src/index.css': `@tailwind base;\n@tailwind components;\n@tailwind utilities;\n\n${buildThemeCss(DEFAULT_THEME)}`,
+    'src/main.tsx': `import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import App from "./App";
+import "./index.css";
+
+createRoot(document.getElementById("root")!).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`,
+    'src/App.tsx': `import ${module.componentName} from "./components/${module.componentName}";
+
+export default function App() {
+  return <${module.componentName} />;
+}
+`,
+    [`src/components/${module.componentName}.tsx`]: module.source,
+    'README.md': `# ${component.name}
+
+${component.description}
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+
+The component lives in \`src/components/${module.componentName}.tsx\`.
+Theme colors, font and spacing are CSS variables in \`src/index.css\`.
+`,
+  };
+}
+
+function npmPackageFiles(component: Component, module: ComponentModule): Record<string, string> {
+  const name = toKebabCase(module.componentName);
+
+  return {
+    'package.json': json({
+      name,
+      version: `0.${component.version}.0`,
+      description: component.description,
+      type: 'module',
+      main: 'dist/index.js',
+      types: 'dist/index.d.ts',
+      files: ['dist'],
+      sideEffects: false,
+      scripts: {
+        build: 'tsc -p tsconfig.json',
+        prepublishOnly: 'npm run build',
+      },
+      peerDependencies: {
+        react: '>=18',
+      },
+      devDependencies: {
+        '@types/react': '^18.3.11',
+        react: '^18.3.1',
+        typescript: '^5.6.3',
+      },
+    }),
+    'tsconfig.json': json({
+      compilerOptions: {
+        target: 'ES2020',
+        module: 'ESNext',
+        moduleResolution: 'bundler',
+        jsx: 'react-jsx',
+        declaration: true,
+        outDir: 'dist',
+        rootDir: 'src',
+        strict: false,
+        skipLibCheck: true,
+      },
+      include: ['src'],
+    }),
+    [`src/${module.componentName}.tsx`]: module.source,
+    'src/index.ts': `export { default as ${module.componentName} } from "./${module.componentName}";
+export { default } from "./${module.componentName}";
+`,
+    'README.md': `# ${name}
+
+${component.description}
+
+## Build
+
+\`\`\`bash
+npm install
+npm run build
+\`\`\`
+
+## Usage
+
+\`\`\`tsx
+import { ${module.componentName} } from "${name}";
+\`\`\`
+
+The component is styled with Tailwind CSS utility classes. Add
+\`./node_modules/${name}/dist/**/*.js\` to the \`content\` array of your
+Tailwind config so its classes are generated.
+
+Themed components use design token classes (\`bg-primary\`,
+\`text-foreground\`, \`p-base\`, ...) that read CSS variables such as
+\`--color-primary\`. Map them in your Tailwind config:
+
+\`\`\`js
+theme: {
+  extend: ${JSON.stringify(THEME_TAILWIND_EXTENSION, null, 2).replace(/\n/g, '\n  ')},
+},
+\`\`\`
+
+and define the variables, for example:
+
+\`\`\`css
+${buildThemeCss(DEFAULT_THEME)}\`\`\`
+`,
+  };
+}
+
+async function zipFiles(root: string, files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  const folder = zip.folder(root)!;
+  for (const [path, content] of Object.entries(files)) {
+    folder.file(path, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Project templates only exist for React, so other frameworks always export
+// their source file as-is
+export function supportsExportFormat(component: Component, format: ExportFormat): boolean {
+  return component.framework === 'react' || format === 'tsx';
+}
+
+function sourceFilename(framework: Exclude<Framework, 'react'>, baseName: string): string {
+  return `${baseName}.${SOURCE_EXTENSIONS[framework]}`;
+}
+
+export async function exportComponent(component: Component, format: ExportFormat): Promise<ExportFile> {
+  if (component.framework !== 'react') {
+    return {
+      filename: sourceFilename(component.framework, toPascalCase(component.name)),
+      contentType: 'text/plain; charset=utf-8',
+      content: Buffer.from(`${component.code.trim()}\n`),
+    };
+  }
+
+  const module = convertToTypeScript(component.code, component.name);
+
+  if (format === 'tsx') {
+    return {
+      filename: `${module.componentName}.tsx`,
+      contentType: 'text/plain; charset=utf-8',
+      content: Buffer.from(module.source),
+    };
+  }
+
+  const root = toKebabCase(module.componentName);
+  const files = format === 'vite' ? viteProjectFiles(component, module) : npmPackageFiles(component, module);
+  return {
+    filename: `${root}-${format}.zip`,
+    contentType: 'application/zip',
+    content: await zipFiles(root, files),
+  };
+}
+
+// One zip with every component as a .tsx module and an index re-exporting
+// them. File names are de-duplicated when two components share a name.
+// Vue, Svelte and HTML components are included as their source files but
+// left out of the index, which is plain TypeScript.
+export async function exportComponents(components: Component[]): Promise<ExportFile> {
+  const files: Record<string, string> = {};
+  const exports: string[] = [];
+  const usedNames = new Set<string>();
+
+  const uniqueName = (baseName: string) => {
+    let name = baseName;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}${suffix}`;
+    }
+    usedNames.add(name);
+    return name;
+  };
+
+  for (const component of components) {
+    if (component.framework !== 'react') {
+      const name = uniqueName(toPascalCase(component.name));
+      files[`components/${sourceFilename(component.framework, name)}`] = `${component.code.trim()}\n`;
+      continue;
+    }
+
+    const module = convertToTypeScript(component.code, component.name);
+    const exportName = uniqueName(module.componentName);
+    files[`components/${exportName}.tsx`] = module.source;
+    exports.push(`export { default as ${exportName} } from "./components/${exportName}";`);
+  }
+
+  files['index.ts'] = `${exports.join('\n')}\n`;
+
+  return {
+    filename: 'component-library.zip',
+    contentType: 'application/zip',
+    content: await zipFiles('component-library', files),
+  };
+}
@@ -0,0 +1,107 @@
+import ts from 'typescript';
+import { getTopLevelComponents, isRenderCall } from '../ai/validation';
+
+// Hooks the preview scope provides as globals; generated code uses them without imports
+const REACT_HOOKS = [
+  'useState',
+  'useEffect',
+  'useCallback',
+  'useMemo',
+  'useRef',
+  'useReducer',
+  'useContext',
+  'useLayoutEffect',
+  'useId',
+];
+
+export interface ComponentModule {
+  componentName: string;
+  source: string;
+}
+
+export function toPascalCase(value: string): string {
+  const pascal = value
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Z]/.test(pascal) ? pascal : `Component${pascal}`;
+}
+
+export function toKebabCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase() || 'component';
+}
+
+function getUsedReactIdentifiers(sourceFile: ts.SourceFile): { usesReact: boolean; hooks: string[] } {
+  let usesReact = false;
+  const hooks = new Set<string>();
+
+  const visit = (node: ts.Node) => {
+    // Existing imports are dropped and regenerated
+    if (ts.isImportDeclaration(node)) return;
+    if (ts.isIdentifier(node)) {
+      const parent = node.parent;
+      const isMemberName = ts.isPropertyAccessExpression(parent) && parent.name === node;
+      if (node.text === 'React' && !isMemberName) usesReact = true;
+      if (REACT_HOOKS.includes(node.text) && !isMemberName) hooks.add(node.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { usesReact, hooks: REACT_HOOKS.filter((hook) => hooks.has(hook)) };
+}
+
+// Generated code is written for the preview scope: React and its hooks are
+// globals and a trailing render() call mounts the component. This turns it
+// into a standalone module with the imports added back and a default export.
+export function toComponentModule(code: string, fallbackName: string): ComponentModule {
+  const cleaned = code.trim().replace(/^<!\[CDATA\[/, '').replace(/\]\]>$/, '');
+  const sourceFile = ts.createSourceFile('component.tsx', cleaned, ts.ScriptTarget.ES2020, true, ts.ScriptKind.TSX);
+
+  const removed: ts.Statement[] = [];
+  let renderedElement: string | null = null;
+  for (const statement of sourceFile.statements) {
+    if (isRenderCall(statement)) {
+      const [argument] = ((statement as ts.ExpressionStatement).expression as ts.CallExpression).arguments;
+      renderedElement ??= argument ? argument.getText(sourceFile) : null;
+      removed.push(statement);
+    } else if (ts.isImportDeclaration(statement) || ts.isExportAssignment(statement) || ts.isExportDeclaration(statement)) {
+      removed.push(statement);
+    }
+  }
+
+  let body = cleaned;
+  for (const statement of [...removed].reverse()) {
+    body = body.slice(0, statement.getFullStart()) + body.slice(statement.getEnd());
+  }
+  // `export function Foo` keeps the declaration without the modifier
+  body = body.replace(/^export\s+(default\s+)?(?=(function|const|class)\b)/gm, '');
+  body = body.replace(/\n{3,}/g, '\n\n').trim();
+
+  let componentName = getTopLevelComponents(sourceFile)[0];
+  if (!componentName) {
+    // Code that only renders JSX inline becomes a component of its own
+    componentName = toPascalCase(fallbackName);
+    body = `${body}\n\nfunction ${componentName}() {\n  return (\n    ${renderedElement ?? 'null'}\n  );\n}`.trim();
+  }
+
+  const { usesReact, hooks } = getUsedReactIdentifiers(sourceFile);
+  const namedImports = hooks.length > 0 ? `{ ${hooks.join(', ')} }` : '';
+  const importLine = usesReact
+    ? `import React${namedImports ? `, ${namedImports}` : ''} from "react";`
+    : namedImports
+      ? `import ${namedImports} from "react";`
+      : null;
+
+  const source = [importLine, body, `export default ${componentName};`]
+    .filter((part): part is string => part !== null)
+    .join('\n\n');
+
+  return { componentName, source: `${source}\n` };
+}
@@ -0,0 +1,219 @@
+import ts from 'typescript';
+import { getTopLevelComponents, isRenderCall } from '../ai/validation';
+import { toComponentModule, type ComponentModule } from './source';
+
+interface PropInfo {
+  type: string | null;
+  optional: boolean;
+}
+
+type ComponentFunction = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction;
+
+function unwrapFunction(node: ts.Expression | undefined): ComponentFunction | undefined {
+  if (!node) return undefined;
+  if (ts.isParenthesizedExpression(node)) return unwrapFunction(node.expression);
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) return node;
+  // React.memo(...) / forwardRef(...) wrappers
+  if (ts.isCallExpression(node)) {
+    for (const argument of node.arguments) {
+      const inner = unwrapFunction(argument);
+      if (inner) return inner;
+    }
+  }
+  return undefined;
+}
+
+function findComponentFunction(sourceFile: ts.SourceFile, name: string): ComponentFunction | undefined {
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name?.text === name) {
+      return statement;
+    }
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && declaration.name.text === name) {
+          return unwrapFunction(declaration.initializer);
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function findExampleElement(sourceFile: ts.SourceFile, name: string): ts.JsxElement | ts.JsxSelfClosingElement | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!isRenderCall(statement)) continue;
+
+    let found: ts.JsxElement | ts.JsxSelfClosingElement | undefined;
+    const visit = (node: ts.Node) => {
+      if (found) return;
+      const tagName = ts.isJsxElement(node)
+        ? node.openingElement.tagName
+        : ts.isJsxSelfClosingElement(node) ? node.tagName : undefined;
+      if (tagName && ts.isIdentifier(tagName) && tagName.text === name) {
+        found = node as ts.JsxElement | ts.JsxSelfClosingElement;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(statement);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function inferExpressionType(node: ts.Expression): string | null {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) return inferExpressionType(node.expression);
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) return 'string';
+  if (ts.isNumericLiteral(node)) return 'number';
+  if (ts.isPrefixUnaryExpression(node) && ts.isNumericLiteral(node.operand)) return 'number';
+  if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) return 'boolean';
+  if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) return 'React.ReactNode';
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    const params = node.parameters.map((param, index) => `${ts.isIdentifier(param.name) ? param.name.text : `arg${index}`}: any`);
+    return `(${params.join(', ')}) => void`;
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    const elementTypes = Array.from(new Set(node.elements.map((element) => inferExpressionType(element) ?? 'any')));
+    if (elementTypes.length === 0) return 'any[]';
+    return elementTypes.length === 1 && !elementTypes[0].includes(' ')
+      ? `${elementTypes[0]}[]`
+      : `Array<${elementTypes.join(' | ')}>`;
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    const members: string[] = [];
+    for (const property of node.properties) {
+      if (ts.isPropertyAssignment(property) && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+        members.push(`${property.name.text}: ${inferExpressionType(property.initializer) ?? 'any'}`);
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        members.push(`${property.name.text}: any`);
+      } else {
+        // Spreads and computed keys: fall back to a loose record
+        return 'Record<string, any>';
+      }
+    }
+    return members.length > 0 ? `{ ${members.join('; ')} }` : 'Record<string, any>';
+  }
+  return null;
+}
+
+// Naming conventions are the last resort when neither a default value nor
+// the example render call says anything about a prop
+function inferTypeFromName(name: string): string {
+  if (name === 'children') return 'React.ReactNode';
+  if (/^on[A-Z]/.test(name)) return '(...args: any[]) => void';
+  if (/^(is|has|show|can|should|disabled$|checked$|open$)/.test(name)) return 'boolean';
+  return 'any';
+}
+
+function collectProps(fn: ComponentFunction, example: ts.JsxElement | ts.JsxSelfClosingElement | undefined): Map<string, PropInfo> {
+  const props = new Map<string, PropInfo>();
+  const param = fn.parameters[0];
+
+  if (param && ts.isObjectBindingPattern(param.name)) {
+    for (const element of param.name.elements) {
+      if (element.dotDotDotToken) continue;
+      const nameNode = element.propertyName ?? element.name;
+      if (!ts.isIdentifier(nameNode) && !ts.isStringLiteral(nameNode)) continue;
+      props.set(nameNode.text, {
+        type: element.initializer ? inferExpressionType(element.initializer) : null,
+        optional: true,
+      });
+    }
+  } else if (param && ts.isIdentifier(param.name)) {
+    // `props.title` style access
+    const paramName = param.name.text;
+    const visit = (node: ts.Node) => {
+      if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === paramName) {
+        if (!props.has(node.name.text)) props.set(node.name.text, { type: null, optional: true });
+      }
+      ts.forEachChild(node, visit);
+    };
+    if (fn.body) visit(fn.body);
+  }
+
+  if (example) {
+    const attributes = ts.isJsxElement(example) ? example.openingElement.attributes : example.attributes;
+    for (const attribute of attributes.properties) {
+      if (!ts.isJsxAttribute(attribute)) continue;
+      const name = attribute.name.getText();
+      let type: string | null;
+      if (!attribute.initializer) {
+        type = 'boolean';
+      } else if (ts.isStringLiteral(attribute.initializer)) {
+        type = 'string';
+      } else if (ts.isJsxExpression(attribute.initializer) && attribute.initializer.expression) {
+        type = inferExpressionType(attribute.initializer.expression);
+      } else {
+        type = null;
+      }
+
+      // Passed in the example and without a default value: required
+      props.set(name, {
+        type: type ?? props.get(name)?.type ?? null,
+        optional: hasDefault(fn, name),
+      });
+    }
+
+    if (ts.isJsxElement(example) && example.children.some((child) => !ts.isJsxText(child) || child.text.trim() !== '')) {
+      props.set('children', { type: 'React.ReactNode', optional: false });
+    }
+  }
+
+  return props;
+}
+
+function hasDefault(fn: ComponentFunction, name: string): boolean {
+  const param = fn.parameters[0];
+  if (!param || !ts.isObjectBindingPattern(param.name)) return false;
+  return param.name.elements.some((element) => {
+    const nameNode = element.propertyName ?? element.name;
+    return ts.isIdentifier(nameNode) && nameNode.text === name && element.initializer !== undefined;
+  });
+}
+
+function hasRestProps(fn: ComponentFunction): boolean {
+  const param = fn.parameters[0];
+  return !!param && ts.isObjectBindingPattern(param.name) && param.name.elements.some((element) => element.dotDotDotToken);
+}
+
+function formatPropName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+// Converts generated JSX into a standalone .tsx module with an exported Props
+// interface. Prop names come from the destructured parameter (or `props.x`
+// accesses); types come from default values, the example render() call and
+// finally naming conventions.
+export function convertToTypeScript(code: string, fallbackName: string): ComponentModule {
+  const cleaned = code.trim().replace(/^<!\[CDATA\[/, '').replace(/\]\]>$/, '');
+  const sourceFile = ts.createSourceFile('component.tsx', cleaned, ts.ScriptTarget.ES2020, true, ts.ScriptKind.TSX);
+
+  const componentName = getTopLevelComponents(sourceFile)[0];
+  const fn = componentName ? findComponentFunction(sourceFile, componentName) : undefined;
+  const param = fn?.parameters[0];
+
+  // Nothing to type: components without props, or already annotated ones
+  if (!componentName || !fn || !param || param.type) {
+    return toComponentModule(cleaned, fallbackName);
+  }
+
+  const props = collectProps(fn, findExampleElement(sourceFile, componentName));
+  const declaredNames = new Set(sourceFile.statements.flatMap((statement) =>
+    (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) ? [statement.name.text] : []));
+  const interfaceName = declaredNames.has('Props') ? `${componentName}Props` : 'Props';
+
+  const members = Array.from(props.entries()).map(([name, info]) =>
+    `  ${formatPropName(name)}${info.optional ? '?' : ''}: ${info.type ?? inferTypeFromName(name)};`);
+  if (hasRestProps(fn)) {
+    members.push('  [key: string]: any;');
+  }
+  const propsInterface = `export interface ${interfaceName} {\n${members.join('\n')}\n}`;
+
+  // Annotate the first parameter; single-parameter arrows need parentheses
+  const paramText = param.getText(sourceFile);
+  const needsParens = ts.isArrowFunction(fn) && cleaned.slice(fn.getStart(sourceFile), param.getStart(sourceFile)).trim() === '';
+  const annotated = needsParens ? `(${paramText}: ${interfaceName})` : `${paramText}: ${interfaceName}`;
+  const typedCode = `${cleaned.slice(0, param.getStart(sourceFile))}${annotated}${cleaned.slice(param.getEnd())}`;
+
+  return toComponentModule(`${propsInterface}\n\n${typedCode}`, fallbackName);
+}
@@ -0,0 +1,34 @@
+export const GALLERY_SORTS = ['new', 'popular'] as const;
+
+export type GallerySort = typeof GALLERY_SORTS[number];
+
+export const GALLERY_PAGE_SIZE = 24;
+export const MAX_GALLERY_PAGE_SIZE = 48;
+
+export interface GalleryQuery {
+  sort: GallerySort;
+  tags: string[]; // Components must have all of them
+  page: number; // 1-based
+  pageSize: number;
+}
+
+function toPositiveInteger(value: unknown): number | undefined {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+// Reads ?sort=new|popular&tags=a,b&page=1&pageSize=24, falling back to the
+// defaults for missing or invalid values
+export function parseGalleryQuery(query: Record<string, unknown>): GalleryQuery {
+  const sort = GALLERY_SORTS.find(option => option === query.sort) ?? 'new';
+  const tags = typeof query.tags === 'string'
+    ? Array.from(new Set(query.tags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)))
+    : [];
+
+  return {
+    sort,
+    tags,
+    page: toPositiveInteger(query.page) ?? 1,
+    pageSize: Math.min(toPositiveInteger(query.pageSize) ?? GALLERY_PAGE_SIZE, MAX_GALLERY_PAGE_SIZE),
+  };
+}
@@ -0,0 +1,82 @@
+import type { NextFunction, Request, Response } from 'express';
+import { type BucketRule, createMemoryStore, createPostgresStore, type RateLimitStore, type TakeResult } from './stores';
+
+export { type BucketRule, createMemoryStore, createPostgresStore, type RateLimitStore, type TakeResult } from './stores';
+
+export interface RateLimitRule extends BucketRule {
+  name: string; // Routes using rules with the same name share their buckets
+  // 'user' counts per signed-in user and falls back to the IP without one
+  key: 'user' | 'ip';
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const RATE_LIMITS = {
+  // Generations, streams and conversions share one bucket
+  aiGeneration: { name: 'ai-generation', key: 'user', limit: Number(process.env.RATE_LIMIT_AI_PER_MINUTE ?? 10), windowMs: MINUTE },
+  // Catches one client cycling through accounts
+  aiGenerationByIp: { name: 'ai-generation-ip', key: 'ip', limit: Number(process.env.RATE_LIMIT_AI_PER_MINUTE_PER_IP ?? 30), windowMs: MINUTE },
+  // Creating users and Stripe customers
+  accountSetup: { name: 'account-setup', key: 'user', limit: 20, windowMs: HOUR },
+  accountSetupByIp: { name: 'account-setup-ip', key: 'ip', limit: 50, windowMs: HOUR },
+  // Endpoints that don't require authentication
+  publicApi: { name: 'public', key: 'ip', limit: Number(process.env.RATE_LIMIT_PUBLIC_PER_MINUTE ?? 60), windowMs: MINUTE },
+} satisfies Record<string, RateLimitRule>;
+
+let store: RateLimitStore | undefined;
+
+// RATE_LIMIT_STORE=postgres shares the buckets between instances
+function createDefaultStore(): RateLimitStore {
+  return process.env.RATE_LIMIT_STORE === 'postgres' ? createPostgresStore() : createMemoryStore();
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  store ??= createDefaultStore();
+  return store;
+}
+
+// Replaces the store used by rateLimit; pass undefined to restore the default
+export function setRateLimitStore(next: RateLimitStore | undefined) {
+  store = next;
+}
+
+function getBucketKey(rule: RateLimitRule, req: Request): string {
+  const subject = rule.key === 'user' && req.user ? `user:${req.user.uid}` : `ip:${req.ip}`;
+  return `${rule.name}:${subject}`;
+}
+
+// Takes a token from the caller's bucket for the rule, answering 429 with
+// Retry-After when it is empty. Every response carries the RateLimit-*
+// headers of the IETF draft. Put it after requireAuth for per-user rules.
+export function rateLimit(rule: RateLimitRule) {
+  const refillPerSecond = (rule.limit * 1000) / rule.windowMs;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let result: TakeResult;
+    try {
+      result = await getRateLimitStore().take(getBucketKey(rule, req), rule);
+    } catch (error) {
+      // A broken store shouldn't take the API down with it
+      console.error("Rate limit check failed, allowing request:", error);
+      return next();
+    }
+
+    res.setHeader('RateLimit-Policy', `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`);
+    res.setHeader('RateLimit-Limit', rule.limit);
+    res.setHeader('RateLimit-Remaining', Math.max(0, Math.floor(result.tokens)));
+    res.setHeader('RateLimit-Reset', Math.ceil((rule.limit - result.tokens) / refillPerSecond));
+
+    if (!result.allowed) {
+      const retryAfter = Math.max(1, Math.ceil((1 - result.tokens) / refillPerSecond));
+      res.setHeader('Retry-After', retryAfter);
+      return res.status(429).json({
+        error: `Too many requests. Please try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`,
+        code: 'rate_limited',
+        retryAfter,
+      });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,78 @@
+// A bucket holds up to `limit` tokens and refills at limit/windowMs, so a
+// client can burst `limit` requests and then keeps the average rate
+export interface BucketRule {
+  limit: number;
+  windowMs: number;
+}
+
+// Whether a token was taken, and how many are left in the bucket
+export interface TakeResult {
+  allowed: boolean;
+  tokens: number;
+}
+
+export interface RateLimitStore {
+  take(key: string, rule: BucketRule): Promise<TakeResult>;
+}
+
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+// Postgres buckets untouched this long are deleted, so rule windows must be shorter
+const STALE_BUCKET_SECONDS = 24 * 60 * 60;
+
+// Keeps the buckets in this process. Each instance counts separately, so use
+// the Postgres store when running more than one.
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number; windowMs: number }>();
+  let lastSweep = Date.now();
+
+  // A bucket that had a whole window to refill is full, same as a missing one
+  const sweep = (now: number) => {
+    buckets.forEach((bucket, key) => {
+      if (now - bucket.updatedAt >= bucket.windowMs) {
+        buckets.delete(key);
+      }
+    });
+    lastSweep = now;
+  };
+
+  return {
+    async take(key, { limit, windowMs }) {
+      const now = Date.now();
+      if (now - lastSweep >= SWEEP_INTERVAL_MS) {
+        sweep(now);
+      }
+
+      const bucket = buckets.get(key);
+      const tokens = bucket
+        ? Math.min(limit, bucket.tokens + ((now - bucket.updatedAt) * limit) / windowMs)
+        : limit;
+      if (tokens < 1) {
+        return { allowed: false, tokens };
+      }
+
+      buckets.set(key, { tokens: tokens - 1, updatedAt: now, windowMs });
+      return { allowed: true, tokens: tokens - 1 };
+    },
+  };
+}
+
+// Keeps the buckets in the rate_limit_buckets table, shared by every instance
+export function createPostgresStore(): RateLimitStore {
+  let lastSweep = 0;
+
+  return {
+    async take(key, { limit, windowMs }) {
+      // Imported lazily so the memory store works without a database
+      const { storage } = await import('../../storage/index');
+
+      if (Date.now() - lastSweep >= SWEEP_INTERVAL_MS) {
+        lastSweep = Date.now();
+        storage.deleteStaleRateLimitBuckets(STALE_BUCKET_SECONDS)
+          .catch((error) => console.error("Failed to delete stale rate limit buckets:", error));
+      }
+
+      return storage.takeRateLimitToken(key, limit, (limit * 1000) / windowMs);
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { ComponentShare } from '@shared/schema';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+export function createShareToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function getShareExpiry(expiresInDays: number | undefined, now = new Date()): Date | null {
+  return expiresInDays ? new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000) : null;
+}
+
+export function isShareExpired(share: Pick<ComponentShare, 'expiresAt'>, now = new Date()): boolean {
+  return share.expiresAt !== null && share.expiresAt <= now;
+}
+
+// Stored as "salt:hash", both hex
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString('hex')}`;
+}
+
+export async function verifySharePassword(password: string, passwordHash: string): Promise<boolean> {
+  const [salt, hash] = passwordHash.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,396 @@
+import ts from 'typescript';
+import { DEFAULT_THEME, themeConfigSchema, type ThemeConfig } from '@shared/themes';
+
+export const THEME_IMPORT_FORMATS = ['tailwind', 'tokens'] as const;
+export type ThemeImportFormat = (typeof THEME_IMPORT_FORMATS)[number];
+
+export function isThemeImportFormat(value: unknown): value is ThemeImportFormat {
+  return typeof value === 'string' && (THEME_IMPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export type ImportedTheme = Omit<ThemeConfig, 'id'>;
+
+export interface ThemeImportResult {
+  theme: ImportedTheme;
+  format: ThemeImportFormat;
+  // Tokens that were missing or unusable and fell back to the default theme
+  warnings: string[];
+}
+
+export class ThemeImportError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemeImportError';
+  }
+}
+
+type ColorKey = keyof ThemeConfig['colors'];
+
+// Names each theme color is known by in Tailwind configs and token files,
+// in order of preference
+const COLOR_ALIASES: Record<ColorKey, string[]> = {
+  primary: ['primary', 'brand'],
+  secondary: ['secondary'],
+  accent: ['accent', 'highlight'],
+  background: ['background', 'bg', 'surface', 'base'],
+  text: ['foreground', 'text', 'content', 'body'],
+};
+
+// Shades used when a color is a palette rather than a single value
+const PALETTE_SHADES = ['DEFAULT', 'default', 'base', '500', '600', '400'];
+
+const FONT_WEIGHTS: Record<string, string> = {
+  thin: '100',
+  extralight: '200',
+  light: '300',
+  normal: '400',
+  regular: '400',
+  medium: '500',
+  semibold: '600',
+  bold: '700',
+  extrabold: '800',
+  black: '900',
+};
+
+const MAX_SCALE_STEPS = 32;
+
+const colorsSchema = themeConfigSchema.shape.colors.shape;
+const typographySchema = themeConfigSchema.shape.typography.shape;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function toPx(length: string): number | undefined {
+  const match = length.trim().match(/^(\d+(?:\.\d+)?)(px|rem|em)?$/);
+  if (!match) return undefined;
+  const value = Number(match[1]);
+  return match[2] === 'rem' || match[2] === 'em' ? value * 16 : value;
+}
+
+function toLength(value: unknown): string | undefined {
+  if (typeof value === 'number') return `${value}px`;
+  // W3C dimension objects: { value: 8, unit: "px" }
+  if (isRecord(value) && typeof value.value === 'number' && typeof value.unit === 'string') {
+    return `${value.value}${value.unit}`;
+  }
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return /^0$/.test(trimmed) ? '0px' : trimmed;
+}
+
+function toFontFamily(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return value.filter((font) => typeof font === 'string').join(', ') || undefined;
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+function toFontWeight(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return undefined;
+  return FONT_WEIGHTS[value.toLowerCase().replace(/[\s-]/g, '')] ?? value;
+}
+
+// Collects the values that parse as lengths into a px scale
+function toScale(values: unknown[]): number[] {
+  const scale = new Set<number>();
+  for (const value of values) {
+    const length = toLength(value);
+    const px = length !== undefined ? toPx(length) : undefined;
+    if (px !== undefined) scale.add(px);
+  }
+  return Array.from(scale).sort((a, b) => a - b).slice(0, MAX_SCALE_STEPS);
+}
+
+// Fills gaps from the default theme and records why
+class ThemeBuilder {
+  readonly warnings: string[] = [];
+  found = 0;
+
+  color(key: ColorKey, value: unknown, source: string | undefined): string {
+    return this.pick(`${key} color`, value, source, colorsSchema[key], DEFAULT_THEME.colors[key]);
+  }
+
+  pick(label: string, value: unknown, source: string | undefined, schema: { safeParse(value: unknown): { success: boolean } }, fallback: string): string {
+    if (value === undefined) {
+      this.warnings.push(`No ${label} found; using the default (${fallback}).`);
+      return fallback;
+    }
+    if (typeof value !== 'string' || !schema.safeParse(value).success) {
+      this.warnings.push(`Unsupported ${label} ${JSON.stringify(value)}${source ? ` at ${source}` : ''}; using the default (${fallback}).`);
+      return fallback;
+    }
+    this.found++;
+    return value;
+  }
+
+  spacing(base: unknown, scale: number[]): ThemeConfig['spacing'] {
+    const spacing = {
+      base: this.pick('base spacing', base, undefined, themeConfigSchema.shape.spacing.shape.base, DEFAULT_THEME.spacing.base),
+      scale,
+    };
+    if (scale.length === 0) {
+      this.warnings.push('No spacing scale found; using the default.');
+      spacing.scale = DEFAULT_THEME.spacing.scale;
+    } else {
+      this.found++;
+    }
+    return spacing;
+  }
+}
+
+// ----- Tailwind config -----
+
+// Evaluates the literal parts of a config without running it: objects,
+// arrays, strings, numbers and references to top-level constants. Anything
+// else (require(), functions, spreads) is skipped.
+function literalValue(node: ts.Node, constants: Map<string, ts.Expression>, depth = 0): unknown {
+  if (depth > 20) return undefined;
+  const next = (child: ts.Node) => literalValue(child, constants, depth + 1);
+
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return next(node.expression);
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+    return -Number(node.operand.text);
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (ts.isIdentifier(node)) {
+    const initializer = constants.get(node.text);
+    return initializer ? next(initializer) : undefined;
+  }
+  if (ts.isArrayLiteralExpression(node)) return node.elements.map(next);
+  if (ts.isObjectLiteralExpression(node)) {
+    const result: Record<string, unknown> = {};
+    for (const property of node.properties) {
+      if (ts.isShorthandPropertyAssignment(property)) {
+        result[property.name.text] = next(property.name);
+        continue;
+      }
+      if (!ts.isPropertyAssignment(property)) continue;
+      const name = property.name;
+      if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+        result[name.text] = next(property.initializer);
+      }
+    }
+    return result;
+  }
+  // defineConfig({...}) style wrappers
+  if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isObjectLiteralExpression(node.arguments[0])) {
+    return next(node.arguments[0]);
+  }
+  return undefined;
+}
+
+function parseTailwindSource(content: string): Record<string, unknown> {
+  const sourceFile = ts.createSourceFile('tailwind.config.ts', content, ts.ScriptTarget.ES2020, true, ts.ScriptKind.TS);
+  const constants = new Map<string, ts.Expression>();
+  let exported: ts.Expression | undefined;
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+          constants.set(declaration.name.text, declaration.initializer);
+        }
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      exported = statement.expression;
+    } else if (
+      ts.isExpressionStatement(statement)
+      && ts.isBinaryExpression(statement.expression)
+      && statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+      && statement.expression.left.getText(sourceFile) === 'module.exports'
+    ) {
+      exported = statement.expression.right;
+    }
+  }
+
+  const config = exported ? literalValue(exported, constants) : undefined;
+  if (!isRecord(config)) {
+    throw new ThemeImportError('Could not find an exported Tailwind config object.');
+  }
+  return config;
+}
+
+function paletteValue(value: unknown): unknown {
+  if (!isRecord(value)) return value;
+  for (const shade of PALETTE_SHADES) {
+    if (value[shade] !== undefined) return value[shade];
+  }
+  return undefined;
+}
+
+function importTailwindConfig(config: Record<string, unknown>, name: string): ThemeImportResult {
+  // A bare theme object is accepted as well as a full config
+  const root = isRecord(config.theme) ? config.theme : config;
+  const extend = isRecord(root.extend) ? root.extend : {};
+  const section = (key: string): Record<string, unknown> => ({
+    ...(isRecord(root[key]) ? root[key] as Record<string, unknown> : {}),
+    ...(isRecord(extend[key]) ? extend[key] as Record<string, unknown> : {}),
+  });
+
+  const builder = new ThemeBuilder();
+  const palette = section('colors');
+  const colors = {} as ThemeConfig['colors'];
+  for (const key of Object.keys(COLOR_ALIASES) as ColorKey[]) {
+    const alias = COLOR_ALIASES[key].find((candidate) => palette[candidate] !== undefined);
+    colors[key] = builder.color(key, alias ? paletteValue(palette[alias]) : undefined, alias && `colors.${alias}`);
+  }
+
+  const fonts = section('fontFamily');
+  const fontSizes = section('fontSize');
+  const fontWeights = section('fontWeight');
+  const baseSize = Array.isArray(fontSizes.base) ? fontSizes.base[0] : fontSizes.base;
+  const typography = {
+    fontFamily: builder.pick('font family', toFontFamily(fonts.sans ?? Object.values(fonts)[0]), 'fontFamily.sans', typographySchema.fontFamily, DEFAULT_THEME.typography.fontFamily),
+    fontSize: builder.pick('base font size', toLength(baseSize), 'fontSize.base', typographySchema.fontSize, DEFAULT_THEME.typography.fontSize),
+    fontWeight: builder.pick('base font weight', toFontWeight(fontWeights.normal), 'fontWeight.normal', typographySchema.fontWeight, DEFAULT_THEME.typography.fontWeight),
+  };
+
+  // Tailwind's `2` step is the conventional 8px base unit
+  const spacingScale = section('spacing');
+  const spacing = builder.spacing(toLength(spacingScale.base ?? spacingScale['2']), toScale(Object.values(spacingScale)));
+
+  return finish(builder, { name, colors, typography, spacing }, 'tailwind');
+}
+
+// ----- W3C design tokens -----
+
+interface DesignToken {
+  path: string[];
+  type?: string;
+  value: unknown;
+}
+
+function flattenTokens(node: Record<string, unknown>, path: string[] = [], inheritedType?: string, tokens: DesignToken[] = []): DesignToken[] {
+  const type = typeof node.$type === 'string' ? node.$type : inheritedType;
+  if ('$value' in node) {
+    tokens.push({ path, type, value: node.$value });
+    return tokens;
+  }
+  for (const [key, child] of Object.entries(node)) {
+    if (!key.startsWith('$') && isRecord(child)) {
+      flattenTokens(child, [...path, key], type, tokens);
+    }
+  }
+  return tokens;
+}
+
+// Follows `{group.token}` references
+function resolveAlias(value: unknown, byPath: Map<string, DesignToken>, depth = 0): unknown {
+  if (typeof value !== 'string' || depth > 10) return value;
+  const match = value.match(/^\{([^}]+)\}$/);
+  if (!match) return value;
+  const target = byPath.get(match[1]);
+  return target ? resolveAlias(target.value, byPath, depth + 1) : undefined;
+}
+
+// Prefers tokens named exactly after the alias, then palette defaults
+// (`primary.500`), then deeper matches
+function findToken(tokens: DesignToken[], names: string[]): DesignToken | undefined {
+  let best: { token: DesignToken; score: number } | undefined;
+  for (const token of tokens) {
+    const segments = token.path.map((segment) => segment.toLowerCase());
+    names.forEach((name, rank) => {
+      const index = segments.lastIndexOf(name);
+      if (index === -1) return;
+      const rest = token.path.slice(index + 1);
+      const shade = rest.length === 1 ? PALETTE_SHADES.indexOf(rest[0]) : -1;
+      const restScore = rest.length === 0 ? 0 : shade !== -1 ? 100 + shade * 10 : 500 + rest.length * 10;
+      const score = rank * 1000 + restScore + segments.length;
+      if (!best || score < best.score) best = { token, score };
+    });
+  }
+  return best?.token;
+}
+
+function tokenColor(value: unknown): unknown {
+  // 2025 color format: { colorSpace, components, hex }
+  return isRecord(value) && typeof value.hex === 'string' ? value.hex : value;
+}
+
+function importDesignTokens(document: Record<string, unknown>, name: string): ThemeImportResult {
+  const tokens = flattenTokens(document);
+  if (tokens.length === 0) {
+    throw new ThemeImportError('No design tokens ($value entries) found in the file.');
+  }
+
+  const byPath = new Map(tokens.map((token) => [token.path.join('.'), token]));
+  const resolved = tokens.map((token) => ({ ...token, value: resolveAlias(token.value, byPath) }));
+  const ofType = (type: string) => resolved.filter((token) => token.type === type);
+  const source = (token: DesignToken | undefined) => token?.path.join('.');
+
+  const builder = new ThemeBuilder();
+  const colorTokens = ofType('color');
+  const colors = {} as ThemeConfig['colors'];
+  for (const key of Object.keys(COLOR_ALIASES) as ColorKey[]) {
+    const token = findToken(colorTokens, COLOR_ALIASES[key]);
+    colors[key] = builder.color(key, token ? tokenColor(token.value) : undefined, source(token));
+  }
+
+  // Composite typography tokens supply anything the single-value tokens miss
+  const composite = findToken(ofType('typography'), ['body', 'base', 'default', 'paragraph']);
+  const compositeValue = isRecord(composite?.value) ? composite!.value as Record<string, unknown> : {};
+  const dimensions = ofType('dimension');
+
+  const fontFamily = findToken(ofType('fontFamily'), ['body', 'sans', 'base', 'default']) ?? ofType('fontFamily')[0];
+  const fontSize = findToken(dimensions.filter((token) => /font.?size/i.test(token.path.join('.'))), ['base', 'body', 'md', 'medium', 'default']);
+  const fontWeight = findToken(ofType('fontWeight'), ['normal', 'regular', 'body', 'base', 'default']);
+  const typography = {
+    fontFamily: builder.pick('font family', toFontFamily(resolveAlias(fontFamily?.value ?? compositeValue.fontFamily, byPath)), source(fontFamily), typographySchema.fontFamily, DEFAULT_THEME.typography.fontFamily),
+    fontSize: builder.pick('base font size', toLength(resolveAlias(fontSize?.value ?? compositeValue.fontSize, byPath)), source(fontSize), typographySchema.fontSize, DEFAULT_THEME.typography.fontSize),
+    fontWeight: builder.pick('base font weight', toFontWeight(resolveAlias(fontWeight?.value ?? compositeValue.fontWeight, byPath)), source(fontWeight), typographySchema.fontWeight, DEFAULT_THEME.typography.fontWeight),
+  };
+
+  const spacingTokens = dimensions.filter((token) => token.path.some((segment) => /spac/i.test(segment)));
+  const spacingBase = findToken(spacingTokens, ['base', 'default', 'md', 'medium']);
+  const spacing = builder.spacing(toLength(spacingBase?.value), toScale(spacingTokens.map((token) => token.value)));
+
+  return finish(builder, { name, colors, typography, spacing }, 'tokens');
+}
+
+// ----- Entry point -----
+
+function finish(builder: ThemeBuilder, theme: ImportedTheme, format: ThemeImportFormat): ThemeImportResult {
+  if (builder.found === 0) {
+    throw new ThemeImportError('No usable colors, fonts or spacing found in the file.');
+  }
+  return { theme, format, warnings: builder.warnings };
+}
+
+function containsDesignTokens(value: unknown): boolean {
+  if (!isRecord(value)) return false;
+  return '$value' in value || Object.values(value).some(containsDesignTokens);
+}
+
+// Maps a Tailwind config (JS, TS or JSON) or a W3C design tokens JSON file
+// into a theme. The format is detected when not given. Values that are
+// missing or not plain colors/lengths fall back to the default theme and are
+// reported as warnings.
+export function importTheme(content: string, options: { format?: ThemeImportFormat; name?: string } = {}): ThemeImportResult {
+  const name = options.name?.trim().slice(0, 100) || 'Imported theme';
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    json = undefined;
+  }
+
+  const format = options.format ?? (containsDesignTokens(json) ? 'tokens' : 'tailwind');
+
+  if (format === 'tokens') {
+    if (!isRecord(json)) {
+      throw new ThemeImportError('Design tokens must be a JSON object.');
+    }
+    return importDesignTokens(json, name);
+  }
+
+  return importTailwindConfig(isRecord(json) ? json : parseTailwindSource(content), name);
+}
@@ -0,0 +1,99 @@
+import type Stripe from 'stripe';
+import { type SubscriptionSyncContext, syncSubscription } from '../billing/subscriptions';
+
+// Everything handlers touch, passed in so they can run against mocks
+export interface WebhookContext {
+  stripe: {
+    subscriptions: Pick<Stripe.SubscriptionsResource, 'retrieve'>;
+    checkout: { sessions: Pick<Stripe.Checkout.SessionsResource, 'listLineItems'> };
+  };
+  storage: SubscriptionSyncContext['storage'];
+}
+
+export type StripeEventHandler<T extends Stripe.Event.Type = Stripe.Event.Type> = (
+  event: Extract<Stripe.Event, { type: T }>,
+  context: WebhookContext,
+) => Promise<void>;
+
+// Fulfillment helper function for checkout sessions
+async function fulfillCheckoutSession(session: Stripe.Checkout.Session, context: WebhookContext) {
+  const firebaseId = session.metadata?.firebaseId;
+  if (!firebaseId) {
+    console.error('[Webhook] No firebase ID in session metadata');
+    return;
+  }
+
+  // Handle subscription completion
+  if (session.mode === 'subscription' && session.subscription) {
+    // Store the new subscription and its status on the user
+    const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription.id;
+    await syncSubscription(subscriptionId, context, firebaseId);
+
+    // Optional: Send confirmation email, update user permissions, etc.
+    // await sendSubscriptionConfirmationEmail(firebaseId);
+
+  } else if (session.mode === 'payment' && session.payment_intent) {
+    // Handle one-time payment fulfillment
+    // You can add custom logic here based on what was purchased
+    const lineItems = await context.stripe.checkout.sessions.listLineItems(session.id, {
+      expand: ['data.price.product']
+    });
+
+    // Optional: Process specific products, send digital goods, etc.
+    // await processOneTimePayment(firebaseId, lineItems);
+  }
+}
+
+function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | undefined {
+  if (!invoice.subscription) {
+    return undefined;
+  }
+  return typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
+}
+
+// Subscription events only say that something changed; the current state
+// is fetched from Stripe by syncSubscription
+async function syncEventSubscription(event: { data: { object: Stripe.Subscription } }, context: WebhookContext) {
+  await syncSubscription(event.data.object.id, context);
+}
+
+// One handler per event type. Event types without one are recorded as ignored.
+export const stripeEventHandlers: { [T in Stripe.Event.Type]?: StripeEventHandler<T> } = {
+  // New Checkout Session events
+  'checkout.session.completed': async (event, context) => {
+    // Only fulfill if payment was successful
+    if (event.data.object.payment_status === 'paid') {
+      await fulfillCheckoutSession(event.data.object, context);
+    }
+  },
+
+  'checkout.session.expired': async (event) => {
+    console.log('[Webhook] Checkout session expired:', event.data.object.id);
+    // Optional: Handle expired sessions (analytics, follow-up emails, etc.)
+  },
+
+  // Subscription lifecycle events: status, period end, cancellation and trial
+  'customer.subscription.created': syncEventSubscription,
+  'customer.subscription.updated': syncEventSubscription,
+  'customer.subscription.deleted': syncEventSubscription,
+
+  // Invoice events (for subscription billing)
+  'invoice.payment_succeeded': async (event, context) => {
+    // Renewals move the period end, and a late payment ends the grace period
+    const subscriptionId = getInvoiceSubscriptionId(event.data.object);
+    if (subscriptionId) {
+      await syncSubscription(subscriptionId, context);
+    }
+  },
+
+  'invoice.payment_failed': async (event, context) => {
+    console.log('[Webhook] Invoice payment failed:', event.data.object.id);
+
+    // The subscription turns past_due and keeps Pro for the grace period
+    // while Stripe retries the payment
+    const subscriptionId = getInvoiceSubscriptionId(event.data.object);
+    if (subscriptionId) {
+      await syncSubscription(subscriptionId, context);
+    }
+  },
+};
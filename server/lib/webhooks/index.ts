@@ -0,0 +1,61 @@
+import type Stripe from 'stripe';
+import type { IStorage } from '../../storage/index';
+import { stripeEventHandlers, type StripeEventHandler, type WebhookContext } from './handlers';
+
+export { stripeEventHandlers, type StripeEventHandler, type WebhookContext } from './handlers';
+
+// Handlers' context plus the stripe_events log
+export interface EventProcessingContext extends WebhookContext {
+  storage: WebhookContext['storage'] & Pick<IStorage, 'claimStripeEvent' | 'claimRetryableStripeEvent' | 'completeStripeEvent' | 'failStripeEvent' | 'getStripeEventById'>;
+}
+
+// in_progress: another delivery of the event is being handled right now
+export type EventProcessingResult = 'processed' | 'ignored' | 'duplicate' | 'in_progress';
+
+// Runs the event's handler and records the outcome. A failure is recorded
+// and rethrown, so the webhook answers 500 and Stripe delivers the event again.
+async function runHandler(event: Stripe.Event, context: EventProcessingContext): Promise<'processed' | 'ignored'> {
+  const handler = stripeEventHandlers[event.type] as StripeEventHandler | undefined;
+
+  try {
+    await handler?.(event, context);
+  } catch (error) {
+    console.error(`[Webhook] Error processing ${event.type} event ${event.id}:`, error);
+    await context.storage.failStripeEvent(event.id, error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+
+  const status = handler ? 'processed' : 'ignored';
+  await context.storage.completeStripeEvent(event.id, status);
+  return status;
+}
+
+// Records a verified webhook event and handles it once. Deliveries of an
+// event that was already handled are skipped. Ones that arrive while it is
+// being handled are reported as in_progress, so the webhook doesn't
+// acknowledge an event whose handling might still be lost to a crash.
+export async function processStripeEvent(event: Stripe.Event, context: EventProcessingContext): Promise<EventProcessingResult> {
+  const claimed = await context.storage.claimStripeEvent(event.id, event.type, event as unknown as Record<string, unknown>);
+  if (!claimed) {
+    const existing = await context.storage.getStripeEventById(event.id);
+    if (existing?.status === 'processing') {
+      console.log('[Webhook] Event is still being processed:', event.id);
+      return 'in_progress';
+    }
+    console.log('[Webhook] Skipping duplicate event:', event.id);
+    return 'duplicate';
+  }
+
+  return runHandler(event, context);
+}
+
+// Handles a failed or stuck event again from its stored payload. Returns
+// undefined when the event is neither.
+export async function retryStripeEvent(id: string, context: EventProcessingContext): Promise<'processed' | 'ignored' | undefined> {
+  const claimed = await context.storage.claimRetryableStripeEvent(id);
+  if (!claimed) {
+    return undefined;
+  }
+
+  return runHandler(claimed.payload as unknown as Stripe.Event, context);
+}
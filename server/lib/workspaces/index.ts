@@ -0,0 +1,67 @@
+import type { NextFunction, Request, Response } from 'express';
+import type { Component, Workspace, WorkspaceMember, WorkspaceRole } from '@shared/schema';
+import { storage } from '../../storage/index';
+import { getUserId } from '../auth';
+
+export { createInvitationToken, getInvitationError, getInvitationExpiry, INVITATION_TTL_DAYS } from './invitations';
+
+export const EDITOR_ROLES: readonly WorkspaceRole[] = ['owner', 'editor'];
+
+export function canEditComponents(role: WorkspaceRole | undefined): boolean {
+  return role !== undefined && EDITOR_ROLES.includes(role);
+}
+
+// Personal components can only be changed by their creator, workspace
+// components by the workspace's owners and editors
+export async function canEditComponent(component: Pick<Component, 'userId' | 'workspaceId'>, userId: string): Promise<boolean> {
+  if (component.workspaceId === null) {
+    return component.userId === userId;
+  }
+  const member = await storage.getWorkspaceMember(component.workspaceId, userId);
+  return canEditComponents(member?.role);
+}
+
+export interface WorkspaceAccess {
+  workspace: Workspace;
+  member: WorkspaceMember;
+}
+
+// Loads the workspace in req.params.id for a member with one of the roles;
+// use after requireAuth. Non-members get a 404 so workspace ids don't leak.
+export function requireWorkspaceRole(...roles: WorkspaceRole[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const workspaceId = Number(req.params.id);
+    if (!Number.isInteger(workspaceId) || workspaceId < 1) {
+      return res.status(400).json({ error: "Invalid workspace ID" });
+    }
+
+    try {
+      const [workspace, member] = await Promise.all([
+        storage.getWorkspaceById(workspaceId),
+        storage.getWorkspaceMember(workspaceId, getUserId(req)),
+      ]);
+      if (!workspace || !member) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (roles.length > 0 && !roles.includes(member.role)) {
+        return res.status(403).json({ error: `Only workspace ${roles.map(role => `${role}s`).join(' and ')} can do this` });
+      }
+
+      const access: WorkspaceAccess = { workspace, member };
+      res.locals.workspaceAccess = access;
+    } catch (error) {
+      console.error("Error checking workspace membership:", error);
+      return res.status(500).json({ error: "Failed to check workspace membership" });
+    }
+
+    next();
+  };
+}
+
+// The workspace and membership loaded by requireWorkspaceRole
+export function getWorkspaceAccess(res: Response): WorkspaceAccess {
+  if (!res.locals.workspaceAccess) {
+    throw new Error('getWorkspaceAccess() called on a route without requireWorkspaceRole');
+  }
+  return res.locals.workspaceAccess;
+}
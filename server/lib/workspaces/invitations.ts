@@ -0,0 +1,39 @@
+import { randomBytes } from 'crypto';
+import type { WorkspaceInvitation } from '@shared/schema';
+import type { AuthUser } from '../auth';
+
+// Days an invitation link stays valid
+export const INVITATION_TTL_DAYS = 7;
+
+export function createInvitationToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function getInvitationExpiry(now = new Date()): Date {
+  return new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Why the user can't accept the invitation, or undefined if they can. Only
+// the invited address may accept, and only once its owner verified it, so
+// neither a forwarded link nor an account registered with that address is
+// of any use.
+export function getInvitationError(
+  invitation: Pick<WorkspaceInvitation, 'email' | 'expiresAt' | 'acceptedAt'>,
+  user: Pick<AuthUser, 'email' | 'emailVerified'> | undefined,
+  now = new Date(),
+): string | undefined {
+  const email = user?.email;
+  if (invitation.acceptedAt) {
+    return 'This invitation has already been accepted.';
+  }
+  if (invitation.expiresAt <= now) {
+    return 'This invitation has expired. Ask the workspace owner for a new one.';
+  }
+  if (!email || email.trim().toLowerCase() !== invitation.email.toLowerCase()) {
+    return `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`;
+  }
+  if (!user?.emailVerified) {
+    return `Verify ${invitation.email} before accepting this invitation.`;
+  }
+  return undefined;
+}
@@ -0,0 +1,137 @@
+import type { Express } from "express";
+import Stripe from "stripe";
+import { STRIPE_EVENT_STATUSES, type StripeEventStatus } from "@shared/schema";
+import { requireAdmin, requireAuth } from "../lib/auth";
+import { retryStripeEvent } from "../lib/webhooks";
+import { storage } from "../storage/index";
+import { AI_USAGE_GROUPS, type AIUsageGroup } from "../storage/AIGenerationStorage";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+  apiVersion: "2025-01-27.acacia",
+});
+
+const STRIPE_EVENTS_LIMIT = 100;
+
+function parseDate(value: unknown): Date | undefined | null {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function registerAdminRoutes(app: Express) {
+  // GET /api/admin/ai-usage?from=2026-10-01&to=2026-11-01&groupBy=user,day,model
+  // Generations, tokens and cost of AI requests, grouped by any of user, day and model
+  app.get("/api/admin/ai-usage", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const from = parseDate(req.query.from);
+      const to = parseDate(req.query.to);
+      if (from === null || to === null) {
+        return res.status(400).json({ error: "from and to must be dates" });
+      }
+
+      const groupBy = (req.query.groupBy?.toString() ?? AI_USAGE_GROUPS.join(",")).split(",").filter(Boolean);
+      const invalidGroup = groupBy.find((group) => !(AI_USAGE_GROUPS as readonly string[]).includes(group));
+      if (invalidGroup) {
+        return res.status(400).json({ error: `groupBy must be a comma separated list of ${AI_USAGE_GROUPS.join(", ")}` });
+      }
+
+      const rows = await storage.getAIUsageReport({ from, to, groupBy: groupBy as AIUsageGroup[] });
+      const totals = rows.reduce(
+        (sum, row) => ({
+          generations: sum.generations + row.generations,
+          failures: sum.failures + row.failures,
+          promptTokens: sum.promptTokens + row.promptTokens,
+          completionTokens: sum.completionTokens + row.completionTokens,
+          costUsd: sum.costUsd + row.costUsd,
+        }),
+        { generations: 0, failures: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 },
+      );
+
+      res.json({
+        message: "AI usage report retrieved successfully",
+        from,
+        to,
+        groupBy,
+        rows,
+        totals,
+      });
+    } catch (error) {
+      console.error("Error building AI usage report:", error);
+      res.status(500).json({
+        message: "Failed to build AI usage report",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/admin/stripe-events?status=failed - The latest webhook events, optionally by status
+  app.get("/api/admin/stripe-events", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status?.toString();
+      if (status !== undefined && !(STRIPE_EVENT_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ error: `status must be one of ${STRIPE_EVENT_STATUSES.join(", ")}` });
+      }
+
+      const events = await storage.getStripeEvents(status as StripeEventStatus | undefined, STRIPE_EVENTS_LIMIT);
+      res.json({
+        message: "Stripe events retrieved successfully",
+        events,
+      });
+    } catch (error) {
+      console.error("Error fetching Stripe events:", error);
+      res.status(500).json({
+        message: "Failed to fetch Stripe events",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/admin/stripe-events/:id - One webhook event with its payload
+  app.get("/api/admin/stripe-events/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const event = await storage.getStripeEventById(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Stripe event not found" });
+      }
+
+      res.json({
+        message: "Stripe event retrieved successfully",
+        event,
+      });
+    } catch (error) {
+      console.error("Error fetching Stripe event:", error);
+      res.status(500).json({
+        message: "Failed to fetch Stripe event",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/admin/stripe-events/:id/retry - Runs a failed event's handler
+  // again, or a stuck one's that has been processing for 5 minutes
+  app.post("/api/admin/stripe-events/:id/retry", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getStripeEventById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Stripe event not found" });
+      }
+
+      const result = await retryStripeEvent(existing.id, { stripe, storage });
+      if (!result) {
+        return res.status(409).json({ error: `Only failed events, or ones stuck processing for 5 minutes, can be retried. This one is ${existing.status}.` });
+      }
+
+      res.json({
+        message: "Stripe event retried successfully",
+        event: await storage.getStripeEventById(existing.id),
+      });
+    } catch (error) {
+      // The failure is recorded on the event, which stays retryable
+      console.error("Error retrying Stripe event:", error);
+      res.status(500).json({
+        message: "Failed to retry Stripe event",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+}
@@ -1,25 +1,20 @@
 import type { Express, Request, Response } from "express";
-import { generateText } from 'ai';
-import { openai } from '@ai-sdk/openai';
-import { anthropic } from '@ai-sdk/anthropic';
-import { vercel } from '@ai-sdk/vercel';
-
-// Provider factory based on environment
-function getAIProvider() {
-  const vercelKey = process.env.VERCEL_API_KEY;
-  const openaiKey = process.env.OPENAI_API_KEY;
-  const anthropicKey = process.env.ANTHROPIC_API_KEY;
-  
-  if (vercelKey) {
-    return vercel('v0-1.0-md');
-  } else if (openaiKey) {
-    return openai('gpt-4o');
-  } else if (anthropicKey) {
-    return anthropic('claude-3-5-sonnet-20241022');
-  } else {
-    throw new Error('No AI provider API key found. Please set VERCEL_API_KEY, OPENAI_API_KEY or ANTHROPIC_API_KEY environment variable.');
-  }
-}
+import { type CoreMessage, generateText, streamText } from 'ai';
+import { type AIOperation, FRAMEWORKS, type Framework } from '@shared/schema';
+import { themeConfigSchema, type ThemeConfig } from '@shared/themes';
+import { storage } from '../storage/index';
+import { getUserId, requireAuth } from '../lib/auth';
+import { enforceGenerationQuota, MAX_VARIANTS, releasePartialUsage, releaseReservedUsage } from '../lib/entitlements';
+import { RATE_LIMITS, rateLimit } from '../lib/rateLimit';
+import { canEditComponent } from '../lib/workspaces';
+import { ComponentStreamParser } from '../lib/ai/streamParser';
+import { getRepairOptions, parseWithRepair, type RepairOptions } from '../lib/ai/repair';
+import { getValidationOptions, validateWithFix, type ValidationOptions, type ValidationResult } from '../lib/ai/validation';
+import { buildHistoryMessages } from '../lib/ai/history';
+import { buildConversionPrompt, generateSystemPrompt, getFrameworkLabel } from '../lib/ai/frameworks';
+import { type AttemptErrorClass, type GenerationAttempt, GenerationFailedError, getFallbackChain, getFallbackOptions, runWithFallback } from '../lib/ai/fallback';
+import { classifyGenerationError, GenerationMeter } from '../lib/ai/metering';
+import { type AIModelConfig, createLanguageModel, getAvailableModels, getDefaultModel, isProviderConfigured, ModelSelectionError, resolveModel } from '../lib/ai/providers';
 
 interface GenerationRequest {
   prompt: string;
@@ -29,116 +24,51 @@ interface GenerationRequest {
   originalCreatedAt?: string;
   originalVersion?: number;
   image?: string; // Base64 encoded image data
+  model?: string; // Model id from the provider registry, defaults to the configured default
+  sessionId?: number; // Generation session whose earlier turns are sent as context
+  userId: string; // Authenticated user; owns the session
+  variants?: number; // Number of candidates to generate in parallel (1-4)
+  variantModels?: string[]; // Model ids cycled across the variants, defaults to `model`
+  framework?: Framework; // Output framework, defaults to react
+  theme?: ThemeConfig; // Selected theme, sent to the model as design tokens
 }
 
-function generateSystemPrompt(hasImage: boolean = false): string {
-  const basePrompt = `You are an expert React and Tailwind CSS developer. Your task is to generate or modify React functional components.
-You MUST follow these rules:
-1. The generated code must be a single React functional component.
-2. React hooks (useState, useEffect, useCallback, useMemo, useRef) are available globally - you can use them directly without imports.
-3. Do NOT include any import statements (React, useState, etc.) - they are provided in the runtime environment.
-4. Style components using Tailwind CSS with inline styles where needed for custom styling.
-5. Use a modern, clean design with good spacing, typography, and visual hierarchy.
-6. The component code should be self-contained and renderable without any external dependencies.
-7. After the component function definition, you MUST include a \`render()\` call to display an example of the component. For example: \`render(<MyComponent prop1="example" />);\`. If the component takes no props, use \`render(<MyComponent />);\`.
-8. Ensure the component is responsive and accessible where appropriate.
-9. Structure your response using the XML format specified in the user's prompt.
-10. IMPORTANT: Event handlers like onClick, onChange, onSubmit should use arrow function syntax: \`(e) => { ... }\` or \`() => { ... }\`.
-11. **LIGHT THEME BY DEFAULT**: Generate components with light themes unless specifically requested otherwise. Use light backgrounds (white, gray-50, gray-100) and dark text (gray-900, gray-800, gray-700). For accent colors, use bright, vibrant colors that work well on light backgrounds.
-12. **Color Guidelines**: 
-    - Primary backgrounds: bg-white, bg-gray-50, bg-gray-100
-    - Text colors: text-gray-900, text-gray-800, text-gray-700
-    - Accent colors: Use vibrant colors like blue-600, indigo-600, green-600, purple-600, etc.
-    - Borders: border-gray-200, border-gray-300
-    - Hover states: hover:bg-gray-100, hover:bg-gray-200
-13. Use appropriate spacing and styling to make the component visually appealing and functional with the light theme aesthetic.`;
-
-  if (hasImage) {
-    return basePrompt + `
-
-**IMAGE ANALYSIS INSTRUCTIONS**:
-14. **ANALYZE THE PROVIDED IMAGE CAREFULLY**: Study the image to understand the layout, design patterns, colors, typography, spacing, and interactive elements.
-15. **RECREATE EXACTLY**: Generate a React component that matches the image as closely as possible. Pay attention to:
-    - Layout and positioning of elements
-    - Colors, fonts, and sizing
-    - Spacing and margins/padding
-    - Interactive elements (buttons, inputs, etc.)
-    - Overall visual hierarchy and design
-16. **PRESERVE DESIGN INTENT**: If the image shows a dark theme, recreate it as dark. If it shows specific colors, match them closely using Tailwind classes or custom styles.
-17. **EXTRACT TEXT CONTENT**: Use any visible text from the image in your component (for labels, headings, placeholder text, etc.).
-18. **INFER FUNCTIONALITY**: Based on the UI elements visible, implement appropriate interactive behavior (forms, buttons, navigation, etc.).`;
-  }
-  
-  return basePrompt;
+interface ConversionRequest {
+  componentId: string;
+  framework: Framework; // Target framework of the converted copy
+  model?: string;
 }
 
-function parseAIResponse(xmlString: string, isEdit: boolean): { name: string; description: string; code: string } {
-  try {
-    console.log("Parsing AI response XML (first 200 chars):", xmlString.substring(0, 200) + "...");
-
-    const nameMatch = xmlString.match(
-      isEdit ? /<component_edit>[\s\S]*?<name>(.*?)<\/name>/ : /<component>[\s\S]*?<name>(.*?)<\/name>/
-    );
-    const descriptionMatch = xmlString.match(
-      isEdit
-        ? /<component_edit>[\s\S]*?<description>(.*?)<\/description>/
-        : /<component>[\s\S]*?<description>(.*?)<\/description>/
-    );
-    const codeMatch = xmlString.match(
-      isEdit ? /<component_edit>[\s\S]*?<code>([\s\S]*?)<\/code>/ : /<component>[\s\S]*?<code>([\s\S]*?)<\/code>/
-    );
-
-    if (!nameMatch || !descriptionMatch || !codeMatch) {
-      console.error("Failed to parse AI response XML. Full response:", xmlString);
-      throw new Error("Invalid XML structure from AI. Check console for full response.");
-    }
+// Checked before quotas so a client stuck in a loop is stopped without using them up
+const limitGenerations = [rateLimit(RATE_LIMITS.aiGeneration), rateLimit(RATE_LIMITS.aiGenerationByIp)];
 
-    let code = codeMatch[1].trim();
-    
-    // Remove CDATA wrapper if present
-    code = code.replace(/^<!\[CDATA\[/, '').replace(/\]\]>$/, '');
-    
-    // Remove markdown code blocks if present
-    code = code.replace(/^```(jsx?|javascript)?\n/, "").replace(/\n```$/, "");
-    
-    // Clean up any remaining whitespace
-    code = code.trim();
-
-    return {
-      name: nameMatch[1].trim(),
-      description: descriptionMatch[1].trim(),
-      code: code,
-    };
-  } catch (error) {
-    console.error("Error parsing AI XML:", error);
-    throw new Error("Could not parse component data from AI's response.");
-  }
+// Variants are spread over these temperatures so candidates actually differ
+const VARIANT_TEMPERATURES = [0.7, 1.0, 0.4, 0.85];
+
+function isFramework(value: unknown): value is Framework {
+  return typeof value === 'string' && (FRAMEWORKS as readonly string[]).includes(value);
 }
 
-export async function registerAIRoutes(app: Express) {
-  // Component generation endpoint
-  app.post('/api/ai/generate-component', async (req: Request, res: Response) => {
-    try {
-      const request: GenerationRequest = req.body;
+class SessionNotFoundError extends Error {
+  status = 404;
 
-      if (!request || typeof request.prompt !== "string") {
-        return res.status(400).json({
-          error: "Invalid request: prompt (string) is required."
-        });
-      }
+  constructor() {
+    super('Generation session not found');
+    this.name = 'SessionNotFoundError';
+  }
+}
 
-      const model = getAIProvider();
-      
-      let userPrompt: string | Array<any>;
-      const hasImage = !!request.image;
+function buildUserPrompt(request: GenerationRequest): string | Array<any> {
+  let userPrompt: string | Array<any>;
+  const hasImage = !!request.image;
 
-      if (request.targetComponent && request.originalComponentCode) {
-        // Edit existing component
-        if (hasImage) {
-          userPrompt = [
-            {
-              type: "text",
-              text: `
+  if (request.targetComponent && request.originalComponentCode) {
+    // Edit existing component
+    if (hasImage) {
+      userPrompt = [
+        {
+          type: "text",
+          text: `
 <request type="edit_component">
   <original_code><![CDATA[${request.originalComponentCode}]]></original_code>
   <edit_instruction>${request.prompt}</edit_instruction>
@@ -147,14 +77,14 @@ export async function registerAIRoutes(app: Express) {
   Your output MUST be in the following XML format:
   <component_edit><name>...</name><description>...</description><code><![CDATA[...]]></code></component_edit>
 </request>`
-            },
-            {
-              type: "image",
-              image: request.image
-            }
-          ];
-        } else {
-          userPrompt = `
+        },
+        {
+          type: "image",
+          image: request.image
+        }
+      ];
+    } else {
+      userPrompt = `
 <request type="edit_component">
   <original_code><![CDATA[${request.originalComponentCode}]]></original_code>
   <edit_instruction>${request.prompt}</edit_instruction>
@@ -162,14 +92,14 @@ export async function registerAIRoutes(app: Express) {
   Your output MUST be in the following XML format:
   <component_edit><name>...</name><description>...</description><code><![CDATA[...]]></code></component_edit>
 </request>`;
-        }
-      } else {
-        // Generate new component
-        if (hasImage) {
-          userPrompt = [
-            {
-              type: "text",
-              text: `
+    }
+  } else {
+    // Generate new component
+    if (hasImage) {
+      userPrompt = [
+        {
+          type: "text",
+          text: `
 <request type="new_component">
   <description_prompt>${request.prompt}</description_prompt>
   <image_analysis>Analyze the provided image and recreate the exact UI/component shown. Match the design, layout, colors, typography, and functionality as closely as possible.</image_analysis>
@@ -177,79 +107,554 @@ export async function registerAIRoutes(app: Express) {
   Your output MUST be in the following XML format:
   <component><name>...</name><description>...</description><code><![CDATA[...]]></code></component>
 </request>`
-            },
-            {
-              type: "image",
-              image: request.image
-            }
-          ];
-        } else {
-          userPrompt = `
+        },
+        {
+          type: "image",
+          image: request.image
+        }
+      ];
+    } else {
+      userPrompt = `
 <request type="new_component">
   <description_prompt>${request.prompt}</description_prompt>
   <thinking_process>...</thinking_process>
   Your output MUST be in the following XML format:
   <component><name>...</name><description>...</description><code><![CDATA[...]]></code></component>
 </request>`;
+    }
+  }
+
+  return userPrompt;
+}
+
+function buildGeneratedComponent(
+  request: GenerationRequest,
+  parsed: { name: string; description: string; code: string },
+  validation: ValidationResult,
+  servedBy: AIModelConfig,
+  requested: AIModelConfig,
+  attempts: GenerationAttempt[],
+) {
+  return {
+    id: request.targetComponent || `comp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: parsed.name,
+    description: parsed.description,
+    code: parsed.code,
+    prompt: request.prompt,
+    createdAt: request.targetComponent ? new Date(request.originalCreatedAt || Date.now()) : new Date(),
+    updatedAt: new Date(),
+    version: request.targetComponent ? (request.originalVersion || 0) + 1 : 1,
+    framework: request.framework ?? 'react',
+    model: servedBy.id,
+    provider: servedBy.provider,
+    servedByFallback: servedBy.id !== requested.id,
+    attempts,
+    validation,
+  };
+}
+
+// Asks the same model to correct output that could not be parsed or failed
+// validation, keeping the original request and its answer in the conversation
+function createRepairFn(model: AIModelConfig, request: GenerationRequest, messages: CoreMessage[], abortSignal: AbortSignal, meter: GenerationMeter) {
+  return async (brokenText: string, repairPrompt: string) => {
+    const { text, usage } = await generateText({
+      model: createLanguageModel(model),
+      system: generateSystemPrompt(request.framework, !!request.image, request.theme),
+      messages: [
+        ...messages,
+        { role: 'assistant', content: brokenText },
+        { role: 'user', content: repairPrompt },
+      ],
+      maxTokens: model.maxTokens,
+      temperature: 0.2,
+      maxRetries: 0,
+      abortSignal,
+    });
+    meter.add(model, usage);
+    return text;
+  };
+}
+
+// Turns raw model output into a validated component: parses it (asking the
+// model to repair unparsable output) and then asks it to fix compile errors
+async function finalizeOutput(
+  text: string,
+  request: GenerationRequest,
+  model: AIModelConfig,
+  messages: CoreMessage[],
+  abortSignal: AbortSignal,
+  meter: GenerationMeter,
+  hooks: { onRepair?: RepairOptions['onRepair']; onFix?: ValidationOptions['onFix'] } = {},
+) {
+  const isEdit = !!request.targetComponent;
+  const framework = request.framework ?? 'react';
+  const repairFn = createRepairFn(model, request, messages, abortSignal, meter);
+  const repairOptions = { ...getRepairOptions(), onRepair: hooks.onRepair };
+
+  const parsed = await parseWithRepair(text, isEdit, repairFn, repairOptions, framework);
+  return validateWithFix(
+    parsed,
+    isEdit,
+    async (previousText, fixPrompt) => parseWithRepair(await repairFn(previousText, fixPrompt), isEdit, repairFn, repairOptions, framework),
+    { ...getValidationOptions(), onFix: hooks.onFix },
+    framework,
+  );
+}
+
+// Builds the conversation for a request: the session's earlier turns (if any)
+// followed by the new prompt
+async function buildMessages(request: GenerationRequest): Promise<CoreMessage[]> {
+  const latestTurn: CoreMessage = { role: 'user', content: buildUserPrompt(request) };
+  if (request.sessionId === undefined) {
+    return [latestTurn];
+  }
+
+  const session = await storage.getSessionById(request.sessionId, request.userId);
+  if (!session) {
+    throw new SessionNotFoundError();
+  }
+  const history = buildHistoryMessages(await storage.getSessionMessages(session.id));
+  return [...history, latestTurn];
+}
+
+// Records a successful generation as a user/assistant turn of its session
+async function recordSessionTurn(request: GenerationRequest, component: ReturnType<typeof buildGeneratedComponent>) {
+  if (request.sessionId === undefined) {
+    return;
+  }
+
+  try {
+    await storage.addSessionMessages(request.sessionId, [
+      { role: 'user', content: request.prompt },
+      {
+        role: 'assistant',
+        content: component.description,
+        code: component.code,
+        componentId: component.id,
+        componentName: component.name,
+        model: component.model,
+      },
+    ]);
+  } catch (error) {
+    // The component itself was generated fine, so don't fail the request
+    console.error("Failed to record session turn:", error);
+  }
+}
+
+type GenerationOutcome =
+  | { model: AIModelConfig; attempts: GenerationAttempt[]; componentId: string }
+  | { error: unknown; requested: AIModelConfig; cancelled?: boolean };
+
+// Records the tokens, cost and outcome of one generation in ai_generations
+async function recordGeneration(request: GenerationRequest, operation: AIOperation, meter: GenerationMeter, outcome: GenerationOutcome) {
+  const attempts = 'error' in outcome
+    ? (outcome.error instanceof GenerationFailedError ? outcome.error.attempts : [])
+    : outcome.attempts;
+  // A failed generation is attributed to the last model it tried
+  const lastAttempt = attempts[attempts.length - 1];
+  const servedBy = 'error' in outcome
+    ? { provider: lastAttempt?.provider ?? outcome.requested.provider, model: lastAttempt?.model ?? outcome.requested.id }
+    : { provider: outcome.model.provider, model: outcome.model.id };
+
+  try {
+    await storage.createAIGeneration({
+      userId: request.userId,
+      operation,
+      ...servedBy,
+      promptTokens: meter.promptTokens,
+      completionTokens: meter.completionTokens,
+      costUsd: meter.costUsd,
+      latencyMs: meter.latencyMs,
+      hadImage: !!request.image,
+      status: 'error' in outcome ? 'error' : 'success',
+      errorClass: 'error' in outcome ? classifyGenerationError(outcome.error, outcome.cancelled) : null,
+      attempts: Math.max(attempts.length, 1),
+      componentId: 'error' in outcome ? null : outcome.componentId,
+    });
+  } catch (error) {
+    // Accounting must never fail the generation itself
+    console.error("Failed to record AI generation:", error);
+  }
+}
+
+// One generation through the fallback chain, from prompt to validated
+// component, recorded in ai_generations whether it succeeds or not
+async function generateComponentOnce(
+  request: GenerationRequest,
+  operation: AIOperation,
+  modelConfig: AIModelConfig,
+  messages: CoreMessage[],
+  temperature: number,
+) {
+  const hasImage = !!request.image;
+  const chain = getFallbackChain(modelConfig, { requiresImages: hasImage });
+  const meter = new GenerationMeter();
+
+  const { result, model: servedBy, attempts } = await runWithFallback(chain, async (model, abortSignal) => {
+    console.log(`Generating component with ${model.id}...`, hasImage ? "(with image)" : "(text only)");
+
+    const { text, usage } = await generateText({
+      model: createLanguageModel(model),
+      system: generateSystemPrompt(request.framework, hasImage, request.theme),
+      messages,
+      maxTokens: model.maxTokens,
+      temperature,
+      maxRetries: 0, // Retries are handled by the fallback chain
+      abortSignal,
+    });
+    meter.add(model, usage);
+
+    console.log("AI generation successful. Parsing response...");
+    return finalizeOutput(text, request, model, messages, abortSignal, meter);
+  }, getFallbackOptions()).catch(async (error) => {
+    await recordGeneration(request, operation, meter, { error, requested: modelConfig });
+    throw error;
+  });
+
+  const component = buildGeneratedComponent(request, result.component, result.validation, servedBy, modelConfig, attempts);
+  await recordGeneration(request, operation, meter, { model: servedBy, attempts, componentId: component.id });
+  return component;
+}
+
+function buildErrorPayload(error: unknown) {
+  return {
+    error: "Failed to generate component. Please try again.",
+    details: error instanceof Error ? error.message : "Unknown error",
+    attempts: error instanceof GenerationFailedError ? error.attempts : [],
+    diagnostics: error instanceof GenerationFailedError ? error.diagnostics : undefined,
+  };
+}
+
+function describeRetry(model: AIModelConfig, attempt: number, reason: AttemptErrorClass): string {
+  return attempt > 1
+    ? `Retrying ${model.label} (attempt ${attempt}) after ${reason.replace('_', ' ')}...`
+    : `Falling back to ${model.label} after ${reason.replace('_', ' ')}...`;
+}
+
+export async function registerAIRoutes(app: Express) {
+  // Component generation endpoint
+  app.post('/api/ai/generate-component', requireAuth, ...limitGenerations, enforceGenerationQuota, async (req: Request, res: Response) => {
+    try {
+      const request: GenerationRequest = { ...req.body, userId: getUserId(req) };
+
+      if (typeof request.prompt !== "string") {
+        return res.status(400).json({
+          error: "Invalid request: prompt (string) is required."
+        });
+      }
+
+      if (request.framework !== undefined && !isFramework(request.framework)) {
+        return res.status(400).json({
+          error: `Invalid request: framework must be one of ${FRAMEWORKS.join(', ')}.`
+        });
+      }
+
+      if (request.theme !== undefined && !themeConfigSchema.safeParse(request.theme).success) {
+        return res.status(400).json({
+          error: "Invalid request: theme is not a valid theme configuration."
+        });
+      }
+
+      const hasImage = !!request.image;
+      const modelConfig = resolveModel(request.model, { requiresImages: hasImage });
+
+      if (request.variants !== undefined) {
+        const count = Number(request.variants);
+        if (!Number.isInteger(count) || count < 1 || count > MAX_VARIANTS) {
+          return res.status(400).json({
+            error: `Invalid request: variants must be an integer between 1 and ${MAX_VARIANTS}.`
+          });
         }
+
+        const variantModels = (request.variantModels ?? []).map((id) => resolveModel(id, { requiresImages: hasImage }));
+        const messages = await buildMessages(request);
+
+        const results = await Promise.allSettled(Array.from({ length: count }, async (_, index) => {
+          const model = variantModels.length > 0 ? variantModels[index % variantModels.length] : modelConfig;
+          const temperature = VARIANT_TEMPERATURES[index % VARIANT_TEMPERATURES.length];
+          const component = await generateComponentOnce(request, 'variant', model, messages, temperature);
+          return { ...component, variant: { index, temperature } };
+        }));
+
+        const variants = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+        const failures = results.flatMap((result, index) => (result.status === 'rejected' ? [{ index, ...buildErrorPayload(result.reason) }] : []));
+        if (variants.length === 0) {
+          const firstFailure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+          throw firstFailure?.reason;
+        }
+
+        // Failed variants don't count against the quota
+        if (failures.length > 0) {
+          await releasePartialUsage(res, 'generations', failures.length)
+            .catch((releaseError) => console.error("Failed to release usage:", releaseError));
+        }
+
+        // The session turn is recorded once the user picks a variant
+        console.log(`Generated ${variants.length}/${count} variants`);
+        return res.json({ variants, failures });
       }
 
-      console.log("Generating component with AI SDK...", hasImage ? "(with image)" : "(text only)");
-      
-      const { text } = await generateText({
-        model,
-        system: generateSystemPrompt(hasImage),
-        messages: [
-          {
-            role: 'user',
-            content: userPrompt
+      const messages = await buildMessages(request);
+      const component = await generateComponentOnce(request, 'generate', modelConfig, messages, 0.7);
+      await recordSessionTurn(request, component);
+
+      console.log("Component generation successful:", component.name, `(served by ${component.model})`);
+      res.json(component);
+
+    } catch (error) {
+      if (error instanceof ModelSelectionError || error instanceof SessionNotFoundError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+
+      console.error("Component generation error:", error);
+      res.status(500).json(buildErrorPayload(error));
+    }
+  });
+
+  // Streaming component generation over Server-Sent Events
+  app.post('/api/ai/generate-component/stream', requireAuth, ...limitGenerations, enforceGenerationQuota, async (req: Request, res: Response) => {
+    const request: GenerationRequest = { ...req.body, userId: getUserId(req) };
+
+    if (typeof request.prompt !== "string") {
+      return res.status(400).json({
+        error: "Invalid request: prompt (string) is required."
+      });
+    }
+
+    if (request.framework !== undefined && !isFramework(request.framework)) {
+      return res.status(400).json({
+        error: `Invalid request: framework must be one of ${FRAMEWORKS.join(', ')}.`
+      });
+    }
+
+    if (request.theme !== undefined && !themeConfigSchema.safeParse(request.theme).success) {
+      return res.status(400).json({
+        error: "Invalid request: theme is not a valid theme configuration."
+      });
+    }
+
+    const hasImage = !!request.image;
+    let modelConfig: AIModelConfig;
+    let messages: CoreMessage[];
+    try {
+      modelConfig = resolveModel(request.model, { requiresImages: hasImage });
+      messages = await buildMessages(request);
+    } catch (error) {
+      const status = error instanceof ModelSelectionError || error instanceof SessionNotFoundError ? error.status : 500;
+      return res.status(status).json({
+        error: error instanceof Error ? error.message : "No AI model available"
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Abort the upstream provider request when the client disconnects
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    const meter = new GenerationMeter();
+    try {
+      const chain = getFallbackChain(modelConfig, { requiresImages: hasImage });
+
+      sendEvent('status', { stage: 'generating', message: hasImage ? 'Analyzing screenshot...' : `Generating component with ${modelConfig.label}...` });
+
+      const { result, model: servedBy, attempts } = await runWithFallback(chain, async (model, abortSignal) => {
+        console.log(`Streaming component with ${model.id}...`, hasImage ? "(with image)" : "(text only)");
+        const parser = new ComponentStreamParser();
+
+        const result = streamText({
+          model: createLanguageModel(model),
+          system: generateSystemPrompt(request.framework, hasImage, request.theme),
+          messages,
+          maxTokens: model.maxTokens,
+          temperature: 0.7,
+          maxRetries: 0, // Retries are handled by the fallback chain
+          abortSignal,
+        });
+
+        for await (const part of result.fullStream) {
+          if (part.type === 'error') {
+            throw part.error;
           }
-        ],
-        maxTokens: 4000,
-        temperature: 0.7,
+          if (part.type !== 'text-delta') {
+            continue;
+          }
+
+          sendEvent('token', { text: part.textDelta });
+          for (const event of parser.push(part.textDelta)) {
+            const { type, ...data } = event;
+            sendEvent(type, data);
+          }
+        }
+        meter.add(model, await result.usage);
+
+        sendEvent('status', { stage: 'parsing', message: 'Finalizing component...' });
+        return finalizeOutput(parser.text, request, model, messages, abortSignal, meter, {
+          onRepair: ({ repair, error }) => sendEvent('status', {
+            stage: 'repairing',
+            message: `Fixing malformed output from ${model.label} (attempt ${repair})...`,
+            reason: error.message,
+          }),
+          onFix: ({ fix, errors }) => sendEvent('status', {
+            stage: 'fixing',
+            message: `Fixing ${errors.length} compile error${errors.length === 1 ? '' : 's'} (attempt ${fix})...`,
+            errors,
+          }),
+        });
+      }, {
+        ...getFallbackOptions(),
+        signal: abortController.signal,
+        // The client discards the partial output it has shown when a retry starts
+        onRetry: ({ model, attempt, reason, delayMs }) => sendEvent('status', {
+          stage: 'retrying',
+          message: describeRetry(model, attempt, reason),
+          model: model.id,
+          attempt,
+          reason,
+          delayMs,
+        }),
       });
 
-      console.log("AI generation successful. Parsing response...");
-      const parsed = parseAIResponse(text, !!request.targetComponent);
-
-      const component = {
-        id: request.targetComponent || `comp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        name: parsed.name,
-        description: parsed.description,
-        code: parsed.code,
-        prompt: request.prompt,
-        createdAt: request.targetComponent ? new Date(request.originalCreatedAt || Date.now()) : new Date(),
-        updatedAt: new Date(),
-        version: request.targetComponent ? (request.originalVersion || 0) + 1 : 1,
+      const component = buildGeneratedComponent(request, result.component, result.validation, servedBy, modelConfig, attempts);
+      await recordGeneration(request, 'stream', meter, { model: servedBy, attempts, componentId: component.id });
+      await recordSessionTurn(request, component);
+
+      console.log("Component stream successful:", component.name, `(served by ${servedBy.id})`);
+      sendEvent('done', component);
+      res.end();
+    } catch (error) {
+      // The stream already answered 200, so give the reserved quota back here
+      await releaseReservedUsage(res).catch((releaseError) => console.error("Failed to release usage:", releaseError));
+      await recordGeneration(request, 'stream', meter, { error, requested: modelConfig, cancelled: abortController.signal.aborted });
+
+      if (abortController.signal.aborted) {
+        console.log("Component stream cancelled by client");
+        return;
+      }
+
+      console.error("Component stream error:", error);
+      sendEvent('error', buildErrorPayload(error));
+      res.end();
+    }
+  });
+
+  // Converts a saved component to another framework. The result is saved as
+  // a new component linked to the original through sourceComponentId.
+  app.post('/api/ai/convert-component', requireAuth, ...limitGenerations, enforceGenerationQuota, async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const { componentId, framework, model }: ConversionRequest = req.body ?? {};
+
+      if (typeof componentId !== "string" || !isFramework(framework)) {
+        return res.status(400).json({
+          error: `Invalid request: componentId (string) and framework (${FRAMEWORKS.join(', ')}) are required.`
+        });
+      }
+
+      const source = await storage.getComponentById(componentId, userId);
+      if (!source) {
+        return res.status(404).json({ error: "Component not found" });
+      }
+      // The converted copy is saved next to the original
+      if (!(await canEditComponent(source, userId))) {
+        return res.status(403).json({ error: "Your role in this workspace doesn't allow adding components" });
+      }
+      if (source.framework === framework) {
+        return res.status(400).json({ error: `Component is already a ${getFrameworkLabel(framework)} component.` });
+      }
+
+      const request: GenerationRequest = {
+        prompt: `Convert to ${getFrameworkLabel(framework)}`,
+        model,
+        userId,
+        framework,
       };
+      const modelConfig = resolveModel(model);
+      const messages: CoreMessage[] = [
+        { role: 'user', content: buildConversionPrompt(source.code, source.framework, framework) },
+      ];
 
-      console.log("Component generation successful:", component.name);
-      res.json(component);
+      // Conversions should stay close to the original, so use a low temperature
+      const converted = await generateComponentOnce(request, 'convert', modelConfig, messages, 0.3);
+      const component = await storage.createComponent({
+        id: converted.id,
+        name: converted.name,
+        description: converted.description,
+        code: converted.code,
+        prompt: source.prompt,
+        version: 1,
+        framework,
+        sourceComponentId: source.id,
+        userId,
+        workspaceId: source.workspaceId,
+      });
 
+      console.log(`Converted component ${source.id} to ${framework}:`, component.id, `(served by ${converted.model})`);
+      res.json({
+        message: "Component converted successfully",
+        component,
+        validation: converted.validation,
+      });
     } catch (error) {
-      console.error("Component generation error:", error);
+      if (error instanceof ModelSelectionError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+
+      console.error("Component conversion error:", error);
+      res.status(500).json({
+        ...buildErrorPayload(error),
+        error: "Failed to convert component. Please try again.",
+      });
+    }
+  });
+
+  // List the models that can be selected for generation
+  app.get('/api/ai/models', rateLimit(RATE_LIMITS.publicApi), async (req: Request, res: Response) => {
+    try {
+      const models = getAvailableModels();
+
+      res.json({
+        models,
+        defaultModel: models.length > 0 ? getDefaultModel().id : null,
+      });
+    } catch (error) {
+      console.error("Error listing AI models:", error);
       res.status(500).json({
-        error: "Failed to generate component. Please try again.",
+        error: "Failed to list AI models",
         details: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
   // Health check endpoint for AI
-  app.get('/api/ai/health', async (req: Request, res: Response) => {
+  app.get('/api/ai/health', rateLimit(RATE_LIMITS.publicApi), async (req: Request, res: Response) => {
     try {
-      const vercelKey = process.env.VERCEL_API_KEY;
-      const openaiKey = process.env.OPENAI_API_KEY;
-      const anthropicKey = process.env.ANTHROPIC_API_KEY;
-      
+      const models = getAvailableModels();
+
       res.json({
         status: 'ok',
         providers: {
-          vercel: !!vercelKey,
-          openai: !!openaiKey,
-          anthropic: !!anthropicKey
+          vercel: isProviderConfigured('vercel'),
+          openai: isProviderConfigured('openai'),
+          anthropic: isProviderConfigured('anthropic'),
+          mock: isProviderConfigured('mock'),
         },
-        activeProvider: vercelKey ? 'vercel' : openaiKey ? 'openai' : anthropicKey ? 'anthropic' : 'none'
+        activeProvider: models.length > 0 ? getDefaultModel().provider : 'none',
+        defaultModel: models.length > 0 ? getDefaultModel().id : null,
       });
     } catch (error) {
       res.status(500).json({
@@ -258,4 +663,4 @@ export async function registerAIRoutes(app: Express) {
       });
     }
   });
-} 
\ No newline at end of file
+}
@@ -1,16 +1,44 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { storage } from "../storage/index";
-import { insertComponentSchema, updateComponentSchema } from "@shared/schema";
+import { getUserId, requireAuth } from "../lib/auth";
+import { enforceComponentQuota, enforceExportFormat } from "../lib/entitlements";
+import { createComponentSchema, updateComponentSchema } from "@shared/schema";
+import { EXPORT_FORMATS, exportComponent, exportComponents, isExportFormat, supportsExportFormat, type ExportFile } from "../lib/export";
+import { canEditComponent, canEditComponents } from "../lib/workspaces";
+
+// Answered when a workspace viewer tries to change a component
+const VIEWER_ERROR = "Your role in this workspace doesn't allow changing its components";
+
+function sendExportFile(res: Response, file: ExportFile) {
+  res.setHeader("Content-Type", file.contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+  res.send(file.content);
+}
+
+// The workspace library selected with ?workspaceId, or the personal library
+// without it. Undefined for workspaces the user isn't a member of.
+async function getLibraryComponents(userId: string, workspaceId: unknown) {
+  if (workspaceId === undefined) {
+    return storage.getComponentsByUserId(userId);
+  }
+  const id = Number(workspaceId);
+  if (!Number.isInteger(id) || !(await storage.getWorkspaceMember(id, userId))) {
+    return undefined;
+  }
+  return storage.getComponentsByWorkspaceId(id, userId);
+}
 
 export async function registerComponentRoutes(app: Express) {
-  // GET /api/components - Get all components for the authenticated user
-  app.get("/api/components", async (req, res) => {
-    const userId = req.query.userId?.toString();
-    if (!userId) {
-      return res.status(400).json({ error: "Invalid user ID" });
-    }
+  // GET /api/components - Get all components in the authenticated user's
+  // personal library, or in a workspace they belong to with ?workspaceId
+  app.get("/api/components", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
     try {
-      const components = await storage.getComponentsByUserId(userId);
+      const components = await getLibraryComponents(userId, req.query.workspaceId);
+      if (!components) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+
       res.json({
         message: "Components retrieved successfully",
         components: components,
@@ -24,14 +52,76 @@ export async function registerComponentRoutes(app: Express) {
     }
   });
 
-  // GET /api/components/:id - Get a specific component
-  app.get("/api/components/:id", async (req, res) => {
-    const userId = req.query.userId?.toString();
+  // GET /api/components/export - Download several components as one zip. Pass
+  // `ids` as a comma-separated list to export a selection, or omit it for all
+  // (of the library selected with ?workspaceId).
+  // Registered before /api/components/:id so "export" is not taken as an ID.
+  app.get("/api/components/export", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const ids = req.query.ids?.toString().split(",").map(id => id.trim()).filter(Boolean);
+
+    try {
+      const allComponents = await getLibraryComponents(userId, req.query.workspaceId);
+      if (!allComponents) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      const components = ids ? allComponents.filter(component => ids.includes(component.id)) : allComponents;
+
+      if (components.length === 0) {
+        return res.status(404).json({
+          message: "No components found"
+        });
+      }
+
+      sendExportFile(res, await exportComponents(components));
+    } catch (error) {
+      console.error("Error exporting components:", error);
+      res.status(500).json({
+        message: "Failed to export components",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/components/:id/export - Download a component as a .tsx file
+  // (format=tsx), a Vite + Tailwind starter (format=vite) or an npm package (format=npm).
+  // Vue, Svelte and HTML components only export their source file (format=tsx).
+  app.get("/api/components/:id/export", requireAuth, enforceExportFormat, async (req, res) => {
+    const userId = getUserId(req);
     const componentId = req.params.id;
-    
-    if (!userId) {
-      return res.status(400).json({ error: "Invalid user ID" });
+    const format = req.query.format?.toString() ?? "tsx";
+
+    if (!isExportFormat(format)) {
+      return res.status(400).json({ error: `Invalid export format. Use one of: ${EXPORT_FORMATS.join(", ")}` });
+    }
+
+    try {
+      const component = await storage.getComponentById(componentId, userId);
+
+      if (!component) {
+        return res.status(404).json({
+          message: "Component not found"
+        });
+      }
+
+      if (!supportsExportFormat(component, format)) {
+        return res.status(400).json({ error: `The ${format} export is only available for React components.` });
+      }
+
+      sendExportFile(res, await exportComponent(component, format));
+    } catch (error) {
+      console.error("Error exporting component:", error);
+      res.status(500).json({
+        message: "Failed to export component",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
     }
+  });
+
+  // GET /api/components/:id - Get a specific component
+  app.get("/api/components/:id", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const componentId = req.params.id;
     
     try {
       const component = await storage.getComponentById(componentId, userId);
@@ -55,24 +145,29 @@ export async function registerComponentRoutes(app: Express) {
     }
   });
 
-  // POST /api/components - Create a new component
-  app.post("/api/components", async (req, res) => {
+  // POST /api/components - Create a new component, in a workspace when the
+  // body has a workspaceId
+  app.post("/api/components", requireAuth, enforceComponentQuota, async (req, res) => {
     try {
       console.log("[Components] Received component data:", req.body);
-      const { userId, ...componentData } = req.body;
-      console.log("[Components] Parsed userId:", userId);
-
-      if (!userId) {
-        console.error("[Components] Invalid user ID");
-        return res.status(400).json({ error: "Invalid user ID" });
-      }
+      const userId = getUserId(req);
 
       // Validate component data
-      const validatedData = insertComponentSchema.parse({
-        ...componentData,
+      const validatedData = createComponentSchema.parse({
+        ...req.body,
         userId: userId,
       });
 
+      if (validatedData.workspaceId) {
+        const member = await storage.getWorkspaceMember(validatedData.workspaceId, userId);
+        if (!member) {
+          return res.status(404).json({ message: "Workspace not found" });
+        }
+        if (!canEditComponents(member.role)) {
+          return res.status(403).json({ error: VIEWER_ERROR });
+        }
+      }
+
       const newComponent = await storage.createComponent(validatedData);
       console.log("[Components] Component created:", newComponent);
       
@@ -90,22 +185,21 @@ export async function registerComponentRoutes(app: Express) {
   });
 
   // PUT /api/components/:id - Update a component
-  app.put("/api/components/:id", async (req, res) => {
+  app.put("/api/components/:id", requireAuth, async (req, res) => {
     try {
-      const userId = req.query.userId?.toString();
+      const userId = getUserId(req);
       const componentId = req.params.id;
       
-      if (!userId) {
-        return res.status(400).json({ error: "Invalid user ID" });
-      }
-      
-      // Check if component exists and belongs to user
+      // Check if component exists and the user may change it
       const existingComponent = await storage.getComponentById(componentId, userId);
       if (!existingComponent) {
         return res.status(404).json({ 
           message: "Component not found" 
         });
       }
+      if (!(await canEditComponent(existingComponent, userId))) {
+        return res.status(403).json({ error: VIEWER_ERROR });
+      }
 
       // Validate update data
       const validatedData = updateComponentSchema.parse(req.body);
@@ -126,22 +220,21 @@ export async function registerComponentRoutes(app: Express) {
   });
 
   // DELETE /api/components/:id - Delete a component
-  app.delete("/api/components/:id", async (req, res) => {
+  app.delete("/api/components/:id", requireAuth, async (req, res) => {
     try {
-      const userId = req.query.userId?.toString();
+      const userId = getUserId(req);
       const componentId = req.params.id;
       
-      if (!userId) {
-        return res.status(400).json({ error: "Invalid user ID" });
-      }
-      
-      // Check if component exists and belongs to user
+      // Check if component exists and the user may change it
       const existingComponent = await storage.getComponentById(componentId, userId);
       if (!existingComponent) {
         return res.status(404).json({ 
           message: "Component not found" 
         });
       }
+      if (!(await canEditComponent(existingComponent, userId))) {
+        return res.status(403).json({ error: VIEWER_ERROR });
+      }
       
       await storage.deleteComponent(componentId, userId);
       
@@ -157,14 +250,149 @@ export async function registerComponentRoutes(app: Express) {
     }
   });
 
-  // GET /api/components/stats/count - Get component count for the user
-  app.get("/api/components/stats/count", async (req, res) => {
+  // GET /api/components/:id/versions - List the version history of a component
+  app.get("/api/components/:id/versions", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const componentId = req.params.id;
+
     try {
-      const userId = req.query.userId?.toString();
-      
-      if (!userId) {
-        return res.status(400).json({ error: "Invalid user ID" });
+      const existingComponent = await storage.getComponentById(componentId, userId);
+      if (!existingComponent) {
+        return res.status(404).json({ 
+          message: "Component not found" 
+        });
+      }
+
+      const versions = await storage.getComponentVersions(componentId);
+
+      res.json({
+        message: "Component versions retrieved successfully",
+        versions: versions,
+      });
+    } catch (error) {
+      console.error("Error fetching component versions:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch component versions",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/components/:id/versions/:version - Get a single version of a component
+  app.get("/api/components/:id/versions/:version", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const componentId = req.params.id;
+    const version = Number(req.params.version);
+
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ error: "Invalid version" });
+    }
+
+    try {
+      const existingComponent = await storage.getComponentById(componentId, userId);
+      if (!existingComponent) {
+        return res.status(404).json({ 
+          message: "Component not found" 
+        });
+      }
+
+      const componentVersion = await storage.getComponentVersion(componentId, version);
+      if (!componentVersion) {
+        return res.status(404).json({ 
+          message: "Component version not found" 
+        });
+      }
+
+      res.json({
+        message: "Component version retrieved successfully",
+        version: componentVersion,
+      });
+    } catch (error) {
+      console.error("Error fetching component version:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch component version",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/components/:id/versions/:version/restore - Restore an old version as the newest version
+  app.post("/api/components/:id/versions/:version/restore", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const componentId = req.params.id;
+    const version = Number(req.params.version);
+
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ error: "Invalid version" });
+    }
+
+    try {
+      const existingComponent = await storage.getComponentById(componentId, userId);
+      if (!existingComponent) {
+        return res.status(404).json({ 
+          message: "Component not found" 
+        });
+      }
+      if (!(await canEditComponent(existingComponent, userId))) {
+        return res.status(403).json({ error: VIEWER_ERROR });
       }
+
+      const restoredComponent = await storage.restoreComponentVersion(componentId, userId, version);
+      if (!restoredComponent) {
+        return res.status(404).json({ 
+          message: "Component version not found" 
+        });
+      }
+
+      res.json({
+        message: "Component version restored successfully",
+        component: restoredComponent,
+      });
+    } catch (error) {
+      console.error("Error restoring component version:", error);
+      res.status(500).json({ 
+        message: "Failed to restore component version",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/components/:id/typescript - Regenerate the TypeScript version of a
+  // component. Writes do this automatically; this backfills older components.
+  app.post("/api/components/:id/typescript", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const componentId = req.params.id;
+
+    try {
+      const existingComponent = await storage.getComponentById(componentId, userId);
+      if (existingComponent && !(await canEditComponent(existingComponent, userId))) {
+        return res.status(403).json({ error: VIEWER_ERROR });
+      }
+
+      const component = await storage.refreshTypeScriptCode(componentId, userId);
+      if (!component) {
+        return res.status(404).json({
+          message: "Component not found"
+        });
+      }
+
+      res.json({
+        message: "Component converted to TypeScript successfully",
+        component: component,
+      });
+    } catch (error) {
+      console.error("Error converting component to TypeScript:", error);
+      res.status(500).json({
+        message: "Failed to convert component to TypeScript",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/components/stats/count - Get component count for the user
+  app.get("/api/components/stats/count", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
       
       const count = await storage.getComponentCount(userId);
       
@@ -0,0 +1,184 @@
+import type { Express } from "express";
+import { storage, type PublishedComponent } from "../storage/index";
+import { getUserId, requireAuth } from "../lib/auth";
+import { enforceComponentQuota } from "../lib/entitlements";
+import { RATE_LIMITS, rateLimit } from "../lib/rateLimit";
+import { canEditComponent, canEditComponents } from "../lib/workspaces";
+import { parseGalleryQuery } from "../lib/gallery";
+import { updateComponentVisibilitySchema } from "@shared/schema";
+
+// What anyone may see of a published component
+function toGalleryDetail(component: PublishedComponent) {
+  return {
+    id: component.id,
+    name: component.name,
+    description: component.description,
+    code: component.code,
+    prompt: component.prompt,
+    framework: component.framework,
+    screenshot: component.screenshot,
+    visibility: component.visibility,
+    tags: component.tags,
+    forkCount: component.forkCount,
+    publishedAt: component.publishedAt,
+    forkedFrom: component.forkedFrom,
+    authorName: component.authorName,
+  };
+}
+
+export async function registerGalleryRoutes(app: Express) {
+  // GET /api/gallery - Public components, newest first or by forks with
+  // ?sort=popular. ?tags=a,b only lists components with all of the tags.
+  app.get("/api/gallery", rateLimit(RATE_LIMITS.publicApi), async (req, res) => {
+    try {
+      const query = parseGalleryQuery(req.query);
+      const { components, total } = await storage.getGalleryComponents(query);
+
+      res.json({
+        message: "Gallery retrieved successfully",
+        components: components,
+        page: query.page,
+        pageSize: query.pageSize,
+        total: total,
+      });
+    } catch (error) {
+      console.error("Error fetching gallery:", error);
+      res.status(500).json({
+        message: "Failed to fetch gallery",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/gallery/tags - The most used tags of public components
+  app.get("/api/gallery/tags", rateLimit(RATE_LIMITS.publicApi), async (_req, res) => {
+    try {
+      const tags = await storage.getGalleryTags();
+      res.json({
+        message: "Tags retrieved successfully",
+        tags: tags,
+      });
+    } catch (error) {
+      console.error("Error fetching gallery tags:", error);
+      res.status(500).json({
+        message: "Failed to fetch tags",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/gallery/:id - A public or unlisted component with its code and prompt
+  app.get("/api/gallery/:id", rateLimit(RATE_LIMITS.publicApi), async (req, res) => {
+    try {
+      const component = await storage.getPublishedComponent(req.params.id);
+      if (!component) {
+        return res.status(404).json({
+          message: "Component not found"
+        });
+      }
+
+      res.json({
+        message: "Component retrieved successfully",
+        component: toGalleryDetail(component),
+      });
+    } catch (error) {
+      console.error("Error fetching gallery component:", error);
+      res.status(500).json({
+        message: "Failed to fetch component",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // PATCH /api/components/:id/visibility - Make a component private, unlisted
+  // or public, and set its gallery tags
+  app.patch("/api/components/:id/visibility", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+
+      const result = updateComponentVisibilitySchema.safeParse(req.body);
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        return res.status(400).json({ error: `Invalid request: ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${issue.message}` });
+      }
+
+      const existingComponent = await storage.getComponentById(req.params.id, userId);
+      if (!existingComponent) {
+        return res.status(404).json({
+          message: "Component not found"
+        });
+      }
+      if (!(await canEditComponent(existingComponent, userId))) {
+        return res.status(403).json({ error: "Your role in this workspace doesn't allow publishing its components" });
+      }
+
+      const component = await storage.setComponentVisibility(existingComponent.id, userId, result.data);
+
+      res.json({
+        message: "Component visibility updated successfully",
+        component: component,
+      });
+    } catch (error) {
+      console.error("Error updating component visibility:", error);
+      res.status(500).json({
+        message: "Failed to update component visibility",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/components/:id/fork - Copy a public or unlisted component, with
+  // its prompt, into the user's library (or a workspace's with workspaceId)
+  app.post("/api/components/:id/fork", requireAuth, enforceComponentQuota, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const workspaceId = req.body?.workspaceId ?? null;
+
+      if (workspaceId !== null && !Number.isInteger(workspaceId)) {
+        return res.status(400).json({ error: "Invalid workspace ID" });
+      }
+
+      const source = await storage.getPublishedComponent(req.params.id);
+      if (!source) {
+        return res.status(404).json({
+          message: "Component not found"
+        });
+      }
+
+      if (workspaceId !== null) {
+        const member = await storage.getWorkspaceMember(workspaceId, userId);
+        if (!member) {
+          return res.status(404).json({ message: "Workspace not found" });
+        }
+        if (!canEditComponents(member.role)) {
+          return res.status(403).json({ error: "Your role in this workspace doesn't allow changing its components" });
+        }
+      }
+
+      const component = await storage.forkComponent(source.id, {
+        id: `comp_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+        name: source.name,
+        description: source.description,
+        code: source.code,
+        prompt: source.prompt,
+        screenshot: source.screenshot ?? undefined,
+        version: 1,
+        framework: source.framework,
+        userId,
+        workspaceId,
+      });
+
+      console.log(`[Gallery] Forked component ${source.id}:`, component.id);
+      res.status(201).json({
+        message: "Component forked successfully",
+        component: component,
+      });
+    } catch (error) {
+      console.error("Error forking component:", error);
+      res.status(500).json({
+        message: "Failed to fork component",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+}
@@ -4,6 +4,13 @@ import { registerUserRoutes } from './userRoutes';
 import { registerItemRoutes } from './itemRoutes';
 import { registerPaymentRoutes } from './paymentRoutes';
 import { registerComponentRoutes } from './componentRoutes';
+import { registerSessionRoutes } from './sessionRoutes';
+import { registerThemeRoutes } from './themeRoutes';
+import { registerUsageRoutes } from './usageRoutes';
+import { registerAdminRoutes } from './adminRoutes';
+import { registerWorkspaceRoutes } from './workspaceRoutes';
+import { registerShareRoutes } from './shareRoutes';
+import { registerGalleryRoutes } from './galleryRoutes';
 
 export async function registerRoutes(app: Express) {
   const server = createServer(app);
@@ -13,6 +20,13 @@ export async function registerRoutes(app: Express) {
   await registerItemRoutes(app);
   await registerPaymentRoutes(app);
   await registerComponentRoutes(app);
+  await registerSessionRoutes(app);
+  await registerThemeRoutes(app);
+  await registerUsageRoutes(app);
+  await registerAdminRoutes(app);
+  await registerWorkspaceRoutes(app);
+  await registerShareRoutes(app);
+  await registerGalleryRoutes(app);
 
   return server;
 }
\ No newline at end of file
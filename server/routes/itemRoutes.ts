@@ -1,13 +1,12 @@
 import type { Express } from "express";
 import { storage } from "../storage/index";
+import { getUserId, requireAuth } from "../lib/auth";
+import { enforceItemQuota } from "../lib/entitlements";
 import { sendEmail } from "../mail";
 
 export async function registerItemRoutes(app: Express) {
-  app.get("/api/items", async (req, res) => {
-    const userId = req.query.userId?.toString();
-    if (!userId) {
-      return res.status(400).json({ error: "Invalid user ID" });
-    }
+  app.get("/api/items", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
     try {
       const items = await storage.getItemsByUserId(userId);
       res.json(items || []);
@@ -17,16 +16,11 @@ export async function registerItemRoutes(app: Express) {
     }
   });
 
-  app.post("/api/items", async (req, res) => {
+  app.post("/api/items", requireAuth, enforceItemQuota, async (req, res) => {
     try {
       console.log("[Items] Received item data:", req.body);
-      const { userId, item } = req.body;
-      console.log("[Items] Parsed userId:", userId);
-
-      if (!userId) {
-        console.error("[Items] Invalid user ID");
-        return res.status(400).json({ error: "Invalid user ID" });
-      }
+      const userId = getUserId(req);
+      const { item } = req.body;
 
       const user = await storage.getUserByFirebaseId(userId);
       console.log("[Items] User data:", {
@@ -35,16 +29,6 @@ export async function registerItemRoutes(app: Express) {
         subscriptionType: user?.subscriptionType
       });
 
-      const items = await storage.getItemsByUserId(userId);
-      console.log("[Items] Current items count:", items.length);
-
-      if (!user?.subscriptionType?.includes('pro') && items.length >= 5) {
-        console.log("[Items] Free user hit item limit");
-        return res.status(403).json({
-          error: "Item limit reached. Please upgrade to Pro plan.",
-        });
-      }
-
       const created = await storage.createItem({ userId, item });
       console.log("[Items] Item created:", created);
 
@@ -71,12 +55,13 @@ export async function registerItemRoutes(app: Express) {
     }
   });
 
-  app.delete("/api/items/:id", async (req, res) => {
+  app.delete("/api/items/:id", requireAuth, async (req, res) => {
     const id = Number(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ error: "Invalid item ID" });
     }
-    await storage.deleteItem(id);
+    // Only deletes the item if it belongs to the user
+    await storage.deleteItem(id, getUserId(req));
     res.status(204).send();
   });
 }
\ No newline at end of file
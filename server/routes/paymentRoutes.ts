@@ -1,20 +1,107 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
+import { summarizeSubscription } from "@shared/subscriptions";
 import { storage } from "../storage/index";
+import { getUserId, requireAuth } from "../lib/auth";
+import { RATE_LIMITS, rateLimit } from "../lib/rateLimit";
+import { type BillingInterval, getPlan, getPriceId, getPublicPlans, isBillingInterval, type PlanBilledTo } from "../lib/billing/catalog";
+import { getWorkspaceAccess, requireWorkspaceRole } from "../lib/workspaces";
 import Stripe from "stripe";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
   apiVersion: "2025-01-27.acacia",
 });
 
+type CheckoutPrice = { planId: string; interval: BillingInterval; priceId: string } | { error: string };
+
+// Looks up the Stripe price of the plan and interval a client asked for.
+// Only plans billed to the given kind of account can be bought.
+function getCheckoutPrice(body: { plan?: unknown; interval?: unknown }, billedTo: PlanBilledTo): CheckoutPrice {
+  const { plan: planId = billedTo === 'workspace' ? 'team' : 'pro', interval = 'monthly' } = body;
+
+  const plan = getPlan(planId);
+  if (!plan || !plan.prices) {
+    return { error: `Unknown plan: ${planId}` };
+  }
+  if (plan.billedTo !== billedTo) {
+    return {
+      error: billedTo === 'user'
+        ? `The ${plan.name} plan is billed to a workspace. Upgrade the workspace from its settings.`
+        : `The ${plan.name} plan is for personal accounts. Workspaces can subscribe to a Team plan.`,
+    };
+  }
+  if (!isBillingInterval(interval)) {
+    return { error: `Unknown billing interval: ${interval}` };
+  }
+  const priceId = getPriceId(plan, interval);
+  if (!priceId) {
+    return { error: "Price ID not configured" };
+  }
+  return { planId: plan.id, interval, priceId };
+}
+
+// Subscription checkout for one seat of the price. The metadata identifies
+// the account on the session and on the subscription it creates.
+function getCheckoutSessionParams(options: {
+  customerId: string;
+  priceId: string;
+  metadata: Record<string, string>;
+  successUrl: string;
+  cancelUrl: string;
+}): Stripe.Checkout.SessionCreateParams {
+  return {
+    customer: options.customerId,
+    line_items: [
+      {
+        price: options.priceId,
+        quantity: 1,
+      },
+    ],
+    mode: 'subscription',
+    success_url: options.successUrl,
+    cancel_url: options.cancelUrl,
+    metadata: options.metadata,
+    // Allow promotion codes
+    allow_promotion_codes: true,
+    // Collect billing address for tax calculations
+    billing_address_collection: 'required',
+    // Enable automatic tax calculation
+    automatic_tax: { enabled: false },
+    subscription_data: {
+      metadata: options.metadata,
+    },
+  };
+}
+
+function sendStripeError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof Stripe.errors.StripeError) {
+    return res.status(400).json({ error: error.message, type: error.type });
+  }
+  res.status(500).json({ error: fallback });
+}
+
 export async function registerPaymentRoutes(app: Express) {
-  // New Stripe Checkout endpoint - replaces complex payment method flow
-  app.post("/api/create-checkout-session", async (req, res) => {
+  // Plan catalog for the pricing page
+  app.get("/api/plans", rateLimit(RATE_LIMITS.publicApi), async (req, res) => {
+    try {
+      res.json({ plans: getPublicPlans() });
+    } catch (error) {
+      console.error('[Plans] Error listing plans:', error);
+      res.status(500).json({ error: 'Failed to list plans' });
+    }
+  });
+
+  // New Stripe Checkout endpoint - replaces complex payment method flow.
+  // Takes a plan key and interval; the price comes from the plan catalog, so
+  // clients can't check out with arbitrary prices.
+  app.post("/api/create-checkout-session", requireAuth, async (req, res) => {
     try {
       console.log('[Checkout] Creating checkout session');
-      const { firebaseId, mode = 'subscription', priceId, successUrl, cancelUrl } = req.body;
-      
-      if (!firebaseId) {
-        return res.status(400).json({ error: "Firebase ID is required" });
+      const firebaseId = getUserId(req);
+      const { successUrl, cancelUrl } = req.body;
+
+      const price = getCheckoutPrice(req.body, 'user');
+      if ('error' in price) {
+        return res.status(400).json({ error: price.error });
       }
 
       let user = await storage.getUserByFirebaseId(firebaseId);
@@ -23,6 +110,11 @@ export async function registerPaymentRoutes(app: Express) {
         return res.status(400).json({ error: "User not found" });
       }
 
+      // Plan changes of an existing subscription go through the billing portal
+      if (user.stripeSubscriptionId && summarizeSubscription(user).plan !== 'free') {
+        return res.status(409).json({ error: "You already have a subscription. Change plans in the billing portal." });
+      }
+
       // Create or get Stripe customer
       let customerId = user.stripeCustomerId;
       if (!customerId) {
@@ -42,43 +134,18 @@ export async function registerPaymentRoutes(app: Express) {
         console.log('[Checkout] Created new Stripe customer:', customerId);
       }
 
-      // Determine price ID - use provided priceId or default to PRO subscription
-      const sessionPriceId = priceId || process.env.STRIPE_PRICE_ID_PRO;
-      if (!sessionPriceId) {
-        return res.status(400).json({ error: "Price ID not configured" });
-      }
-
       // Create checkout session
-      const sessionParams: Stripe.Checkout.SessionCreateParams = {
-        customer: customerId,
-        line_items: [
-          {
-            price: sessionPriceId,
-            quantity: 1,
-          },
-        ],
-        mode: mode as 'subscription' | 'payment',
-        success_url: successUrl || `${req.headers.origin}/dashboard?success=true&session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: cancelUrl || `${req.headers.origin}/pricing?canceled=true`,
+      const sessionParams = getCheckoutSessionParams({
+        customerId,
+        priceId: price.priceId,
         metadata: {
           firebaseId: user.firebaseId,
+          plan: price.planId,
+          interval: price.interval,
         },
-        // Allow promotion codes
-        allow_promotion_codes: true,
-        // Collect billing address for tax calculations
-        billing_address_collection: 'required',
-        // Enable automatic tax calculation
-        automatic_tax: { enabled: false },
-      };
-
-      // For subscriptions, add subscription-specific settings
-      if (mode === 'subscription') {
-        sessionParams.subscription_data = {
-          metadata: {
-            firebaseId: user.firebaseId,
-          },
-        };
-      }
+        successUrl: successUrl || `${req.headers.origin}/dashboard?success=true&session_id={CHECKOUT_SESSION_ID}`,
+        cancelUrl: cancelUrl || `${req.headers.origin}/pricing?canceled=true`,
+      });
 
       const session = await stripe.checkout.sessions.create(sessionParams);
 
@@ -100,12 +167,8 @@ export async function registerPaymentRoutes(app: Express) {
   });
 
   // Create Stripe Customer Portal session for subscription management
-  app.post('/api/create-portal-session', async (req, res) => {
-    const { firebaseId } = req.body;
-
-    if (!firebaseId) {
-      return res.status(400).json({ error: 'Firebase ID is required' });
-    }
+  app.post('/api/create-portal-session', requireAuth, async (req, res) => {
+    const firebaseId = getUserId(req);
 
     try {
       // Get user data to find their Stripe customer ID
@@ -135,4 +198,79 @@ export async function registerPaymentRoutes(app: Express) {
       res.status(500).json({ error: 'Failed to create portal session' });
     }
   });
-}
\ No newline at end of file
+
+  // Team plan checkout for a workspace, billed to the workspace's own Stripe
+  // customer rather than the owner's
+  app.post("/api/workspaces/:id/checkout-session", requireAuth, requireWorkspaceRole('owner'), async (req, res) => {
+    try {
+      const firebaseId = getUserId(req);
+      const { workspace } = getWorkspaceAccess(res);
+      const { successUrl, cancelUrl } = req.body;
+
+      const price = getCheckoutPrice(req.body, 'workspace');
+      if ('error' in price) {
+        return res.status(400).json({ error: price.error });
+      }
+      if (workspace.stripeSubscriptionId && summarizeSubscription(workspace).plan !== 'free') {
+        return res.status(409).json({ error: "This workspace already has a subscription. Change plans in the billing portal." });
+      }
+
+      let customerId = workspace.stripeCustomerId;
+      if (!customerId) {
+        const owner = await storage.getUserByFirebaseId(firebaseId);
+        const customer = await stripe.customers.create({
+          name: workspace.name,
+          email: owner?.email,
+          metadata: {
+            workspaceId: String(workspace.id),
+          },
+        });
+        customerId = customer.id;
+        await storage.updateWorkspace(workspace.id, { stripeCustomerId: customerId });
+        console.log('[Checkout] Created Stripe customer for workspace:', workspace.id, customerId);
+      }
+
+      const session = await stripe.checkout.sessions.create(getCheckoutSessionParams({
+        customerId,
+        priceId: price.priceId,
+        metadata: {
+          firebaseId,
+          workspaceId: String(workspace.id),
+          plan: price.planId,
+          interval: price.interval,
+        },
+        successUrl: successUrl || `${req.headers.origin}/workspaces/${workspace.id}?success=true`,
+        cancelUrl: cancelUrl || `${req.headers.origin}/workspaces/${workspace.id}?canceled=true`,
+      }));
+
+      console.log('[Checkout] Created workspace checkout session:', session.id);
+      res.json({
+        sessionId: session.id,
+        url: session.url,
+      });
+    } catch (error) {
+      console.error('[Checkout] Error creating workspace checkout session:', error);
+      sendStripeError(res, error, 'Failed to create checkout session');
+    }
+  });
+
+  // Billing portal of a workspace's Stripe customer
+  app.post("/api/workspaces/:id/portal-session", requireAuth, requireWorkspaceRole('owner'), async (req, res) => {
+    try {
+      const { workspace } = getWorkspaceAccess(res);
+      if (!workspace.stripeCustomerId) {
+        return res.status(404).json({ error: 'This workspace has no billing account yet' });
+      }
+
+      const portalSession = await stripe.billingPortal.sessions.create({
+        customer: workspace.stripeCustomerId,
+        return_url: `${process.env.FRONTEND_URL || 'http://localhost:5000'}/workspaces/${workspace.id}`,
+      });
+
+      res.json({ url: portalSession.url });
+    } catch (error) {
+      console.error('[Portal] Error creating workspace portal session:', error);
+      sendStripeError(res, error, 'Failed to create portal session');
+    }
+  });
+}
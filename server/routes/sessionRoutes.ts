@@ -0,0 +1,143 @@
+import type { Express } from "express";
+import { storage } from "../storage/index";
+import { getUserId, requireAuth } from "../lib/auth";
+import { insertGenerationSessionSchema, insertGenerationMessageSchema } from "@shared/schema";
+
+export async function registerSessionRoutes(app: Express) {
+  // GET /api/sessions - List the user's generation sessions, most recently active first
+  app.get("/api/sessions", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    try {
+      const sessions = await storage.getSessionsByUserId(userId);
+      res.json({
+        message: "Sessions retrieved successfully",
+        sessions: sessions,
+      });
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({
+        message: "Failed to fetch sessions",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/sessions - Start a new generation session
+  app.post("/api/sessions", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { title } = req.body;
+
+      const validatedData = insertGenerationSessionSchema.parse({ userId, title });
+      const session = await storage.createSession(validatedData);
+
+      res.status(201).json({
+        message: "Session created successfully",
+        session: session,
+      });
+    } catch (error) {
+      console.error("Error creating session:", error);
+      res.status(500).json({
+        message: "Failed to create session",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // DELETE /api/sessions/:id - Delete a session and its messages
+  app.delete("/api/sessions/:id", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const sessionId = Number(req.params.id);
+
+    if (!Number.isInteger(sessionId)) {
+      return res.status(400).json({ error: "Invalid session ID" });
+    }
+
+    try {
+      const session = await storage.getSessionById(sessionId, userId);
+      if (!session) {
+        return res.status(404).json({
+          message: "Session not found"
+        });
+      }
+
+      await storage.deleteSession(sessionId, userId);
+
+      res.json({
+        message: "Session deleted successfully",
+      });
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      res.status(500).json({
+        message: "Failed to delete session",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/sessions/:id/messages - Get a session with its full message history
+  app.get("/api/sessions/:id/messages", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const sessionId = Number(req.params.id);
+
+    if (!Number.isInteger(sessionId)) {
+      return res.status(400).json({ error: "Invalid session ID" });
+    }
+
+    try {
+      const session = await storage.getSessionById(sessionId, userId);
+      if (!session) {
+        return res.status(404).json({
+          message: "Session not found"
+        });
+      }
+
+      const messages = await storage.getSessionMessages(sessionId);
+
+      res.json({
+        message: "Session messages retrieved successfully",
+        session: session,
+        messages: messages,
+      });
+    } catch (error) {
+      console.error("Error fetching session messages:", error);
+      res.status(500).json({
+        message: "Failed to fetch session messages",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/sessions/:id/messages - Append a message to a session. Successful
+  // generations are recorded by the AI routes; this covers everything else.
+  app.post("/api/sessions/:id/messages", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const sessionId = Number(req.params.id);
+      if (!Number.isInteger(sessionId)) {
+        return res.status(400).json({ error: "Invalid session ID" });
+      }
+
+      const session = await storage.getSessionById(sessionId, userId);
+      if (!session) {
+        return res.status(404).json({
+          message: "Session not found"
+        });
+      }
+
+      const { sessionId: _, ...validatedData } = insertGenerationMessageSchema.parse({ ...req.body, sessionId });
+      const [newMessage] = await storage.addSessionMessages(sessionId, [validatedData]);
+
+      res.status(201).json({
+        message: "Session message created successfully",
+        sessionMessage: newMessage,
+      });
+    } catch (error) {
+      console.error("Error creating session message:", error);
+      res.status(500).json({
+        message: "Failed to create session message",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+}
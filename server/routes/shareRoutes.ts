@@ -0,0 +1,162 @@
+import type { Express } from "express";
+import { storage, type ComponentShareWithName } from "../storage/index";
+import { getUserId, requireAuth } from "../lib/auth";
+import { RATE_LIMITS, rateLimit } from "../lib/rateLimit";
+import { canEditComponent } from "../lib/workspaces";
+import { createShareToken, getShareExpiry, hashSharePassword, isShareExpired, verifySharePassword } from "../lib/shares";
+import { insertComponentShareSchema, type ComponentShare } from "@shared/schema";
+
+// Public links to the read-only page and to the bare preview for iframes, on
+// the configured origin rather than the request's
+function getShareUrls(token: string) {
+  const origin = process.env.FRONTEND_URL || 'http://localhost:5000';
+  return { url: `${origin}/s/${token}`, embedUrl: `${origin}/embed/${token}` };
+}
+
+// The password hash never leaves the server
+function toShareResponse({ passwordHash, ...share }: ComponentShare | ComponentShareWithName) {
+  return { ...share, hasPassword: passwordHash !== null, ...getShareUrls(share.token) };
+}
+
+export async function registerShareRoutes(app: Express) {
+  // GET /api/shares - List the share links of the components the user can
+  // edit, whoever created them, optionally only one component's with ?componentId
+  app.get("/api/shares", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    try {
+      const componentId = typeof req.query.componentId === "string" ? req.query.componentId : undefined;
+      const shares = await storage.getManageableComponentShares(userId, componentId);
+      res.json({
+        message: "Share links retrieved successfully",
+        shares: shares.map(share => toShareResponse(share)),
+      });
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      res.status(500).json({
+        message: "Failed to fetch share links",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/components/:id/share - Create a share link, optionally with an
+  // expiry in days, a password and the theme to render with
+  app.post("/api/components/:id/share", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+
+      const result = insertComponentShareSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        return res.status(400).json({ error: `Invalid request: ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${issue.message}` });
+      }
+
+      const component = await storage.getComponentById(req.params.id, userId);
+      if (!component) {
+        return res.status(404).json({
+          message: "Component not found"
+        });
+      }
+      if (!(await canEditComponent(component, userId))) {
+        return res.status(403).json({ error: "Your role in this workspace doesn't allow sharing its components" });
+      }
+
+      const { expiresInDays, password, theme } = result.data;
+      const share = await storage.createComponentShare({
+        componentId: component.id,
+        userId,
+        token: createShareToken(),
+        passwordHash: password ? await hashSharePassword(password) : null,
+        theme: theme ?? null,
+        expiresAt: getShareExpiry(expiresInDays),
+      });
+
+      res.status(201).json({
+        message: "Share link created successfully",
+        share: { ...toShareResponse(share), name: component.name },
+      });
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      res.status(500).json({
+        message: "Failed to create share link",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // DELETE /api/shares/:id - Revoke a share link of a component the user can edit
+  app.delete("/api/shares/:id", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const shareId = Number(req.params.id);
+
+    if (!Number.isInteger(shareId)) {
+      return res.status(400).json({ error: "Invalid share link ID" });
+    }
+
+    try {
+      const deleted = await storage.deleteComponentShare(shareId, userId);
+      if (!deleted) {
+        return res.status(404).json({
+          message: "Share link not found"
+        });
+      }
+
+      res.json({
+        message: "Share link revoked successfully",
+      });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({
+        message: "Failed to revoke share link",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/shared/components/:token - View a shared component, no account
+  // needed. Links with a password need it in the X-Share-Password header.
+  app.get("/api/shared/components/:token", rateLimit(RATE_LIMITS.publicApi), async (req, res) => {
+    try {
+      const share = await storage.getComponentShareByToken(req.params.token);
+      if (!share) {
+        return res.status(404).json({
+          message: "Share link not found"
+        });
+      }
+      if (isShareExpired(share)) {
+        return res.status(410).json({ error: "This share link has expired" });
+      }
+
+      if (share.passwordHash) {
+        const password = req.get("X-Share-Password");
+        if (!password) {
+          return res.status(401).json({ error: "This share link is password protected", passwordRequired: true });
+        }
+        if (!(await verifySharePassword(password, share.passwordHash))) {
+          return res.status(401).json({ error: "Incorrect password", passwordRequired: true });
+        }
+      }
+
+      const { component } = share;
+      res.json({
+        message: "Component retrieved successfully",
+        component: {
+          name: component.name,
+          description: component.description,
+          code: component.code,
+          typescriptCode: component.typescriptCode,
+          framework: component.framework,
+          updatedAt: component.updatedAt,
+        },
+        theme: share.theme,
+        expiresAt: share.expiresAt,
+      });
+    } catch (error) {
+      console.error("Error fetching shared component:", error);
+      res.status(500).json({
+        message: "Failed to fetch component",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+}
@@ -0,0 +1,308 @@
+import type { Express, Response } from "express";
+import type { ZodError } from "zod";
+import { storage } from "../storage/index";
+import { getUserId, requireAuth } from "../lib/auth";
+import { RATE_LIMITS, rateLimit } from "../lib/rateLimit";
+import { insertThemeSchema, updateThemeSchema, type Theme } from "@shared/schema";
+import { importTheme, isThemeImportFormat, THEME_IMPORT_FORMATS, ThemeImportError } from "../lib/themes/importer";
+
+// Larger than any real Tailwind config or token file
+const MAX_IMPORT_LENGTH = 200_000;
+
+function sendValidationError(res: Response, error: ZodError) {
+  const issue = error.issues[0];
+  return res.status(400).json({
+    error: `Invalid theme: ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${issue.message}`,
+  });
+}
+
+const copyName = (name: string) => `${name} (copy)`.slice(0, 100);
+
+// Shared themes are public, so the owner is not part of the response
+function toSharedTheme({ userId: _, ...theme }: Theme) {
+  return theme;
+}
+
+export async function registerThemeRoutes(app: Express) {
+  // GET /api/themes - List the user's custom themes, most recently edited first
+  app.get("/api/themes", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    try {
+      const themes = await storage.getThemesByUserId(userId);
+      res.json({
+        message: "Themes retrieved successfully",
+        themes: themes,
+      });
+    } catch (error) {
+      console.error("Error fetching themes:", error);
+      res.status(500).json({
+        message: "Failed to fetch themes",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/themes - Create a theme
+  app.post("/api/themes", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+
+      const result = insertThemeSchema.safeParse({ ...req.body, userId });
+      if (!result.success) {
+        return sendValidationError(res, result.error);
+      }
+
+      const theme = await storage.createTheme(result.data);
+
+      res.status(201).json({
+        message: "Theme created successfully",
+        theme: theme,
+      });
+    } catch (error) {
+      console.error("Error creating theme:", error);
+      res.status(500).json({
+        message: "Failed to create theme",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/themes/import - Map a Tailwind config or W3C design tokens file
+  // into a theme. Nothing is saved; the client edits the result and creates it.
+  app.post("/api/themes/import", requireAuth, async (req, res) => {
+    const { content, format, name } = req.body ?? {};
+
+    if (typeof content !== "string" || content.trim() === "") {
+      return res.status(400).json({ error: "Invalid request: content (string) is required." });
+    }
+    if (content.length > MAX_IMPORT_LENGTH) {
+      return res.status(400).json({ error: "The file is too large to import." });
+    }
+    if (format !== undefined && !isThemeImportFormat(format)) {
+      return res.status(400).json({ error: `Invalid import format. Use one of: ${THEME_IMPORT_FORMATS.join(", ")}` });
+    }
+
+    try {
+      const result = importTheme(content, { format, name: typeof name === "string" ? name : undefined });
+      res.json({
+        message: "Theme imported successfully",
+        ...result,
+      });
+    } catch (error) {
+      if (error instanceof ThemeImportError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error importing theme:", error);
+      res.status(500).json({
+        message: "Failed to import theme",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/themes/shared/:token - View a shared theme, no account needed
+  app.get("/api/themes/shared/:token", rateLimit(RATE_LIMITS.publicApi), async (req, res) => {
+    try {
+      const theme = await storage.getThemeByShareToken(req.params.token);
+      if (!theme) {
+        return res.status(404).json({
+          message: "Theme not found"
+        });
+      }
+
+      res.json({
+        message: "Theme retrieved successfully",
+        theme: toSharedTheme(theme),
+      });
+    } catch (error) {
+      console.error("Error fetching shared theme:", error);
+      res.status(500).json({
+        message: "Failed to fetch theme",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/themes/shared/:token/copy - Add a copy of a shared theme to the user's themes
+  app.post("/api/themes/shared/:token/copy", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+
+      const shared = await storage.getThemeByShareToken(req.params.token);
+      if (!shared) {
+        return res.status(404).json({
+          message: "Theme not found"
+        });
+      }
+
+      const theme = await storage.createTheme({
+        userId,
+        name: shared.name,
+        colors: shared.colors,
+        typography: shared.typography,
+        spacing: shared.spacing,
+      });
+
+      res.status(201).json({
+        message: "Theme copied successfully",
+        theme: theme,
+      });
+    } catch (error) {
+      console.error("Error copying shared theme:", error);
+      res.status(500).json({
+        message: "Failed to copy theme",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // PUT /api/themes/:id - Update a theme's name or tokens
+  app.put("/api/themes/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const themeId = Number(req.params.id);
+
+      const existingTheme = Number.isInteger(themeId) ? await storage.getThemeById(themeId, userId) : undefined;
+      if (!existingTheme) {
+        return res.status(404).json({
+          message: "Theme not found"
+        });
+      }
+
+      const result = updateThemeSchema.safeParse(req.body);
+      if (!result.success) {
+        return sendValidationError(res, result.error);
+      }
+
+      const theme = await storage.updateTheme(themeId, userId, result.data);
+
+      res.json({
+        message: "Theme updated successfully",
+        theme: theme,
+      });
+    } catch (error) {
+      console.error("Error updating theme:", error);
+      res.status(500).json({
+        message: "Failed to update theme",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // DELETE /api/themes/:id - Delete a theme; its share link stops working
+  app.delete("/api/themes/:id", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const themeId = Number(req.params.id);
+
+    try {
+      const theme = Number.isInteger(themeId) ? await storage.getThemeById(themeId, userId) : undefined;
+      if (!theme) {
+        return res.status(404).json({
+          message: "Theme not found"
+        });
+      }
+
+      await storage.deleteTheme(themeId, userId);
+
+      res.json({
+        message: "Theme deleted successfully",
+      });
+    } catch (error) {
+      console.error("Error deleting theme:", error);
+      res.status(500).json({
+        message: "Failed to delete theme",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/themes/:id/duplicate - Copy one of the user's themes
+  app.post("/api/themes/:id/duplicate", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const themeId = Number(req.params.id);
+
+      const source = Number.isInteger(themeId) ? await storage.getThemeById(themeId, userId) : undefined;
+      if (!source) {
+        return res.status(404).json({
+          message: "Theme not found"
+        });
+      }
+
+      const theme = await storage.createTheme({
+        userId,
+        name: copyName(source.name),
+        colors: source.colors,
+        typography: source.typography,
+        spacing: source.spacing,
+      });
+
+      res.status(201).json({
+        message: "Theme duplicated successfully",
+        theme: theme,
+      });
+    } catch (error) {
+      console.error("Error duplicating theme:", error);
+      res.status(500).json({
+        message: "Failed to duplicate theme",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/themes/:id/share - Create (or return) the theme's share token
+  app.post("/api/themes/:id/share", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const themeId = Number(req.params.id);
+
+      const existingTheme = Number.isInteger(themeId) ? await storage.getThemeById(themeId, userId) : undefined;
+      if (!existingTheme) {
+        return res.status(404).json({
+          message: "Theme not found"
+        });
+      }
+
+      const theme = await storage.shareTheme(themeId, userId);
+
+      res.json({
+        message: "Theme shared successfully",
+        theme: theme,
+      });
+    } catch (error) {
+      console.error("Error sharing theme:", error);
+      res.status(500).json({
+        message: "Failed to share theme",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // DELETE /api/themes/:id/share - Revoke the share token
+  app.delete("/api/themes/:id/share", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    const themeId = Number(req.params.id);
+
+    try {
+      const existingTheme = Number.isInteger(themeId) ? await storage.getThemeById(themeId, userId) : undefined;
+      if (!existingTheme) {
+        return res.status(404).json({
+          message: "Theme not found"
+        });
+      }
+
+      const theme = await storage.unshareTheme(themeId, userId);
+
+      res.json({
+        message: "Theme is no longer shared",
+        theme: theme,
+      });
+    } catch (error) {
+      console.error("Error unsharing theme:", error);
+      res.status(500).json({
+        message: "Failed to stop sharing theme",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+}
@@ -0,0 +1,42 @@
+import type { Express } from "express";
+import { getUserId, requireAuth } from "../lib/auth";
+import { getUsageSummary } from "../lib/entitlements";
+import { storage } from "../storage/index";
+
+const HISTORY_LIMIT = 50;
+
+export async function registerUsageRoutes(app: Express) {
+  // GET /api/me/usage - The user's plan, its limits and how much of them is used
+  app.get("/api/me/usage", requireAuth, async (req, res) => {
+    try {
+      const summary = await getUsageSummary(getUserId(req));
+      res.json({
+        message: "Usage retrieved successfully",
+        ...summary,
+      });
+    } catch (error) {
+      console.error("Error fetching usage:", error);
+      res.status(500).json({
+        message: "Failed to fetch usage",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/me/generations - The user's most recent AI generations with their token usage
+  app.get("/api/me/generations", requireAuth, async (req, res) => {
+    try {
+      const generations = await storage.getAIGenerationsByUserId(getUserId(req), HISTORY_LIMIT);
+      res.json({
+        message: "Generations retrieved successfully",
+        generations,
+      });
+    } catch (error) {
+      console.error("Error fetching generations:", error);
+      res.status(500).json({
+        message: "Failed to fetch generations",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+}
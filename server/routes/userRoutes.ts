@@ -1,17 +1,27 @@
 import type { Express } from "express";
 import { storage } from "../storage/index";
-import { insertUserSchema } from "@shared/schema";
+import { getUserId, requireAuth } from "../lib/auth";
+import { RATE_LIMITS, rateLimit } from "../lib/rateLimit";
+import { signUpUserSchema } from "@shared/schema";
 import Stripe from "stripe";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
   apiVersion: "2025-01-27.acacia",
 });
 
+// Both routes can create a Stripe customer
+const limitAccountSetup = [rateLimit(RATE_LIMITS.accountSetup), rateLimit(RATE_LIMITS.accountSetupByIp)];
+
 export async function registerUserRoutes(app: Express) {
   // Check and create Stripe customer if needed
-  app.post("/api/users/ensure-stripe", async (req, res) => {
+  app.post("/api/users/ensure-stripe", requireAuth, ...limitAccountSetup, async (req, res) => {
     try {
-      const { firebaseId, email } = req.body;
+      const firebaseId = getUserId(req);
+      // Only the verified token says which address the customer belongs to
+      const email = req.user!.email;
+      if (!email) {
+        return res.status(400).json({ error: "Your account has no email address" });
+      }
 
       let stripeCustomerId;
       let customer;
@@ -62,9 +72,17 @@ export async function registerUserRoutes(app: Express) {
     }
   });
 
-  app.post("/api/users", async (req, res) => {
+  app.post("/api/users", requireAuth, ...limitAccountSetup, async (req, res) => {
     try {
-      const user = insertUserSchema.parse(req.body);
+      // The account always belongs to the token's user, with the token's email
+      if (!req.user!.email) {
+        return res.status(400).json({ error: "Your account has no email address" });
+      }
+      const user = signUpUserSchema.parse({
+        ...req.body,
+        firebaseId: getUserId(req),
+        email: req.user!.email,
+      });
       const fullName = `${user.firstName} ${user.lastName}`;
 
       // Check if user exists by firebase ID or email
@@ -77,8 +95,9 @@ export async function registerUserRoutes(app: Express) {
         return res.json(existingUserById);
       }
 
+      // Another account's row is never returned to the caller
       if (existingUserByEmail) {
-        return res.json(existingUserByEmail);
+        return res.status(409).json({ error: "Another account already uses this email address" });
       }
 
       // Create new user
@@ -110,6 +129,8 @@ export async function registerUserRoutes(app: Express) {
       // Create user with Stripe customer ID
       const created = await storage.createUser({
         ...user,
+        isPremium: false,
+        subscriptionType: "free",
         stripeCustomerId: customer.id,
       });
 
@@ -124,7 +145,11 @@ export async function registerUserRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/users/:firebaseId", async (req, res) => {
+  app.patch("/api/users/:firebaseId", requireAuth, async (req, res) => {
+    if (req.params.firebaseId !== getUserId(req)) {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
     try {
       const { firstName, lastName, emailNotifications } = req.body;
 
@@ -147,7 +172,11 @@ export async function registerUserRoutes(app: Express) {
     }
   });
 
-  app.get("/api/users/:firebaseId", async (req, res) => {
+  app.get("/api/users/:firebaseId", requireAuth, async (req, res) => {
+    if (req.params.firebaseId !== getUserId(req)) {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
     try {
       const user = await storage.getUserByFirebaseId(req.params.firebaseId);
       if (!user) {
@@ -157,6 +186,11 @@ export async function registerUserRoutes(app: Express) {
         firebaseId: user.firebaseId,
         email: user.email,
         subscriptionType: user.subscriptionType,
+        subscriptionStatus: user.subscriptionStatus,
+        currentPeriodEnd: user.currentPeriodEnd,
+        cancelAtPeriodEnd: user.cancelAtPeriodEnd,
+        trialEnd: user.trialEnd,
+        pastDueSince: user.pastDueSince,
         firstName: user.firstName,
         lastName: user.lastName
       });
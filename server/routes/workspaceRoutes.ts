@@ -0,0 +1,364 @@
+import type { Express, Response } from "express";
+import type { ZodError } from "zod";
+import { storage } from "../storage/index";
+import { getUserId, requireAuth } from "../lib/auth";
+import { sendEmail } from "../mail";
+import { summarizeSubscription } from "@shared/subscriptions";
+import { insertWorkspaceInvitationSchema, insertWorkspaceSchema, type Workspace, type WorkspaceInvitation } from "@shared/schema";
+import {
+  createInvitationToken,
+  getInvitationError,
+  getInvitationExpiry,
+  getWorkspaceAccess,
+  requireWorkspaceRole,
+} from "../lib/workspaces";
+
+function sendValidationError(res: Response, error: ZodError) {
+  const issue = error.issues[0];
+  return res.status(400).json({
+    error: `Invalid request: ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${issue.message}`,
+  });
+}
+
+// Stripe ids stay on the server; members only see the subscription's state
+function toWorkspaceResponse({ stripeCustomerId: _, stripeSubscriptionId: __, ...workspace }: Workspace) {
+  return workspace;
+}
+
+// Built from the configured origin, never the request's, since the link is emailed
+function getAcceptUrl(invitation: WorkspaceInvitation) {
+  return `${process.env.FRONTEND_URL || 'http://localhost:5000'}/invitations/${invitation.token}`;
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Emails the accept link to the invitee. Returns false if sending failed, in
+// which case the owner can still copy the link from the workspace page.
+function sendInvitationEmail(invitation: WorkspaceInvitation, workspace: Workspace, invitedBy: string | undefined, acceptUrl: string) {
+  const inviter = invitedBy ?? "A teammate";
+  return sendEmail({
+    to: invitation.email,
+    from: "carlos@kindnessengineering.com",
+    subject: `You're invited to join ${workspace.name}`,
+    text: `${inviter} invited you to join the "${workspace.name}" workspace as ${invitation.role === "editor" ? "an editor" : "a viewer"}.\n\nAccept the invitation: ${acceptUrl}\n\nThe link expires in 7 days and only works for ${invitation.email}.`,
+    html: `<p>${escapeHtml(inviter)} invited you to join the "<strong>${escapeHtml(workspace.name)}</strong>" workspace as ${invitation.role === "editor" ? "an editor" : "a viewer"}.</p>`
+      + `<p><a href="${escapeHtml(acceptUrl)}">Accept the invitation</a></p>`
+      + `<p>The link expires in 7 days and only works for ${escapeHtml(invitation.email)}.</p>`,
+  });
+}
+
+export async function registerWorkspaceRoutes(app: Express) {
+  // GET /api/workspaces - List the workspaces the user is a member of, with their role
+  app.get("/api/workspaces", requireAuth, async (req, res) => {
+    const userId = getUserId(req);
+    try {
+      const workspaces = await storage.getWorkspacesByUserId(userId);
+      res.json({
+        message: "Workspaces retrieved successfully",
+        workspaces: workspaces.map(({ role, ...workspace }) => ({ ...toWorkspaceResponse(workspace), role })),
+      });
+    } catch (error) {
+      console.error("Error fetching workspaces:", error);
+      res.status(500).json({
+        message: "Failed to fetch workspaces",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/workspaces - Create a workspace owned by the user
+  app.post("/api/workspaces", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+
+      const result = insertWorkspaceSchema.safeParse(req.body);
+      if (!result.success) {
+        return sendValidationError(res, result.error);
+      }
+
+      const workspace = await storage.createWorkspace(result.data.name, userId);
+
+      res.status(201).json({
+        message: "Workspace created successfully",
+        workspace: { ...toWorkspaceResponse(workspace), role: "owner" },
+      });
+    } catch (error) {
+      console.error("Error creating workspace:", error);
+      res.status(500).json({
+        message: "Failed to create workspace",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/workspaces/:id - A workspace with its members. Owners also get
+  // the pending invitations.
+  app.get("/api/workspaces/:id", requireAuth, requireWorkspaceRole(), async (req, res) => {
+    try {
+      const { workspace, member } = getWorkspaceAccess(res);
+      const [members, invitations] = await Promise.all([
+        storage.getWorkspaceMembers(workspace.id),
+        member.role === "owner" ? storage.getPendingWorkspaceInvitations(workspace.id) : Promise.resolve([]),
+      ]);
+
+      res.json({
+        message: "Workspace retrieved successfully",
+        workspace: { ...toWorkspaceResponse(workspace), role: member.role },
+        members: members,
+        invitations: invitations.map(invitation => ({ ...invitation, acceptUrl: getAcceptUrl(invitation) })),
+      });
+    } catch (error) {
+      console.error("Error fetching workspace:", error);
+      res.status(500).json({
+        message: "Failed to fetch workspace",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // PATCH /api/workspaces/:id - Rename a workspace
+  app.patch("/api/workspaces/:id", requireAuth, requireWorkspaceRole("owner"), async (req, res) => {
+    try {
+      const { workspace } = getWorkspaceAccess(res);
+
+      const result = insertWorkspaceSchema.safeParse(req.body);
+      if (!result.success) {
+        return sendValidationError(res, result.error);
+      }
+
+      const updatedWorkspace = await storage.updateWorkspace(workspace.id, { name: result.data.name });
+
+      res.json({
+        message: "Workspace updated successfully",
+        workspace: updatedWorkspace && { ...toWorkspaceResponse(updatedWorkspace), role: "owner" },
+      });
+    } catch (error) {
+      console.error("Error updating workspace:", error);
+      res.status(500).json({
+        message: "Failed to update workspace",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // DELETE /api/workspaces/:id - Delete a workspace along with its components
+  app.delete("/api/workspaces/:id", requireAuth, requireWorkspaceRole("owner"), async (req, res) => {
+    try {
+      const { workspace } = getWorkspaceAccess(res);
+
+      // Otherwise Stripe would keep billing a workspace that no longer exists
+      if (workspace.stripeSubscriptionId && summarizeSubscription(workspace).plan !== "free") {
+        return res.status(409).json({ error: "Cancel the workspace's subscription in the billing portal before deleting it." });
+      }
+
+      await storage.deleteWorkspace(workspace.id);
+
+      res.json({
+        message: "Workspace deleted successfully",
+      });
+    } catch (error) {
+      console.error("Error deleting workspace:", error);
+      res.status(500).json({
+        message: "Failed to delete workspace",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // PATCH /api/workspaces/:id/members/:userId - Change a member's role to editor or viewer
+  app.patch("/api/workspaces/:id/members/:userId", requireAuth, requireWorkspaceRole("owner"), async (req, res) => {
+    try {
+      const { workspace } = getWorkspaceAccess(res);
+      const { role } = req.body ?? {};
+
+      if (role !== "editor" && role !== "viewer") {
+        return res.status(400).json({ error: "Invalid role. Use editor or viewer." });
+      }
+      if (req.params.userId === workspace.ownerId) {
+        return res.status(400).json({ error: "The owner's role can't be changed" });
+      }
+
+      const member = await storage.updateWorkspaceMemberRole(workspace.id, req.params.userId, role);
+      if (!member) {
+        return res.status(404).json({
+          message: "Member not found"
+        });
+      }
+
+      res.json({
+        message: "Member updated successfully",
+        member: member,
+      });
+    } catch (error) {
+      console.error("Error updating workspace member:", error);
+      res.status(500).json({
+        message: "Failed to update member",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // DELETE /api/workspaces/:id/members/:userId - Remove a member. Owners can
+  // remove anyone else; other members can only remove themselves (leave).
+  app.delete("/api/workspaces/:id/members/:userId", requireAuth, requireWorkspaceRole(), async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { workspace, member } = getWorkspaceAccess(res);
+      const memberId = req.params.userId;
+
+      if (memberId === workspace.ownerId) {
+        return res.status(400).json({ error: "The owner can't leave the workspace. Delete it instead." });
+      }
+      if (memberId !== userId && member.role !== "owner") {
+        return res.status(403).json({ error: "Only workspace owners can do this" });
+      }
+
+      await storage.removeWorkspaceMember(workspace.id, memberId);
+
+      res.json({
+        message: "Member removed successfully",
+      });
+    } catch (error) {
+      console.error("Error removing workspace member:", error);
+      res.status(500).json({
+        message: "Failed to remove member",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/workspaces/:id/invitations - Invite an email address and email
+  // them the accept link, which the response also has
+  app.post("/api/workspaces/:id/invitations", requireAuth, requireWorkspaceRole("owner"), async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { workspace } = getWorkspaceAccess(res);
+
+      const result = insertWorkspaceInvitationSchema.safeParse(req.body);
+      if (!result.success) {
+        return sendValidationError(res, result.error);
+      }
+
+      const members = await storage.getWorkspaceMembers(workspace.id);
+      if (members.some(member => member.email.toLowerCase() === result.data.email)) {
+        return res.status(409).json({ error: `${result.data.email} is already a member of this workspace` });
+      }
+
+      const invitation = await storage.createWorkspaceInvitation({
+        workspaceId: workspace.id,
+        email: result.data.email,
+        role: result.data.role,
+        token: createInvitationToken(),
+        invitedBy: userId,
+        expiresAt: getInvitationExpiry(),
+      });
+      const acceptUrl = getAcceptUrl(invitation);
+      const emailSent = await sendInvitationEmail(invitation, workspace, req.user?.email, acceptUrl);
+
+      res.status(201).json({
+        message: "Invitation created successfully",
+        invitation: { ...invitation, acceptUrl },
+        emailSent: emailSent,
+      });
+    } catch (error) {
+      console.error("Error creating workspace invitation:", error);
+      res.status(500).json({
+        message: "Failed to create invitation",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // DELETE /api/workspaces/:id/invitations/:invitationId - Revoke an invitation
+  app.delete("/api/workspaces/:id/invitations/:invitationId", requireAuth, requireWorkspaceRole("owner"), async (req, res) => {
+    const invitationId = Number(req.params.invitationId);
+
+    if (!Number.isInteger(invitationId)) {
+      return res.status(400).json({ error: "Invalid invitation ID" });
+    }
+
+    try {
+      const { workspace } = getWorkspaceAccess(res);
+      await storage.deleteWorkspaceInvitation(invitationId, workspace.id);
+
+      res.json({
+        message: "Invitation revoked successfully",
+      });
+    } catch (error) {
+      console.error("Error revoking workspace invitation:", error);
+      res.status(500).json({
+        message: "Failed to revoke invitation",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // GET /api/invitations/:token - What the invitation is for, and why the
+  // signed-in user can't accept it if they can't
+  app.get("/api/invitations/:token", requireAuth, async (req, res) => {
+    try {
+      const invitation = await storage.getWorkspaceInvitationByToken(req.params.token);
+      const workspace = invitation && await storage.getWorkspaceById(invitation.workspaceId);
+      if (!invitation || !workspace) {
+        return res.status(404).json({
+          message: "Invitation not found"
+        });
+      }
+
+      res.json({
+        message: "Invitation retrieved successfully",
+        invitation: {
+          workspaceId: workspace.id,
+          workspaceName: workspace.name,
+          email: invitation.email,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt,
+          error: getInvitationError(invitation, req.user) ?? null,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({
+        message: "Failed to fetch invitation",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // POST /api/invitations/:token/accept - Join the workspace with the invited
+  // role. Only the invited email address can accept.
+  app.post("/api/invitations/:token/accept", requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const invitation = await storage.getWorkspaceInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({
+          message: "Invitation not found"
+        });
+      }
+
+      const invitationError = getInvitationError(invitation, req.user);
+      if (invitationError) {
+        return res.status(invitation.acceptedAt ? 409 : 403).json({ error: invitationError });
+      }
+
+      const member = await storage.acceptWorkspaceInvitation(invitation, userId);
+      if (!member) {
+        return res.status(409).json({ error: "This invitation has already been accepted." });
+      }
+
+      res.json({
+        message: "Invitation accepted successfully",
+        member: member,
+      });
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({
+        message: "Failed to accept invitation",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import { type AIGeneration, type InsertAIGeneration, aiGenerations, users } from "@shared/schema";
+import { eq, desc, and, gte, lt, sql } from "drizzle-orm";
+import { db } from "../db";
+
+export const AI_USAGE_GROUPS = ["user", "day", "model"] as const;
+
+export type AIUsageGroup = typeof AI_USAGE_GROUPS[number];
+
+export interface AIUsageReportOptions {
+  from?: Date;
+  to?: Date; // Exclusive
+  groupBy: AIUsageGroup[];
+}
+
+// Columns a report isn't grouped by are null
+export interface AIUsageReportRow {
+  userId: string | null;
+  email: string | null;
+  day: string | null; // UTC date such as "2026-10-19"
+  model: string | null;
+  generations: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export class AIGenerationStorage {
+  async createAIGeneration(generation: InsertAIGeneration): Promise<AIGeneration> {
+    const [newGeneration] = await db.insert(aiGenerations).values(generation).returning();
+    return newGeneration;
+  }
+
+  async getAIGenerationsByUserId(userId: string, limit: number): Promise<AIGeneration[]> {
+    return db
+      .select()
+      .from(aiGenerations)
+      .where(eq(aiGenerations.userId, userId))
+      .orderBy(desc(aiGenerations.createdAt), desc(aiGenerations.id))
+      .limit(limit);
+  }
+
+  async getAIUsageReport({ from, to, groupBy }: AIUsageReportOptions): Promise<AIUsageReportRow[]> {
+    const day = sql<string>`to_char(${aiGenerations.createdAt}, 'YYYY-MM-DD')`;
+    const grouped = (group: AIUsageGroup) => groupBy.includes(group);
+    const costUsd = sql<number>`coalesce(sum(${aiGenerations.costUsd}), 0)`.mapWith(Number);
+
+    return db
+      .select({
+        userId: grouped("user") ? sql<string>`${aiGenerations.userId}` : sql<null>`null`,
+        email: grouped("user") ? sql<string | null>`max(${users.email})` : sql<null>`null`,
+        day: grouped("day") ? day : sql<null>`null`,
+        model: grouped("model") ? sql<string>`${aiGenerations.model}` : sql<null>`null`,
+        generations: sql<number>`count(*)`.mapWith(Number),
+        failures: sql<number>`count(*) filter (where ${aiGenerations.status} = 'error')`.mapWith(Number),
+        promptTokens: sql<number>`coalesce(sum(${aiGenerations.promptTokens}), 0)`.mapWith(Number),
+        completionTokens: sql<number>`coalesce(sum(${aiGenerations.completionTokens}), 0)`.mapWith(Number),
+        costUsd,
+      })
+      .from(aiGenerations)
+      .leftJoin(users, eq(aiGenerations.userId, users.firebaseId))
+      .where(and(
+        from ? gte(aiGenerations.createdAt, from) : undefined,
+        to ? lt(aiGenerations.createdAt, to) : undefined,
+      ))
+      .groupBy(...[
+        ...(grouped("user") ? [aiGenerations.userId] : []),
+        ...(grouped("day") ? [day] : []),
+        ...(grouped("model") ? [aiGenerations.model] : []),
+      ])
+      .orderBy(desc(costUsd));
+  }
+}
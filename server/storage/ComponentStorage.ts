@@ -1,13 +1,91 @@
-import { type Component, type InsertComponent, type UpdateComponent, components } from "@shared/schema";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { type Component, type ComponentVersion, type Framework, type InsertComponent, type UpdateComponent, type UpdateComponentVisibility, type WorkspaceRole, components, componentVersions, users, workspaceMembers } from "@shared/schema";
+import { eq, desc, and, or, sql, inArray, isNull, arrayContains } from "drizzle-orm";
 import { db } from "../db";
+import { convertToTypeScript } from "../lib/export/typescript";
+import type { GalleryQuery } from "../lib/gallery";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// What the gallery lists of a public component; code and prompt are only
+// loaded for a single component
+export type GalleryComponent = Pick<
+  Component,
+  "id" | "name" | "description" | "framework" | "screenshot" | "tags" | "forkCount" | "publishedAt"
+> & { authorName: string | null };
+
+export type PublishedComponent = Component & { authorName: string | null };
+
+// The TypeScript version is derived data, so a failed conversion leaves it
+// empty rather than failing the write. Only React components have one.
+function deriveTypeScriptCode(code: string, name: string, framework: Framework = "react"): string | null {
+  if (framework !== "react") {
+    return null;
+  }
+  try {
+    return convertToTypeScript(code, name).source;
+  } catch (error) {
+    console.error("Error converting component to TypeScript:", error);
+    return null;
+  }
+}
+
+export const EDITOR_ROLES: WorkspaceRole[] = ["owner", "editor"];
+
+// Components the user may see (any role) or change (owners and editors): their
+// personal library plus the components of workspaces they are a member of
+export function accessibleBy(userId: string, roles?: WorkspaceRole[]) {
+  const memberWorkspaces = db
+    .select({ workspaceId: workspaceMembers.workspaceId })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.userId, userId), roles ? inArray(workspaceMembers.role, roles) : undefined));
+
+  return or(
+    and(isNull(components.workspaceId), eq(components.userId, userId)),
+    inArray(components.workspaceId, memberWorkspaces),
+  );
+}
+
+// Saves a new component together with its first version snapshot
+async function insertComponent(tx: Transaction, component: InsertComponent): Promise<Component> {
+  const [newComponent] = await tx
+    .insert(components)
+    .values({
+      ...component,
+      typescriptCode: deriveTypeScriptCode(component.code, component.name, component.framework),
+      updatedAt: new Date(),
+    })
+    .returning();
+
+  await tx.insert(componentVersions).values({
+    componentId: newComponent.id,
+    version: newComponent.version,
+    name: newComponent.name,
+    description: newComponent.description,
+    code: newComponent.code,
+    prompt: newComponent.prompt,
+    screenshot: newComponent.screenshot,
+    authorId: newComponent.userId,
+  });
+
+  return newComponent;
+}
 
 export class ComponentStorage {
+  // The user's personal library
   async getComponentsByUserId(userId: string): Promise<Component[]> {
     return db
       .select()
       .from(components)
-      .where(eq(components.userId, userId))
+      .where(and(eq(components.userId, userId), isNull(components.workspaceId)))
+      .orderBy(desc(components.createdAt));
+  }
+
+  // Empty unless the user is a member of the workspace
+  async getComponentsByWorkspaceId(workspaceId: number, userId: string): Promise<Component[]> {
+    return db
+      .select()
+      .from(components)
+      .where(and(eq(components.workspaceId, workspaceId), accessibleBy(userId)))
       .orderBy(desc(components.createdAt));
   }
 
@@ -15,44 +93,208 @@ export class ComponentStorage {
     const [component] = await db
       .select()
       .from(components)
-      .where(and(eq(components.id, id), eq(components.userId, userId)));
+      .where(and(eq(components.id, id), accessibleBy(userId)));
     return component;
   }
 
   async createComponent(component: InsertComponent): Promise<Component> {
-    const [newComponent] = await db
-      .insert(components)
-      .values({
-        ...component,
-        updatedAt: new Date(),
-      })
-      .returning();
-    return newComponent;
+    return db.transaction((tx) => insertComponent(tx, component));
   }
 
+  // Every update bumps the version and records a snapshot, so previous code is never lost
   async updateComponent(id: string, userId: string, data: UpdateComponent): Promise<Component> {
-    const [updatedComponent] = await db
-      .update(components)
-      .set({
-        ...data,
-        updatedAt: new Date(),
-      })
-      .where(and(eq(components.id, id), eq(components.userId, userId)))
-      .returning();
-    return updatedComponent;
+    return db.transaction(async (tx) => {
+      // The framework never changes, but decides whether there is a TypeScript
+      // version; the name is kept when only the code changes
+      const [current] = data.code
+        ? await tx
+            .select({ framework: components.framework, name: components.name })
+            .from(components)
+            .where(and(eq(components.id, id), accessibleBy(userId, EDITOR_ROLES)))
+        : [];
+
+      const [updatedComponent] = await tx
+        .update(components)
+        .set({
+          ...data,
+          ...(data.code ? { typescriptCode: deriveTypeScriptCode(data.code, data.name ?? current?.name ?? "Component", current?.framework) } : {}),
+          version: sql`${components.version} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(components.id, id), accessibleBy(userId, EDITOR_ROLES)))
+        .returning();
+
+      if (!updatedComponent) {
+        return updatedComponent;
+      }
+
+      await tx.insert(componentVersions).values({
+        componentId: updatedComponent.id,
+        version: updatedComponent.version,
+        name: updatedComponent.name,
+        description: updatedComponent.description,
+        code: updatedComponent.code,
+        prompt: updatedComponent.prompt,
+        screenshot: updatedComponent.screenshot,
+        authorId: userId,
+      });
+
+      return updatedComponent;
+    });
   }
 
   async deleteComponent(id: string, userId: string): Promise<void> {
     await db
       .delete(components)
-      .where(and(eq(components.id, id), eq(components.userId, userId)));
+      .where(and(eq(components.id, id), accessibleBy(userId, EDITOR_ROLES)));
   }
 
+  // Components in the user's personal library
   async getComponentCount(userId: string): Promise<number> {
     const result = await db
       .select({ count: sql<number>`count(*)` })
       .from(components)
-      .where(eq(components.userId, userId));
+      .where(and(eq(components.userId, userId), isNull(components.workspaceId)));
     return result[0]?.count || 0;
   }
-} 
\ No newline at end of file
+
+  async getWorkspaceComponentCount(workspaceId: number): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(components)
+      .where(eq(components.workspaceId, workspaceId));
+    return result[0]?.count || 0;
+  }
+
+  // Regenerates the TypeScript version in place, without creating a new version.
+  // Used for components saved before the conversion existed.
+  async refreshTypeScriptCode(id: string, userId: string): Promise<Component | undefined> {
+    const component = await this.getComponentById(id, userId);
+    if (!component) {
+      return undefined;
+    }
+
+    const [updatedComponent] = await db
+      .update(components)
+      .set({ typescriptCode: deriveTypeScriptCode(component.code, component.name, component.framework) })
+      .where(and(eq(components.id, id), accessibleBy(userId, EDITOR_ROLES)))
+      .returning();
+    return updatedComponent;
+  }
+
+  // Visibility and tags are gallery settings, so changing them doesn't create
+  // a new version. publishedAt is set the first time a component goes public.
+  async setComponentVisibility(id: string, userId: string, data: UpdateComponentVisibility): Promise<Component | undefined> {
+    const [updatedComponent] = await db
+      .update(components)
+      .set({
+        visibility: data.visibility,
+        ...(data.tags ? { tags: data.tags } : {}),
+        ...(data.visibility === "public" ? { publishedAt: sql`coalesce(${components.publishedAt}, now())` } : {}),
+      })
+      .where(and(eq(components.id, id), accessibleBy(userId, EDITOR_ROLES)))
+      .returning();
+    return updatedComponent;
+  }
+
+  async getGalleryComponents({ sort, tags, page, pageSize }: GalleryQuery): Promise<{ components: GalleryComponent[]; total: number }> {
+    const where = and(
+      eq(components.visibility, "public"),
+      tags.length > 0 ? arrayContains(components.tags, tags) : undefined,
+    );
+
+    const [rows, [{ count }]] = await Promise.all([
+      db
+        .select({
+          id: components.id,
+          name: components.name,
+          description: components.description,
+          framework: components.framework,
+          screenshot: components.screenshot,
+          tags: components.tags,
+          forkCount: components.forkCount,
+          publishedAt: components.publishedAt,
+          authorName: users.firstName,
+        })
+        .from(components)
+        .leftJoin(users, eq(components.userId, users.firebaseId))
+        .where(where)
+        .orderBy(...(sort === "popular" ? [desc(components.forkCount), desc(components.publishedAt)] : [desc(components.publishedAt)]))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize),
+      db.select({ count: sql<number>`count(*)::int` }).from(components).where(where),
+    ]);
+
+    return { components: rows, total: count };
+  }
+
+  // The most used tags of public components
+  async getGalleryTags(limit = 20): Promise<{ tag: string; count: number }[]> {
+    const tagged = db
+      .select({ tag: sql<string>`unnest(${components.tags})`.as("tag") })
+      .from(components)
+      .where(eq(components.visibility, "public"))
+      .as("tagged");
+
+    return db
+      .select({ tag: tagged.tag, count: sql<number>`count(*)::int` })
+      .from(tagged)
+      .groupBy(tagged.tag)
+      .orderBy(desc(sql`count(*)`), tagged.tag)
+      .limit(limit);
+  }
+
+  // A public or unlisted component, which anyone can view and fork
+  async getPublishedComponent(id: string): Promise<PublishedComponent | undefined> {
+    const [row] = await db
+      .select({ component: components, authorName: users.firstName })
+      .from(components)
+      .leftJoin(users, eq(components.userId, users.firebaseId))
+      .where(and(eq(components.id, id), inArray(components.visibility, ["public", "unlisted"])));
+    return row && { ...row.component, authorName: row.authorName };
+  }
+
+  // Saves the fork and counts it on the original
+  async forkComponent(sourceId: string, fork: InsertComponent): Promise<Component> {
+    return db.transaction(async (tx) => {
+      const newComponent = await insertComponent(tx, { ...fork, forkedFrom: sourceId });
+      await tx
+        .update(components)
+        .set({ forkCount: sql`${components.forkCount} + 1` })
+        .where(eq(components.id, sourceId));
+      return newComponent;
+    });
+  }
+
+  async getComponentVersions(componentId: string): Promise<ComponentVersion[]> {
+    return db
+      .select()
+      .from(componentVersions)
+      .where(eq(componentVersions.componentId, componentId))
+      .orderBy(desc(componentVersions.version));
+  }
+
+  async getComponentVersion(componentId: string, version: number): Promise<ComponentVersion | undefined> {
+    const [componentVersion] = await db
+      .select()
+      .from(componentVersions)
+      .where(and(eq(componentVersions.componentId, componentId), eq(componentVersions.version, version)));
+    return componentVersion;
+  }
+
+  // Restoring copies an old snapshot forward as a new version instead of rewinding history
+  async restoreComponentVersion(componentId: string, userId: string, version: number): Promise<Component | undefined> {
+    const snapshot = await this.getComponentVersion(componentId, version);
+    if (!snapshot) {
+      return undefined;
+    }
+
+    return this.updateComponent(componentId, userId, {
+      name: snapshot.name,
+      description: snapshot.description,
+      code: snapshot.code,
+      prompt: snapshot.prompt,
+      screenshot: snapshot.screenshot ?? undefined,
+    });
+  }
+}
@@ -1,5 +1,5 @@
 import { type Item, type InsertItem, items } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { db } from "../db";
 
 export class ItemStorage {
@@ -12,7 +12,7 @@ export class ItemStorage {
     return newItem;
   }
 
-  async deleteItem(id: number): Promise<void> {
-    await db.delete(items).where(eq(items.id, id));
+  async deleteItem(id: number, userId: string): Promise<void> {
+    await db.delete(items).where(and(eq(items.id, id), eq(items.userId, userId)));
   }
 }
\ No newline at end of file
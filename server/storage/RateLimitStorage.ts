@@ -0,0 +1,38 @@
+import { rateLimitBuckets } from "@shared/schema";
+import { eq, lt, sql } from "drizzle-orm";
+import { db } from "../db";
+
+export class RateLimitStorage {
+  // Refills the bucket for the time since it was last used and takes one
+  // token if there is one, in a single statement so concurrent requests on
+  // other instances can't both take the last token. Returns the tokens left.
+  async takeRateLimitToken(key: string, capacity: number, refillPerSecond: number): Promise<{ allowed: boolean; tokens: number }> {
+    const refilled = sql<number>`least(${capacity}::float8, ${rateLimitBuckets.tokens} + extract(epoch from (now() - ${rateLimitBuckets.updatedAt}))::float8 * ${refillPerSecond}::float8)`;
+
+    const [taken] = await db
+      .insert(rateLimitBuckets)
+      .values({ key, tokens: capacity - 1, updatedAt: sql`now()` })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: { tokens: sql`${refilled} - 1`, updatedAt: sql`now()` },
+        setWhere: sql`${refilled} >= 1`,
+      })
+      .returning({ tokens: rateLimitBuckets.tokens });
+    if (taken) {
+      return { allowed: true, tokens: taken.tokens };
+    }
+
+    const [bucket] = await db
+      .select({ tokens: refilled.mapWith(Number) })
+      .from(rateLimitBuckets)
+      .where(eq(rateLimitBuckets.key, key));
+    return { allowed: false, tokens: bucket?.tokens ?? 0 };
+  }
+
+  // Buckets untouched for longer than it takes to refill are full again
+  async deleteStaleRateLimitBuckets(maxAgeSeconds: number): Promise<void> {
+    await db
+      .delete(rateLimitBuckets)
+      .where(lt(rateLimitBuckets.updatedAt, sql`now() - make_interval(secs => ${maxAgeSeconds})`));
+  }
+}
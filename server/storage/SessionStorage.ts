@@ -0,0 +1,59 @@
+import { type GenerationSession, type InsertGenerationSession, type GenerationMessage, type InsertGenerationMessage, generationSessions, generationMessages } from "@shared/schema";
+import { eq, desc, asc, and } from "drizzle-orm";
+import { db } from "../db";
+
+export class SessionStorage {
+  async getSessionsByUserId(userId: string): Promise<GenerationSession[]> {
+    return db
+      .select()
+      .from(generationSessions)
+      .where(eq(generationSessions.userId, userId))
+      .orderBy(desc(generationSessions.updatedAt));
+  }
+
+  async getSessionById(id: number, userId: string): Promise<GenerationSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(generationSessions)
+      .where(and(eq(generationSessions.id, id), eq(generationSessions.userId, userId)));
+    return session;
+  }
+
+  async createSession(session: InsertGenerationSession): Promise<GenerationSession> {
+    const [newSession] = await db.insert(generationSessions).values(session).returning();
+    return newSession;
+  }
+
+  async deleteSession(id: number, userId: string): Promise<void> {
+    await db
+      .delete(generationSessions)
+      .where(and(eq(generationSessions.id, id), eq(generationSessions.userId, userId)));
+  }
+
+  async getSessionMessages(sessionId: number): Promise<GenerationMessage[]> {
+    return db
+      .select()
+      .from(generationMessages)
+      .where(eq(generationMessages.sessionId, sessionId))
+      .orderBy(asc(generationMessages.createdAt), asc(generationMessages.id));
+  }
+
+  // Appends messages and moves the session to the top of the list; a message
+  // that produced a component makes it the session's current component
+  async addSessionMessages(sessionId: number, messages: Omit<InsertGenerationMessage, "sessionId">[]): Promise<GenerationMessage[]> {
+    return db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(generationMessages)
+        .values(messages.map((message) => ({ ...message, sessionId })))
+        .returning();
+
+      const componentId = [...messages].reverse().find((message) => message.componentId)?.componentId;
+      await tx
+        .update(generationSessions)
+        .set({ updatedAt: new Date(), ...(componentId ? { componentId } : {}) })
+        .where(eq(generationSessions.id, sessionId));
+
+      return inserted;
+    });
+  }
+}
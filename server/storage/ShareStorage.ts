@@ -0,0 +1,54 @@
+import { type Component, type ComponentShare, componentShares, components } from "@shared/schema";
+import { eq, desc, and, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { accessibleBy, EDITOR_ROLES } from "./ComponentStorage";
+
+export type CreateComponentShareData = Omit<ComponentShare, "id" | "createdAt">;
+
+// A share link with the name of the component it links to
+export type ComponentShareWithName = ComponentShare & Pick<Component, "name">;
+
+// Links belong to their component rather than to whoever created them, so
+// everyone who can edit the component can see and revoke them
+function manageableBy(userId: string) {
+  return inArray(
+    componentShares.componentId,
+    db.select({ id: components.id }).from(components).where(accessibleBy(userId, EDITOR_ROLES)),
+  );
+}
+
+export class ShareStorage {
+  async createComponentShare(data: CreateComponentShareData): Promise<ComponentShare> {
+    const [share] = await db.insert(componentShares).values(data).returning();
+    return share;
+  }
+
+  // Links of the components the user can edit, optionally only those of one
+  async getManageableComponentShares(userId: string, componentId?: string): Promise<ComponentShareWithName[]> {
+    const rows = await db
+      .select({ share: componentShares, name: components.name })
+      .from(componentShares)
+      .innerJoin(components, eq(componentShares.componentId, components.id))
+      .where(and(manageableBy(userId), componentId ? eq(componentShares.componentId, componentId) : undefined))
+      .orderBy(desc(componentShares.createdAt));
+    return rows.map(({ share, name }) => ({ ...share, name }));
+  }
+
+  async getComponentShareByToken(token: string): Promise<(ComponentShare & { component: Component }) | undefined> {
+    const [row] = await db
+      .select({ share: componentShares, component: components })
+      .from(componentShares)
+      .innerJoin(components, eq(componentShares.componentId, components.id))
+      .where(eq(componentShares.token, token));
+    return row && { ...row.share, component: row.component };
+  }
+
+  // Returns whether there was a link with this id that the user can revoke
+  async deleteComponentShare(id: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(componentShares)
+      .where(and(eq(componentShares.id, id), manageableBy(userId)))
+      .returning({ id: componentShares.id });
+    return deleted.length > 0;
+  }
+}
@@ -0,0 +1,66 @@
+import { type StripeEvent, type StripeEventStatus, stripeEvents } from "@shared/schema";
+import { eq, desc, and, or, lt, sql } from "drizzle-orm";
+import { db } from "../db";
+
+// Events that may be claimed again: failed ones, and ones stuck processing
+// for 5 minutes (e.g. after a crash)
+const isRetryable = or(
+  eq(stripeEvents.status, "failed"),
+  and(eq(stripeEvents.status, "processing"), lt(stripeEvents.updatedAt, sql`now() - interval '5 minutes'`)),
+);
+
+export class StripeEventStorage {
+  // Records a delivered event and claims it for processing. Returns undefined
+  // for an event that was already handled or is being handled, so it doesn't
+  // run twice. Retryable events are claimed again.
+  async claimStripeEvent(id: string, type: string, payload: Record<string, unknown>): Promise<StripeEvent | undefined> {
+    const [event] = await db
+      .insert(stripeEvents)
+      .values({ id, type, payload })
+      .onConflictDoUpdate({
+        target: stripeEvents.id,
+        set: { status: "processing", attempts: sql`${stripeEvents.attempts} + 1`, updatedAt: sql`now()` },
+        setWhere: isRetryable,
+      })
+      .returning();
+    return event;
+  }
+
+  // Claims a failed or stuck event for a manual retry
+  async claimRetryableStripeEvent(id: string): Promise<StripeEvent | undefined> {
+    const [event] = await db
+      .update(stripeEvents)
+      .set({ status: "processing", attempts: sql`${stripeEvents.attempts} + 1`, updatedAt: sql`now()` })
+      .where(and(eq(stripeEvents.id, id), isRetryable))
+      .returning();
+    return event;
+  }
+
+  async completeStripeEvent(id: string, status: "processed" | "ignored"): Promise<void> {
+    await db
+      .update(stripeEvents)
+      .set({ status, error: null, processedAt: sql`now()`, updatedAt: sql`now()` })
+      .where(eq(stripeEvents.id, id));
+  }
+
+  async failStripeEvent(id: string, error: string): Promise<void> {
+    await db
+      .update(stripeEvents)
+      .set({ status: "failed", error, updatedAt: sql`now()` })
+      .where(eq(stripeEvents.id, id));
+  }
+
+  async getStripeEvents(status: StripeEventStatus | undefined, limit: number): Promise<StripeEvent[]> {
+    return db
+      .select()
+      .from(stripeEvents)
+      .where(status ? eq(stripeEvents.status, status) : undefined)
+      .orderBy(desc(stripeEvents.receivedAt))
+      .limit(limit);
+  }
+
+  async getStripeEventById(id: string): Promise<StripeEvent | undefined> {
+    const [event] = await db.select().from(stripeEvents).where(eq(stripeEvents.id, id));
+    return event;
+  }
+}
@@ -0,0 +1,69 @@
+import { type Theme, type InsertTheme, type UpdateTheme, themes } from "@shared/schema";
+import { eq, desc, and } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { db } from "../db";
+
+export class ThemeStorage {
+  async getThemesByUserId(userId: string): Promise<Theme[]> {
+    return db
+      .select()
+      .from(themes)
+      .where(eq(themes.userId, userId))
+      .orderBy(desc(themes.updatedAt));
+  }
+
+  async getThemeById(id: number, userId: string): Promise<Theme | undefined> {
+    const [theme] = await db
+      .select()
+      .from(themes)
+      .where(and(eq(themes.id, id), eq(themes.userId, userId)));
+    return theme;
+  }
+
+  async getThemeByShareToken(shareToken: string): Promise<Theme | undefined> {
+    const [theme] = await db.select().from(themes).where(eq(themes.shareToken, shareToken));
+    return theme;
+  }
+
+  async createTheme(theme: InsertTheme): Promise<Theme> {
+    const [newTheme] = await db.insert(themes).values(theme).returning();
+    return newTheme;
+  }
+
+  async updateTheme(id: number, userId: string, data: UpdateTheme): Promise<Theme> {
+    const [updatedTheme] = await db
+      .update(themes)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(themes.id, id), eq(themes.userId, userId)))
+      .returning();
+    return updatedTheme;
+  }
+
+  async deleteTheme(id: number, userId: string): Promise<void> {
+    await db
+      .delete(themes)
+      .where(and(eq(themes.id, id), eq(themes.userId, userId)));
+  }
+
+  // Keeps an existing token so links that were already sent keep working
+  async shareTheme(id: number, userId: string): Promise<Theme> {
+    const theme = await this.getThemeById(id, userId);
+    if (theme?.shareToken) return theme;
+
+    const [sharedTheme] = await db
+      .update(themes)
+      .set({ shareToken: randomBytes(16).toString("base64url") })
+      .where(and(eq(themes.id, id), eq(themes.userId, userId)))
+      .returning();
+    return sharedTheme;
+  }
+
+  async unshareTheme(id: number, userId: string): Promise<Theme> {
+    const [theme] = await db
+      .update(themes)
+      .set({ shareToken: null })
+      .where(and(eq(themes.id, id), eq(themes.userId, userId)))
+      .returning();
+    return theme;
+  }
+}
@@ -0,0 +1,41 @@
+import { type UsageCounter, type UsageMetric, usageCounters } from "@shared/schema";
+import { eq, and, sql } from "drizzle-orm";
+import { db } from "../db";
+
+export class UsageStorage {
+  async getUsageCounters(userId: string, period: string): Promise<UsageCounter[]> {
+    return db
+      .select()
+      .from(usageCounters)
+      .where(and(eq(usageCounters.userId, userId), eq(usageCounters.period, period)));
+  }
+
+  // Adds amount to the counter unless that would take it past limit (null
+  // means unlimited). The check and the increment are a single statement, so
+  // concurrent requests cannot overshoot. Returns the new count, or undefined
+  // when the limit would be exceeded.
+  async incrementUsage(userId: string, metric: UsageMetric, period: string, amount: number, limit: number | null): Promise<number | undefined> {
+    if (limit !== null && amount > limit) {
+      return undefined;
+    }
+
+    const [counter] = await db
+      .insert(usageCounters)
+      .values({ userId, metric, period, count: amount })
+      .onConflictDoUpdate({
+        target: [usageCounters.userId, usageCounters.metric, usageCounters.period],
+        set: { count: sql`${usageCounters.count} + ${amount}`, updatedAt: new Date() },
+        ...(limit !== null && { setWhere: sql`${usageCounters.count} + ${amount} <= ${limit}` }),
+      })
+      .returning();
+    return counter?.count;
+  }
+
+  // Gives back usage reserved for a request that failed
+  async decrementUsage(userId: string, metric: UsageMetric, period: string, amount: number): Promise<void> {
+    await db
+      .update(usageCounters)
+      .set({ count: sql`greatest(${usageCounters.count} - ${amount}, 0)`, updatedAt: new Date() })
+      .where(and(eq(usageCounters.userId, userId), eq(usageCounters.metric, metric), eq(usageCounters.period, period)));
+  }
+}
@@ -1,13 +1,19 @@
-import { type User, type InsertUser, users } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { type User, type InsertUser, type SubscriptionType, users } from "@shared/schema";
+import { eq, isNotNull } from "drizzle-orm";
 import { db } from "../db";
 
 interface UpdateUserData {
   firstName?: string;
   lastName?: string;
   emailNotifications?: boolean;
-  subscriptionType?: "free" | "pro";
+  subscriptionType?: SubscriptionType;
   stripeCustomerId?: string;
+  stripeSubscriptionId?: string | null;
+  subscriptionStatus?: string | null;
+  currentPeriodEnd?: Date | null;
+  cancelAtPeriodEnd?: boolean;
+  trialEnd?: Date | null;
+  pastDueSince?: Date | null;
 }
 
 export class UserStorage {
@@ -21,6 +27,15 @@ export class UserStorage {
     return user;
   }
 
+  async getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.stripeCustomerId, stripeCustomerId));
+    return user;
+  }
+
+  async getUsersWithStripeCustomer(): Promise<User[]> {
+    return db.select().from(users).where(isNotNull(users.stripeCustomerId));
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const [newUser] = await db.insert(users).values(user).returning();
     return newUser;
@@ -0,0 +1,176 @@
+import {
+  type SubscriptionType,
+  type User,
+  type Workspace,
+  type WorkspaceInvitation,
+  type WorkspaceMember,
+  type WorkspaceRole,
+  users,
+  workspaceInvitations,
+  workspaceMembers,
+  workspaces,
+} from "@shared/schema";
+import { and, asc, desc, eq, gt, isNotNull, isNull } from "drizzle-orm";
+import { db } from "../db";
+
+export interface UpdateWorkspaceData {
+  name?: string;
+  subscriptionType?: SubscriptionType;
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string | null;
+  subscriptionStatus?: string | null;
+  currentPeriodEnd?: Date | null;
+  cancelAtPeriodEnd?: boolean;
+  trialEnd?: Date | null;
+  pastDueSince?: Date | null;
+}
+
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole };
+
+export type WorkspaceMemberDetails = WorkspaceMember & Pick<User, "email" | "firstName" | "lastName">;
+
+export interface CreateWorkspaceInvitationData {
+  workspaceId: number;
+  email: string;
+  role: WorkspaceRole;
+  token: string;
+  invitedBy: string;
+  expiresAt: Date;
+}
+
+export class WorkspaceStorage {
+  // The creator becomes the workspace's owner
+  async createWorkspace(name: string, ownerId: string): Promise<Workspace> {
+    return db.transaction(async (tx) => {
+      const [workspace] = await tx.insert(workspaces).values({ name, ownerId }).returning();
+      await tx.insert(workspaceMembers).values({ workspaceId: workspace.id, userId: ownerId, role: "owner" });
+      return workspace;
+    });
+  }
+
+  async getWorkspaceById(id: number): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getWorkspaceByStripeCustomerId(stripeCustomerId: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.stripeCustomerId, stripeCustomerId));
+    return workspace;
+  }
+
+  async getWorkspacesWithStripeCustomer(): Promise<Workspace[]> {
+    return db.select().from(workspaces).where(isNotNull(workspaces.stripeCustomerId));
+  }
+
+  async getWorkspacesByUserId(userId: string): Promise<WorkspaceWithRole[]> {
+    const rows = await db
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.name));
+    return rows.map(({ workspace, role }) => ({ ...workspace, role }));
+  }
+
+  async updateWorkspace(id: number, data: UpdateWorkspaceData): Promise<Workspace | undefined> {
+    const [workspace] = await db
+      .update(workspaces)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(workspaces.id, id))
+      .returning();
+    return workspace;
+  }
+
+  // Members, invitations and the workspace's components go with it
+  async deleteWorkspace(id: number): Promise<void> {
+    await db.delete(workspaces).where(eq(workspaces.id, id));
+  }
+
+  async getWorkspaceMember(workspaceId: number, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member;
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberDetails[]> {
+    const rows = await db
+      .select({ member: workspaceMembers, email: users.email, firstName: users.firstName, lastName: users.lastName })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.firebaseId))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+    return rows.map(({ member, ...user }) => ({ ...member, ...user }));
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: number, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: string): Promise<void> {
+    await db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async createWorkspaceInvitation(invitation: CreateWorkspaceInvitationData): Promise<WorkspaceInvitation> {
+    const [newInvitation] = await db.insert(workspaceInvitations).values(invitation).returning();
+    return newInvitation;
+  }
+
+  // Invitations that were neither accepted nor have expired
+  async getPendingWorkspaceInvitations(workspaceId: number): Promise<WorkspaceInvitation[]> {
+    return db
+      .select()
+      .from(workspaceInvitations)
+      .where(and(
+        eq(workspaceInvitations.workspaceId, workspaceId),
+        isNull(workspaceInvitations.acceptedAt),
+        gt(workspaceInvitations.expiresAt, new Date()),
+      ))
+      .orderBy(desc(workspaceInvitations.createdAt));
+  }
+
+  async getWorkspaceInvitationByToken(token: string): Promise<WorkspaceInvitation | undefined> {
+    const [invitation] = await db.select().from(workspaceInvitations).where(eq(workspaceInvitations.token, token));
+    return invitation;
+  }
+
+  async deleteWorkspaceInvitation(id: number, workspaceId: number): Promise<void> {
+    await db
+      .delete(workspaceInvitations)
+      .where(and(eq(workspaceInvitations.id, id), eq(workspaceInvitations.workspaceId, workspaceId)));
+  }
+
+  // Marks the invitation accepted and adds the user with the invited role.
+  // Returns undefined if it was accepted already (e.g. a double submit); a
+  // user who is already a member keeps their role.
+  async acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: string): Promise<WorkspaceMember | undefined> {
+    return db.transaction(async (tx) => {
+      const [accepted] = await tx
+        .update(workspaceInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(eq(workspaceInvitations.id, invitation.id), isNull(workspaceInvitations.acceptedAt)))
+        .returning();
+      if (!accepted) {
+        return undefined;
+      }
+
+      await tx
+        .insert(workspaceMembers)
+        .values({ workspaceId: invitation.workspaceId, userId, role: invitation.role })
+        .onConflictDoNothing();
+      const [member] = await tx
+        .select()
+        .from(workspaceMembers)
+        .where(and(eq(workspaceMembers.workspaceId, invitation.workspaceId), eq(workspaceMembers.userId, userId)));
+      return member;
+    });
+  }
+}
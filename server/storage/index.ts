@@ -1,46 +1,160 @@
 import { UserStorage } from './UserStorage';
 import { ItemStorage } from './ItemStorage';
-import { ComponentStorage } from './ComponentStorage';
-import { type Item, type InsertItem, type User, type InsertUser, type Component, type InsertComponent, type UpdateComponent } from "@shared/schema";
+import { ComponentStorage, type GalleryComponent, type PublishedComponent } from './ComponentStorage';
+import { SessionStorage } from './SessionStorage';
+import { ThemeStorage } from './ThemeStorage';
+import { UsageStorage } from './UsageStorage';
+import { RateLimitStorage } from './RateLimitStorage';
+import { StripeEventStorage } from './StripeEventStorage';
+import { AIGenerationStorage, type AIUsageReportOptions, type AIUsageReportRow } from './AIGenerationStorage';
+import { ShareStorage, type ComponentShareWithName, type CreateComponentShareData } from './ShareStorage';
+import { WorkspaceStorage, type CreateWorkspaceInvitationData, type UpdateWorkspaceData, type WorkspaceMemberDetails, type WorkspaceWithRole } from './WorkspaceStorage';
+import { type Item, type InsertItem, type User, type InsertUser, type Component, type InsertComponent, type UpdateComponent, type UpdateComponentVisibility, type ComponentVersion, type ComponentShare, type GenerationSession, type InsertGenerationSession, type GenerationMessage, type InsertGenerationMessage, type Theme, type InsertTheme, type UpdateTheme, type UsageCounter, type UsageMetric, type AIGeneration, type InsertAIGeneration, type StripeEvent, type StripeEventStatus, type SubscriptionType, type Workspace, type WorkspaceInvitation, type WorkspaceMember, type WorkspaceRole } from "@shared/schema";
+import type { GalleryQuery } from '../lib/gallery';
 
 interface UpdateUserData {
   firstName?: string;
   lastName?: string;
   emailNotifications?: boolean;
-  subscriptionType?: "free" | "pro";
+  subscriptionType?: SubscriptionType;
   stripeCustomerId?: string;
+  stripeSubscriptionId?: string | null;
+  subscriptionStatus?: string | null;
+  currentPeriodEnd?: Date | null;
+  cancelAtPeriodEnd?: boolean;
+  trialEnd?: Date | null;
+  pastDueSince?: Date | null;
 }
 
 export interface IStorage {
   // User operations
   getUserByFirebaseId(firebaseId: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined>;
+  getUsersWithStripeCustomer(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(firebaseId: string, data: UpdateUserData): Promise<User>;
 
   // Item operations
   getItemsByUserId(userId: string): Promise<Item[]>;
   createItem(item: InsertItem): Promise<Item>;
-  deleteItem(id: number): Promise<void>;
+  deleteItem(id: number, userId: string): Promise<void>;
 
   // Component operations
   getComponentsByUserId(userId: string): Promise<Component[]>;
+  getComponentsByWorkspaceId(workspaceId: number, userId: string): Promise<Component[]>;
   getComponentById(id: string, userId: string): Promise<Component | undefined>;
   createComponent(component: InsertComponent): Promise<Component>;
   updateComponent(id: string, userId: string, data: UpdateComponent): Promise<Component>;
   deleteComponent(id: string, userId: string): Promise<void>;
   getComponentCount(userId: string): Promise<number>;
+  getWorkspaceComponentCount(workspaceId: number): Promise<number>;
+  refreshTypeScriptCode(id: string, userId: string): Promise<Component | undefined>;
+
+  // Gallery operations
+  setComponentVisibility(id: string, userId: string, data: UpdateComponentVisibility): Promise<Component | undefined>;
+  getGalleryComponents(query: GalleryQuery): Promise<{ components: GalleryComponent[]; total: number }>;
+  getGalleryTags(limit?: number): Promise<{ tag: string; count: number }[]>;
+  getPublishedComponent(id: string): Promise<PublishedComponent | undefined>;
+  forkComponent(sourceId: string, fork: InsertComponent): Promise<Component>;
+
+  // Component version operations
+  getComponentVersions(componentId: string): Promise<ComponentVersion[]>;
+  getComponentVersion(componentId: string, version: number): Promise<ComponentVersion | undefined>;
+  restoreComponentVersion(componentId: string, userId: string, version: number): Promise<Component | undefined>;
+
+  // Component share operations
+  createComponentShare(data: CreateComponentShareData): Promise<ComponentShare>;
+  getManageableComponentShares(userId: string, componentId?: string): Promise<ComponentShareWithName[]>;
+  getComponentShareByToken(token: string): Promise<(ComponentShare & { component: Component }) | undefined>;
+  deleteComponentShare(id: number, userId: string): Promise<boolean>;
+
+  // Generation session operations
+  getSessionsByUserId(userId: string): Promise<GenerationSession[]>;
+  getSessionById(id: number, userId: string): Promise<GenerationSession | undefined>;
+  createSession(session: InsertGenerationSession): Promise<GenerationSession>;
+  deleteSession(id: number, userId: string): Promise<void>;
+  getSessionMessages(sessionId: number): Promise<GenerationMessage[]>;
+  addSessionMessages(sessionId: number, messages: Omit<InsertGenerationMessage, "sessionId">[]): Promise<GenerationMessage[]>;
+
+  // Theme operations
+  getThemesByUserId(userId: string): Promise<Theme[]>;
+  getThemeById(id: number, userId: string): Promise<Theme | undefined>;
+  getThemeByShareToken(shareToken: string): Promise<Theme | undefined>;
+  createTheme(theme: InsertTheme): Promise<Theme>;
+  updateTheme(id: number, userId: string, data: UpdateTheme): Promise<Theme>;
+  deleteTheme(id: number, userId: string): Promise<void>;
+  shareTheme(id: number, userId: string): Promise<Theme>;
+  unshareTheme(id: number, userId: string): Promise<Theme>;
+
+  // Usage operations
+  getUsageCounters(userId: string, period: string): Promise<UsageCounter[]>;
+  incrementUsage(userId: string, metric: UsageMetric, period: string, amount: number, limit: number | null): Promise<number | undefined>;
+  decrementUsage(userId: string, metric: UsageMetric, period: string, amount: number): Promise<void>;
+
+  // AI generation operations
+  createAIGeneration(generation: InsertAIGeneration): Promise<AIGeneration>;
+  getAIGenerationsByUserId(userId: string, limit: number): Promise<AIGeneration[]>;
+  getAIUsageReport(options: AIUsageReportOptions): Promise<AIUsageReportRow[]>;
+
+  // Rate limit operations
+  takeRateLimitToken(key: string, capacity: number, refillPerSecond: number): Promise<{ allowed: boolean; tokens: number }>;
+  deleteStaleRateLimitBuckets(maxAgeSeconds: number): Promise<void>;
+
+  // Stripe event operations
+  claimStripeEvent(id: string, type: string, payload: Record<string, unknown>): Promise<StripeEvent | undefined>;
+  claimRetryableStripeEvent(id: string): Promise<StripeEvent | undefined>;
+  completeStripeEvent(id: string, status: "processed" | "ignored"): Promise<void>;
+  failStripeEvent(id: string, error: string): Promise<void>;
+  getStripeEvents(status: StripeEventStatus | undefined, limit: number): Promise<StripeEvent[]>;
+  getStripeEventById(id: string): Promise<StripeEvent | undefined>;
+
+  // Workspace operations
+  createWorkspace(name: string, ownerId: string): Promise<Workspace>;
+  getWorkspaceById(id: number): Promise<Workspace | undefined>;
+  getWorkspaceByStripeCustomerId(stripeCustomerId: string): Promise<Workspace | undefined>;
+  getWorkspacesWithStripeCustomer(): Promise<Workspace[]>;
+  getWorkspacesByUserId(userId: string): Promise<WorkspaceWithRole[]>;
+  updateWorkspace(id: number, data: UpdateWorkspaceData): Promise<Workspace | undefined>;
+  deleteWorkspace(id: number): Promise<void>;
+  getWorkspaceMember(workspaceId: number, userId: string): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberDetails[]>;
+  updateWorkspaceMemberRole(workspaceId: number, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined>;
+  removeWorkspaceMember(workspaceId: number, userId: string): Promise<void>;
+
+  // Workspace invitation operations
+  createWorkspaceInvitation(invitation: CreateWorkspaceInvitationData): Promise<WorkspaceInvitation>;
+  getPendingWorkspaceInvitations(workspaceId: number): Promise<WorkspaceInvitation[]>;
+  getWorkspaceInvitationByToken(token: string): Promise<WorkspaceInvitation | undefined>;
+  deleteWorkspaceInvitation(id: number, workspaceId: number): Promise<void>;
+  acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: string): Promise<WorkspaceMember | undefined>;
 }
 
 export class PostgresStorage implements IStorage {
   private userStorage: UserStorage;
   private itemStorage: ItemStorage;
   private componentStorage: ComponentStorage;
+  private sessionStorage: SessionStorage;
+  private shareStorage: ShareStorage;
+  private themeStorage: ThemeStorage;
+  private usageStorage: UsageStorage;
+  private aiGenerationStorage: AIGenerationStorage;
+  private rateLimitStorage: RateLimitStorage;
+  private stripeEventStorage: StripeEventStorage;
+  private workspaceStorage: WorkspaceStorage;
 
   constructor() {
     this.userStorage = new UserStorage();
     this.itemStorage = new ItemStorage();
     this.componentStorage = new ComponentStorage();
+    this.sessionStorage = new SessionStorage();
+    this.shareStorage = new ShareStorage();
+    this.themeStorage = new ThemeStorage();
+    this.usageStorage = new UsageStorage();
+    this.aiGenerationStorage = new AIGenerationStorage();
+    this.rateLimitStorage = new RateLimitStorage();
+    this.stripeEventStorage = new StripeEventStorage();
+    this.workspaceStorage = new WorkspaceStorage();
   }
 
   // User operations
@@ -52,6 +166,14 @@ export class PostgresStorage implements IStorage {
     return this.userStorage.getUserByEmail(email);
   }
 
+  async getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined> {
+    return this.userStorage.getUserByStripeCustomerId(stripeCustomerId);
+  }
+
+  async getUsersWithStripeCustomer(): Promise<User[]> {
+    return this.userStorage.getUsersWithStripeCustomer();
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     return this.userStorage.createUser(user);
   }
@@ -69,8 +191,8 @@ export class PostgresStorage implements IStorage {
     return this.itemStorage.createItem(item);
   }
 
-  async deleteItem(id: number): Promise<void> {
-    return this.itemStorage.deleteItem(id);
+  async deleteItem(id: number, userId: string): Promise<void> {
+    return this.itemStorage.deleteItem(id, userId);
   }
 
   // Component operations
@@ -78,6 +200,10 @@ export class PostgresStorage implements IStorage {
     return this.componentStorage.getComponentsByUserId(userId);
   }
 
+  async getComponentsByWorkspaceId(workspaceId: number, userId: string): Promise<Component[]> {
+    return this.componentStorage.getComponentsByWorkspaceId(workspaceId, userId);
+  }
+
   async getComponentById(id: string, userId: string): Promise<Component | undefined> {
     return this.componentStorage.getComponentById(id, userId);
   }
@@ -97,7 +223,251 @@ export class PostgresStorage implements IStorage {
   async getComponentCount(userId: string): Promise<number> {
     return this.componentStorage.getComponentCount(userId);
   }
+
+  async getWorkspaceComponentCount(workspaceId: number): Promise<number> {
+    return this.componentStorage.getWorkspaceComponentCount(workspaceId);
+  }
+
+  async refreshTypeScriptCode(id: string, userId: string): Promise<Component | undefined> {
+    return this.componentStorage.refreshTypeScriptCode(id, userId);
+  }
+
+  // Gallery operations
+  async setComponentVisibility(id: string, userId: string, data: UpdateComponentVisibility): Promise<Component | undefined> {
+    return this.componentStorage.setComponentVisibility(id, userId, data);
+  }
+
+  async getGalleryComponents(query: GalleryQuery): Promise<{ components: GalleryComponent[]; total: number }> {
+    return this.componentStorage.getGalleryComponents(query);
+  }
+
+  async getGalleryTags(limit?: number): Promise<{ tag: string; count: number }[]> {
+    return this.componentStorage.getGalleryTags(limit);
+  }
+
+  async getPublishedComponent(id: string): Promise<PublishedComponent | undefined> {
+    return this.componentStorage.getPublishedComponent(id);
+  }
+
+  async forkComponent(sourceId: string, fork: InsertComponent): Promise<Component> {
+    return this.componentStorage.forkComponent(sourceId, fork);
+  }
+
+  // Component version operations
+  async getComponentVersions(componentId: string): Promise<ComponentVersion[]> {
+    return this.componentStorage.getComponentVersions(componentId);
+  }
+
+  async getComponentVersion(componentId: string, version: number): Promise<ComponentVersion | undefined> {
+    return this.componentStorage.getComponentVersion(componentId, version);
+  }
+
+  async restoreComponentVersion(componentId: string, userId: string, version: number): Promise<Component | undefined> {
+    return this.componentStorage.restoreComponentVersion(componentId, userId, version);
+  }
+
+  // Component share operations
+  async createComponentShare(data: CreateComponentShareData): Promise<ComponentShare> {
+    return this.shareStorage.createComponentShare(data);
+  }
+
+  async getManageableComponentShares(userId: string, componentId?: string): Promise<ComponentShareWithName[]> {
+    return this.shareStorage.getManageableComponentShares(userId, componentId);
+  }
+
+  async getComponentShareByToken(token: string): Promise<(ComponentShare & { component: Component }) | undefined> {
+    return this.shareStorage.getComponentShareByToken(token);
+  }
+
+  async deleteComponentShare(id: number, userId: string): Promise<boolean> {
+    return this.shareStorage.deleteComponentShare(id, userId);
+  }
+
+  // Generation session operations
+  async getSessionsByUserId(userId: string): Promise<GenerationSession[]> {
+    return this.sessionStorage.getSessionsByUserId(userId);
+  }
+
+  async getSessionById(id: number, userId: string): Promise<GenerationSession | undefined> {
+    return this.sessionStorage.getSessionById(id, userId);
+  }
+
+  async createSession(session: InsertGenerationSession): Promise<GenerationSession> {
+    return this.sessionStorage.createSession(session);
+  }
+
+  async deleteSession(id: number, userId: string): Promise<void> {
+    return this.sessionStorage.deleteSession(id, userId);
+  }
+
+  async getSessionMessages(sessionId: number): Promise<GenerationMessage[]> {
+    return this.sessionStorage.getSessionMessages(sessionId);
+  }
+
+  async addSessionMessages(sessionId: number, messages: Omit<InsertGenerationMessage, "sessionId">[]): Promise<GenerationMessage[]> {
+    return this.sessionStorage.addSessionMessages(sessionId, messages);
+  }
+
+  // Theme operations
+  async getThemesByUserId(userId: string): Promise<Theme[]> {
+    return this.themeStorage.getThemesByUserId(userId);
+  }
+
+  async getThemeById(id: number, userId: string): Promise<Theme | undefined> {
+    return this.themeStorage.getThemeById(id, userId);
+  }
+
+  async getThemeByShareToken(shareToken: string): Promise<Theme | undefined> {
+    return this.themeStorage.getThemeByShareToken(shareToken);
+  }
+
+  async createTheme(theme: InsertTheme): Promise<Theme> {
+    return this.themeStorage.createTheme(theme);
+  }
+
+  async updateTheme(id: number, userId: string, data: UpdateTheme): Promise<Theme> {
+    return this.themeStorage.updateTheme(id, userId, data);
+  }
+
+  async deleteTheme(id: number, userId: string): Promise<void> {
+    return this.themeStorage.deleteTheme(id, userId);
+  }
+
+  async shareTheme(id: number, userId: string): Promise<Theme> {
+    return this.themeStorage.shareTheme(id, userId);
+  }
+
+  async unshareTheme(id: number, userId: string): Promise<Theme> {
+    return this.themeStorage.unshareTheme(id, userId);
+  }
+
+  // Usage operations
+  async getUsageCounters(userId: string, period: string): Promise<UsageCounter[]> {
+    return this.usageStorage.getUsageCounters(userId, period);
+  }
+
+  async incrementUsage(userId: string, metric: UsageMetric, period: string, amount: number, limit: number | null): Promise<number | undefined> {
+    return this.usageStorage.incrementUsage(userId, metric, period, amount, limit);
+  }
+
+  async decrementUsage(userId: string, metric: UsageMetric, period: string, amount: number): Promise<void> {
+    return this.usageStorage.decrementUsage(userId, metric, period, amount);
+  }
+
+  // AI generation operations
+  async createAIGeneration(generation: InsertAIGeneration): Promise<AIGeneration> {
+    return this.aiGenerationStorage.createAIGeneration(generation);
+  }
+
+  async getAIGenerationsByUserId(userId: string, limit: number): Promise<AIGeneration[]> {
+    return this.aiGenerationStorage.getAIGenerationsByUserId(userId, limit);
+  }
+
+  async getAIUsageReport(options: AIUsageReportOptions): Promise<AIUsageReportRow[]> {
+    return this.aiGenerationStorage.getAIUsageReport(options);
+  }
+
+  // Rate limit operations
+  async takeRateLimitToken(key: string, capacity: number, refillPerSecond: number): Promise<{ allowed: boolean; tokens: number }> {
+    return this.rateLimitStorage.takeRateLimitToken(key, capacity, refillPerSecond);
+  }
+
+  async deleteStaleRateLimitBuckets(maxAgeSeconds: number): Promise<void> {
+    return this.rateLimitStorage.deleteStaleRateLimitBuckets(maxAgeSeconds);
+  }
+
+  // Stripe event operations
+  async claimStripeEvent(id: string, type: string, payload: Record<string, unknown>): Promise<StripeEvent | undefined> {
+    return this.stripeEventStorage.claimStripeEvent(id, type, payload);
+  }
+
+  async claimRetryableStripeEvent(id: string): Promise<StripeEvent | undefined> {
+    return this.stripeEventStorage.claimRetryableStripeEvent(id);
+  }
+
+  async completeStripeEvent(id: string, status: "processed" | "ignored"): Promise<void> {
+    return this.stripeEventStorage.completeStripeEvent(id, status);
+  }
+
+  async failStripeEvent(id: string, error: string): Promise<void> {
+    return this.stripeEventStorage.failStripeEvent(id, error);
+  }
+
+  async getStripeEvents(status: StripeEventStatus | undefined, limit: number): Promise<StripeEvent[]> {
+    return this.stripeEventStorage.getStripeEvents(status, limit);
+  }
+
+  async getStripeEventById(id: string): Promise<StripeEvent | undefined> {
+    return this.stripeEventStorage.getStripeEventById(id);
+  }
+
+  // Workspace operations
+  async createWorkspace(name: string, ownerId: string): Promise<Workspace> {
+    return this.workspaceStorage.createWorkspace(name, ownerId);
+  }
+
+  async getWorkspaceById(id: number): Promise<Workspace | undefined> {
+    return this.workspaceStorage.getWorkspaceById(id);
+  }
+
+  async getWorkspaceByStripeCustomerId(stripeCustomerId: string): Promise<Workspace | undefined> {
+    return this.workspaceStorage.getWorkspaceByStripeCustomerId(stripeCustomerId);
+  }
+
+  async getWorkspacesWithStripeCustomer(): Promise<Workspace[]> {
+    return this.workspaceStorage.getWorkspacesWithStripeCustomer();
+  }
+
+  async getWorkspacesByUserId(userId: string): Promise<WorkspaceWithRole[]> {
+    return this.workspaceStorage.getWorkspacesByUserId(userId);
+  }
+
+  async updateWorkspace(id: number, data: UpdateWorkspaceData): Promise<Workspace | undefined> {
+    return this.workspaceStorage.updateWorkspace(id, data);
+  }
+
+  async deleteWorkspace(id: number): Promise<void> {
+    return this.workspaceStorage.deleteWorkspace(id);
+  }
+
+  async getWorkspaceMember(workspaceId: number, userId: string): Promise<WorkspaceMember | undefined> {
+    return this.workspaceStorage.getWorkspaceMember(workspaceId, userId);
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberDetails[]> {
+    return this.workspaceStorage.getWorkspaceMembers(workspaceId);
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: number, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined> {
+    return this.workspaceStorage.updateWorkspaceMemberRole(workspaceId, userId, role);
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: string): Promise<void> {
+    return this.workspaceStorage.removeWorkspaceMember(workspaceId, userId);
+  }
+
+  // Workspace invitation operations
+  async createWorkspaceInvitation(invitation: CreateWorkspaceInvitationData): Promise<WorkspaceInvitation> {
+    return this.workspaceStorage.createWorkspaceInvitation(invitation);
+  }
+
+  async getPendingWorkspaceInvitations(workspaceId: number): Promise<WorkspaceInvitation[]> {
+    return this.workspaceStorage.getPendingWorkspaceInvitations(workspaceId);
+  }
+
+  async getWorkspaceInvitationByToken(token: string): Promise<WorkspaceInvitation | undefined> {
+    return this.workspaceStorage.getWorkspaceInvitationByToken(token);
+  }
+
+  async deleteWorkspaceInvitation(id: number, workspaceId: number): Promise<void> {
+    return this.workspaceStorage.deleteWorkspaceInvitation(id, workspaceId);
+  }
+
+  async acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: string): Promise<WorkspaceMember | undefined> {
+    return this.workspaceStorage.acceptWorkspaceInvitation(invitation, userId);
+  }
 }
 
 export const storage = new PostgresStorage();
-export { UpdateUserData };
\ No newline at end of file
+export { UpdateUserData };
+export type { ComponentShareWithName, GalleryComponent, PublishedComponent, CreateComponentShareData, UpdateWorkspaceData, WorkspaceMemberDetails, WorkspaceWithRole };
\ No newline at end of file
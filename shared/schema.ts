@@ -1,15 +1,52 @@
-import { pgTable, text, serial, boolean, timestamp, integer } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, boolean, timestamp, integer, jsonb, uniqueIndex, index, doublePrecision } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { themeConfigSchema, type ThemeConfig } from "./themes";
 
 export const SubscriptionType = {
   FREE: "free",
-  PRO: "pro"
+  PRO: "pro",
+  TEAM: "team"
 } as const;
 
 export type SubscriptionType = typeof SubscriptionType[keyof typeof SubscriptionType];
 
+// Output targets for generated components. Non-React components are plain
+// source files (Vue SFC, Svelte component or static HTML) styled with Tailwind.
+export const FRAMEWORKS = ["react", "vue", "svelte", "html"] as const;
+
+export type Framework = typeof FRAMEWORKS[number];
+
+// Who can see a component outside its library. Unlisted components can be
+// viewed and forked by anyone with their id; public ones are also listed in
+// the gallery.
+export const COMPONENT_VISIBILITIES = ["private", "unlisted", "public"] as const;
+
+export type ComponentVisibility = typeof COMPONENT_VISIBILITIES[number];
+
+// Usage that is metered per day and capped by the user's plan
+export const USAGE_METRICS = ["generations", "image_uploads"] as const;
+
+export type UsageMetric = typeof USAGE_METRICS[number];
+
+// Kinds of AI requests recorded in ai_generations
+export const AI_OPERATIONS = ["generate", "stream", "variant", "convert"] as const;
+
+export type AIOperation = typeof AI_OPERATIONS[number];
+
+// Processing states of a received Stripe webhook event. "ignored" events have
+// no handler; "processing" ones are being handled (or were when a process died).
+export const STRIPE_EVENT_STATUSES = ["processing", "processed", "ignored", "failed"] as const;
+
+export type StripeEventStatus = typeof STRIPE_EVENT_STATUSES[number];
+
+// Roles of workspace members. Owners manage members and billing, editors
+// create and change components, viewers can only read them.
+export const WORKSPACE_ROLES = ["owner", "editor", "viewer"] as const;
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
 export const users = pgTable("users", {
   firebaseId: text("firebase_id").primaryKey(),
   email: text("email").notNull(),
@@ -20,9 +57,60 @@ export const users = pgTable("users", {
   state: text("state").notNull().default(""),
   postalCode: text("postal_code").notNull().default(""),
   isPremium: boolean("is_premium").notNull().default(false),
-  subscriptionType: text("subscription_type", { enum: ["free", "pro"] }).notNull().default("free"),
+  subscriptionType: text("subscription_type", { enum: ["free", "pro", "team"] }).notNull().default("free"),
   emailNotifications: boolean("email_notifications").notNull().default(false),
   stripeCustomerId: text("stripe_customer_id"),
+  // Mirror of the user's Stripe subscription, written by the webhook and the
+  // reconcile script. subscriptionType is derived from it (see shared/subscriptions.ts).
+  stripeSubscriptionId: text("stripe_subscription_id"),
+  subscriptionStatus: text("subscription_status"), // Stripe's status: active, trialing, past_due, canceled, ...
+  currentPeriodEnd: timestamp("current_period_end"),
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").notNull().default(false),
+  trialEnd: timestamp("trial_end"),
+  pastDueSince: timestamp("past_due_since"), // Start of the grace period while past_due
+});
+
+// A shared component library. Its subscription fields mirror a Stripe
+// subscription billed to the workspace's own customer, like those on users.
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  ownerId: text("owner_id").notNull().references(() => users.firebaseId),
+  subscriptionType: text("subscription_type", { enum: ["free", "pro", "team"] }).notNull().default("free"),
+  stripeCustomerId: text("stripe_customer_id"),
+  stripeSubscriptionId: text("stripe_subscription_id"),
+  subscriptionStatus: text("subscription_status"),
+  currentPeriodEnd: timestamp("current_period_end"),
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").notNull().default(false),
+  trialEnd: timestamp("trial_end"),
+  pastDueSince: timestamp("past_due_since"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => users.firebaseId),
+  role: text("role", { enum: WORKSPACE_ROLES }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  workspaceUserIdx: uniqueIndex("workspace_members_workspace_user_idx").on(table.workspaceId, table.userId),
+  userIdx: index("workspace_members_user_idx").on(table.userId),
+}));
+
+// Pending until accepted through the tokenized link by a user signed in with
+// the invited email address
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: text("role", { enum: WORKSPACE_ROLES }).notNull(),
+  token: text("token").notNull().unique(),
+  invitedBy: text("invited_by").notNull().references(() => users.firebaseId),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
 });
 
 export const items = pgTable("items", {
@@ -36,17 +124,194 @@ export const components = pgTable("components", {
   name: text("name").notNull(),
   description: text("description").notNull(),
   code: text("code").notNull(),
+  typescriptCode: text("typescript_code"), // Typed .tsx version derived from code on every write (React only)
+  framework: text("framework", { enum: FRAMEWORKS }).notNull().default("react"),
+  // Set on components converted from another one, pointing at the original
+  sourceComponentId: text("source_component_id"),
   prompt: text("prompt").notNull(),
   screenshot: text("screenshot"), // URL string for the screenshot
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   version: integer("version").notNull().default(1),
   userId: text("user_id").notNull().references(() => users.firebaseId),
+  // Components in a workspace are shared with its members; without one they
+  // are in the personal library of userId (their creator)
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
+  visibility: text("visibility", { enum: COMPONENT_VISIBILITIES }).notNull().default("private"),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`), // Gallery filters, lowercase
+  publishedAt: timestamp("published_at"), // First made public; the gallery's "new" sort
+  // Set on forks of a gallery component, pointing at the original
+  forkedFrom: text("forked_from"),
+  forkCount: integer("fork_count").notNull().default(0), // The gallery's "popular" sort
+}, (table) => ({
+  visibilityPublishedIdx: index("components_visibility_published_idx").on(table.visibility, table.publishedAt),
+}));
+
+// Snapshot of a component written every time it is created or updated
+export const componentVersions = pgTable("component_versions", {
+  id: serial("id").primaryKey(),
+  componentId: text("component_id").notNull().references(() => components.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  code: text("code").notNull(),
+  prompt: text("prompt").notNull(),
+  screenshot: text("screenshot"),
+  authorId: text("author_id").notNull().references(() => users.firebaseId),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  componentVersionIdx: uniqueIndex("component_versions_component_version_idx").on(table.componentId, table.version),
+}));
+
+// Public links to a component's preview. Anyone with the token can view the
+// component's current code until the link expires or is revoked (deleted).
+export const componentShares = pgTable("component_shares", {
+  id: serial("id").primaryKey(),
+  componentId: text("component_id").notNull().references(() => components.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => users.firebaseId), // Who created the link
+  token: text("token").notNull().unique(),
+  passwordHash: text("password_hash"), // scrypt "salt:hash", null for links without a password
+  theme: jsonb("theme").$type<ThemeConfig>(), // Theme the preview renders with, the default theme when null
+  expiresAt: timestamp("expires_at"), // null for links that never expire
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  componentIdx: index("component_shares_component_idx").on(table.componentId),
+  userIdx: index("component_shares_user_idx").on(table.userId),
+}));
+
+// A conversation in the generator; each turn is a generation_messages row
+export const generationSessions = pgTable("generation_sessions", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.firebaseId),
+  title: text("title").notNull(),
+  // Latest component produced in the session, follow-up prompts edit it
+  componentId: text("component_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const generationMessages = pgTable("generation_messages", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => generationSessions.id, { onDelete: "cascade" }),
+  role: text("role", { enum: ["user", "assistant"] }).notNull(),
+  content: text("content").notNull(),
+  // Assistant turns that produced a component keep its code as model context
+  code: text("code"),
+  componentId: text("component_id"),
+  componentName: text("component_name"),
+  model: text("model"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// User-defined themes. The token groups mirror ThemeConfig and are validated
+// by themeConfigSchema before they are stored.
+export const themes = pgTable("themes", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.firebaseId),
+  name: text("name").notNull(),
+  colors: jsonb("colors").$type<ThemeConfig["colors"]>().notNull(),
+  typography: jsonb("typography").$type<ThemeConfig["typography"]>().notNull(),
+  spacing: jsonb("spacing").$type<ThemeConfig["spacing"]>().notNull(),
+  // Set while the theme is shared; anyone with the token can view and copy it
+  shareToken: text("share_token").unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One row per user, metric and period (a UTC day such as "2026-10-19")
+export const usageCounters = pgTable("usage_counters", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.firebaseId),
+  metric: text("metric", { enum: USAGE_METRICS }).notNull(),
+  period: text("period").notNull(),
+  count: integer("count").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  userMetricPeriodIdx: uniqueIndex("usage_counters_user_metric_period_idx").on(table.userId, table.metric, table.period),
+}));
+
+// One row per generation (each variant and conversion is its own row) with
+// the tokens and cost of every model call it took, including repairs and retries
+export const aiGenerations = pgTable("ai_generations", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.firebaseId),
+  operation: text("operation", { enum: AI_OPERATIONS }).notNull(),
+  // Model that served the generation, or the last one tried when it failed
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  costUsd: doublePrecision("cost_usd").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull(),
+  hadImage: boolean("had_image").notNull().default(false),
+  status: text("status", { enum: ["success", "error"] }).notNull(),
+  errorClass: text("error_class"), // AttemptErrorClass or "cancelled", set on failures
+  attempts: integer("attempts").notNull().default(1),
+  componentId: text("component_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  userCreatedIdx: index("ai_generations_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+// Token buckets of the Postgres rate limit store, one per rule and user or IP
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  tokens: doublePrecision("tokens").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Every Stripe webhook event received, keyed by Stripe's event id so retried
+// deliveries are recognised. The payload is kept for auditing and retries.
+export const stripeEvents = pgTable("stripe_events", {
+  id: text("id").primaryKey(),
+  type: text("type").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status", { enum: STRIPE_EVENT_STATUSES }).notNull().default("processing"),
+  error: text("error"), // Message of the last failure
+  attempts: integer("attempts").notNull().default(1),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  processedAt: timestamp("processed_at"),
+}, (table) => ({
+  statusReceivedIdx: index("stripe_events_status_received_idx").on(table.status, table.receivedAt),
+}));
+
 export const usersRelations = relations(users, ({ many }) => ({
   items: many(items),
   components: many(components),
+  generationSessions: many(generationSessions),
+  themes: many(themes),
+  usageCounters: many(usageCounters),
+  aiGenerations: many(aiGenerations),
+  workspaceMemberships: many(workspaceMembers),
+}));
+
+export const workspacesRelations = relations(workspaces, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [workspaces.ownerId],
+    references: [users.firebaseId],
+  }),
+  members: many(workspaceMembers),
+  invitations: many(workspaceInvitations),
+  components: many(components),
+}));
+
+export const workspaceMembersRelations = relations(workspaceMembers, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [workspaceMembers.workspaceId],
+    references: [workspaces.id],
+  }),
+  user: one(users, {
+    fields: [workspaceMembers.userId],
+    references: [users.firebaseId],
+  }),
+}));
+
+export const workspaceInvitationsRelations = relations(workspaceInvitations, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [workspaceInvitations.workspaceId],
+    references: [workspaces.id],
+  }),
 }));
 
 export const itemsRelations = relations(items, ({ one }) => ({
@@ -56,11 +321,75 @@ export const itemsRelations = relations(items, ({ one }) => ({
   }),
 }));
 
-export const componentsRelations = relations(components, ({ one }) => ({
+export const componentsRelations = relations(components, ({ one, many }) => ({
   user: one(users, {
     fields: [components.userId],
     references: [users.firebaseId],
   }),
+  workspace: one(workspaces, {
+    fields: [components.workspaceId],
+    references: [workspaces.id],
+  }),
+  versions: many(componentVersions),
+  shares: many(componentShares),
+}));
+
+export const componentSharesRelations = relations(componentShares, ({ one }) => ({
+  component: one(components, {
+    fields: [componentShares.componentId],
+    references: [components.id],
+  }),
+  user: one(users, {
+    fields: [componentShares.userId],
+    references: [users.firebaseId],
+  }),
+}));
+
+export const componentVersionsRelations = relations(componentVersions, ({ one }) => ({
+  component: one(components, {
+    fields: [componentVersions.componentId],
+    references: [components.id],
+  }),
+  author: one(users, {
+    fields: [componentVersions.authorId],
+    references: [users.firebaseId],
+  }),
+}));
+
+export const generationSessionsRelations = relations(generationSessions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [generationSessions.userId],
+    references: [users.firebaseId],
+  }),
+  messages: many(generationMessages),
+}));
+
+export const generationMessagesRelations = relations(generationMessages, ({ one }) => ({
+  session: one(generationSessions, {
+    fields: [generationMessages.sessionId],
+    references: [generationSessions.id],
+  }),
+}));
+
+export const themesRelations = relations(themes, ({ one }) => ({
+  user: one(users, {
+    fields: [themes.userId],
+    references: [users.firebaseId],
+  }),
+}));
+
+export const usageCountersRelations = relations(usageCounters, ({ one }) => ({
+  user: one(users, {
+    fields: [usageCounters.userId],
+    references: [users.firebaseId],
+  }),
+}));
+
+export const aiGenerationsRelations = relations(aiGenerations, ({ one }) => ({
+  user: one(users, {
+    fields: [aiGenerations.userId],
+    references: [users.firebaseId],
+  }),
 }));
 
 export const insertUserSchema = createInsertSchema(users, {
@@ -73,8 +402,24 @@ export const insertUserSchema = createInsertSchema(users, {
   state: z.string().default(""),
   postalCode: z.string().default(""),
   isPremium: z.boolean().default(false),
-  subscriptionType: z.enum(["free", "pro"]).default("free"),
+  subscriptionType: z.enum(["free", "pro", "team"]).default("free"),
   emailNotifications: z.boolean().default(false),
+}).omit({
+  // Only ever set from Stripe
+  stripeSubscriptionId: true,
+  subscriptionStatus: true,
+  currentPeriodEnd: true,
+  cancelAtPeriodEnd: true,
+  trialEnd: true,
+  pastDueSince: true,
+});
+
+// What a client may send when signing up. The plan and Stripe customer are
+// only ever set by the server.
+export const signUpUserSchema = insertUserSchema.omit({
+  subscriptionType: true,
+  isPremium: true,
+  stripeCustomerId: true,
 });
 
 export const insertItemSchema = createInsertSchema(items, {
@@ -90,8 +435,16 @@ export const insertComponentSchema = createInsertSchema(components, {
   prompt: z.string().min(1, "Component prompt is required"),
   screenshot: z.string().optional(),
   version: z.number().int().positive().default(1),
+  framework: z.enum(FRAMEWORKS).default("react"),
+  sourceComponentId: z.string().nullish(),
   userId: z.string(),
-});
+  workspaceId: z.number().int().positive().nullish(),
+  forkedFrom: z.string().nullish(),
+}).omit({ typescriptCode: true, visibility: true, tags: true, publishedAt: true, forkCount: true });
+
+// What a client may send to create a component. Conversion and fork links are
+// only set by the server, so nobody can claim another component as a source.
+export const createComponentSchema = insertComponentSchema.omit({ sourceComponentId: true, forkedFrom: true });
 
 export const updateComponentSchema = createInsertSchema(components, {
   name: z.string().min(1, "Component name is required").optional(),
@@ -100,7 +453,58 @@ export const updateComponentSchema = createInsertSchema(components, {
   prompt: z.string().min(1, "Component prompt is required").optional(),
   screenshot: z.string().optional(),
   version: z.number().int().positive().optional(),
-}).omit({ id: true, userId: true, createdAt: true });
+}).omit({ id: true, userId: true, createdAt: true, typescriptCode: true, framework: true, sourceComponentId: true, workspaceId: true, visibility: true, tags: true, publishedAt: true, forkedFrom: true, forkCount: true });
+
+export const GALLERY_TAG_LIMIT = 5;
+
+// Tags are lowercased and deduplicated
+export const updateComponentVisibilitySchema = z.object({
+  visibility: z.enum(COMPONENT_VISIBILITIES),
+  tags: z.array(
+    z.string().trim().toLowerCase().min(1).max(30).regex(/^[a-z0-9][a-z0-9-]*$/, "Tags may only contain letters, numbers and dashes"),
+  ).max(GALLERY_TAG_LIMIT).transform(tags => Array.from(new Set(tags))).optional(),
+});
+
+export const insertGenerationSessionSchema = createInsertSchema(generationSessions, {
+  title: z.string().trim().min(1).max(200).default("New session"),
+  userId: z.string(),
+}).omit({ id: true, componentId: true, createdAt: true, updatedAt: true });
+
+export const insertGenerationMessageSchema = createInsertSchema(generationMessages, {
+  role: z.enum(["user", "assistant"]),
+  content: z.string().min(1, "Message content is required"),
+  code: z.string().optional(),
+  componentId: z.string().optional(),
+  componentName: z.string().optional(),
+  model: z.string().optional(),
+  sessionId: z.number().int().positive(),
+}).omit({ id: true, createdAt: true });
+
+export const insertThemeSchema = createInsertSchema(themes, {
+  name: themeConfigSchema.shape.name,
+  colors: themeConfigSchema.shape.colors,
+  typography: themeConfigSchema.shape.typography,
+  spacing: themeConfigSchema.shape.spacing,
+  userId: z.string(),
+}).omit({ id: true, shareToken: true, createdAt: true, updatedAt: true });
+
+export const updateThemeSchema = insertThemeSchema.omit({ userId: true }).partial();
+
+export const insertWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, "Workspace name is required").max(100),
+});
+
+export const insertComponentShareSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).optional(), // Never expires when omitted
+  password: z.string().min(4, "Password must be at least 4 characters").max(100).optional(),
+  theme: themeConfigSchema.optional(),
+});
+
+// Owners are made by creating a workspace, never by invitation
+export const insertWorkspaceInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(["editor", "viewer"]).default("editor"),
+});
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -109,3 +513,21 @@ export type Item = typeof items.$inferSelect;
 export type InsertComponent = z.infer<typeof insertComponentSchema>;
 export type UpdateComponent = z.infer<typeof updateComponentSchema>;
 export type Component = typeof components.$inferSelect;
+export type UpdateComponentVisibility = z.infer<typeof updateComponentVisibilitySchema>;
+export type ComponentVersion = typeof componentVersions.$inferSelect;
+export type InsertComponentShare = z.infer<typeof insertComponentShareSchema>;
+export type ComponentShare = typeof componentShares.$inferSelect;
+export type InsertGenerationSession = z.infer<typeof insertGenerationSessionSchema>;
+export type GenerationSession = typeof generationSessions.$inferSelect;
+export type InsertGenerationMessage = z.infer<typeof insertGenerationMessageSchema>;
+export type GenerationMessage = typeof generationMessages.$inferSelect;
+export type InsertTheme = z.infer<typeof insertThemeSchema>;
+export type UpdateTheme = z.infer<typeof updateThemeSchema>;
+export type Theme = typeof themes.$inferSelect;
+export type UsageCounter = typeof usageCounters.$inferSelect;
+export type AIGeneration = typeof aiGenerations.$inferSelect;
+export type InsertAIGeneration = typeof aiGenerations.$inferInsert;
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
@@ -0,0 +1,53 @@
+import type { SubscriptionType, User } from "./schema";
+
+// Days a past_due subscription keeps Pro while Stripe retries the payment
+export const PAST_DUE_GRACE_DAYS = 7;
+
+type SubscriptionFields = Pick<
+  User,
+  "subscriptionType" | "subscriptionStatus" | "currentPeriodEnd" | "cancelAtPeriodEnd" | "trialEnd" | "pastDueSince"
+>;
+
+// Dates arrive as ISO strings once a user has been sent as JSON
+export type SubscriptionInfo = {
+  [K in keyof SubscriptionFields]?: SubscriptionFields[K] extends Date | null ? Date | string | null : SubscriptionFields[K];
+};
+
+// "canceling" keeps the paid plan until periodEnd; "past_due" keeps it until
+// graceEnd, after which the subscription has "lapsed"
+export type SubscriptionState = "free" | "active" | "trialing" | "canceling" | "past_due" | "lapsed";
+
+export interface SubscriptionSummary {
+  state: SubscriptionState;
+  plan: SubscriptionType; // The plan the user gets right now
+  periodEnd: Date | null; // Renewal date, or the end of a canceling subscription
+  trialEnd: Date | null;
+  graceEnd: Date | null;
+}
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+export function getGraceEnd(pastDueSince: Date): Date {
+  return new Date(pastDueSince.getTime() + PAST_DUE_GRACE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// What the user's subscription means right now. Users on a paid plan without
+// a Stripe subscription (e.g. set by hand) are treated as active.
+export function summarizeSubscription(user: SubscriptionInfo | undefined, now = new Date()): SubscriptionSummary {
+  const pastDueSince = toDate(user?.pastDueSince);
+  const graceEnd = user?.subscriptionStatus === "past_due" && pastDueSince ? getGraceEnd(pastDueSince) : null;
+  const summary = { periodEnd: toDate(user?.currentPeriodEnd), trialEnd: toDate(user?.trialEnd), graceEnd };
+
+  if (user?.subscriptionStatus === "past_due") {
+    const inGrace = !graceEnd || graceEnd > now;
+    return { ...summary, state: inGrace ? "past_due" : "lapsed", plan: inGrace ? user.subscriptionType ?? "free" : "free" };
+  }
+  if (!user?.subscriptionType || user.subscriptionType === "free") {
+    return { ...summary, state: "free", plan: "free" };
+  }
+
+  const state = user.subscriptionStatus === "trialing" ? "trialing" : user.cancelAtPeriodEnd ? "canceling" : "active";
+  return { ...summary, state, plan: user.subscriptionType };
+}
@@ -0,0 +1,148 @@
+import { z } from "zod";
+
+// Values end up in CSS and in the model prompt, so only plain colors,
+// lengths and font stacks are accepted
+const colorSchema = z.string().regex(/^(#[0-9a-fA-F]{3,8}|(rgb|hsl)a?\([\d\s.,%]+\))$/, "Invalid color");
+const lengthSchema = z.string().regex(/^\d+(\.\d+)?(px|rem|em)$/, "Invalid CSS length");
+
+export const themeConfigSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().trim().min(1).max(100),
+  colors: z.object({
+    primary: colorSchema,
+    secondary: colorSchema,
+    background: colorSchema,
+    text: colorSchema,
+    accent: colorSchema,
+  }),
+  typography: z.object({
+    fontFamily: z.string().min(1).max(200).regex(/^[\w\s,"'-]+$/, "Invalid font family"),
+    fontSize: lengthSchema,
+    fontWeight: z.string().regex(/^([1-9]00|normal|bold)$/, "Invalid font weight"),
+  }),
+  spacing: z.object({
+    base: lengthSchema,
+    scale: z.array(z.number().nonnegative()).max(32),
+  }),
+});
+
+export type ThemeConfig = z.infer<typeof themeConfigSchema>;
+
+const DEFAULT_TYPOGRAPHY = {
+  fontFamily: "Inter, system-ui, sans-serif",
+  fontSize: "14px",
+  fontWeight: "400",
+};
+
+const DEFAULT_SPACING = {
+  base: "8px",
+  scale: [0, 4, 8, 12, 16, 20, 24, 32, 40, 48, 64],
+};
+
+export const predefinedThemes: ThemeConfig[] = [
+  {
+    id: "default",
+    name: "Default",
+    colors: {
+      primary: "#3b82f6",
+      secondary: "#8b5cf6",
+      background: "#f8fafc",
+      text: "#1e293b",
+      accent: "#10b981",
+    },
+    typography: DEFAULT_TYPOGRAPHY,
+    spacing: DEFAULT_SPACING,
+  },
+  {
+    id: "dark",
+    name: "Dark",
+    colors: {
+      primary: "#60a5fa",
+      secondary: "#a78bfa",
+      background: "#0f172a",
+      text: "#f1f5f9",
+      accent: "#34d399",
+    },
+    typography: DEFAULT_TYPOGRAPHY,
+    spacing: DEFAULT_SPACING,
+  },
+  {
+    id: "warm",
+    name: "Warm",
+    colors: {
+      primary: "#f59e0b",
+      secondary: "#ef4444",
+      background: "#fef7ed",
+      text: "#92400e",
+      accent: "#10b981",
+    },
+    typography: DEFAULT_TYPOGRAPHY,
+    spacing: DEFAULT_SPACING,
+  },
+  {
+    id: "cool",
+    name: "Cool",
+    colors: {
+      primary: "#0891b2",
+      secondary: "#7c3aed",
+      background: "#f0f9ff",
+      text: "#0c4a6e",
+      accent: "#059669",
+    },
+    typography: DEFAULT_TYPOGRAPHY,
+    spacing: DEFAULT_SPACING,
+  },
+];
+
+export const DEFAULT_THEME = predefinedThemes[0];
+
+// Stored themes get a prefixed id so they never collide with predefined ones
+export const CUSTOM_THEME_PREFIX = "custom-";
+
+export function toThemeConfig(theme: { id: number } & Omit<ThemeConfig, "id">): ThemeConfig {
+  return {
+    id: `${CUSTOM_THEME_PREFIX}${theme.id}`,
+    name: theme.name,
+    colors: theme.colors,
+    typography: theme.typography,
+    spacing: theme.spacing,
+  };
+}
+
+// Theme color -> Tailwind color name. `text` becomes `foreground` so the
+// classes read `text-foreground` rather than `text-text`.
+export const THEME_COLOR_TOKENS = {
+  primary: "primary",
+  secondary: "secondary",
+  accent: "accent",
+  background: "background",
+  text: "foreground",
+} as const;
+
+// Design tokens as CSS custom properties. Components only reference the
+// variables, so changing them re-skins a component without regenerating it.
+export function getThemeVariables(theme: ThemeConfig): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const [key, token] of Object.entries(THEME_COLOR_TOKENS)) {
+    variables[`--color-${token}`] = theme.colors[key as keyof typeof THEME_COLOR_TOKENS];
+  }
+  variables["--font-family"] = theme.typography.fontFamily;
+  variables["--font-size-base"] = theme.typography.fontSize;
+  variables["--font-weight-base"] = theme.typography.fontWeight;
+  variables["--spacing-base"] = theme.spacing.base;
+  return variables;
+}
+
+export function buildThemeCss(theme: ThemeConfig): string {
+  const declarations = Object.entries(getThemeVariables(theme)).map(([name, value]) => `  ${name}: ${value};`);
+  return `:root {\n${declarations.join("\n")}\n}\n`;
+}
+
+// `theme.extend` for a Tailwind config. It only points at the variables, so
+// one config serves every theme: `bg-primary`, `text-foreground`,
+// `font-sans`, `p-base`.
+export const THEME_TAILWIND_EXTENSION = {
+  colors: Object.fromEntries(Object.values(THEME_COLOR_TOKENS).map(token => [token, `var(--color-${token})`])),
+  fontFamily: { sans: ["var(--font-family)"] },
+  spacing: { base: "var(--spacing-base)" },
+};